@@ -0,0 +1,135 @@
+import type {
+  ApiError,
+  BatchCreated,
+  BatchStatus,
+  ReportFormat,
+  ScanCreated,
+  ScanSubmission,
+  SessionState
+} from './types.ts';
+
+/**
+ * Non-2xx response from the API, carrying its error envelope
+ */
+export class ApiRequestError extends Error {
+  readonly status: number;
+  readonly error: ApiError;
+
+  constructor(status: number, error: ApiError) {
+    super(error.message);
+    this.name = 'ApiRequestError';
+    this.status = status;
+    this.error = error;
+  }
+}
+
+function isApiError(body: unknown): body is ApiError {
+  return typeof body === 'object' && body !== null &&
+    typeof (body as ApiError).code === 'string' && typeof (body as ApiError).message === 'string';
+}
+
+/**
+ * Responses that never reached the Worker (e.g. a proxy error page) get a
+ * generic envelope naming the HTTP status
+ */
+async function readApiError(response: Response): Promise<ApiRequestError> {
+  const body = await response.json().catch(() => null);
+  const error: ApiError = isApiError(body)
+    ? body
+    : {
+        code: 'INTERNAL_ERROR',
+        title: 'Unexpected Response',
+        message: `${response.status} ${response.statusText}`.trim(),
+        retryable: response.status >= 500
+      };
+  return new ApiRequestError(response.status, error);
+}
+
+export interface ClientConfig {
+  // Base URL of the deployment, e.g. https://radar-scan.example.com
+  server: string;
+  apiKey?: string;
+}
+
+/**
+ * Thin wrapper over the HTTP API, authenticated with an API key
+ */
+export class RadarScanClient {
+  private readonly server: URL;
+  private readonly apiKey?: string;
+
+  constructor(config: ClientConfig) {
+    this.server = new URL(config.server);
+    this.apiKey = config.apiKey;
+  }
+
+  authHeaders(): Record<string, string> {
+    return this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+  }
+
+  /**
+   * ws:// or wss:// URL of a session's live updates
+   */
+  webSocketUrl(sessionId: string): string {
+    const url = new URL(`/ws/${encodeURIComponent(sessionId)}`, this.server);
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+    return url.toString();
+  }
+
+  private async send(method: string, path: string, body?: unknown): Promise<Response> {
+    const headers: Record<string, string> = { ...this.authHeaders() };
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    const response = await fetch(new URL(path, this.server), {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      throw await readApiError(response);
+    }
+    return response;
+  }
+
+  private async json<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await this.send(method, path, body);
+    return response.json() as Promise<T>;
+  }
+
+  private async bytes(path: string): Promise<Uint8Array> {
+    const response = await this.send('GET', path);
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  createScan(url: string, submission: ScanSubmission): Promise<ScanCreated> {
+    return this.json('POST', '/api/scan', { url, ...submission });
+  }
+
+  createBatch(urls: string[], submission: ScanSubmission): Promise<BatchCreated> {
+    return this.json('POST', '/api/scans/batch', { urls, ...submission });
+  }
+
+  getSession(sessionId: string): Promise<SessionState> {
+    return this.json('GET', `/api/session/${encodeURIComponent(sessionId)}`);
+  }
+
+  getBatch(batchId: string): Promise<BatchStatus> {
+    return this.json('GET', `/api/batch/${encodeURIComponent(batchId)}`);
+  }
+
+  sendEmail(sessionId: string, email: string): Promise<{ success: boolean; message?: string }> {
+    return this.json('POST', `/api/email/${encodeURIComponent(sessionId)}`, { email });
+  }
+
+  downloadReport(sessionId: string, format: ReportFormat): Promise<Uint8Array> {
+    const id = encodeURIComponent(sessionId);
+    return this.bytes(format === 'pdf' ? `/api/download/${id}` : `/api/report/${id}.json`);
+  }
+
+  downloadBatchReport(batchId: string): Promise<Uint8Array> {
+    return this.bytes(`/api/batch/${encodeURIComponent(batchId)}/report`);
+  }
+}
@@ -0,0 +1,196 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import type { RadarScanClient } from './client.ts';
+import { followBatch, followSession, isFinished } from './follow.ts';
+import type { BatchStatus, ReportFormat, ScanSubmission, SessionState } from './types.ts';
+
+/**
+ * Exit codes, so scripts can branch on the verdict:
+ * 0 no threat found, 1 malicious, 2 scan failed or request error,
+ * 3 still running (status of an unfinished scan), 64 bad usage
+ */
+export const EXIT_SAFE = 0;
+export const EXIT_MALICIOUS = 1;
+export const EXIT_FAILED = 2;
+export const EXIT_PENDING = 3;
+export const EXIT_USAGE = 64;
+
+export interface OutputOptions {
+  // Print the final record as JSON on stdout instead of a summary line
+  json: boolean;
+}
+
+export interface ScanCommandOptions extends OutputOptions {
+  submission: ScanSubmission;
+  follow: boolean;
+  download: boolean;
+  format: ReportFormat;
+  output?: string;
+}
+
+// Progress goes to stderr so stdout stays parseable
+function progress(line: string): void {
+  process.stderr.write(`${line}\n`);
+}
+
+function exitCodeFor(session: SessionState): number {
+  if (session.status !== 'completed') {
+    return isFinished(session.status) ? EXIT_FAILED : EXIT_PENDING;
+  }
+  return session.malicious ? EXIT_MALICIOUS : EXIT_SAFE;
+}
+
+function describeSession(session: SessionState): string {
+  if (session.status === 'completed') {
+    const verdict = session.malicious ? 'MALICIOUS' : 'no threats found';
+    const categories = session.categories?.length ? ` (${session.categories.join(', ')})` : '';
+    const risk = session.risk ? `, risk ${session.risk.score}/100 ${session.risk.level}` : '';
+    return `${session.url}: ${verdict}${categories}${risk}`;
+  }
+  if (session.error) {
+    const action = session.error.action ? ` ${session.error.action}` : '';
+    return `${session.url}: ${session.status} [${session.error.code}] ${session.error.message}${action}`;
+  }
+  return `${session.url}: ${session.status}`;
+}
+
+function printSession(session: SessionState, options: OutputOptions): void {
+  process.stdout.write(options.json ? `${JSON.stringify(session, null, 2)}\n` : `${describeSession(session)}\n`);
+}
+
+/**
+ * Print a progress line whenever the status or message changes
+ */
+function progressPrinter(): (session: SessionState) => void {
+  let last = '';
+  return session => {
+    const percent = String(Math.round(session.progressPercent ?? 0)).padStart(3);
+    const line = `[${percent}%] ${session.status}${session.progressMessage ? `  ${session.progressMessage}` : ''}`;
+    if (line !== last) {
+      progress(line);
+      last = line;
+    }
+  };
+}
+
+async function saveReport(
+  client: RadarScanClient,
+  session: SessionState,
+  format: ReportFormat,
+  output?: string
+): Promise<void> {
+  const path = output || `radar-scan-${session.sessionId}.${format}`;
+  await writeFile(path, await client.downloadReport(session.sessionId, format));
+  progress(`Report saved to ${path}`);
+}
+
+/**
+ * radarscan scan <url>
+ */
+export async function scanCommand(client: RadarScanClient, url: string, options: ScanCommandOptions): Promise<number> {
+  const created = await client.createScan(url, options.submission);
+  progress(`Scan ${created.sessionId} queued for ${url}`);
+
+  if (!options.follow) {
+    process.stdout.write(options.json ? `${JSON.stringify(created, null, 2)}\n` : `${created.sessionId}\n`);
+    return EXIT_SAFE;
+  }
+
+  const session = await followSession(client, created.sessionId, progressPrinter());
+
+  if (session.status === 'completed' && options.download) {
+    await saveReport(client, session, options.format, options.output);
+  }
+
+  printSession(session, options);
+  return exitCodeFor(session);
+}
+
+/**
+ * radarscan status <sessionId>
+ */
+export async function statusCommand(client: RadarScanClient, sessionId: string, options: OutputOptions): Promise<number> {
+  const session = await client.getSession(sessionId);
+  printSession(session, options);
+  return exitCodeFor(session);
+}
+
+/**
+ * radarscan email <sessionId> <address>
+ */
+export async function emailCommand(client: RadarScanClient, sessionId: string, email: string): Promise<number> {
+  const result = await client.sendEmail(sessionId, email);
+  progress(result.message || `Report sent to ${email}`);
+  return EXIT_SAFE;
+}
+
+/**
+ * URLs from a file, or stdin for `-`: one per line, blank lines and # comments skipped
+ */
+export async function readUrlList(source: string): Promise<string[]> {
+  const text = source === '-' ? await readStdin() : await readFile(source, 'utf8');
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line !== '' && !line.startsWith('#'));
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function describeBatch(batch: BatchStatus): string {
+  const lines = batch.items.map(item => describeSession(item));
+  lines.push(`${batch.completed} completed, ${batch.failed} failed, ${batch.malicious} malicious of ${batch.total}`);
+  return lines.join('\n');
+}
+
+function batchExitCode(batch: BatchStatus): number {
+  if (batch.malicious > 0) {
+    return EXIT_MALICIOUS;
+  }
+  if (batch.failed > 0) {
+    return EXIT_FAILED;
+  }
+  return batch.status === 'completed' ? EXIT_SAFE : EXIT_PENDING;
+}
+
+/**
+ * radarscan batch <file|->
+ */
+export async function batchCommand(client: RadarScanClient, urls: string[], options: ScanCommandOptions): Promise<number> {
+  const created = await client.createBatch(urls, options.submission);
+  progress(`Batch ${created.batchId} queued with ${created.sessions.length} URL(s)`);
+  if (created.notStarted?.length) {
+    progress(`${created.notStarted.length} URL(s) could not be started: ${created.notStarted.join(', ')}`);
+  }
+
+  if (!options.follow) {
+    process.stdout.write(options.json ? `${JSON.stringify(created, null, 2)}\n` : `${created.batchId}\n`);
+    return EXIT_SAFE;
+  }
+
+  let last = '';
+  const batch = await followBatch(client, created.batchId, current => {
+    const line = `[${String(current.progressPercent).padStart(3)}%] ${current.completed + current.failed}/${current.total} finished, ${current.malicious} malicious`;
+    if (line !== last) {
+      progress(line);
+      last = line;
+    }
+  });
+
+  if (options.download) {
+    const path = options.output || `radar-batch-${batch.batchId}.${options.format}`;
+    const contents = options.format === 'pdf'
+      ? await client.downloadBatchReport(batch.batchId)
+      : `${JSON.stringify(batch, null, 2)}\n`;
+    await writeFile(path, contents);
+    progress(`Report saved to ${path}`);
+  }
+
+  process.stdout.write(options.json ? `${JSON.stringify(batch, null, 2)}\n` : `${describeBatch(batch)}\n`);
+  return batchExitCode(batch);
+}
@@ -0,0 +1,111 @@
+import type { RadarScanClient } from './client.ts';
+import type { BatchStatus, SessionState, SessionStatus } from './types.ts';
+
+// Same cadence as the web app: 5 reconnects with 1s-16s backoff, then polling every 5s
+const MAX_RECONNECT_ATTEMPTS = 5;
+const MAX_RECONNECT_DELAY_MS = 16000;
+const POLL_INTERVAL_MS = 5000;
+
+// No further updates arrive once a scan reaches one of these
+const FINISHED_STATUSES: SessionStatus[] = ['completed', 'failed', 'cancelled', 'expired'];
+
+export function isFinished(status: SessionStatus): boolean {
+  return FINISHED_STATUSES.includes(status);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Stream one WebSocket connection until it closes or the scan finishes.
+ * `opened` is false when the connection never got established.
+ */
+function streamUpdates(
+  client: RadarScanClient,
+  session: SessionState,
+  onUpdate: (session: SessionState) => void
+): Promise<{ session: SessionState; opened: boolean }> {
+  return new Promise(resolve => {
+    let current = session;
+    let opened = false;
+    const ws = new WebSocket(client.webSocketUrl(session.sessionId), { headers: client.authHeaders() });
+
+    ws.addEventListener('open', () => {
+      opened = true;
+    });
+
+    ws.addEventListener('message', event => {
+      const message = JSON.parse(String(event.data)) as { type: string; data: Partial<SessionState> };
+      if (message.type !== 'state' && message.type !== 'update') {
+        return;
+      }
+
+      current = { ...current, ...message.data };
+      onUpdate(current);
+      if (isFinished(current.status)) {
+        ws.close();
+      }
+    });
+
+    // An error is always followed by close
+    ws.addEventListener('close', () => resolve({ session: current, opened }));
+  });
+}
+
+/**
+ * Follow a scan until it finishes: live updates over the session WebSocket,
+ * falling back to polling GET /api/session/:id the way the web app does.
+ * Node releases without a global WebSocket (before 22) poll straight away.
+ */
+export async function followSession(
+  client: RadarScanClient,
+  sessionId: string,
+  onUpdate: (session: SessionState) => void
+): Promise<SessionState> {
+  let session = await client.getSession(sessionId);
+  onUpdate(session);
+
+  if (typeof WebSocket !== 'undefined') {
+    let attempts = 0;
+    while (!isFinished(session.status) && attempts < MAX_RECONNECT_ATTEMPTS) {
+      const result = await streamUpdates(client, session, onUpdate);
+      session = result.session;
+      attempts = result.opened ? 0 : attempts + 1;
+
+      if (!isFinished(session.status)) {
+        // Exponential backoff: 1s, 2s, 4s, 8s, 16s
+        await sleep(Math.min(1000 * 2 ** Math.max(attempts - 1, 0), MAX_RECONNECT_DELAY_MS));
+      }
+    }
+  }
+
+  while (!isFinished(session.status)) {
+    await sleep(POLL_INTERVAL_MS);
+    session = { ...session, ...await client.getSession(sessionId) };
+    onUpdate(session);
+  }
+
+  // Updates carry only changed fields; read the final record once for verdict and report
+  return session.status === 'completed' ? client.getSession(sessionId) : session;
+}
+
+/**
+ * Poll a batch until every scan in it has finished
+ */
+export async function followBatch(
+  client: RadarScanClient,
+  batchId: string,
+  onUpdate: (batch: BatchStatus) => void
+): Promise<BatchStatus> {
+  let batch = await client.getBatch(batchId);
+  onUpdate(batch);
+
+  while (batch.status !== 'completed') {
+    await sleep(POLL_INTERVAL_MS);
+    batch = await client.getBatch(batchId);
+    onUpdate(batch);
+  }
+
+  return batch;
+}
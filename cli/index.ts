@@ -0,0 +1,182 @@
+#!/usr/bin/env node
+/**
+ * radarscan: submit and follow scans from a terminal. Talks to a deployed
+ * instance over the public API; see the CLI section of the README.
+ */
+
+import { parseArgs } from 'node:util';
+import { ApiRequestError, RadarScanClient } from './client.ts';
+import {
+  EXIT_FAILED,
+  EXIT_USAGE,
+  batchCommand,
+  emailCommand,
+  readUrlList,
+  scanCommand,
+  statusCommand,
+  type ScanCommandOptions
+} from './commands.ts';
+import type { Locale, ReportFormat } from './types.ts';
+
+// The API requires an address on every scan but only emails it on request, as in the web app
+const DEFAULT_EMAIL = 'scan@placeholder.com';
+
+const LOCALES: Locale[] = ['en', 'de', 'fr', 'ja'];
+
+const USAGE = `Usage: radarscan <command> [options]
+
+Commands:
+  scan <url>               Submit a scan
+  batch [file|-]           Submit every URL in a file, or stdin, as one batch
+  status <sessionId>       Show a scan's status and verdict
+  email <sessionId> <to>   Email a finished scan's report
+
+Options:
+  -f, --follow             Wait for the scan or batch to finish and download its report
+      --format <pdf|json>  Report format to download (default pdf)
+  -o, --output <path>      Where to save the report (default radar-scan-<id>.<format>)
+      --no-download        Follow without downloading the report
+      --force              Bypass the scan cache
+      --public             Submit as a public Radar scan (default unlisted)
+      --requests           Append every network request to the PDF report
+      --branding <id>      Branding profile for the report and emails (default: the API key's)
+      --locale <code>      Language of the report and emails: en, de, fr or ja (default en)
+      --email <address>    Address recorded with the scan (default $RADARSCAN_EMAIL)
+      --json               Print the final record as JSON
+      --server <url>       Deployment URL (default $RADARSCAN_SERVER)
+      --api-key <key>      API key (default $RADARSCAN_API_KEY)
+  -h, --help               Show this help
+
+Exit codes: 0 no threat found, 1 malicious, 2 scan failed or request error,
+3 scan still running, 64 bad usage.
+`;
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+function parseCommandLine(argv: string[]) {
+  try {
+    return parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        follow: { type: 'boolean', short: 'f', default: false },
+        format: { type: 'string', default: 'pdf' },
+        output: { type: 'string', short: 'o' },
+        'no-download': { type: 'boolean', default: false },
+        force: { type: 'boolean', default: false },
+        public: { type: 'boolean', default: false },
+        requests: { type: 'boolean', default: false },
+        branding: { type: 'string' },
+        locale: { type: 'string' },
+        email: { type: 'string' },
+        json: { type: 'boolean', default: false },
+        server: { type: 'string' },
+        'api-key': { type: 'string' },
+        help: { type: 'boolean', short: 'h', default: false }
+      }
+    });
+  } catch (error) {
+    // parseArgs rejects unknown options and missing option values
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+async function run(argv: string[]): Promise<number> {
+  const { values, positionals } = parseCommandLine(argv);
+  const [command, ...args] = positionals;
+
+  if (values.help || !command) {
+    process.stdout.write(USAGE);
+    return values.help ? 0 : EXIT_USAGE;
+  }
+
+  const server = values.server || process.env.RADARSCAN_SERVER;
+  if (!server) {
+    throw new UsageError('Set --server or RADARSCAN_SERVER to the deployment URL');
+  }
+  const client = new RadarScanClient({ server, apiKey: values['api-key'] || process.env.RADARSCAN_API_KEY });
+
+  if (values.format !== 'pdf' && values.format !== 'json') {
+    throw new UsageError('--format must be pdf or json');
+  }
+
+  if (values.locale !== undefined && !LOCALES.includes(values.locale as Locale)) {
+    throw new UsageError(`--locale must be one of ${LOCALES.join(', ')}`);
+  }
+
+  const scanOptions: ScanCommandOptions = {
+    submission: {
+      email: values.email || process.env.RADARSCAN_EMAIL || DEFAULT_EMAIL,
+      force: values.force || undefined,
+      options: values.public ? { visibility: 'Public' } : undefined,
+      reportOptions: values.requests ? { requestAppendix: true } : undefined,
+      brandingProfileId: values.branding,
+      locale: values.locale as Locale | undefined
+    },
+    follow: values.follow,
+    download: !values['no-download'],
+    format: values.format as ReportFormat,
+    output: values.output,
+    json: values.json
+  };
+
+  switch (command) {
+    case 'scan':
+      if (args.length !== 1) {
+        throw new UsageError('scan takes exactly one URL; use batch for several');
+      }
+      return scanCommand(client, args[0], scanOptions);
+
+    case 'batch': {
+      // No argument reads piped stdin
+      const source = args[0] ?? (process.stdin.isTTY ? undefined : '-');
+      if (!source || args.length > 1) {
+        throw new UsageError('batch takes one file of URLs, or - to read them from stdin');
+      }
+      const urls = await readUrlList(source);
+      if (urls.length === 0) {
+        throw new UsageError(`No URLs found in ${source === '-' ? 'stdin' : source}`);
+      }
+      return batchCommand(client, urls, scanOptions);
+    }
+
+    case 'status':
+      if (args.length !== 1) {
+        throw new UsageError('status takes a session ID');
+      }
+      return statusCommand(client, args[0], { json: values.json });
+
+    case 'email':
+      if (args.length !== 2) {
+        throw new UsageError('email takes a session ID and an address');
+      }
+      return emailCommand(client, args[0], args[1]);
+
+    default:
+      throw new UsageError(`Unknown command: ${command}`);
+  }
+}
+
+run(process.argv.slice(2))
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch((error: unknown) => {
+    if (error instanceof UsageError) {
+      process.stderr.write(`radarscan: ${error.message}\n\n${USAGE}`);
+      process.exitCode = EXIT_USAGE;
+      return;
+    }
+    if (error instanceof ApiRequestError) {
+      const { code, message, action } = error.error;
+      process.stderr.write(`radarscan: [${code}] ${message}${action ? ` ${action}` : ''}\n`);
+    } else {
+      process.stderr.write(`radarscan: ${error instanceof Error ? error.message : String(error)}\n`);
+    }
+    process.exitCode = EXIT_FAILED;
+  });
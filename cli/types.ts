@@ -0,0 +1,93 @@
+/**
+ * API shapes the CLI reads. These mirror worker/types.ts, which cannot be
+ * imported here because it depends on the Workers runtime types.
+ */
+
+export type SessionStatus =
+  | 'queued'
+  | 'scanning'
+  | 'generating'
+  | 'uploading'
+  | 'sending'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+  | 'expired';
+
+export interface ApiError {
+  code: string;
+  title: string;
+  message: string;
+  action?: string;
+  retryable: boolean;
+  details?: Record<string, unknown>;
+}
+
+export interface SessionState {
+  sessionId: string;
+  url: string;
+  status: SessionStatus;
+  // null once a server-side retry clears the previous failure
+  error?: ApiError | null;
+  progressPercent?: number;
+  progressMessage?: string;
+  cacheHit?: boolean;
+  r2Key?: string;
+  malicious?: boolean;
+  categories?: string[];
+  risk?: { score: number; level: string };
+  attempt?: number;
+}
+
+export interface ScanCreated {
+  sessionId: string;
+  ownerToken?: string;
+  wsUrl: string;
+  status: 'queued';
+}
+
+export interface BatchCreated {
+  batchId: string;
+  statusUrl: string;
+  reportUrl: string;
+  sessions: Array<{ sessionId: string; url: string; ownerToken?: string; wsUrl: string }>;
+  status: 'queued';
+  // Present when the rate limit ran out or a session failed to start part way through
+  notStarted?: string[];
+}
+
+export interface BatchItemStatus {
+  sessionId: string;
+  url: string;
+  status: SessionStatus;
+  progressPercent: number;
+  malicious?: boolean;
+  cacheHit?: boolean;
+  error?: ApiError;
+}
+
+export interface BatchStatus {
+  batchId: string;
+  createdAt: number;
+  status: 'running' | 'completed';
+  total: number;
+  completed: number;
+  failed: number;
+  inProgress: number;
+  malicious: number;
+  progressPercent: number;
+  items: BatchItemStatus[];
+}
+
+export type Locale = 'en' | 'de' | 'fr' | 'ja';
+
+export interface ScanSubmission {
+  email: string;
+  force?: boolean;
+  options?: { visibility: 'Public' | 'Unlisted' };
+  reportOptions?: { requestAppendix?: boolean };
+  brandingProfileId?: string;
+  locale?: Locale;
+}
+
+export type ReportFormat = 'pdf' | 'json';
@@ -0,0 +1,2 @@
+-- Upgrade: track whether a session was served from scan_cache
+ALTER TABLE sessions ADD COLUMN cache_hit INTEGER DEFAULT 0;
@@ -0,0 +1,12 @@
+-- Upgrade: batch scans
+ALTER TABLE sessions ADD COLUMN batch_id TEXT;
+ALTER TABLE sessions ADD COLUMN malicious INTEGER;
+CREATE INDEX IF NOT EXISTS idx_sessions_batch_id ON sessions(batch_id);
+
+CREATE TABLE IF NOT EXISTS batches (
+  id TEXT PRIMARY KEY,
+  email TEXT NOT NULL,
+  session_ids TEXT NOT NULL,
+  url_count INTEGER NOT NULL,
+  created_at INTEGER NOT NULL
+);
@@ -0,0 +1,2 @@
+-- Upgrade: record Radar scan options per session
+ALTER TABLE sessions ADD COLUMN scan_options TEXT;
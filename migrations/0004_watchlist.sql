@@ -0,0 +1,34 @@
+-- Upgrade: recurring watchlist scans
+ALTER TABLE sessions ADD COLUMN watchlist_id TEXT;
+
+CREATE TABLE IF NOT EXISTS watchlist (
+  id TEXT PRIMARY KEY,
+  url TEXT NOT NULL,
+  email TEXT NOT NULL,
+  interval_minutes INTEGER NOT NULL,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  scan_options TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  next_run_at INTEGER NOT NULL,
+  last_run_at INTEGER,
+  last_session_id TEXT,
+  last_malicious INTEGER,
+  last_domains TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_watchlist_next_run_at ON watchlist(enabled, next_run_at);
+
+CREATE TABLE IF NOT EXISTS watchlist_runs (
+  session_id TEXT PRIMARY KEY,
+  watchlist_id TEXT NOT NULL,
+  started_at INTEGER NOT NULL,
+  completed_at INTEGER,
+  malicious INTEGER,
+  verdict_changed INTEGER NOT NULL DEFAULT 0,
+  domains_added TEXT,
+  domains_removed TEXT,
+  notified INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_watchlist_runs_watchlist_id ON watchlist_runs(watchlist_id, started_at);
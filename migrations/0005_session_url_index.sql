@@ -0,0 +1,2 @@
+-- Upgrade: look up earlier scans of the same URL for diffs
+CREATE INDEX IF NOT EXISTS idx_sessions_url ON sessions(url, created_at);
@@ -0,0 +1,16 @@
+-- Upgrade: API key authentication
+ALTER TABLE sessions ADD COLUMN api_key_id TEXT;
+CREATE INDEX IF NOT EXISTS idx_sessions_api_key_id ON sessions(api_key_id);
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  owner TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  key_prefix TEXT NOT NULL,
+  scopes TEXT NOT NULL,
+  revoked INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL,
+  last_used_at INTEGER,
+  revoked_at INTEGER
+);
@@ -0,0 +1,9 @@
+-- Upgrade: scan history
+ALTER TABLE sessions ADD COLUMN client_id TEXT;
+ALTER TABLE sessions ADD COLUMN domain TEXT;
+CREATE INDEX IF NOT EXISTS idx_sessions_client_id ON sessions(client_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_sessions_api_key_history ON sessions(api_key_id, created_at);
+
+-- Finished scans are no longer marked expired when their live session ends;
+-- restore the ones that were. Older rows have no domain and never match a domain filter.
+UPDATE sessions SET status = 'completed' WHERE status = 'expired' AND r2_key IS NOT NULL;
@@ -0,0 +1,2 @@
+-- Upgrade: machine-readable error codes
+ALTER TABLE sessions ADD COLUMN error_code TEXT;
@@ -0,0 +1,2 @@
+-- Upgrade: composite risk score
+ALTER TABLE sessions ADD COLUMN risk_score INTEGER;
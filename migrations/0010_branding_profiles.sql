@@ -0,0 +1,17 @@
+-- Upgrade: white-label report branding
+ALTER TABLE sessions ADD COLUMN branding_profile_id TEXT;
+ALTER TABLE batches ADD COLUMN branding_profile_id TEXT;
+ALTER TABLE api_keys ADD COLUMN branding_profile_id TEXT;
+ALTER TABLE watchlist ADD COLUMN branding_profile_id TEXT;
+
+CREATE TABLE IF NOT EXISTS branding_profiles (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  company_name TEXT NOT NULL,
+  primary_color TEXT NOT NULL,
+  footer_text TEXT NOT NULL,
+  contact_line TEXT,
+  logo_key TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
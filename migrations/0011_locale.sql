@@ -0,0 +1,4 @@
+-- Upgrade: localized reports and emails
+ALTER TABLE sessions ADD COLUMN locale TEXT;
+ALTER TABLE batches ADD COLUMN locale TEXT;
+ALTER TABLE watchlist ADD COLUMN locale TEXT;
@@ -0,0 +1,6 @@
+-- Upgrade: watchlist entries belong to the API key or browser that created them.
+-- Older entries have no owner; they keep running but are no longer listed by the API.
+ALTER TABLE watchlist ADD COLUMN api_key_id TEXT;
+ALTER TABLE watchlist ADD COLUMN client_id TEXT;
+CREATE INDEX IF NOT EXISTS idx_watchlist_api_key_id ON watchlist(api_key_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_watchlist_client_id ON watchlist(client_id, created_at);
@@ -0,0 +1,4 @@
+-- Upgrade: batches belong to the API key or browser that created them.
+-- Older batches have no owner and can no longer be read through the API.
+ALTER TABLE batches ADD COLUMN api_key_id TEXT;
+ALTER TABLE batches ADD COLUMN client_id TEXT;
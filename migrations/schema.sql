@@ -5,11 +5,12 @@ CREATE TABLE IF NOT EXISTS sessions (
   id TEXT PRIMARY KEY,              -- Session UUID (also R2 key prefix)
   url TEXT NOT NULL,                -- User-submitted URL
   email TEXT NOT NULL,              -- Destination email
-  status TEXT NOT NULL,             -- Enum: queued, scanning, generating, uploading, sending, completed, failed, expired
+  status TEXT NOT NULL,             -- Enum: queued, scanning, generating, uploading, sending, completed, failed, cancelled, expired
   job_id TEXT,                      -- Internal job tracking ID (optional)
   radar_uuid TEXT,                  -- Radar scan UUID
   r2_key TEXT,                      -- R2 object key (sessions/{sessionId}/report.pdf)
   error TEXT,                       -- Error message (if failed)
+  error_code TEXT,                  -- Stable error code (if failed), e.g. SCAN_TIMEOUT
   created_at INTEGER NOT NULL,      -- Unix timestamp (ms)
   updated_at INTEGER NOT NULL,      -- Unix timestamp (ms)
   expires_at INTEGER NOT NULL,      -- Unix timestamp (ms) - 24 hours from creation
@@ -18,7 +19,18 @@ CREATE TABLE IF NOT EXISTS sessions (
   country TEXT,                     -- Cloudflare edge location
   workflow_instance_id TEXT,        -- Cloudflare Workflow instance ID
   progress_percent INTEGER,         -- Progress percentage (0-100)
-  progress_message TEXT             -- Current progress message
+  progress_message TEXT,            -- Current progress message
+  cache_hit INTEGER DEFAULT 0,      -- 1 if the result was served from scan_cache
+  batch_id TEXT,                    -- Parent batch ID (batch scans only)
+  malicious INTEGER,                -- Overall verdict once completed (1 malicious, 0 safe)
+  risk_score INTEGER,               -- Composite risk score once completed (0-100)
+  scan_options TEXT,                -- Radar scan options (JSON)
+  watchlist_id TEXT,                -- Watchlist entry that scheduled this scan
+  api_key_id TEXT,                  -- API key that created this scan (NULL for browser sessions)
+  client_id TEXT,                   -- Signed browser identity that created this scan (browser sessions only)
+  branding_profile_id TEXT,         -- Branding profile applied to the report and emails (NULL for the default)
+  locale TEXT,                      -- Language of the report and emails: en, de, fr, ja (NULL for English)
+  domain TEXT                       -- Lowercased hostname of url, for history filters
 );
 
 -- Indexes for performance
@@ -26,14 +38,100 @@ CREATE INDEX IF NOT EXISTS idx_sessions_status ON sessions(status);
 CREATE INDEX IF NOT EXISTS idx_sessions_created_at ON sessions(created_at);
 CREATE INDEX IF NOT EXISTS idx_sessions_expires_at ON sessions(expires_at);
 CREATE INDEX IF NOT EXISTS idx_sessions_email ON sessions(email);
+CREATE INDEX IF NOT EXISTS idx_sessions_batch_id ON sessions(batch_id);
+CREATE INDEX IF NOT EXISTS idx_sessions_url ON sessions(url, created_at);
+CREATE INDEX IF NOT EXISTS idx_sessions_api_key_id ON sessions(api_key_id);
+CREATE INDEX IF NOT EXISTS idx_sessions_client_id ON sessions(client_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_sessions_api_key_history ON sessions(api_key_id, created_at);
 
--- Optional: Scan cache for duplicate URL detection (Phase 2)
+-- Batch scans: one row per POST /api/scans/batch
+CREATE TABLE IF NOT EXISTS batches (
+  id TEXT PRIMARY KEY,              -- Batch UUID
+  email TEXT NOT NULL,              -- Destination email
+  session_ids TEXT NOT NULL,        -- JSON array of session IDs, in submission order
+  url_count INTEGER NOT NULL,       -- Number of URLs in the batch
+  created_at INTEGER NOT NULL,      -- Unix timestamp (ms)
+  branding_profile_id TEXT,         -- Branding profile applied to the summary report
+  locale TEXT,                      -- Language of the summary report (NULL for English)
+  api_key_id TEXT,                  -- API key that created this batch (NULL for browser batches)
+  client_id TEXT                    -- Signed browser identity that created this batch (browser batches only)
+);
+
+-- API keys for programmatic access (only the SHA-256 hash of each key is stored)
+CREATE TABLE IF NOT EXISTS api_keys (
+  id TEXT PRIMARY KEY,              -- Key UUID
+  name TEXT NOT NULL,               -- Human-readable label
+  owner TEXT NOT NULL,              -- Person or team responsible for the key
+  key_hash TEXT NOT NULL UNIQUE,    -- SHA-256 hex of the full key
+  key_prefix TEXT NOT NULL,         -- First characters of the key, for identification
+  scopes TEXT NOT NULL,             -- JSON array: scan, read, watchlist
+  revoked INTEGER NOT NULL DEFAULT 0, -- 1 once revoked
+  created_at INTEGER NOT NULL,      -- Unix timestamp (ms)
+  last_used_at INTEGER,             -- Unix timestamp (ms)
+  revoked_at INTEGER,               -- Unix timestamp (ms)
+  branding_profile_id TEXT          -- Default branding profile for scans made with this key
+);
+
+-- White-label branding profiles for reports and emails
+CREATE TABLE IF NOT EXISTS branding_profiles (
+  id TEXT PRIMARY KEY,              -- Profile UUID
+  name TEXT NOT NULL,               -- Internal label
+  company_name TEXT NOT NULL,       -- Shown in the report title and email header
+  primary_color TEXT NOT NULL,      -- Hex color, e.g. #1E40AF
+  footer_text TEXT NOT NULL,        -- Replaces "Generated by RadarScan - Powered by Cloudflare Radar"
+  contact_line TEXT,                -- Optional contact details under the footer
+  logo_key TEXT,                    -- R2 key of the logo PNG (branding/{id}/logo.png)
+  created_at INTEGER NOT NULL,      -- Unix timestamp (ms)
+  updated_at INTEGER NOT NULL       -- Unix timestamp (ms)
+);
+
+-- Watchlist: URLs rescanned on a schedule by the cron trigger
+CREATE TABLE IF NOT EXISTS watchlist (
+  id TEXT PRIMARY KEY,              -- Watchlist entry UUID
+  url TEXT NOT NULL,                -- URL to rescan
+  email TEXT NOT NULL,              -- Where change alerts are sent
+  interval_minutes INTEGER NOT NULL, -- Minutes between scans
+  enabled INTEGER NOT NULL DEFAULT 1, -- 0 pauses the entry
+  scan_options TEXT,                -- Radar scan options (JSON)
+  created_at INTEGER NOT NULL,      -- Unix timestamp (ms)
+  updated_at INTEGER NOT NULL,      -- Unix timestamp (ms)
+  next_run_at INTEGER NOT NULL,     -- Unix timestamp (ms) of the next scheduled scan
+  last_run_at INTEGER,              -- Unix timestamp (ms) of the last scheduled scan
+  last_session_id TEXT,             -- Session ID of the last scheduled scan
+  last_malicious INTEGER,           -- Verdict of the last completed scan (baseline)
+  last_domains TEXT,                -- JSON array of domains contacted by the last completed scan (baseline)
+  branding_profile_id TEXT,         -- Branding profile applied to scheduled scans and change alerts
+  locale TEXT,                      -- Language of scheduled reports and change alerts (NULL for English)
+  api_key_id TEXT,                  -- API key that created this entry (NULL for browser entries)
+  client_id TEXT                    -- Signed browser identity that created this entry (browser entries only)
+);
+
+CREATE INDEX IF NOT EXISTS idx_watchlist_next_run_at ON watchlist(enabled, next_run_at);
+CREATE INDEX IF NOT EXISTS idx_watchlist_api_key_id ON watchlist(api_key_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_watchlist_client_id ON watchlist(client_id, created_at);
+
+-- One row per scheduled watchlist scan
+CREATE TABLE IF NOT EXISTS watchlist_runs (
+  session_id TEXT PRIMARY KEY,      -- Session started for this run
+  watchlist_id TEXT NOT NULL,       -- Parent watchlist entry
+  started_at INTEGER NOT NULL,      -- Unix timestamp (ms)
+  completed_at INTEGER,             -- Unix timestamp (ms), set once the scan finishes
+  malicious INTEGER,                -- Overall verdict (1 malicious, 0 safe)
+  verdict_changed INTEGER NOT NULL DEFAULT 0, -- 1 if the verdict differs from the previous run
+  domains_added TEXT,               -- JSON array of newly contacted domains
+  domains_removed TEXT,             -- JSON array of domains no longer contacted
+  notified INTEGER NOT NULL DEFAULT 0 -- 1 if a change alert was emailed
+);
+
+CREATE INDEX IF NOT EXISTS idx_watchlist_runs_watchlist_id ON watchlist_runs(watchlist_id, started_at);
+
+-- Scan cache for duplicate URL detection
 CREATE TABLE IF NOT EXISTS scan_cache (
   url_hash TEXT PRIMARY KEY,        -- SHA-256 hash of normalized URL
   radar_uuid TEXT NOT NULL,         -- Cached Radar scan UUID
   result_json TEXT NOT NULL,        -- Cached Radar result (JSON string)
   cached_at INTEGER NOT NULL,       -- Unix timestamp (ms)
-  expires_at INTEGER NOT NULL       -- Cache for 1 hour
+  expires_at INTEGER NOT NULL       -- cached_at + SCAN_CACHE_TTL_SECONDS (default 1 hour)
 );
 
 CREATE INDEX IF NOT EXISTS idx_scan_cache_expires_at ON scan_cache(expires_at);
@@ -1,23 +1,30 @@
-type ScanStatus = 'idle' | 'queued' | 'scanning' | 'generating' | 'uploading' | 'completed' | 'failed' | 'expired'
+import type { ApiError } from '../lib/api-error.ts'
+import { useI18n } from '../lib/i18n.ts'
+
+type ScanStatus = 'idle' | 'queued' | 'scanning' | 'generating' | 'uploading' | 'completed' | 'failed' | 'cancelled' | 'expired'
 
 interface ProgressStepperProps {
   status: ScanStatus
-  error?: string
+  error?: ApiError | null
   progressPercent?: number
   progressMessage?: string
+  attempt?: number
   onRetry?: () => void
   onReset?: () => void
+  onCancel?: () => void
+  isCancelling?: boolean
 }
 
 const steps = [
-  { key: 'queued', label: 'Queued', icon: '📋' },
-  { key: 'scanning', label: 'Scanning', icon: '🔍' },
-  { key: 'generating', label: 'Generating', icon: '📄' },
-  { key: 'uploading', label: 'Uploading', icon: '☁️' },
-  { key: 'completed', label: 'Complete', icon: '✓' },
-]
+  { key: 'queued', icon: '📋' },
+  { key: 'scanning', icon: '🔍' },
+  { key: 'generating', icon: '📄' },
+  { key: 'uploading', icon: '☁️' },
+  { key: 'completed', icon: '✓' },
+] as const
 
-export function ProgressStepper({ status, error, progressPercent, progressMessage, onRetry, onReset }: ProgressStepperProps) {
+export function ProgressStepper({ status, error, progressPercent, progressMessage, attempt, onRetry, onReset, onCancel, isCancelling }: ProgressStepperProps) {
+  const { t } = useI18n()
   const currentIndex = steps.findIndex(step => step.key === status)
   // Use actual progress percent if available, otherwise calculate from step
   const progress = progressPercent !== undefined ? progressPercent : ((currentIndex + 1) / steps.length) * 100
@@ -56,7 +63,7 @@ export function ProgressStepper({ status, error, progressPercent, progressMessag
                   ${isCompleted ? 'text-gray-700' : ''}
                   ${!isCompleted && !isCurrent ? 'text-gray-400' : ''}
                 `}>
-                  {step.label}
+                  {t.progress.steps[step.key]}
                 </span>
               </div>
             )
@@ -65,17 +72,56 @@ export function ProgressStepper({ status, error, progressPercent, progressMessag
       </div>
       
       {/* Current Status with Progress */}
-      {status !== 'completed' && !error && (
+      {status !== 'completed' && status !== 'cancelled' && !error && (
         <div className="space-y-2">
           <div className="flex items-center justify-center gap-2 text-gray-600 text-sm">
             <div className="w-2 h-2 bg-orange rounded-full animate-ping" />
-            <span>{progressMessage || 'Processing...'}</span>
+            <span>{progressMessage || t.progress.processing}</span>
+            {attempt && attempt > 1 && (
+              <span className="text-xs text-gray-400">{t.progress.attempt(attempt)}</span>
+            )}
           </div>
           {progressPercent !== undefined && (
             <div className="text-center">
               <span className="text-2xl font-bold text-orange">{Math.round(progressPercent)}%</span>
             </div>
           )}
+          {onCancel && (
+            <div className="text-center pt-2">
+              <button
+                onClick={onCancel}
+                disabled={isCancelling}
+                className="px-4 py-1.5 text-sm font-medium text-gray-600 border-2 border-gray-300 hover:border-gray-400 hover:text-gray-800 rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isCancelling ? t.progress.cancelling : t.progress.cancel}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+      
+      {status === 'cancelled' && (
+        <div className="mt-4 bg-gray-50 border-2 border-gray-300 rounded-xl p-4 animate-slide-in">
+          <h4 className="font-bold text-gray-900 text-base mb-1">{t.progress.cancelledTitle}</h4>
+          <p className="text-sm text-gray-700 mb-4">{t.progress.cancelledMessage}</p>
+          <div className="flex gap-2">
+            {onRetry && (
+              <button
+                onClick={onRetry}
+                className="flex-1 px-4 py-2 bg-orange hover:bg-orange-dark text-white font-semibold rounded-lg transition-colors duration-200"
+              >
+                {t.progress.scanAgain}
+              </button>
+            )}
+            {onReset && (
+              <button
+                onClick={onReset}
+                className="flex-1 px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white font-semibold rounded-lg transition-colors duration-200"
+              >
+                {t.progress.startNew}
+              </button>
+            )}
+          </div>
         </div>
       )}
       
@@ -86,17 +132,19 @@ export function ProgressStepper({ status, error, progressPercent, progressMessag
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
             </svg>
             <div className="flex-1">
-              <h4 className="font-bold text-red-900 text-base mb-1">Scan Failed</h4>
-              <p className="text-sm text-red-800">{error}</p>
+              <h4 className="font-bold text-red-900 text-base mb-1">{error.title}</h4>
+              <p className="text-sm text-red-800">{error.message}</p>
+              {error.action && <p className="text-sm text-red-700 mt-1">{error.action}</p>}
             </div>
           </div>
           <div className="flex gap-2">
-            {onRetry && (
+            {/* Retrying cannot help when e.g. Radar rejected the URL */}
+            {onRetry && error.retryable && (
               <button
                 onClick={onRetry}
                 className="flex-1 px-4 py-2 bg-red-600 hover:bg-red-700 text-white font-semibold rounded-lg transition-colors duration-200"
               >
-                Retry Scan
+                {t.progress.retry}
               </button>
             )}
             {onReset && (
@@ -104,7 +152,7 @@ export function ProgressStepper({ status, error, progressPercent, progressMessag
                 onClick={onReset}
                 className="flex-1 px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white font-semibold rounded-lg transition-colors duration-200"
               >
-                Start New Scan
+                {t.progress.startNew}
               </button>
             )}
           </div>
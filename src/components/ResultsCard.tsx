@@ -1,34 +1,104 @@
 import { useState } from 'react'
 import { Button } from './ui/button.tsx'
+import type { ScreenshotResolution } from './ScanForm.tsx'
+import { ScanDiffView } from './ScanDiffView.tsx'
+import { RiskGauge, type RiskScore } from './RiskGauge.tsx'
+import { readApiError } from '../lib/api-error.ts'
+import { useI18n } from '../lib/i18n.ts'
+
+interface SignedLinks {
+  downloadUrl: string
+  previewUrl: string
+  expiresAt: string
+}
 
 interface ResultsCardProps {
   sessionId: string
+  ownerToken?: string
   url: string
   email?: string
+  cacheHit?: boolean
+  cachedAt?: number
+  screenshots?: Partial<Record<ScreenshotResolution, string>>
+  previousSessionId?: string
+  risk?: RiskScore
+  onRescan?: () => void
   onReset: () => void
 }
 
-export function ResultsCard({ sessionId, url, onReset }: ResultsCardProps) {
+export function ResultsCard({ sessionId, ownerToken, url, cacheHit, cachedAt, screenshots, previousSessionId, risk, onRescan, onReset }: ResultsCardProps) {
+  const { t, formatDateTime } = useI18n()
   const [isSendingEmail, setIsSendingEmail] = useState(false)
   const [emailSent, setEmailSent] = useState(false)
   const [emailError, setEmailError] = useState<string | null>(null)
   const [showEmailInput, setShowEmailInput] = useState(false)
   const [emailInput, setEmailInput] = useState('')
   const [showPreview, setShowPreview] = useState(false)
+  const [links, setLinks] = useState<SignedLinks | null>(null)
+  const [linkError, setLinkError] = useState<string | null>(null)
+  const screenshotSizes = Object.keys(screenshots || {}) as ScreenshotResolution[]
+  const [screenshotSize, setScreenshotSize] = useState<ScreenshotResolution | undefined>(screenshotSizes[0])
+  const [screenshotFailed, setScreenshotFailed] = useState(false)
+  const screenshotUrl = `/api/screenshot/${sessionId}${screenshotSize ? `?resolution=${screenshotSize}` : ''}`
+
+  // Report URLs are signed and expire, so reuse a link only while it has a minute left
+  const getSignedLinks = async (): Promise<SignedLinks> => {
+    if (links && new Date(links.expiresAt).getTime() - Date.now() > 60000) return links
+
+    const response = await fetch(`/api/session/${sessionId}/link`, {
+      method: 'POST',
+      headers: ownerToken ? { 'X-Session-Owner': ownerToken } : {}
+    })
+
+    if (!response.ok) {
+      const apiError = await readApiError(response, t.results.linkFailed)
+      throw new Error(apiError.message)
+    }
+
+    // Links use APP_URL; keep them on this origin so local dev and the preview frame work
+    const data: SignedLinks = await response.json()
+    const relative = (link: string) => {
+      const parsed = new URL(link, window.location.origin)
+      return `${parsed.pathname}${parsed.search}`
+    }
+    const fresh = { ...data, downloadUrl: relative(data.downloadUrl), previewUrl: relative(data.previewUrl) }
+    setLinks(fresh)
+    return fresh
+  }
+
+  const handleDownload = async () => {
+    setLinkError(null)
+    try {
+      const { downloadUrl } = await getSignedLinks()
+      // Create a temporary link and click it to trigger download
+      const link = document.createElement('a')
+      link.href = downloadUrl
+      link.download = `radar-scan-${sessionId}.pdf`
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+    } catch (err) {
+      setLinkError(err instanceof Error ? err.message : t.results.linkFailed)
+    }
+  }
 
-  const handleDownload = () => {
-    // Create a temporary link and click it to trigger download
-    const link = document.createElement('a')
-    link.href = `/api/download/${sessionId}`
-    link.download = `radar-scan-${sessionId}.pdf`
-    document.body.appendChild(link)
-    link.click()
-    document.body.removeChild(link)
+  const handleTogglePreview = async () => {
+    if (showPreview) {
+      setShowPreview(false)
+      return
+    }
+    setLinkError(null)
+    try {
+      await getSignedLinks()
+      setShowPreview(true)
+    } catch (err) {
+      setLinkError(err instanceof Error ? err.message : t.results.linkFailed)
+    }
   }
 
   const handleSendEmail = async () => {
     if (!emailInput.trim()) {
-      setEmailError('Please enter a valid email address')
+      setEmailError(t.results.invalidEmail)
       return
     }
 
@@ -38,19 +108,19 @@ export function ResultsCard({ sessionId, url, onReset }: ResultsCardProps) {
     try {
       const response = await fetch(`/api/email/${sessionId}`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(ownerToken ? { 'X-Session-Owner': ownerToken } : {}) },
         body: JSON.stringify({ email: emailInput })
       })
 
       if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error(errorData.error || 'Failed to send email')
+        const apiError = await readApiError(response, t.results.emailFailed)
+        throw new Error(apiError.message)
       }
 
       setEmailSent(true)
       setShowEmailInput(false)
     } catch (err) {
-      setEmailError(err instanceof Error ? err.message : 'Failed to send email')
+      setEmailError(err instanceof Error ? err.message : t.results.emailFailed)
     } finally {
       setIsSendingEmail(false)
     }
@@ -65,18 +135,75 @@ export function ResultsCard({ sessionId, url, onReset }: ResultsCardProps) {
           </svg>
         </div>
         <h2 className="text-xl sm:text-2xl font-bold text-gray-900 mb-2">
-          Scan Complete!
+          {t.results.title}
         </h2>
         <p className="text-sm text-gray-600">
-          Report ready for <span className="font-semibold text-orange">{url}</span>
+          {t.results.readyFor.before}<span className="font-semibold text-orange">{url}</span>{t.results.readyFor.after}
         </p>
       </div>
 
+      {/* Cached Result Notice */}
+      {cacheHit && (
+        <div className="mb-6 bg-blue-50 border border-blue-200 rounded-xl p-3 sm:p-4 text-sm text-blue-800">
+          <p>
+            {t.results.cached(cachedAt ? formatDateTime(cachedAt) : undefined)}
+          </p>
+          {onRescan && (
+            <button
+              onClick={onRescan}
+              className="mt-1 font-semibold text-blue-900 underline hover:text-blue-700 transition-colors"
+            >
+              {t.results.freshScan}
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Risk Score */}
+      {risk && <RiskGauge risk={risk} />}
+
+      {/* Page Screenshot */}
+      {screenshotSize && !screenshotFailed && (
+        <div className="mb-6 border-2 border-gray-200 rounded-xl overflow-hidden shadow-lg animate-fade-in">
+          <div className="bg-gray-100 px-4 py-2 flex items-center justify-between border-b border-gray-200">
+            <span className="text-sm font-medium text-gray-700">{t.results.screenshot}</span>
+            {screenshotSizes.length > 1 && (
+              <div className="flex gap-1">
+                {screenshotSizes.map(size => (
+                  <button
+                    key={size}
+                    onClick={() => setScreenshotSize(size)}
+                    className={`px-2 py-0.5 rounded text-xs font-semibold transition-colors ${
+                      size === screenshotSize ? 'bg-orange text-white' : 'text-gray-600 hover:bg-gray-200'
+                    }`}
+                  >
+                    {t.form.resolutions[size]}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <a href={screenshotUrl} target="_blank" rel="noopener noreferrer">
+            <img
+              src={screenshotUrl}
+              alt={t.results.screenshotOf(url)}
+              className="w-full max-h-72 object-cover object-top bg-gray-50"
+              onError={() => setScreenshotFailed(true)}
+            />
+          </a>
+        </div>
+      )}
+
+      {/* Changes Since Last Scan */}
+      {previousSessionId && (
+        <ScanDiffView fromSessionId={previousSessionId} toSessionId={sessionId} />
+      )}
+
       {/* PDF Preview */}
-      {showPreview && (
+      {showPreview && links && (
         <div className="mb-6 border-2 border-gray-200 rounded-xl overflow-hidden shadow-lg animate-fade-in">
           <div className="bg-gray-100 px-4 py-2 flex items-center justify-between border-b border-gray-200">
-            <span className="text-sm font-medium text-gray-700">PDF Preview</span>
+            <span className="text-sm font-medium text-gray-700">{t.results.pdfPreview}</span>
             <button
               onClick={() => setShowPreview(false)}
               className="text-gray-500 hover:text-gray-700 transition-colors"
@@ -87,9 +214,9 @@ export function ResultsCard({ sessionId, url, onReset }: ResultsCardProps) {
             </button>
           </div>
           <iframe
-            src={`/api/preview/${sessionId}`}
+            src={links.previewUrl}
             className="w-full h-96"
-            title="PDF Preview"
+            title={t.results.pdfPreview}
           />
         </div>
       )}
@@ -98,14 +225,14 @@ export function ResultsCard({ sessionId, url, onReset }: ResultsCardProps) {
         {/* Preview/Download Buttons */}
         <div className="flex gap-2">
           <Button
-            onClick={() => setShowPreview(!showPreview)}
+            onClick={handleTogglePreview}
             className="flex-1 h-11 sm:h-12 text-sm sm:text-base font-bold bg-linear-to-r from-orange to-orange-light hover:from-orange-dark hover:to-orange text-white rounded-xl shadow-lg hover:shadow-xl transition-all duration-200"
           >
             <svg className="w-4 h-4 sm:w-5 sm:h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
             </svg>
-            {showPreview ? 'Hide' : 'Preview'}
+            {showPreview ? t.results.hide : t.results.preview}
           </Button>
           <Button
             onClick={handleDownload}
@@ -114,7 +241,7 @@ export function ResultsCard({ sessionId, url, onReset }: ResultsCardProps) {
             <svg className="w-4 h-4 sm:w-5 sm:h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
             </svg>
-            Download
+            {t.results.download}
           </Button>
         </div>
 
@@ -128,7 +255,7 @@ export function ResultsCard({ sessionId, url, onReset }: ResultsCardProps) {
               <svg className="w-4 h-4 sm:w-5 sm:h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
               </svg>
-              Send Report via Email
+              {t.results.sendEmail}
             </Button>
           ) : (
             <div className="space-y-3">
@@ -146,7 +273,7 @@ export function ResultsCard({ sessionId, url, onReset }: ResultsCardProps) {
                   disabled={isSendingEmail}
                   className="flex-1 bg-linear-to-r from-orange to-orange-light hover:from-orange-dark hover:to-orange text-white rounded-xl font-bold"
                 >
-                  {isSendingEmail ? 'Sending...' : 'Send Email'}
+                  {isSendingEmail ? t.results.sending : t.results.send}
                 </Button>
                 <Button
                   onClick={() => {
@@ -156,7 +283,7 @@ export function ResultsCard({ sessionId, url, onReset }: ResultsCardProps) {
                   disabled={isSendingEmail}
                   className="bg-gray-200 hover:bg-gray-300 text-gray-700 rounded-xl font-bold"
                 >
-                  Cancel
+                  {t.results.cancel}
                 </Button>
               </div>
             </div>
@@ -164,7 +291,7 @@ export function ResultsCard({ sessionId, url, onReset }: ResultsCardProps) {
         ) : (
           <div className="bg-green-50 border border-green-200 rounded-xl p-3 sm:p-4 text-center animate-slide-in">
             <p className="text-sm text-green-700 font-medium">
-              ✓ Email sent successfully to {emailInput}
+              {t.results.emailSent(emailInput)}
             </p>
           </div>
         )}
@@ -174,6 +301,12 @@ export function ResultsCard({ sessionId, url, onReset }: ResultsCardProps) {
             <p className="text-sm text-red-700">{emailError}</p>
           </div>
         )}
+
+        {linkError && (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-3 sm:p-4 animate-slide-in">
+            <p className="text-sm text-red-700">{linkError}</p>
+          </div>
+        )}
       </div>
 
       {/* Start New Scan */}
@@ -185,7 +318,7 @@ export function ResultsCard({ sessionId, url, onReset }: ResultsCardProps) {
           <svg className="w-4 h-4 sm:w-5 sm:h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
           </svg>
-          Start New Scan
+          {t.results.startNew}
         </Button>
       </div>
     </div>
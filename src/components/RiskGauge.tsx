@@ -0,0 +1,70 @@
+import { useI18n } from '../lib/i18n.ts'
+
+export type RiskLevel = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL'
+
+export interface RiskFactor {
+  id: string
+  label: string
+  points: number
+  weight: number
+  detail: string
+}
+
+export interface RiskScore {
+  score: number
+  level: RiskLevel
+  factors: RiskFactor[]
+}
+
+const levelStyles: Record<RiskLevel, { stroke: string; text: string }> = {
+  LOW: { stroke: 'stroke-green-600', text: 'text-green-700' },
+  MEDIUM: { stroke: 'stroke-yellow-500', text: 'text-yellow-700' },
+  HIGH: { stroke: 'stroke-orange', text: 'text-orange-dark' },
+  CRITICAL: { stroke: 'stroke-red-600', text: 'text-red-700' },
+}
+
+// Half circle from 0 on the left to 100 on the right
+const arc = 'M 10 60 A 50 50 0 0 1 110 60'
+
+export function RiskGauge({ risk }: { risk: RiskScore }) {
+  const { t } = useI18n()
+  const style = levelStyles[risk.level]
+
+  return (
+    <div className="mb-6 border-2 border-gray-200 rounded-xl p-4 animate-fade-in">
+      <div className="flex items-center gap-4">
+        <svg viewBox="0 0 120 66" className="w-32 shrink-0" role="img" aria-label={t.risk.score(risk.score)}>
+          <path d={arc} fill="none" strokeWidth={12} pathLength={100} className="stroke-gray-200" />
+          <path
+            d={arc}
+            fill="none"
+            strokeWidth={12}
+            pathLength={100}
+            strokeDasharray={`${risk.score} 100`}
+            className={style.stroke}
+          />
+          <text x="60" y="58" textAnchor="middle" fontSize={24} fontWeight="bold" className="fill-gray-900">
+            {risk.score}
+          </text>
+        </svg>
+        <div>
+          <p className={`text-sm font-bold ${style.text}`}>{t.risk.level(t.risk.levels[risk.level])}</p>
+          <p className="text-xs text-gray-500">{t.risk.description}</p>
+        </div>
+      </div>
+
+      {risk.factors.length > 0 && (
+        <ul className="mt-3 space-y-1 text-xs text-gray-700">
+          {risk.factors.map(factor => (
+            <li key={factor.id} className="flex justify-between gap-3">
+              <span>
+                <span className="font-semibold">{factor.label}:</span> {factor.detail}
+              </span>
+              <span className="shrink-0 font-mono text-gray-500">+{factor.points}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,170 @@
+import { useEffect, useState } from 'react'
+import { readApiError } from '../lib/api-error.ts'
+import { useI18n } from '../lib/i18n.ts'
+
+interface ListDiff {
+  added: string[]
+  removed: string[]
+}
+
+interface ScanDiff {
+  from: { sessionId: string; url: string; scannedAt: string }
+  to: { sessionId: string; url: string; scannedAt: string }
+  hasChanges: boolean
+  verdict: {
+    changed: boolean
+    fromMalicious: boolean
+    toMalicious: boolean
+    categories: ListDiff
+  }
+  domains: ListDiff
+  ips: ListDiff
+  asns: ListDiff
+  countries: ListDiff
+  scripts: ListDiff
+  technologies: {
+    added: Array<{ name: string; version?: string }>
+    removed: Array<{ name: string; version?: string }>
+    versionChanged: Array<{ name: string; from?: string; to?: string }>
+  }
+  cookies: ListDiff & {
+    changed: Array<{ cookie: string; changes: string[] }>
+  }
+  certificate: {
+    changed: boolean
+    issuerChanged: boolean
+    validityChanged: boolean
+    from: { issuer?: string; validTo?: string } | null
+    to: { issuer?: string; validTo?: string } | null
+  }
+}
+
+interface ScanDiffViewProps {
+  fromSessionId: string
+  toSessionId: string
+}
+
+function ListDiffRows({ label, diff }: { label: string; diff: ListDiff }) {
+  if (diff.added.length === 0 && diff.removed.length === 0) return null
+
+  return (
+    <div>
+      <p className="text-xs font-semibold text-gray-700 mb-1">{label}</p>
+      <ul className="space-y-0.5 font-mono text-xs break-all">
+        {diff.added.map(item => (
+          <li key={`+${item}`} className="text-orange-dark">+ {item}</li>
+        ))}
+        {diff.removed.map(item => (
+          <li key={`-${item}`} className="text-gray-500">- {item}</li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export function ScanDiffView({ fromSessionId, toSessionId }: ScanDiffViewProps) {
+  const { t, formatDateTime } = useI18n()
+  const loadFailed = t.diff.loadFailed
+  const [isOpen, setIsOpen] = useState(false)
+  const [diff, setDiff] = useState<ScanDiff | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isOpen || diff) return
+
+    fetch(`/api/diff?from=${encodeURIComponent(fromSessionId)}&to=${encodeURIComponent(toSessionId)}`)
+      .then(async response => {
+        if (!response.ok) {
+          const apiError = await readApiError(response, loadFailed)
+          throw new Error(apiError.message)
+        }
+        setDiff(await response.json())
+      })
+      .catch(err => setError(err instanceof Error ? err.message : loadFailed))
+  }, [isOpen, diff, fromSessionId, toSessionId, loadFailed])
+
+  const technologyChanges = diff
+    ? [
+        ...diff.technologies.added.map(tech => `+ ${tech.name}${tech.version ? ` ${tech.version}` : ''}`),
+        ...diff.technologies.removed.map(tech => `- ${tech.name}${tech.version ? ` ${tech.version}` : ''}`),
+        ...diff.technologies.versionChanged.map(tech => `~ ${tech.name} ${tech.from || '?'} → ${tech.to || '?'}`),
+      ]
+    : []
+
+  return (
+    <div className="mb-6 border-2 border-gray-200 rounded-xl overflow-hidden">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full bg-gray-100 px-4 py-2 flex items-center justify-between text-sm font-medium text-gray-700 hover:bg-gray-200 transition-colors"
+        aria-expanded={isOpen}
+      >
+        {t.diff.title}
+        <svg className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="p-4 space-y-3 text-sm animate-fade-in">
+          {error && <p className="text-red-700">{error}</p>}
+          {!diff && !error && <p className="text-gray-500">{t.diff.loading}</p>}
+
+          {diff && (
+            <>
+              <p className="text-xs text-gray-500">
+                {t.diff.comparedWith(formatDateTime(diff.from.scannedAt))}
+              </p>
+
+              {!diff.hasChanges && <p className="text-green-700">{t.diff.noChanges}</p>}
+
+              {diff.verdict.changed && (
+                <p className={`font-semibold ${diff.verdict.toMalicious ? 'text-red-700' : 'text-green-700'}`}>
+                  {t.diff.verdict}: {diff.verdict.fromMalicious ? t.diff.malicious : t.diff.safe} → {diff.verdict.toMalicious ? t.diff.malicious : t.diff.safe}
+                </p>
+              )}
+
+              <ListDiffRows label={t.diff.categories} diff={diff.verdict.categories} />
+              <ListDiffRows label={t.diff.domains} diff={diff.domains} />
+              <ListDiffRows label={t.diff.scripts} diff={diff.scripts} />
+              <ListDiffRows label={t.diff.ips} diff={diff.ips} />
+              <ListDiffRows label={t.diff.asns} diff={diff.asns} />
+              <ListDiffRows label={t.diff.countries} diff={diff.countries} />
+
+              {technologyChanges.length > 0 && (
+                <div>
+                  <p className="text-xs font-semibold text-gray-700 mb-1">{t.diff.technologies}</p>
+                  <ul className="space-y-0.5 font-mono text-xs">
+                    {technologyChanges.map(change => <li key={change}>{change}</li>)}
+                  </ul>
+                </div>
+              )}
+
+              <ListDiffRows label={t.diff.cookies} diff={diff.cookies} />
+              {diff.cookies.changed.length > 0 && (
+                <ul className="space-y-0.5 font-mono text-xs">
+                  {diff.cookies.changed.map(cookie => (
+                    <li key={cookie.cookie}>~ {cookie.cookie}: {cookie.changes.join(', ')}</li>
+                  ))}
+                </ul>
+              )}
+
+              {diff.certificate.changed && (
+                <div>
+                  <p className="text-xs font-semibold text-gray-700 mb-1">{t.diff.certificate}</p>
+                  <ul className="space-y-0.5 font-mono text-xs break-all">
+                    {diff.certificate.issuerChanged && (
+                      <li>{t.diff.issuer}: {diff.certificate.from?.issuer || t.diff.none} → {diff.certificate.to?.issuer || t.diff.none}</li>
+                    )}
+                    {diff.certificate.validityChanged && (
+                      <li>{t.diff.validTo}: {diff.certificate.from?.validTo || t.diff.notAvailable} → {diff.certificate.to?.validTo || t.diff.notAvailable}</li>
+                    )}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
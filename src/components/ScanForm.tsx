@@ -1,18 +1,80 @@
 import { useState } from 'react'
 import { Button } from './ui/button.tsx'
+import { useI18n } from '../lib/i18n.ts'
+
+export type ScreenshotResolution = 'desktop' | 'mobile' | 'tablet'
+
+export interface ScanOptions {
+  visibility: 'Public' | 'Unlisted'
+  userAgent?: string
+  referer?: string
+  customHeaders?: Record<string, string>
+  screenshotsResolutions?: ScreenshotResolution[]
+}
 
 interface ScanFormProps {
-  onSubmit: (url: string) => void
+  onSubmit: (url: string, options: ScanOptions) => void
   isSubmitting: boolean
   error: string | null
+  cooldownSeconds?: number
 }
 
-export function ScanForm({ onSubmit, isSubmitting, error }: ScanFormProps) {
+// Browser names are not translated; the default and custom entries are labelled from the catalog
+const userAgentPresets: Array<{ key: string; label?: string; value: string }> = [
+  { key: 'default', value: '' },
+  { key: 'desktop', label: 'Desktop Chrome', value: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36' },
+  { key: 'iphone', label: 'iPhone Safari', value: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1' },
+  { key: 'android', label: 'Android Chrome', value: 'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Mobile Safari/537.36' },
+  { key: 'custom', value: '' },
+]
+
+const resolutions: ScreenshotResolution[] = ['desktop', 'mobile', 'tablet']
+
+const inputClassName = 'w-full px-3 py-2 rounded-lg border-2 border-gray-200 bg-white text-sm text-gray-900 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-orange focus:border-orange transition-all duration-200'
+
+export function ScanForm({ onSubmit, isSubmitting, error, cooldownSeconds = 0 }: ScanFormProps) {
+  const { t } = useI18n()
   const [url, setUrl] = useState('')
+  const [showAdvanced, setShowAdvanced] = useState(false)
+  const [visibility, setVisibility] = useState<ScanOptions['visibility']>('Unlisted')
+  const [userAgentPreset, setUserAgentPreset] = useState('default')
+  const [customUserAgent, setCustomUserAgent] = useState('')
+  const [referer, setReferer] = useState('')
+  const [headers, setHeaders] = useState<Array<{ name: string; value: string }>>([])
+  const [screenshotSizes, setScreenshotSizes] = useState<ScreenshotResolution[]>(['desktop'])
+
+  const buildOptions = (): ScanOptions => {
+    const userAgent = userAgentPreset === 'custom'
+      ? customUserAgent.trim()
+      : userAgentPresets.find(preset => preset.key === userAgentPreset)?.value
+    const customHeaders = Object.fromEntries(
+      headers
+        .filter(header => header.name.trim())
+        .map(header => [header.name.trim(), header.value])
+    )
+
+    return {
+      visibility,
+      userAgent: userAgent || undefined,
+      referer: referer.trim() || undefined,
+      customHeaders: Object.keys(customHeaders).length > 0 ? customHeaders : undefined,
+      screenshotsResolutions: screenshotSizes.length > 0 ? screenshotSizes : ['desktop']
+    }
+  }
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
-    onSubmit(url)
+    onSubmit(url, buildOptions())
+  }
+
+  const toggleScreenshotSize = (size: ScreenshotResolution) => {
+    setScreenshotSizes(prev =>
+      prev.includes(size) ? prev.filter(s => s !== size) : [...prev, size]
+    )
+  }
+
+  const updateHeader = (index: number, field: 'name' | 'value', value: string) => {
+    setHeaders(prev => prev.map((header, i) => i === index ? { ...header, [field]: value } : header))
   }
 
   return (
@@ -20,7 +82,7 @@ export function ScanForm({ onSubmit, isSubmitting, error }: ScanFormProps) {
       <form onSubmit={handleSubmit} className="space-y-4 max-w-sm mx-auto">
         <div>
           <label htmlFor="url" className="block text-sm font-semibold text-gray-700 mb-2">
-            Enter URL to Scan
+            {t.form.url}
           </label>
           <input
             id="url"
@@ -32,7 +94,154 @@ export function ScanForm({ onSubmit, isSubmitting, error }: ScanFormProps) {
             className="w-full px-4 py-3 rounded-xl border-2 border-gray-200 bg-white text-gray-900 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-orange focus:border-orange transition-all duration-200"
             disabled={isSubmitting}
           />
-          
+
+        </div>
+
+        {/* Advanced Options */}
+        <div>
+          <button
+            type="button"
+            onClick={() => setShowAdvanced(!showAdvanced)}
+            className="flex items-center gap-1 text-sm font-semibold text-gray-600 hover:text-orange transition-colors"
+            aria-expanded={showAdvanced}
+          >
+            <svg className={`w-4 h-4 transition-transform ${showAdvanced ? 'rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+            {t.form.advanced}
+          </button>
+
+          {showAdvanced && (
+            <div className="mt-3 space-y-4 bg-gray-50 border border-gray-200 rounded-xl p-4 animate-fade-in">
+              <div>
+                <label htmlFor="visibility" className="block text-xs font-semibold text-gray-700 mb-1">
+                  {t.form.visibility}
+                </label>
+                <select
+                  id="visibility"
+                  value={visibility}
+                  onChange={(e) => setVisibility(e.target.value as ScanOptions['visibility'])}
+                  className={inputClassName}
+                  disabled={isSubmitting}
+                >
+                  <option value="Unlisted">{t.form.unlisted}</option>
+                  <option value="Public">{t.form.public}</option>
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="userAgent" className="block text-xs font-semibold text-gray-700 mb-1">
+                  {t.form.userAgent}
+                </label>
+                <select
+                  id="userAgent"
+                  value={userAgentPreset}
+                  onChange={(e) => setUserAgentPreset(e.target.value)}
+                  className={inputClassName}
+                  disabled={isSubmitting}
+                >
+                  {userAgentPresets.map(preset => (
+                    <option key={preset.key} value={preset.key}>
+                      {preset.label ?? (preset.key === 'custom' ? t.form.customUserAgent : t.form.defaultUserAgent)}
+                    </option>
+                  ))}
+                </select>
+                {userAgentPreset === 'custom' && (
+                  <input
+                    type="text"
+                    value={customUserAgent}
+                    onChange={(e) => setCustomUserAgent(e.target.value)}
+                    placeholder="Mozilla/5.0 ..."
+                    maxLength={512}
+                    className={`${inputClassName} mt-2`}
+                    disabled={isSubmitting}
+                  />
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="referer" className="block text-xs font-semibold text-gray-700 mb-1">
+                  {t.form.referer}
+                </label>
+                <input
+                  id="referer"
+                  type="url"
+                  value={referer}
+                  onChange={(e) => setReferer(e.target.value)}
+                  placeholder="https://www.google.com/"
+                  className={inputClassName}
+                  disabled={isSubmitting}
+                />
+              </div>
+
+              <div>
+                <span className="block text-xs font-semibold text-gray-700 mb-1">{t.form.customHeaders}</span>
+                <div className="space-y-2">
+                  {headers.map((header, index) => (
+                    <div key={index} className="flex gap-2">
+                      <input
+                        type="text"
+                        value={header.name}
+                        onChange={(e) => updateHeader(index, 'name', e.target.value)}
+                        placeholder={t.form.header}
+                        aria-label={t.form.headerName}
+                        className={`${inputClassName} flex-1`}
+                        disabled={isSubmitting}
+                      />
+                      <input
+                        type="text"
+                        value={header.value}
+                        onChange={(e) => updateHeader(index, 'value', e.target.value)}
+                        placeholder={t.form.value}
+                        aria-label={t.form.headerValue}
+                        className={`${inputClassName} flex-1`}
+                        disabled={isSubmitting}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setHeaders(prev => prev.filter((_, i) => i !== index))}
+                        className="px-2 text-gray-400 hover:text-red-600 transition-colors"
+                        aria-label={t.form.removeHeader}
+                        disabled={isSubmitting}
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                {headers.length < 10 && (
+                  <button
+                    type="button"
+                    onClick={() => setHeaders(prev => [...prev, { name: '', value: '' }])}
+                    className="mt-2 text-xs font-semibold text-orange hover:text-orange-dark transition-colors"
+                    disabled={isSubmitting}
+                  >
+                    {t.form.addHeader}
+                  </button>
+                )}
+              </div>
+
+              <div>
+                <span className="block text-xs font-semibold text-gray-700 mb-1">{t.form.screenshotSizes}</span>
+                <div className="flex gap-4">
+                  {resolutions.map(size => (
+                    <label key={size} className="flex items-center gap-1 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={screenshotSizes.includes(size)}
+                        onChange={() => toggleScreenshotSize(size)}
+                        className="accent-orange"
+                        disabled={isSubmitting}
+                      />
+                      {t.form.resolutions[size]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
         </div>
 
         {error && (
@@ -41,18 +250,28 @@ export function ScanForm({ onSubmit, isSubmitting, error }: ScanFormProps) {
           </div>
         )}
 
+        {cooldownSeconds > 0 && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-3 sm:p-4 animate-slide-in" role="status">
+            <p className="text-sm text-yellow-800">
+              {t.form.cooldown.before}<span className="font-semibold font-mono">{cooldownSeconds}s</span>{t.form.cooldown.after}
+            </p>
+          </div>
+        )}
+
         <Button
           type="submit"
-          disabled={isSubmitting}
+          disabled={isSubmitting || cooldownSeconds > 0}
           className="w-full h-12 text-base font-bold bg-linear-to-r from-orange to-orange-light hover:from-orange-dark hover:to-orange text-white rounded-xl shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
         >
           {isSubmitting ? (
             <span className="flex items-center justify-center gap-2">
               <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
-              Starting Scan...
+              {t.form.starting}
             </span>
+          ) : cooldownSeconds > 0 ? (
+            t.form.tryAgainIn(cooldownSeconds)
           ) : (
-            'Start Security Scan'
+            t.form.start
           )}
         </Button>
       </form>
@@ -0,0 +1,167 @@
+import { useEffect, useState, type FormEvent } from 'react'
+import { readApiError } from '../lib/api-error.ts'
+import { useI18n } from '../lib/i18n.ts'
+
+interface ScanHistoryItem {
+  sessionId: string
+  url: string
+  domain: string | null
+  status: string
+  malicious: boolean | null
+  riskScore: number | null
+  reportAvailable: boolean
+  createdAt: number
+}
+
+interface ScanHistoryPage {
+  scans: ScanHistoryItem[]
+  nextCursor: string | null
+}
+
+type VerdictFilter = '' | 'malicious' | 'safe'
+
+interface HistoryFilters {
+  verdict: VerdictFilter
+  domain: string
+}
+
+interface ScanHistoryProps {
+  onOpen: (sessionId: string) => void
+}
+
+const PAGE_SIZE = 10
+
+async function fetchHistory(filters: HistoryFilters, cursor?: string): Promise<ScanHistoryPage> {
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE) })
+  if (filters.verdict) params.set('verdict', filters.verdict)
+  if (filters.domain.trim()) params.set('domain', filters.domain.trim())
+  if (cursor) params.set('cursor', cursor)
+
+  const response = await fetch(`/api/scans?${params}`)
+  if (!response.ok) {
+    // An empty message shows the catalog's wording in the current language
+    const apiError = await readApiError(response, '')
+    throw new Error(apiError.message)
+  }
+  return response.json()
+}
+
+export function ScanHistory({ onOpen }: ScanHistoryProps) {
+  const { t, formatDateTime } = useI18n()
+  const [scans, setScans] = useState<ScanHistoryItem[] | null>(null)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [verdict, setVerdict] = useState<VerdictFilter>('')
+  const [domain, setDomain] = useState('')
+  const [appliedFilters, setAppliedFilters] = useState<HistoryFilters>({ verdict: '', domain: '' })
+  const filtersApplied = appliedFilters.verdict !== '' || appliedFilters.domain.trim() !== ''
+
+  useEffect(() => {
+    fetchHistory({ verdict: '', domain: '' })
+      .then(page => {
+        setScans(page.scans)
+        setNextCursor(page.nextCursor)
+      })
+      .catch(err => setError(err instanceof Error ? err.message : ''))
+  }, [])
+
+  const loadPage = async (filters: HistoryFilters, cursor?: string) => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const page = await fetchHistory(filters, cursor)
+      setScans(prev => (cursor && prev ? [...prev, ...page.scans] : page.scans))
+      setNextCursor(page.nextCursor)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleFilter = async (e: FormEvent) => {
+    e.preventDefault()
+    const filters = { verdict, domain }
+    setAppliedFilters(filters)
+    await loadPage(filters)
+  }
+
+  // Nothing to show until this browser has scanned something
+  if (error === null && (scans === null || (scans.length === 0 && !filtersApplied))) return null
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6 border border-gray-200 animate-fade-in max-w-md mx-auto">
+      <h3 className="text-lg font-bold text-gray-900 mb-3">{t.history.title}</h3>
+
+      <form onSubmit={handleFilter} className="flex gap-2 mb-4">
+        <input
+          type="text"
+          value={domain}
+          onChange={e => setDomain(e.target.value)}
+          placeholder={t.history.domain}
+          className="flex-1 min-w-0 h-9 px-3 text-sm border-2 border-gray-200 rounded-lg focus:border-orange focus:outline-none"
+        />
+        <select
+          value={verdict}
+          onChange={e => setVerdict(e.target.value as VerdictFilter)}
+          className="h-9 px-2 text-sm border-2 border-gray-200 rounded-lg focus:border-orange focus:outline-none"
+          aria-label={t.history.verdict}
+        >
+          <option value="">{t.history.all}</option>
+          <option value="malicious">{t.history.malicious}</option>
+          <option value="safe">{t.history.safe}</option>
+        </select>
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="h-9 px-3 text-sm font-medium bg-gray-900 hover:bg-gray-800 text-white rounded-lg disabled:opacity-50"
+        >
+          {t.history.filter}
+        </button>
+      </form>
+
+      {error !== null && <p className="text-sm text-red-700 mb-3">{error || t.history.loadFailed}</p>}
+
+      {scans && scans.length === 0 && (
+        <p className="text-sm text-gray-500">{t.history.noMatches}</p>
+      )}
+
+      <ul className="divide-y divide-gray-100">
+        {scans?.map(scan => (
+          <li key={scan.sessionId}>
+            <button
+              onClick={() => onOpen(scan.sessionId)}
+              disabled={!scan.reportAvailable}
+              title={scan.reportAvailable ? t.history.open : t.history.unavailable}
+              className="w-full py-2 flex items-center justify-between gap-3 text-left hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">{scan.domain || scan.url}</p>
+                <p className="text-xs text-gray-500">{formatDateTime(scan.createdAt)}</p>
+              </div>
+              {scan.malicious === null ? (
+                <span className="shrink-0 text-xs font-semibold text-gray-500">{t.history.statuses[scan.status] ?? scan.status}</span>
+              ) : (
+                <span className={`shrink-0 text-xs font-semibold ${scan.malicious ? 'text-red-700' : 'text-green-700'}`}>
+                  {scan.malicious ? t.history.malicious : t.history.safe}
+                  {scan.riskScore !== null && <span className="ml-1 font-normal text-gray-500">{t.history.risk(scan.riskScore)}</span>}
+                </span>
+              )}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {nextCursor && (
+        <button
+          onClick={() => loadPage(appliedFilters, nextCursor)}
+          disabled={isLoading}
+          className="w-full mt-3 text-sm font-medium text-orange hover:text-orange-dark disabled:opacity-50"
+        >
+          {isLoading ? t.history.loading : t.history.loadMore}
+        </button>
+      )}
+    </div>
+  )
+}
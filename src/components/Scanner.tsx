@@ -1,26 +1,46 @@
 import { useState, useEffect, useRef } from 'react'
-import { ScanForm } from './ScanForm.tsx'
+import { ScanForm, type ScanOptions, type ScreenshotResolution } from './ScanForm.tsx'
 import { ProgressStepper } from './ProgressStepper.tsx'
 import { ResultsCard } from './ResultsCard.tsx'
+import type { RiskScore } from './RiskGauge.tsx'
+import { ScanHistory } from './ScanHistory.tsx'
 import { Toast, type ToastProps } from './Toast.tsx'
 import { Confetti } from './Confetti.tsx'
+import { readApiError, type ApiError } from '../lib/api-error.ts'
+import { useI18n } from '../lib/i18n.ts'
 
-type ScanStatus = 'idle' | 'queued' | 'scanning' | 'generating' | 'uploading' | 'completed' | 'failed' | 'expired'
+type ScanStatus = 'idle' | 'queued' | 'scanning' | 'generating' | 'uploading' | 'completed' | 'failed' | 'cancelled' | 'expired'
+
+// No further updates arrive once a scan reaches one of these
+const isFinished = (status: ScanStatus) => status === 'completed' || status === 'failed' || status === 'cancelled'
 
 interface SessionData {
   sessionId: string
+  ownerToken?: string
   url: string
   email?: string
   status: ScanStatus
   r2Key?: string
-  error?: string
+  // null once a server-side retry clears the previous failure
+  error?: ApiError | null
   radarUuid?: string
   workflowInstanceId?: string
   progressPercent?: number
   progressMessage?: string
+  cacheHit?: boolean
+  cachedAt?: number
+  scanOptions?: ScanOptions
+  screenshots?: Partial<Record<ScreenshotResolution, string>>
+  previousSessionId?: string
+  risk?: RiskScore
+  // Server-side retries: current attempt, starting at 1
+  attempt?: number
+  // Opened from scan history rather than scanned just now
+  reopened?: boolean
 }
 
 export function Scanner() {
+  const { locale, t } = useI18n()
   const [sessionData, setSessionData] = useState<SessionData | null>(() => {
     // Restore session from sessionStorage on mount
     const saved = sessionStorage.getItem('scanSession')
@@ -37,9 +57,18 @@ export function Scanner() {
   const [showConfetti, setShowConfetti] = useState(false)
   const [scanStartTime, setScanStartTime] = useState<number | null>(null)
   const [elapsedTime, setElapsedTime] = useState(0)
+  const [cooldownSeconds, setCooldownSeconds] = useState(0)
+  const [isCancelling, setIsCancelling] = useState(false)
+
+  // Count down the rate limit cooldown
+  useEffect(() => {
+    if (cooldownSeconds <= 0) return
+    const timer = window.setTimeout(() => setCooldownSeconds(seconds => seconds - 1), 1000)
+    return () => clearTimeout(timer)
+  }, [cooldownSeconds])
 
   // Handle form submission
-  const handleSubmit = async (url: string) => {
+  const handleSubmit = async (url: string, scanOptions?: ScanOptions, force = false) => {
     setIsSubmitting(true)
     setError(null)
     setScanStartTime(Date.now())
@@ -49,27 +78,37 @@ export function Scanner() {
       const response = await fetch('/api/scan', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ url, email: 'scan@placeholder.com' }) // Placeholder email
+        body: JSON.stringify({ url, email: 'scan@placeholder.com', force, options: scanOptions, locale }) // Placeholder email
       })
 
       if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error(errorData.error || 'Failed to start scan')
+        const apiError = await readApiError(response, t.scanner.startFailed)
+        if (apiError.code === 'RATE_LIMITED') {
+          // The form shows a countdown instead of an error
+          const retryAfter = Number(apiError.details?.retryAfter) || Number(response.headers.get('Retry-After')) || 60
+          setCooldownSeconds(retryAfter)
+          setScanStartTime(null)
+          setSessionData(null)
+          return
+        }
+        throw new Error(apiError.message)
       }
 
       const data = await response.json()
       
       setSessionData({
         sessionId: data.sessionId,
+        ownerToken: data.ownerToken,
         url,
-        status: 'queued'
+        status: 'queued',
+        scanOptions
       })
 
       // Connect to WebSocket for real-time updates
       connectWebSocket(data.sessionId)
 
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to start scan')
+      setError(err instanceof Error ? err.message : t.scanner.startFailed)
     } finally {
       setIsSubmitting(false)
     }
@@ -117,7 +156,7 @@ export function Scanner() {
       wsRef.current = null
       
       // Only attempt reconnection if session is still active
-      if (sessionData && sessionData.status !== 'completed' && sessionData.status !== 'failed') {
+      if (sessionData && !isFinished(sessionData.status)) {
         attemptReconnect(sessionId)
       }
     }
@@ -162,7 +201,7 @@ export function Scanner() {
           }))
           
           // Stop polling if scan is complete
-          if (data.status === 'completed' || data.status === 'failed') {
+          if (isFinished(data.status)) {
             if (pollingIntervalRef.current) {
               clearInterval(pollingIntervalRef.current)
               pollingIntervalRef.current = null
@@ -186,7 +225,7 @@ export function Scanner() {
 
   // Reconnect WebSocket on mount if session exists
   useEffect(() => {
-    if (sessionData && sessionData.status !== 'completed' && sessionData.status !== 'failed') {
+    if (sessionData && !isFinished(sessionData.status)) {
       connectWebSocket(sessionData.sessionId)
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -194,7 +233,7 @@ export function Scanner() {
 
   // Timer effect - update elapsed time
   useEffect(() => {
-    if (scanStartTime && sessionData && sessionData.status !== 'completed' && sessionData.status !== 'failed') {
+    if (scanStartTime && sessionData && !isFinished(sessionData.status)) {
       const interval = setInterval(() => {
         setElapsedTime(Math.floor((Date.now() - scanStartTime) / 1000))
       }, 1000)
@@ -204,17 +243,19 @@ export function Scanner() {
 
   // Trigger confetti and toast on completion
   useEffect(() => {
-    if (sessionData?.status === 'completed') {
+    if (sessionData?.status === 'completed' && !sessionData.reopened) {
       setShowConfetti(true)
       setToast({
-        message: '🎉 Scan completed successfully!',
+        message: t.scanner.completed,
         type: 'success',
         duration: 4000
       })
       setScanStartTime(null)
       setTimeout(() => setShowConfetti(false), 4000)
     }
-  }, [sessionData?.status])
+    // Not rerun on language changes, which would celebrate the same scan again
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sessionData?.status, sessionData?.reopened])
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -261,7 +302,8 @@ export function Scanner() {
     setElapsedTime(0)
   }
 
-  // Retry failed scan with same URL
+  // Retry a failed scan on the server, keeping the same session. Cancelled
+  // scans, and failed ones whose live session has expired, start a new scan instead.
   const handleRetry = async () => {
     if (!sessionData?.url) return
     
@@ -276,10 +318,112 @@ export function Scanner() {
       clearInterval(pollingIntervalRef.current)
     }
     
-    // Clear error and retry with same URL
     setError(null)
     setConnectionStatus('disconnected')
-    await handleSubmit(sessionData.url)
+    
+    if (sessionData.status === 'failed') {
+      const response = await fetch(`/api/session/${sessionData.sessionId}/retry`, {
+        method: 'POST',
+        headers: sessionData.ownerToken ? { 'X-Session-Owner': sessionData.ownerToken } : {}
+      })
+      
+      if (response.ok) {
+        const data = await response.json()
+        setSessionData(prev => prev && {
+          ...prev,
+          status: 'queued',
+          error: undefined,
+          attempt: data.attempt,
+          progressPercent: 0,
+          progressMessage: t.scanner.retrying
+        })
+        setScanStartTime(Date.now())
+        setElapsedTime(0)
+        connectWebSocket(sessionData.sessionId)
+        return
+      }
+      
+      // The live session has expired; fall through to a new scan
+      const apiError = await readApiError(response, t.scanner.retryFailed)
+      if (apiError.code !== 'NOT_FOUND') {
+        setToast({
+          message: apiError.message,
+          type: 'error',
+          duration: 4000
+        })
+        return
+      }
+    }
+    
+    // Retry with the same URL as a new scan
+    await handleSubmit(sessionData.url, sessionData.scanOptions)
+  }
+
+  // Stop an in-flight scan; the session keeps its results view with a cancelled status
+  const handleCancel = async () => {
+    if (!sessionData) return
+    
+    setIsCancelling(true)
+    try {
+      const response = await fetch(`/api/session/${sessionData.sessionId}/cancel`, {
+        method: 'POST',
+        headers: sessionData.ownerToken ? { 'X-Session-Owner': sessionData.ownerToken } : {}
+      })
+      
+      if (!response.ok) {
+        const apiError = await readApiError(response, t.scanner.cancelFailed)
+        throw new Error(apiError.message)
+      }
+      
+      if (wsRef.current) {
+        wsRef.current.close()
+      }
+      if (reconnectTimeoutRef.current) {
+        clearTimeout(reconnectTimeoutRef.current)
+      }
+      if (pollingIntervalRef.current) {
+        clearInterval(pollingIntervalRef.current)
+      }
+      setSessionData(prev => prev && { ...prev, status: 'cancelled', progressMessage: t.scanner.cancelled })
+      setConnectionStatus('disconnected')
+      setScanStartTime(null)
+    } catch (err) {
+      setToast({
+        message: err instanceof Error ? err.message : t.scanner.cancelFailed,
+        type: 'error',
+        duration: 4000
+      })
+    } finally {
+      setIsCancelling(false)
+    }
+  }
+
+  // Re-run a cached scan against Radar, bypassing the cache
+  const handleRescan = async () => {
+    if (!sessionData?.url) return
+    
+    const { url, scanOptions } = sessionData
+    handleReset()
+    await handleSubmit(url, scanOptions, true)
+  }
+
+  // Reopen a past scan's results from the history panel
+  const handleOpenHistory = async (sessionId: string) => {
+    setError(null)
+    try {
+      const response = await fetch(`/api/session/${sessionId}`)
+      if (!response.ok) {
+        const apiError = await readApiError(response, t.scanner.notFound)
+        throw new Error(apiError.message)
+      }
+      const data = await response.json()
+      if (data.status !== 'completed' || !data.r2Key) {
+        throw new Error(t.scanner.reportUnavailable)
+      }
+      setSessionData({ ...data, reopened: true })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t.scanner.openFailed)
+    }
   }
 
   // Format elapsed time as MM:SS
@@ -302,25 +446,25 @@ export function Scanner() {
       {/* Confetti animation */}
       {showConfetti && <Confetti />}
       {/* Connection Status Indicator & Timer */}
-      {sessionData && sessionData.status !== 'completed' && sessionData.status !== 'failed' && (
+      {sessionData && !isFinished(sessionData.status) && (
         <div className="flex items-center justify-center gap-4 text-sm">
           <div className="flex items-center gap-2">
             {connectionStatus === 'connected' && (
               <>
                 <span className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></span>
-                <span className="text-gray-600">Live updates</span>
+                <span className="text-gray-600">{t.scanner.liveUpdates}</span>
               </>
             )}
             {connectionStatus === 'reconnecting' && (
               <>
                 <span className="w-2 h-2 bg-yellow-500 rounded-full animate-pulse"></span>
-                <span className="text-gray-600">Reconnecting...</span>
+                <span className="text-gray-600">{t.scanner.reconnecting}</span>
               </>
             )}
             {connectionStatus === 'polling' && (
               <>
                 <span className="w-2 h-2 bg-orange-500 rounded-full animate-pulse"></span>
-                <span className="text-gray-600">Using fallback mode</span>
+                <span className="text-gray-600">{t.scanner.fallbackMode}</span>
               </>
             )}
           </div>
@@ -336,11 +480,15 @@ export function Scanner() {
       )}
       
       {!sessionData ? (
-        <ScanForm 
-          onSubmit={handleSubmit} 
-          isSubmitting={isSubmitting}
-          error={error}
-        />
+        <>
+          <ScanForm 
+            onSubmit={handleSubmit} 
+            isSubmitting={isSubmitting}
+            error={error}
+            cooldownSeconds={cooldownSeconds}
+          />
+          <ScanHistory onOpen={handleOpenHistory} />
+        </>
       ) : (
         <>
           <ProgressStepper 
@@ -348,15 +496,25 @@ export function Scanner() {
             error={sessionData.error}
             progressPercent={sessionData.progressPercent}
             progressMessage={sessionData.progressMessage}
+            attempt={sessionData.attempt}
             onRetry={handleRetry}
             onReset={handleReset}
+            onCancel={handleCancel}
+            isCancelling={isCancelling}
           />
           
           {sessionData.status === 'completed' && (
             <ResultsCard 
               sessionId={sessionData.sessionId}
+              ownerToken={sessionData.ownerToken}
               url={sessionData.url}
               email={sessionData.email}
+              cacheHit={sessionData.cacheHit}
+              cachedAt={sessionData.cachedAt}
+              screenshots={sessionData.screenshots}
+              previousSessionId={sessionData.previousSessionId}
+              risk={sessionData.risk}
+              onRescan={handleRescan}
               onReset={handleReset}
             />
           )}
@@ -0,0 +1,47 @@
+// Mirrors ErrorCode in worker/types.ts
+export type ErrorCode =
+  | 'VALIDATION_FAILED'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'METHOD_NOT_ALLOWED'
+  | 'CONFLICT'
+  | 'RATE_LIMITED'
+  | 'RADAR_AUTH_FAILED'
+  | 'RADAR_RATE_LIMITED'
+  | 'RADAR_URL_REJECTED'
+  | 'RADAR_UNAVAILABLE'
+  | 'SCAN_TIMEOUT'
+  | 'STORAGE_FAILED'
+  | 'DATABASE_FAILED'
+  | 'REPORT_GENERATION_FAILED'
+  | 'EMAIL_FAILED'
+  | 'INTERNAL_ERROR'
+
+// Body of every API error response, and the shape of a failed session's error
+export interface ApiError {
+  code: ErrorCode
+  title: string
+  message: string
+  action?: string
+  retryable: boolean
+  details?: Record<string, unknown>
+}
+
+const isApiError = (body: unknown): body is ApiError =>
+  typeof body === 'object' && body !== null &&
+  typeof (body as ApiError).code === 'string' && typeof (body as ApiError).message === 'string'
+
+// Read the error envelope from a failed response. Responses that never reached
+// the Worker (e.g. a proxy error page) get a generic envelope with the fallback message.
+export async function readApiError(response: Response, fallbackMessage: string): Promise<ApiError> {
+  const body = await response.json().catch(() => null)
+  if (isApiError(body)) return body
+
+  return {
+    code: 'INTERNAL_ERROR',
+    title: 'Something Went Wrong',
+    message: fallbackMessage,
+    retryable: true
+  }
+}
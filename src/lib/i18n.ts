@@ -0,0 +1,602 @@
+import { createContext, useContext } from 'react'
+
+// Mirrors Locale in worker/types.ts: the languages reports and emails come in
+export type Locale = 'en' | 'de' | 'fr' | 'ja'
+
+export const LOCALES: Locale[] = ['en', 'de', 'fr', 'ja']
+
+// Each language's own name, for the picker
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  de: 'Deutsch',
+  fr: 'Français',
+  ja: '日本語',
+}
+
+const STORAGE_KEY = 'locale'
+
+const en = {
+  app: {
+    tagline: 'Scan URLs with Cloudflare Radar • Get instant PDF reports',
+    home: 'Go to home',
+    language: 'Language',
+  },
+  scanner: {
+    liveUpdates: 'Live updates',
+    reconnecting: 'Reconnecting...',
+    fallbackMode: 'Using fallback mode',
+    completed: '🎉 Scan completed successfully!',
+    retrying: 'Retrying scan...',
+    cancelled: 'Scan cancelled',
+    startFailed: 'Failed to start scan',
+    retryFailed: 'Failed to retry scan',
+    cancelFailed: 'Failed to cancel scan',
+    notFound: 'Scan not found',
+    reportUnavailable: 'The report for this scan is no longer available',
+    openFailed: 'Failed to open scan',
+  },
+  form: {
+    url: 'Enter URL to Scan',
+    advanced: 'Advanced options',
+    visibility: 'Visibility',
+    unlisted: 'Unlisted',
+    public: 'Public',
+    userAgent: 'User Agent',
+    defaultUserAgent: 'Default (Radar)',
+    customUserAgent: 'Custom...',
+    referer: 'Referer',
+    customHeaders: 'Custom Headers',
+    header: 'Header',
+    value: 'Value',
+    headerName: 'Header name',
+    headerValue: 'Header value',
+    removeHeader: 'Remove header',
+    addHeader: '+ Add header',
+    screenshotSizes: 'Screenshot Sizes',
+    resolutions: { desktop: 'Desktop', mobile: 'Mobile', tablet: 'Tablet' },
+    // The countdown is shown in bold between the two halves
+    cooldown: { before: "You've reached the scan limit. You can start another scan in ", after: '.' },
+    starting: 'Starting Scan...',
+    tryAgainIn: (seconds: number) => `Try again in ${seconds}s`,
+    start: 'Start Security Scan',
+  },
+  progress: {
+    steps: { queued: 'Queued', scanning: 'Scanning', generating: 'Generating', uploading: 'Uploading', completed: 'Complete' },
+    processing: 'Processing...',
+    attempt: (attempt: number) => `(attempt ${attempt})`,
+    cancel: 'Cancel Scan',
+    cancelling: 'Cancelling...',
+    cancelledTitle: 'Scan Cancelled',
+    cancelledMessage: 'This scan was stopped before it finished. No report was generated.',
+    scanAgain: 'Scan Again',
+    retry: 'Retry Scan',
+    startNew: 'Start New Scan',
+  },
+  results: {
+    title: 'Scan Complete!',
+    // The URL is highlighted between the two halves
+    readyFor: { before: 'Report ready for ', after: '' },
+    cached: (date?: string) => `Served from a recent scan${date ? ` (${date})` : ''}.`,
+    freshScan: 'Run a fresh scan instead',
+    screenshot: 'Page Screenshot',
+    screenshotOf: (url: string) => `Screenshot of ${url}`,
+    pdfPreview: 'PDF Preview',
+    preview: 'Preview',
+    hide: 'Hide',
+    download: 'Download',
+    sendEmail: 'Send Report via Email',
+    send: 'Send Email',
+    sending: 'Sending...',
+    cancel: 'Cancel',
+    emailSent: (email: string) => `✓ Email sent successfully to ${email}`,
+    invalidEmail: 'Please enter a valid email address',
+    emailFailed: 'Failed to send email',
+    linkFailed: 'Failed to get report link',
+    startNew: 'Start New Scan',
+  },
+  risk: {
+    levels: { LOW: 'LOW', MEDIUM: 'MEDIUM', HIGH: 'HIGH', CRITICAL: 'CRITICAL' },
+    level: (level: string) => `${level} risk`,
+    description: 'Risk score out of 100, weighed from every scan signal',
+    score: (score: number) => `Risk score ${score} of 100`,
+  },
+  history: {
+    title: 'Recent scans',
+    domain: 'Filter by domain',
+    verdict: 'Filter by verdict',
+    all: 'All',
+    malicious: 'Malicious',
+    safe: 'Safe',
+    filter: 'Filter',
+    noMatches: 'No scans match these filters.',
+    open: 'Open report',
+    unavailable: 'Report no longer available',
+    risk: (score: number) => `· risk ${score}`,
+    statuses: {
+      queued: 'Queued',
+      scanning: 'Scanning',
+      generating: 'Generating',
+      uploading: 'Uploading',
+      sending: 'Sending',
+      completed: 'Completed',
+      failed: 'Failed',
+      cancelled: 'Cancelled',
+      expired: 'Expired',
+    } as Record<string, string>,
+    loading: 'Loading...',
+    loadMore: 'Load more',
+    loadFailed: 'Failed to load scan history',
+  },
+  diff: {
+    title: 'Changes since last scan',
+    loading: 'Loading changes...',
+    loadFailed: 'Failed to load changes',
+    comparedWith: (date: string) => `Compared with the scan from ${date}`,
+    noChanges: 'No changes detected.',
+    verdict: 'Verdict',
+    malicious: 'Malicious',
+    safe: 'Safe',
+    categories: 'Categories',
+    domains: 'Domains',
+    scripts: 'Scripts',
+    ips: 'IPs',
+    asns: 'ASNs',
+    countries: 'Countries',
+    technologies: 'Technologies',
+    cookies: 'Cookies',
+    certificate: 'Certificate',
+    issuer: 'Issuer',
+    validTo: 'Valid to',
+    none: 'none',
+    notAvailable: 'n/a',
+  },
+}
+
+export type UiMessages = typeof en
+
+const de: UiMessages = {
+  app: {
+    tagline: 'URLs mit Cloudflare Radar scannen • Sofort PDF-Berichte erhalten',
+    home: 'Zur Startseite',
+    language: 'Sprache',
+  },
+  scanner: {
+    liveUpdates: 'Live-Updates',
+    reconnecting: 'Verbindung wird wiederhergestellt...',
+    fallbackMode: 'Ausweichmodus aktiv',
+    completed: '🎉 Scan erfolgreich abgeschlossen!',
+    retrying: 'Scan wird wiederholt...',
+    cancelled: 'Scan abgebrochen',
+    startFailed: 'Scan konnte nicht gestartet werden',
+    retryFailed: 'Scan konnte nicht wiederholt werden',
+    cancelFailed: 'Scan konnte nicht abgebrochen werden',
+    notFound: 'Scan nicht gefunden',
+    reportUnavailable: 'Der Bericht zu diesem Scan ist nicht mehr verfügbar',
+    openFailed: 'Scan konnte nicht geöffnet werden',
+  },
+  form: {
+    url: 'Zu scannende URL eingeben',
+    advanced: 'Erweiterte Optionen',
+    visibility: 'Sichtbarkeit',
+    unlisted: 'Nicht gelistet',
+    public: 'Öffentlich',
+    userAgent: 'User-Agent',
+    defaultUserAgent: 'Standard (Radar)',
+    customUserAgent: 'Eigener...',
+    referer: 'Referer',
+    customHeaders: 'Eigene Header',
+    header: 'Header',
+    value: 'Wert',
+    headerName: 'Header-Name',
+    headerValue: 'Header-Wert',
+    removeHeader: 'Header entfernen',
+    addHeader: '+ Header hinzufügen',
+    screenshotSizes: 'Screenshot-Größen',
+    resolutions: { desktop: 'Desktop', mobile: 'Mobil', tablet: 'Tablet' },
+    cooldown: { before: 'Sie haben das Scan-Limit erreicht. Der nächste Scan ist möglich in ', after: '.' },
+    starting: 'Scan wird gestartet...',
+    tryAgainIn: seconds => `Erneut versuchen in ${seconds} s`,
+    start: 'Sicherheitsscan starten',
+  },
+  progress: {
+    steps: { queued: 'Warteschlange', scanning: 'Scan', generating: 'Erstellung', uploading: 'Upload', completed: 'Fertig' },
+    processing: 'Wird verarbeitet...',
+    attempt: attempt => `(Versuch ${attempt})`,
+    cancel: 'Scan abbrechen',
+    cancelling: 'Wird abgebrochen...',
+    cancelledTitle: 'Scan abgebrochen',
+    cancelledMessage: 'Dieser Scan wurde vor dem Ende gestoppt. Es wurde kein Bericht erstellt.',
+    scanAgain: 'Erneut scannen',
+    retry: 'Scan wiederholen',
+    startNew: 'Neuen Scan starten',
+  },
+  results: {
+    title: 'Scan abgeschlossen!',
+    readyFor: { before: 'Bericht bereit für ', after: '' },
+    cached: date => `Aus einem aktuellen Scan übernommen${date ? ` (${date})` : ''}.`,
+    freshScan: 'Stattdessen neu scannen',
+    screenshot: 'Screenshot der Seite',
+    screenshotOf: url => `Screenshot von ${url}`,
+    pdfPreview: 'PDF-Vorschau',
+    preview: 'Vorschau',
+    hide: 'Ausblenden',
+    download: 'Herunterladen',
+    sendEmail: 'Bericht per E-Mail senden',
+    send: 'E-Mail senden',
+    sending: 'Wird gesendet...',
+    cancel: 'Abbrechen',
+    emailSent: email => `✓ E-Mail erfolgreich an ${email} gesendet`,
+    invalidEmail: 'Bitte geben Sie eine gültige E-Mail-Adresse ein',
+    emailFailed: 'E-Mail konnte nicht gesendet werden',
+    linkFailed: 'Berichtslink konnte nicht abgerufen werden',
+    startNew: 'Neuen Scan starten',
+  },
+  risk: {
+    levels: { LOW: 'NIEDRIGES', MEDIUM: 'MITTLERES', HIGH: 'HOHES', CRITICAL: 'KRITISCHES' },
+    level: level => `${level} Risiko`,
+    description: 'Risikobewertung von 0 bis 100, gewichtet aus allen Scan-Signalen',
+    score: score => `Risikobewertung ${score} von 100`,
+  },
+  history: {
+    title: 'Letzte Scans',
+    domain: 'Nach Domain filtern',
+    verdict: 'Nach Urteil filtern',
+    all: 'Alle',
+    malicious: 'Schädlich',
+    safe: 'Sicher',
+    filter: 'Filtern',
+    noMatches: 'Keine Scans entsprechen diesen Filtern.',
+    open: 'Bericht öffnen',
+    unavailable: 'Bericht nicht mehr verfügbar',
+    risk: score => `· Risiko ${score}`,
+    statuses: {
+      queued: 'In Warteschlange',
+      scanning: 'Scan läuft',
+      generating: 'Wird erstellt',
+      uploading: 'Wird hochgeladen',
+      sending: 'Wird gesendet',
+      completed: 'Abgeschlossen',
+      failed: 'Fehlgeschlagen',
+      cancelled: 'Abgebrochen',
+      expired: 'Abgelaufen',
+    },
+    loading: 'Wird geladen...',
+    loadMore: 'Mehr laden',
+    loadFailed: 'Scanverlauf konnte nicht geladen werden',
+  },
+  diff: {
+    title: 'Änderungen seit dem letzten Scan',
+    loading: 'Änderungen werden geladen...',
+    loadFailed: 'Änderungen konnten nicht geladen werden',
+    comparedWith: date => `Verglichen mit dem Scan vom ${date}`,
+    noChanges: 'Keine Änderungen festgestellt.',
+    verdict: 'Urteil',
+    malicious: 'Schädlich',
+    safe: 'Sicher',
+    categories: 'Kategorien',
+    domains: 'Domains',
+    scripts: 'Skripte',
+    ips: 'IPs',
+    asns: 'ASNs',
+    countries: 'Länder',
+    technologies: 'Technologien',
+    cookies: 'Cookies',
+    certificate: 'Zertifikat',
+    issuer: 'Aussteller',
+    validTo: 'Gültig bis',
+    none: 'keiner',
+    notAvailable: 'k. A.',
+  },
+}
+
+const fr: UiMessages = {
+  app: {
+    tagline: 'Analysez des URL avec Cloudflare Radar • Rapports PDF instantanés',
+    home: "Aller à l'accueil",
+    language: 'Langue',
+  },
+  scanner: {
+    liveUpdates: 'Mises à jour en direct',
+    reconnecting: 'Reconnexion...',
+    fallbackMode: 'Mode de secours',
+    completed: '🎉 Analyse terminée avec succès !',
+    retrying: "Nouvelle tentative d'analyse...",
+    cancelled: 'Analyse annulée',
+    startFailed: "Impossible de lancer l'analyse",
+    retryFailed: "Impossible de relancer l'analyse",
+    cancelFailed: "Impossible d'annuler l'analyse",
+    notFound: 'Analyse introuvable',
+    reportUnavailable: "Le rapport de cette analyse n'est plus disponible",
+    openFailed: "Impossible d'ouvrir l'analyse",
+  },
+  form: {
+    url: 'URL à analyser',
+    advanced: 'Options avancées',
+    visibility: 'Visibilité',
+    unlisted: 'Non répertoriée',
+    public: 'Publique',
+    userAgent: 'User-Agent',
+    defaultUserAgent: 'Par défaut (Radar)',
+    customUserAgent: 'Personnalisé...',
+    referer: 'Referer',
+    customHeaders: 'En-têtes personnalisés',
+    header: 'En-tête',
+    value: 'Valeur',
+    headerName: "Nom de l'en-tête",
+    headerValue: "Valeur de l'en-tête",
+    removeHeader: "Supprimer l'en-tête",
+    addHeader: '+ Ajouter un en-tête',
+    screenshotSizes: "Tailles de capture d'écran",
+    resolutions: { desktop: 'Ordinateur', mobile: 'Mobile', tablet: 'Tablette' },
+    cooldown: { before: "Vous avez atteint la limite d'analyses. Nouvelle analyse possible dans ", after: '.' },
+    starting: "Lancement de l'analyse...",
+    tryAgainIn: seconds => `Réessayer dans ${seconds} s`,
+    start: "Lancer l'analyse de sécurité",
+  },
+  progress: {
+    steps: { queued: 'En attente', scanning: 'Analyse', generating: 'Génération', uploading: 'Envoi', completed: 'Terminé' },
+    processing: 'Traitement...',
+    attempt: attempt => `(tentative ${attempt})`,
+    cancel: "Annuler l'analyse",
+    cancelling: 'Annulation...',
+    cancelledTitle: 'Analyse annulée',
+    cancelledMessage: "Cette analyse a été arrêtée avant la fin. Aucun rapport n'a été généré.",
+    scanAgain: 'Analyser à nouveau',
+    retry: "Relancer l'analyse",
+    startNew: 'Nouvelle analyse',
+  },
+  results: {
+    title: 'Analyse terminée !',
+    readyFor: { before: 'Rapport prêt pour ', after: '' },
+    cached: date => `Résultat d'une analyse récente${date ? ` (${date})` : ''}.`,
+    freshScan: 'Lancer plutôt une nouvelle analyse',
+    screenshot: "Capture d'écran de la page",
+    screenshotOf: url => `Capture d'écran de ${url}`,
+    pdfPreview: 'Aperçu PDF',
+    preview: 'Aperçu',
+    hide: 'Masquer',
+    download: 'Télécharger',
+    sendEmail: 'Envoyer le rapport par e-mail',
+    send: "Envoyer l'e-mail",
+    sending: 'Envoi...',
+    cancel: 'Annuler',
+    emailSent: email => `✓ E-mail envoyé à ${email}`,
+    invalidEmail: 'Veuillez saisir une adresse e-mail valide',
+    emailFailed: "Impossible d'envoyer l'e-mail",
+    linkFailed: "Impossible d'obtenir le lien du rapport",
+    startNew: 'Nouvelle analyse',
+  },
+  risk: {
+    levels: { LOW: 'FAIBLE', MEDIUM: 'MOYEN', HIGH: 'ÉLEVÉ', CRITICAL: 'CRITIQUE' },
+    level: level => `Risque ${level}`,
+    description: "Score de risque sur 100, pondéré à partir de tous les signaux de l'analyse",
+    score: score => `Score de risque ${score} sur 100`,
+  },
+  history: {
+    title: 'Analyses récentes',
+    domain: 'Filtrer par domaine',
+    verdict: 'Filtrer par verdict',
+    all: 'Toutes',
+    malicious: 'Malveillant',
+    safe: 'Sûr',
+    filter: 'Filtrer',
+    noMatches: 'Aucune analyse ne correspond à ces filtres.',
+    open: 'Ouvrir le rapport',
+    unavailable: 'Rapport indisponible',
+    risk: score => `· risque ${score}`,
+    statuses: {
+      queued: 'En attente',
+      scanning: 'En cours',
+      generating: 'Génération',
+      uploading: 'Envoi',
+      sending: 'Envoi',
+      completed: 'Terminée',
+      failed: 'Échec',
+      cancelled: 'Annulée',
+      expired: 'Expirée',
+    },
+    loading: 'Chargement...',
+    loadMore: 'Afficher plus',
+    loadFailed: "Impossible de charger l'historique des analyses",
+  },
+  diff: {
+    title: 'Changements depuis la dernière analyse',
+    loading: 'Chargement des changements...',
+    loadFailed: 'Impossible de charger les changements',
+    comparedWith: date => `Comparé à l'analyse du ${date}`,
+    noChanges: 'Aucun changement détecté.',
+    verdict: 'Verdict',
+    malicious: 'Malveillant',
+    safe: 'Sûr',
+    categories: 'Catégories',
+    domains: 'Domaines',
+    scripts: 'Scripts',
+    ips: 'IP',
+    asns: 'ASN',
+    countries: 'Pays',
+    technologies: 'Technologies',
+    cookies: 'Cookies',
+    certificate: 'Certificat',
+    issuer: 'Émetteur',
+    validTo: "Valide jusqu'au",
+    none: 'aucun',
+    notAvailable: 'n/d',
+  },
+}
+
+const ja: UiMessages = {
+  app: {
+    tagline: 'Cloudflare Radar で URL をスキャン • PDF レポートをすぐに取得',
+    home: 'ホームへ',
+    language: '言語',
+  },
+  scanner: {
+    liveUpdates: 'リアルタイム更新',
+    reconnecting: '再接続しています...',
+    fallbackMode: 'フォールバックモード',
+    completed: '🎉 スキャンが完了しました！',
+    retrying: 'スキャンを再試行しています...',
+    cancelled: 'スキャンはキャンセルされました',
+    startFailed: 'スキャンを開始できませんでした',
+    retryFailed: 'スキャンを再試行できませんでした',
+    cancelFailed: 'スキャンをキャンセルできませんでした',
+    notFound: 'スキャンが見つかりません',
+    reportUnavailable: 'このスキャンのレポートはすでに利用できません',
+    openFailed: 'スキャンを開けませんでした',
+  },
+  form: {
+    url: 'スキャンする URL を入力',
+    advanced: '詳細オプション',
+    visibility: '公開設定',
+    unlisted: '非公開',
+    public: '公開',
+    userAgent: 'ユーザーエージェント',
+    defaultUserAgent: 'デフォルト (Radar)',
+    customUserAgent: 'カスタム...',
+    referer: 'リファラー',
+    customHeaders: 'カスタムヘッダー',
+    header: 'ヘッダー',
+    value: '値',
+    headerName: 'ヘッダー名',
+    headerValue: 'ヘッダーの値',
+    removeHeader: 'ヘッダーを削除',
+    addHeader: '+ ヘッダーを追加',
+    screenshotSizes: 'スクリーンショットのサイズ',
+    resolutions: { desktop: 'デスクトップ', mobile: 'モバイル', tablet: 'タブレット' },
+    cooldown: { before: 'スキャンの上限に達しました。次のスキャンまであと ', after: ' です。' },
+    starting: 'スキャンを開始しています...',
+    tryAgainIn: seconds => `${seconds} 秒後に再試行`,
+    start: 'セキュリティスキャンを開始',
+  },
+  progress: {
+    steps: { queued: '待機中', scanning: 'スキャン', generating: '作成', uploading: 'アップロード', completed: '完了' },
+    processing: '処理しています...',
+    attempt: attempt => `（${attempt} 回目）`,
+    cancel: 'スキャンをキャンセル',
+    cancelling: 'キャンセルしています...',
+    cancelledTitle: 'スキャンはキャンセルされました',
+    cancelledMessage: 'このスキャンは完了前に停止されました。レポートは作成されていません。',
+    scanAgain: 'もう一度スキャン',
+    retry: 'スキャンを再試行',
+    startNew: '新しいスキャンを開始',
+  },
+  results: {
+    title: 'スキャン完了！',
+    readyFor: { before: '', after: ' のレポートの準備ができました' },
+    cached: date => `最近のスキャン結果を表示しています${date ? `（${date}）` : ''}。`,
+    freshScan: '代わりに新しくスキャンする',
+    screenshot: 'ページのスクリーンショット',
+    screenshotOf: url => `${url} のスクリーンショット`,
+    pdfPreview: 'PDF プレビュー',
+    preview: 'プレビュー',
+    hide: '閉じる',
+    download: 'ダウンロード',
+    sendEmail: 'レポートをメールで送信',
+    send: 'メールを送信',
+    sending: '送信しています...',
+    cancel: 'キャンセル',
+    emailSent: email => `✓ ${email} にメールを送信しました`,
+    invalidEmail: '有効なメールアドレスを入力してください',
+    emailFailed: 'メールを送信できませんでした',
+    linkFailed: 'レポートのリンクを取得できませんでした',
+    startNew: '新しいスキャンを開始',
+  },
+  risk: {
+    levels: { LOW: '低', MEDIUM: '中', HIGH: '高', CRITICAL: '重大' },
+    level: level => `リスク：${level}`,
+    description: 'すべてのスキャン結果を重み付けした 100 点満点のリスクスコア',
+    score: score => `リスクスコア ${score} / 100`,
+  },
+  history: {
+    title: '最近のスキャン',
+    domain: 'ドメインで絞り込む',
+    verdict: '判定で絞り込む',
+    all: 'すべて',
+    malicious: '悪意あり',
+    safe: '安全',
+    filter: '絞り込む',
+    noMatches: '条件に一致するスキャンはありません。',
+    open: 'レポートを開く',
+    unavailable: 'レポートはすでに利用できません',
+    risk: score => `· リスク ${score}`,
+    statuses: {
+      queued: '待機中',
+      scanning: 'スキャン中',
+      generating: '作成中',
+      uploading: 'アップロード中',
+      sending: '送信中',
+      completed: '完了',
+      failed: '失敗',
+      cancelled: 'キャンセル',
+      expired: '期限切れ',
+    },
+    loading: '読み込んでいます...',
+    loadMore: 'さらに表示',
+    loadFailed: 'スキャン履歴を読み込めませんでした',
+  },
+  diff: {
+    title: '前回のスキャンからの変更',
+    loading: '変更を読み込んでいます...',
+    loadFailed: '変更を読み込めませんでした',
+    comparedWith: date => `${date} のスキャンと比較`,
+    noChanges: '変更は検出されませんでした。',
+    verdict: '判定',
+    malicious: '悪意あり',
+    safe: '安全',
+    categories: 'カテゴリ',
+    domains: 'ドメイン',
+    scripts: 'スクリプト',
+    ips: 'IP',
+    asns: 'ASN',
+    countries: '国',
+    technologies: 'テクノロジー',
+    cookies: 'Cookie',
+    certificate: '証明書',
+    issuer: '発行者',
+    validTo: '有効期限',
+    none: 'なし',
+    notAvailable: '該当なし',
+  },
+}
+
+export const MESSAGES: Record<Locale, UiMessages> = { en, de, fr, ja }
+
+const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale)
+
+// The saved choice, else the first browser language with a catalog, else English
+export function detectLocale(): Locale {
+  const saved = localStorage.getItem(STORAGE_KEY)
+  if (isLocale(saved)) return saved
+
+  const preferred = navigator.languages.map(language => language.split('-')[0].toLowerCase())
+  return preferred.find(isLocale) ?? 'en'
+}
+
+export function saveLocale(locale: Locale) {
+  localStorage.setItem(STORAGE_KEY, locale)
+}
+
+interface I18n {
+  locale: Locale
+  setLocale: (locale: Locale) => void
+  t: UiMessages
+  // Date and time in the reader's time zone, in the chosen language's style
+  formatDateTime: (value: number | string) => string
+}
+
+export function createI18n(locale: Locale, setLocale: (locale: Locale) => void): I18n {
+  const dateTimeFormat = new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short' })
+  return {
+    locale,
+    setLocale,
+    t: MESSAGES[locale],
+    formatDateTime: value => {
+      const date = new Date(value)
+      return Number.isNaN(date.getTime()) ? String(value) : dateTimeFormat.format(date)
+    },
+  }
+}
+
+export const I18nContext = createContext<I18n>(createI18n('en', () => {}))
+
+export const useI18n = () => useContext(I18nContext)
@@ -0,0 +1,86 @@
+import { DurableObject } from "cloudflare:workers";
+import type { Env, RateLimitRequest, RateLimitResult } from '../types';
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Token buckets for one client (an IP address or API key). Each action has
+ * its own set of buckets, and a request is only admitted when every bucket
+ * for that action has a token, so per-minute bursts and per-day totals are
+ * enforced together.
+ */
+export class RateLimiter extends DurableObject<Env> {
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname === '/consume' && request.method === 'POST') {
+      return this.handleConsume(request);
+    }
+
+    return new Response('Not found', { status: 404 });
+  }
+
+  private async handleConsume(request: Request): Promise<Response> {
+    const { action, limits, cost = 1 } = await request.json<RateLimitRequest>();
+    const now = Date.now();
+
+    const buckets = await Promise.all(limits.map(async limit => {
+      const key = `${action}:${limit.windowSeconds}`;
+      const stored = await this.ctx.storage.get<BucketState>(key);
+      const refillPerMs = limit.limit / (limit.windowSeconds * 1000);
+
+      // Refill for the time elapsed since the last request, capped at the bucket size
+      const tokens = stored
+        ? Math.min(limit.limit, stored.tokens + (now - stored.updatedAt) * refillPerMs)
+        : limit.limit;
+
+      return { key, limit, tokens, refillPerMs };
+    }));
+
+    // A request for several tokens takes as many as every bucket can spare
+    const granted = Math.max(0, Math.min(cost, ...buckets.map(bucket => Math.floor(bucket.tokens))));
+    const allowed = granted > 0;
+
+    for (const bucket of buckets) {
+      bucket.tokens -= granted;
+    }
+
+    await this.ctx.storage.put(Object.fromEntries(
+      buckets.map(bucket => [bucket.key, { tokens: bucket.tokens, updatedAt: now }])
+    ));
+
+    // Every bucket is full again once the longest window passes without requests,
+    // so the stored state can be dropped then
+    const longestWindowMs = Math.max(...limits.map(limit => limit.windowSeconds * 1000));
+    await this.ctx.storage.setAlarm(now + longestWindowMs);
+
+    // Headers describe the most constrained bucket; the retry delay is set by the slowest empty one
+    const tightest = buckets.reduce((min, bucket) => bucket.tokens < min.tokens ? bucket : min);
+    const msUntilFull = (tightest.limit.limit - tightest.tokens) / tightest.refillPerMs;
+    const msUntilToken = Math.max(0, ...buckets
+      .filter(bucket => bucket.tokens < 1)
+      .map(bucket => (1 - bucket.tokens) / bucket.refillPerMs));
+
+    const result: RateLimitResult = {
+      allowed,
+      granted,
+      limit: tightest.limit.limit,
+      remaining: Math.max(0, Math.floor(tightest.tokens)),
+      resetAt: Math.ceil((now + msUntilFull) / 1000),
+      retryAfterSeconds: granted === cost ? 0 : Math.max(1, Math.ceil(msUntilToken / 1000))
+    };
+
+    return Response.json(result);
+  }
+
+  async alarm() {
+    await this.ctx.storage.deleteAll();
+  }
+}
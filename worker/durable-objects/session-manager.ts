@@ -1,6 +1,9 @@
 import { DurableObject } from "cloudflare:workers";
 import type { Env, SessionState } from '../types';
 import { retryWithBackoff, isRetryableD1Error } from '../utils/retry';
+import { errorEnvelope } from '../utils/errors';
+import { getMessages } from '../i18n';
+import { toPublicSessionState } from '../services/scan-history';
 
 export class SessionManager extends DurableObject<Env> {
   private sessions: Map<WebSocket, { clientId: string }>;
@@ -25,6 +28,11 @@ export class SessionManager extends DurableObject<Env> {
       return this.handleUpdate(request);
     }
     
+    // Queue another attempt of a failed scan
+    if (url.pathname === '/retry' && request.method === 'POST') {
+      return this.handleRetry();
+    }
+    
     // Get current session state
     if (url.pathname === '/state') {
       return this.handleGetState();
@@ -57,7 +65,7 @@ export class SessionManager extends DurableObject<Env> {
     if (this.sessionData) {
       server.send(JSON.stringify({
         type: 'state',
-        data: this.sessionData,
+        data: toPublicSessionState(this.sessionData),
         timestamp: Date.now()
       }));
     }
@@ -95,7 +103,18 @@ export class SessionManager extends DurableObject<Env> {
       expiresAt: Date.now() + (24 * 60 * 60 * 1000), // 24 hours
       ipAddress: data.ipAddress,
       userAgent: data.userAgent,
-      country: data.country
+      country: data.country,
+      force: data.force,
+      scanOptions: data.scanOptions,
+      reportOptions: data.reportOptions,
+      brandingProfileId: data.brandingProfileId,
+      locale: data.locale,
+      batchId: data.batchId,
+      watchlistId: data.watchlistId,
+      callbackUrl: data.callbackUrl,
+      apiKeyId: data.apiKeyId,
+      clientId: data.clientId,
+      webhookStatus: data.callbackUrl ? 'pending' : undefined
     };
     
     // Persist to DO storage
@@ -123,6 +142,11 @@ export class SessionManager extends DurableObject<Env> {
       }
     }
     
+    // Cancellation is final; drop late updates from the terminated workflow
+    if (this.sessionData.status === 'cancelled') {
+      return new Response('Session cancelled', { status: 409 });
+    }
+    
     // Update session data
     this.sessionData = {
       ...this.sessionData,
@@ -148,6 +172,58 @@ export class SessionManager extends DurableObject<Env> {
     return new Response('OK');
   }
 
+  private async handleRetry(): Promise<Response> {
+    if (!this.sessionData) {
+      this.sessionData = await this.ctx.storage.get<SessionState>('sessionData') || null;
+      if (!this.sessionData) {
+        return new Response('Session not found', { status: 404 });
+      }
+    }
+    
+    // Checked here as well as in the Worker so concurrent retries cannot both start
+    if (this.sessionData.status !== 'failed') {
+      return new Response('Session has not failed', { status: 409 });
+    }
+    
+    const failedAttempt = this.sessionData.attempt ?? 1;
+    const attemptErrors = [
+      ...(this.sessionData.attemptErrors || []),
+      { attempt: failedAttempt, error: this.sessionData.error || errorEnvelope('INTERNAL_ERROR'), failedAt: this.sessionData.updatedAt }
+    ];
+    
+    this.sessionData = {
+      ...this.sessionData,
+      status: 'queued',
+      error: undefined,
+      attempt: failedAttempt + 1,
+      attemptErrors,
+      progressPercent: 0,
+      progressMessage: getMessages(this.sessionData.locale).progress.retrying,
+      updatedAt: Date.now()
+    };
+    
+    await this.ctx.storage.put('sessionData', this.sessionData);
+    await this.persistToD1();
+    
+    // error is sent as null so clients merging updates clear the previous failure
+    this.broadcast({
+      type: 'update',
+      data: {
+        status: this.sessionData.status,
+        error: null,
+        attempt: this.sessionData.attempt,
+        attemptErrors,
+        progressPercent: 0,
+        progressMessage: this.sessionData.progressMessage
+      },
+      timestamp: Date.now()
+    });
+    
+    console.log(`Session retry queued: ${this.sessionData.sessionId}, attempt ${this.sessionData.attempt}`);
+    
+    return Response.json({ attempt: this.sessionData.attempt });
+  }
+
   private async handleGetState(): Promise<Response> {
     if (!this.sessionData) {
       // Load from storage
@@ -190,10 +266,12 @@ export class SessionManager extends DurableObject<Env> {
         async () => {
           await this.env.radar_scanner_db.prepare(`
             INSERT OR REPLACE INTO sessions 
-            (id, url, email, status, job_id, radar_uuid, r2_key, error, 
+            (id, url, email, status, job_id, radar_uuid, r2_key, error, error_code,
              created_at, updated_at, expires_at, ip_address, user_agent, country,
-             workflow_instance_id, progress_percent, progress_message)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+             workflow_instance_id, progress_percent, progress_message, cache_hit,
+             batch_id, malicious, risk_score, scan_options, watchlist_id, api_key_id, client_id, domain,
+             branding_profile_id, locale)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
           `).bind(
             this.sessionData!.sessionId,
             this.sessionData!.url,
@@ -202,7 +280,8 @@ export class SessionManager extends DurableObject<Env> {
             this.sessionData!.jobId || null,
             this.sessionData!.radarUuid || null,
             this.sessionData!.r2Key || null,
-            this.sessionData!.error || null,
+            this.sessionData!.error?.message || null,
+            this.sessionData!.error?.code || null,
             this.sessionData!.createdAt,
             this.sessionData!.updatedAt,
             this.sessionData!.expiresAt,
@@ -211,7 +290,18 @@ export class SessionManager extends DurableObject<Env> {
             this.sessionData!.country || null,
             this.sessionData!.workflowInstanceId || null,
             this.sessionData!.progressPercent || null,
-            this.sessionData!.progressMessage || null
+            this.sessionData!.progressMessage || null,
+            this.sessionData!.cacheHit ? 1 : 0,
+            this.sessionData!.batchId || null,
+            this.sessionData!.malicious === undefined ? null : (this.sessionData!.malicious ? 1 : 0),
+            this.sessionData!.risk?.score ?? null,
+            this.sessionData!.scanOptions ? JSON.stringify(this.sessionData!.scanOptions) : null,
+            this.sessionData!.watchlistId || null,
+            this.sessionData!.apiKeyId || null,
+            this.sessionData!.clientId || null,
+            new URL(this.sessionData!.url).hostname.toLowerCase(),
+            this.sessionData!.brandingProfileId || null,
+            this.sessionData!.locale || null
           ).run();
         },
         {
@@ -258,10 +348,10 @@ export class SessionManager extends DurableObject<Env> {
       }
       this.sessions.clear();
       
-      // Mark session as expired in D1
+      // Mark unfinished scans as expired in D1; finished ones keep their status for history
       try {
         await this.env.radar_scanner_db.prepare(`
-          UPDATE sessions SET status = 'expired' WHERE id = ?
+          UPDATE sessions SET status = 'expired' WHERE id = ? AND status NOT IN ('completed', 'failed', 'cancelled')
         `).bind(this.sessionData.sessionId).run();
       } catch (error) {
         console.error('Failed to mark session as expired in D1:', error);
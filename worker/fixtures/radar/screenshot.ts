@@ -0,0 +1,8 @@
+/**
+ * Placeholder page screenshot (160x100 PNG) served by the fixture Radar backend
+ */
+export const FIXTURE_SCREENSHOT_BASE64 =
+  'iVBORw0KGgoAAAANSUhEUgAAAKAAAABkCAIAAACO1KzYAAAA2klEQVR42u3YQREAEBBAUU0UkU46SURwpYGbYdb7I4F32d3UFbrk' +
+  'CwALsAALsAALsAADFmAB1gPAU6EDDFiABViABViABRjwvvJrgAEDBgwYMGDAgAEDBiyHDgEWYAEWYAEGLMBN9wIMGDBgwF8DyxQt' +
+  'wAIswAIM2JpkTQIMWIDlkiVTtAALMGABlkuW7MECLMCADVmGLAEWYAEWYAEWYAEGLMAKBTxqvvuwARZgwIABAwYMGDBgwIABCzBg' +
+  'wIAFWIAFWIAFGLAAC7AAC7AAC7AAAxZgARZgnW0BJrgAvX9TpuMAAAAASUVORK5CYII=';
@@ -0,0 +1,230 @@
+import type { Messages } from './en';
+
+export const de: Messages = {
+  field: (label, value) => `${label}: ${value}`,
+  defaultFooter: 'Erstellt von RadarScan - Powered by Cloudflare Radar',
+
+  verdicts: {
+    malicious: 'SCHÄDLICH',
+    safe: 'SICHER',
+    failed: 'FEHLGESCHLAGEN',
+    cancelled: 'ABGEBROCHEN',
+    pending: 'AUSSTEHEND'
+  },
+
+  riskLevels: {
+    LOW: 'NIEDRIG',
+    MEDIUM: 'MITTEL',
+    HIGH: 'HOCH',
+    CRITICAL: 'KRITISCH'
+  },
+
+  risk: {
+    labels: {
+      maliciousVerdict: 'Schädliches Urteil',
+      phishing: 'Phishing-Indikatoren',
+      maliciousContent: 'Schädliche Inhalte',
+      tls: 'TLS-Zertifikat',
+      domainRank: 'Domain-Popularität',
+      thirdPartyDomains: 'Drittanbieter-Domains',
+      cookies: 'Cookie-Sicherheit',
+      failedRequests: 'Fehlgeschlagene Anfragen'
+    },
+    maliciousVerdict: categories => `Radar stuft die Seite als schädlich ein${categories ? ` (${categories})` : ''}`,
+    scannersFlagged: (flagged, total) => `${flagged} von ${total} URL-Scannern haben die Seite markiert`,
+    phishing: (count, indicators) => `${count} Indikator(en): ${indicators}`,
+    maliciousContent: (requests, domains) => `${requests} schädliche Anfrage(n) an ${domains} schädliche Domain(s)`,
+    plainHttp: 'Seite wird über unverschlüsseltes HTTP ausgeliefert',
+    certificateInvalid: 'Zertifikat war zum Scanzeitpunkt nicht gültig',
+    certificate: reasons => `Zertifikat ${reasons}`,
+    certificateExpires: days => `läuft in ${days} Tag(en) ab`,
+    certificateIssued: days => `wurde ${days} Tag(e) vor dem Scan ausgestellt`,
+    unranked: 'Domain ist nicht im Radar-Popularitätsranking',
+    ranked: rank => `Domain gehört zu den Top ${rank}`,
+    thirdPartyDomains: (thirdParty, total) => `${thirdParty} von ${total} kontaktierten Domains gehören Drittanbietern`,
+    weakCookies: (weak, total) => `${weak} von ${total} Cookies fehlt Secure oder HttpOnly`,
+    failedRequests: (failed, total) => `${failed} von ${total} Anfragen sind fehlgeschlagen`
+  },
+
+  progress: {
+    initializing: 'Scan wird vorbereitet...',
+    reusingCache: 'Aktueller Scan dieser URL gefunden. Ergebnisse werden wiederverwendet...',
+    submitting: 'URL wird an Cloudflare Radar übermittelt...',
+    submitted: 'Scan übermittelt. Warte auf Ergebnisse...',
+    resuming: 'Früherer Radar-Scan wird auf Ergebnisse geprüft...',
+    analyzing: (attempt, maxAttempts) => `URL wird analysiert... (${attempt}/${maxAttempts})`,
+    generating: 'Scan abgeschlossen! PDF-Bericht wird erstellt...',
+    uploading: 'Bericht wird in den Cloud-Speicher hochgeladen...',
+    completed: 'Scan abgeschlossen! Ihr Bericht ist fertig.',
+    retrying: 'Scan wird wiederholt...',
+    cancelled: 'Scan abgebrochen'
+  },
+
+  layout: {
+    contents: 'Inhalt',
+    page: (page, pageCount) => `Seite ${page} von ${pageCount}`
+  },
+
+  report: {
+    title: companyName => `${companyName} Sicherheitsbericht`,
+    reportDate: 'Berichtsdatum',
+    cachedSource: date => `Zwischengespeichertes Scanergebnis vom ${date}`,
+    noRiskFactors: 'Keine Risikofaktoren gefunden.',
+    riskLevel: level => `RISIKO ${level}`,
+    riskScore: (score, level) => `${score}/100 (${level})`,
+    comparedWith: date => `Verglichen mit dem Scan vom ${date}`,
+    noChanges: 'Keine Änderungen festgestellt.',
+    moreChanges: (count, label) => `...und ${count} weitere Änderung(en): ${label}`,
+    validRange: (from, to) => `${from} bis ${to}`,
+    warning: indicator => `WARNUNG: ${indicator}`,
+    unknown: 'unbekannt',
+    none: 'keiner',
+    notAvailable: 'k. A.',
+    sections: {
+      verdict: 'Sicherheitsurteil',
+      riskScore: 'Risikobewertung',
+      changes: 'Änderungen seit dem letzten Scan',
+      pageInformation: 'Seiteninformationen',
+      technologies: 'Erkannte Technologien',
+      networkStatistics: 'Netzwerkstatistik',
+      domainsContacted: 'Kontaktierte Domains',
+      requestAnalysis: 'Anfrageanalyse',
+      cookieSecurity: 'Cookie-Sicherheit',
+      consoleMessages: 'Konsolenmeldungen',
+      tls: 'SSL/TLS-Zertifikat',
+      phishing: 'Phishing-Indikatoren',
+      maliciousContent: 'Schädliche Inhalte erkannt',
+      summary: 'Sicherheitszusammenfassung'
+    },
+    labels: {
+      url: 'URL',
+      scanned: 'Gescannt',
+      scanId: 'Scan-ID',
+      visibility: 'Sichtbarkeit',
+      userAgent: 'User-Agent',
+      referer: 'Referer',
+      customHeaders: 'Eigene Header',
+      screenshotSizes: 'Screenshot-Größen',
+      source: 'Quelle',
+      categories: 'Kategorien',
+      tags: 'Tags',
+      verdict: 'Urteil',
+      domain: 'Domain',
+      ipAddress: 'IP-Adresse',
+      country: 'Land',
+      asn: 'ASN',
+      httpStatus: 'HTTP-Status',
+      pageTitle: 'Seitentitel',
+      totalRequests: 'Anfragen gesamt',
+      uniqueIps: 'Eindeutige IPs',
+      uniqueCountries: 'Eindeutige Länder',
+      dataTransferred: 'Übertragene Daten',
+      cookiesFound: 'Gefundene Cookies',
+      linksFound: 'Gefundene Links',
+      consoleMessages: 'Konsolenmeldungen',
+      failedRequests: 'Fehlgeschlagene Anfragen',
+      totalCookies: 'Cookies gesamt',
+      secureCookies: 'Secure-Cookies',
+      httpOnlyCookies: 'HttpOnly-Cookies',
+      thirdPartyCookies: 'Drittanbieter-Cookies',
+      totalMessages: 'Meldungen gesamt',
+      errors: 'Fehler',
+      warnings: 'Warnungen',
+      protocol: 'Protokoll',
+      issuer: 'Aussteller',
+      valid: 'Gültig',
+      maliciousRequests: 'Schädliche Anfragen',
+      maliciousDomains: 'Schädliche Domains',
+      riskScore: 'Risikobewertung',
+      ipsContacted: 'Kontaktierte IPs gesamt',
+      asnsInvolved: 'Beteiligte ASNs',
+      countries: 'Länder'
+    },
+    changes: {
+      category: 'Kategorie',
+      domain: 'Domain',
+      script: 'Skript',
+      ip: 'IP',
+      asn: 'ASN',
+      country: 'Land',
+      technology: 'Technologie',
+      cookie: 'Cookie',
+      certificateIssuer: 'Zertifikatsaussteller',
+      certificateValidTo: 'Zertifikat gültig bis'
+    }
+  },
+
+  appendix: {
+    title: 'Anhang: Netzwerkanfragen',
+    intro: (requests, hosts) =>
+      `${requests} Anfrage(n) an ${hosts} Host(s). Antworten mit 4xx-Status sind orange, mit 5xx rot dargestellt.`,
+    requests: count => `${count} Anfrage(n)`,
+    errors: count => `${count} Fehler`,
+    columns: {
+      method: 'Methode',
+      status: 'Status',
+      type: 'Typ',
+      path: 'Pfad'
+    }
+  },
+
+  batch: {
+    title: companyName => `${companyName} Batch-Zusammenfassung`,
+    subtitle: batchId => `Batch ${batchId}`,
+    completed: 'Abgeschlossen',
+    inProgress: percent => `In Bearbeitung (${percent})`,
+    sections: {
+      overview: 'Übersicht',
+      verdicts: 'Urteile'
+    },
+    labels: {
+      batchId: 'Batch-ID',
+      submitted: 'Eingereicht',
+      status: 'Status',
+      totalUrls: 'URLs gesamt',
+      completed: 'Abgeschlossen',
+      failed: 'Fehlgeschlagen',
+      inProgress: 'In Bearbeitung',
+      malicious: 'Schädlich'
+    }
+  },
+
+  email: {
+    subject: url => `Ihr URL-Scanbericht ist fertig - ${url}`,
+    heading: 'Ihr Scan ist abgeschlossen!',
+    textHeading: 'Ihr URL-Scanbericht ist fertig!',
+    intro: url => `Wir haben den Scan von ${url} abgeschlossen. Ihr Bericht steht zum Download bereit.`,
+    scanDetails: 'Scandetails',
+    verdict: 'Urteil',
+    completed: 'Abgeschlossen',
+    requestCount: (total, failed) => `${total} (${failed} fehlgeschlagen)`,
+    download: 'Bericht herunterladen (PDF)',
+    downloadText: 'Bericht herunterladen',
+    note: 'Hinweis',
+    validity: validFor => `Dieser Link ist ${validFor} gültig. Danach müssen Sie einen neuen Scan starten.`,
+    support: 'Fragen? Antworten Sie auf diese E-Mail oder besuchen Sie unsere Support-Seite.',
+    defaultFooter: 'Powered by Cloudflare Radar URL Scanner',
+    labels: {
+      url: 'URL',
+      scanned: 'Gescannt',
+      sessionId: 'Sitzungs-ID',
+      status: 'Status',
+      result: 'Ergebnis',
+      threatLevel: 'Bedrohungsstufe',
+      categories: 'Kategorien',
+      requests: 'Anfragen',
+      technologies: 'Technologien'
+    },
+    watchlist: {
+      subject: (url, headline) => `Watchlist-Alarm: ${url} ${headline}`,
+      title: 'Watchlist-Alarm',
+      nowMalicious: 'wird jetzt als SCHÄDLICH eingestuft',
+      domainsChanged: 'kontaktiert jetzt andere Domains',
+      summary: (url, headline) => `${url} ${headline}.`,
+      newDomains: 'Neue Domains',
+      removedDomains: 'Nicht mehr kontaktierte Domains',
+      downloadText: 'Bericht herunterladen',
+      reason: 'Sie erhalten diese E-Mail, weil die URL auf Ihrer Watchlist steht.'
+    }
+  }
+};
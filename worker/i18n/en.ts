@@ -0,0 +1,243 @@
+import type { RiskFactorId, RiskLevel } from '../types';
+
+/**
+ * English, the reference catalog: every other locale provides the same keys.
+ * Functions take numbers and dates already formatted for the locale.
+ */
+export const en = {
+  // Colon between a label and its value; French sets it off with a space
+  field: (label: string, value: string) => `${label}: ${value}`,
+  // Default report footer when no branding profile is selected
+  defaultFooter: 'Generated by RadarScan - Powered by Cloudflare Radar',
+
+  verdicts: {
+    malicious: 'MALICIOUS',
+    safe: 'SAFE',
+    failed: 'FAILED',
+    cancelled: 'CANCELLED',
+    pending: 'PENDING'
+  },
+
+  riskLevels: {
+    LOW: 'LOW',
+    MEDIUM: 'MEDIUM',
+    HIGH: 'HIGH',
+    CRITICAL: 'CRITICAL'
+  } as Record<RiskLevel, string>,
+
+  risk: {
+    labels: {
+      maliciousVerdict: 'Malicious verdict',
+      phishing: 'Phishing indicators',
+      maliciousContent: 'Malicious content',
+      tls: 'TLS certificate',
+      domainRank: 'Domain popularity',
+      thirdPartyDomains: 'Third-party domains',
+      cookies: 'Cookie hygiene',
+      failedRequests: 'Failed requests'
+    } as Record<RiskFactorId, string>,
+    maliciousVerdict: (categories?: string) => `Radar verdict is malicious${categories ? ` (${categories})` : ''}`,
+    scannersFlagged: (flagged: number, total: number) => `${flagged} of ${total} URL scanners flagged the page`,
+    phishing: (count: number, indicators: string) => `${count} indicator(s): ${indicators}`,
+    maliciousContent: (requests: number, domains: number) =>
+      `${requests} malicious request(s) to ${domains} malicious domain(s)`,
+    plainHttp: 'Page served over plain HTTP',
+    certificateInvalid: 'Certificate was not valid at scan time',
+    // Reasons are joined into one sentence after `certificate`
+    certificate: (reasons: string) => `Certificate ${reasons}`,
+    certificateExpires: (days: number) => `expires in ${days} day(s)`,
+    certificateIssued: (days: number) => `issued ${days} day(s) before the scan`,
+    unranked: 'Domain is not in the Radar popularity ranking',
+    ranked: (rank: string) => `Domain ranks in the top ${rank}`,
+    thirdPartyDomains: (thirdParty: number, total: number) => `${thirdParty} of ${total} contacted domains are third-party`,
+    weakCookies: (weak: number, total: number) => `${weak} of ${total} cookies lack Secure or HttpOnly`,
+    failedRequests: (failed: number, total: number) => `${failed} of ${total} requests failed`
+  },
+
+  progress: {
+    initializing: 'Initializing scan...',
+    reusingCache: 'Found a recent scan of this URL. Reusing results...',
+    submitting: 'Submitting URL to Cloudflare Radar...',
+    submitted: 'Scan submitted. Waiting for results...',
+    resuming: 'Checking the earlier Radar scan for results...',
+    analyzing: (attempt: number, maxAttempts: number) => `Analyzing URL... (${attempt}/${maxAttempts})`,
+    generating: 'Scan complete! Generating PDF report...',
+    uploading: 'Uploading report to cloud storage...',
+    completed: 'Scan complete! Your report is ready.',
+    retrying: 'Retrying scan...',
+    cancelled: 'Scan cancelled'
+  },
+
+  layout: {
+    contents: 'Contents',
+    page: (page: number, pageCount: number) => `Page ${page} of ${pageCount}`
+  },
+
+  report: {
+    title: (companyName: string) => `${companyName} Security Report`,
+    reportDate: 'Report Date',
+    cachedSource: (date: string) => `Cached scan result from ${date}`,
+    noRiskFactors: 'No risk factors found.',
+    riskLevel: (level: string) => `${level} RISK`,
+    riskScore: (score: number, level: string) => `${score}/100 (${level})`,
+    comparedWith: (date: string) => `Compared with scan from ${date}`,
+    noChanges: 'No changes detected.',
+    moreChanges: (count: number, label: string) => `...and ${count} more ${label.toLowerCase()} change(s)`,
+    validRange: (from: string, to: string) => `${from} to ${to}`,
+    warning: (indicator: string) => `WARNING: ${indicator}`,
+    unknown: 'unknown',
+    none: 'none',
+    notAvailable: 'n/a',
+    sections: {
+      verdict: 'Security Verdict',
+      riskScore: 'Risk Score',
+      changes: 'Changes Since Last Scan',
+      pageInformation: 'Page Information',
+      technologies: 'Technologies Detected',
+      networkStatistics: 'Network Statistics',
+      domainsContacted: 'Domains Contacted',
+      requestAnalysis: 'Request Analysis',
+      cookieSecurity: 'Cookie Security',
+      consoleMessages: 'Console Messages',
+      tls: 'SSL/TLS Certificate',
+      phishing: 'Phishing Indicators',
+      maliciousContent: 'Malicious Content Detected',
+      summary: 'Security Summary'
+    },
+    labels: {
+      url: 'URL',
+      scanned: 'Scanned',
+      scanId: 'Scan ID',
+      visibility: 'Visibility',
+      userAgent: 'User Agent',
+      referer: 'Referer',
+      customHeaders: 'Custom Headers',
+      screenshotSizes: 'Screenshot Sizes',
+      source: 'Source',
+      categories: 'Categories',
+      tags: 'Tags',
+      verdict: 'Verdict',
+      domain: 'Domain',
+      ipAddress: 'IP Address',
+      country: 'Country',
+      asn: 'ASN',
+      httpStatus: 'HTTP Status',
+      pageTitle: 'Page Title',
+      totalRequests: 'Total Requests',
+      uniqueIps: 'Unique IPs',
+      uniqueCountries: 'Unique Countries',
+      dataTransferred: 'Data Transferred',
+      cookiesFound: 'Cookies Found',
+      linksFound: 'Links Found',
+      consoleMessages: 'Console Messages',
+      failedRequests: 'Failed Requests',
+      totalCookies: 'Total Cookies',
+      secureCookies: 'Secure Cookies',
+      httpOnlyCookies: 'HttpOnly Cookies',
+      thirdPartyCookies: 'Third-Party Cookies',
+      totalMessages: 'Total Messages',
+      errors: 'Errors',
+      warnings: 'Warnings',
+      protocol: 'Protocol',
+      issuer: 'Issuer',
+      valid: 'Valid',
+      maliciousRequests: 'Malicious Requests',
+      maliciousDomains: 'Malicious Domains',
+      riskScore: 'Risk Score',
+      ipsContacted: 'Total IPs Contacted',
+      asnsInvolved: 'ASNs Involved',
+      countries: 'Countries'
+    },
+    // Kinds of change listed in "Changes Since Last Scan"
+    changes: {
+      category: 'Category',
+      domain: 'Domain',
+      script: 'Script',
+      ip: 'IP',
+      asn: 'ASN',
+      country: 'Country',
+      technology: 'Technology',
+      cookie: 'Cookie',
+      certificateIssuer: 'Certificate issuer',
+      certificateValidTo: 'Certificate valid to'
+    }
+  },
+
+  appendix: {
+    title: 'Appendix: Network Requests',
+    intro: (requests: number, hosts: number) =>
+      `${requests} request(s) to ${hosts} host(s). Responses with 4xx status are shown in orange, 5xx in red.`,
+    requests: (count: number) => `${count} request(s)`,
+    errors: (count: number) => `${count} error(s)`,
+    columns: {
+      method: 'Method',
+      status: 'Status',
+      type: 'Type',
+      path: 'Path'
+    }
+  },
+
+  batch: {
+    title: (companyName: string) => `${companyName} Batch Summary`,
+    subtitle: (batchId: string) => `Batch ${batchId}`,
+    completed: 'Completed',
+    inProgress: (percent: string) => `In progress (${percent})`,
+    sections: {
+      overview: 'Overview',
+      verdicts: 'Verdicts'
+    },
+    labels: {
+      batchId: 'Batch ID',
+      submitted: 'Submitted',
+      status: 'Status',
+      totalUrls: 'Total URLs',
+      completed: 'Completed',
+      failed: 'Failed',
+      inProgress: 'In Progress',
+      malicious: 'Malicious'
+    }
+  },
+
+  email: {
+    subject: (url: string) => `Your URL Scan Report is Ready - ${url}`,
+    heading: 'Your Scan is Complete!',
+    textHeading: 'Your URL Scan Report is Ready!',
+    intro: (url: string) => `We've finished scanning ${url} and your report is ready for download.`,
+    scanDetails: 'Scan Details',
+    verdict: 'Verdict',
+    completed: 'Completed',
+    requestCount: (total: number, failed: number) => `${total} (${failed} failed)`,
+    download: 'Download Report (PDF)',
+    downloadText: 'Download your report',
+    note: 'Note',
+    validity: (validFor: string) => `This link is valid for ${validFor}. After that, you'll need to run a new scan.`,
+    support: 'Questions? Reply to this email or visit our support page.',
+    // Default email footer when no branding profile is selected
+    defaultFooter: 'Powered by Cloudflare Radar URL Scanner',
+    labels: {
+      url: 'URL',
+      scanned: 'Scanned',
+      sessionId: 'Session ID',
+      status: 'Status',
+      result: 'Result',
+      threatLevel: 'Threat Level',
+      categories: 'Categories',
+      requests: 'Requests',
+      technologies: 'Technologies'
+    },
+    watchlist: {
+      subject: (url: string, headline: string) => `Watchlist alert: ${url} ${headline}`,
+      title: 'Watchlist Alert',
+      nowMalicious: 'is now flagged as MALICIOUS',
+      domainsChanged: 'now contacts a different set of domains',
+      // `url` may already be wrapped in markup
+      summary: (url: string, headline: string) => `${url} ${headline}.`,
+      newDomains: 'New Domains',
+      removedDomains: 'Domains No Longer Contacted',
+      downloadText: 'Download the report',
+      reason: 'You are receiving this because the URL is on your watchlist.'
+    }
+  }
+};
+
+export type Messages = typeof en;
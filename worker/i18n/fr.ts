@@ -0,0 +1,230 @@
+import type { Messages } from './en';
+
+export const fr: Messages = {
+  field: (label, value) => `${label} : ${value}`,
+  defaultFooter: 'Généré par RadarScan - Propulsé par Cloudflare Radar',
+
+  verdicts: {
+    malicious: 'MALVEILLANT',
+    safe: 'SÛR',
+    failed: 'ÉCHEC',
+    cancelled: 'ANNULÉ',
+    pending: 'EN ATTENTE'
+  },
+
+  riskLevels: {
+    LOW: 'FAIBLE',
+    MEDIUM: 'MOYEN',
+    HIGH: 'ÉLEVÉ',
+    CRITICAL: 'CRITIQUE'
+  },
+
+  risk: {
+    labels: {
+      maliciousVerdict: 'Verdict malveillant',
+      phishing: 'Indicateurs de phishing',
+      maliciousContent: 'Contenu malveillant',
+      tls: 'Certificat TLS',
+      domainRank: 'Popularité du domaine',
+      thirdPartyDomains: 'Domaines tiers',
+      cookies: 'Sécurité des cookies',
+      failedRequests: 'Requêtes en échec'
+    },
+    maliciousVerdict: categories => `Radar juge la page malveillante${categories ? ` (${categories})` : ''}`,
+    scannersFlagged: (flagged, total) => `${flagged} scanner(s) d'URL sur ${total} ont signalé la page`,
+    phishing: (count, indicators) => `${count} indicateur(s) : ${indicators}`,
+    maliciousContent: (requests, domains) => `${requests} requête(s) malveillante(s) vers ${domains} domaine(s) malveillant(s)`,
+    plainHttp: 'Page servie en HTTP non chiffré',
+    certificateInvalid: "Le certificat n'était pas valide au moment de l'analyse",
+    certificate: reasons => `Certificat ${reasons}`,
+    certificateExpires: days => `expirant dans ${days} jour(s)`,
+    certificateIssued: days => `émis ${days} jour(s) avant l'analyse`,
+    unranked: 'Le domaine ne figure pas dans le classement de popularité Radar',
+    ranked: rank => `Le domaine figure dans le top ${rank}`,
+    thirdPartyDomains: (thirdParty, total) => `${thirdParty} des ${total} domaines contactés sont des domaines tiers`,
+    weakCookies: (weak, total) => `${weak} des ${total} cookies n'ont pas l'attribut Secure ou HttpOnly`,
+    failedRequests: (failed, total) => `${failed} des ${total} requêtes ont échoué`
+  },
+
+  progress: {
+    initializing: "Préparation de l'analyse...",
+    reusingCache: 'Analyse récente de cette URL trouvée. Réutilisation des résultats...',
+    submitting: "Envoi de l'URL à Cloudflare Radar...",
+    submitted: 'Analyse envoyée. En attente des résultats...',
+    resuming: "Vérification des résultats de l'analyse Radar précédente...",
+    analyzing: (attempt, maxAttempts) => `Analyse de l'URL... (${attempt}/${maxAttempts})`,
+    generating: 'Analyse terminée ! Génération du rapport PDF...',
+    uploading: 'Envoi du rapport vers le stockage cloud...',
+    completed: 'Analyse terminée ! Votre rapport est prêt.',
+    retrying: "Nouvelle tentative d'analyse...",
+    cancelled: 'Analyse annulée'
+  },
+
+  layout: {
+    contents: 'Sommaire',
+    page: (page, pageCount) => `Page ${page} sur ${pageCount}`
+  },
+
+  report: {
+    title: companyName => `Rapport de sécurité ${companyName}`,
+    reportDate: 'Date du rapport',
+    cachedSource: date => `Résultat d'analyse en cache du ${date}`,
+    noRiskFactors: 'Aucun facteur de risque trouvé.',
+    riskLevel: level => `RISQUE ${level}`,
+    riskScore: (score, level) => `${score}/100 (${level})`,
+    comparedWith: date => `Comparé à l'analyse du ${date}`,
+    noChanges: 'Aucun changement détecté.',
+    moreChanges: (count, label) => `...et ${count} autre(s) changement(s) : ${label.toLowerCase()}`,
+    validRange: (from, to) => `du ${from} au ${to}`,
+    warning: indicator => `AVERTISSEMENT : ${indicator}`,
+    unknown: 'inconnu',
+    none: 'aucun',
+    notAvailable: 'n/d',
+    sections: {
+      verdict: 'Verdict de sécurité',
+      riskScore: 'Score de risque',
+      changes: 'Changements depuis la dernière analyse',
+      pageInformation: 'Informations sur la page',
+      technologies: 'Technologies détectées',
+      networkStatistics: 'Statistiques réseau',
+      domainsContacted: 'Domaines contactés',
+      requestAnalysis: 'Analyse des requêtes',
+      cookieSecurity: 'Sécurité des cookies',
+      consoleMessages: 'Messages de la console',
+      tls: 'Certificat SSL/TLS',
+      phishing: 'Indicateurs de phishing',
+      maliciousContent: 'Contenu malveillant détecté',
+      summary: 'Synthèse de sécurité'
+    },
+    labels: {
+      url: 'URL',
+      scanned: 'Analysé le',
+      scanId: "ID d'analyse",
+      visibility: 'Visibilité',
+      userAgent: 'User-Agent',
+      referer: 'Referer',
+      customHeaders: 'En-têtes personnalisés',
+      screenshotSizes: "Tailles de capture d'écran",
+      source: 'Source',
+      categories: 'Catégories',
+      tags: 'Étiquettes',
+      verdict: 'Verdict',
+      domain: 'Domaine',
+      ipAddress: 'Adresse IP',
+      country: 'Pays',
+      asn: 'ASN',
+      httpStatus: 'Statut HTTP',
+      pageTitle: 'Titre de la page',
+      totalRequests: 'Requêtes au total',
+      uniqueIps: 'IP uniques',
+      uniqueCountries: 'Pays uniques',
+      dataTransferred: 'Données transférées',
+      cookiesFound: 'Cookies trouvés',
+      linksFound: 'Liens trouvés',
+      consoleMessages: 'Messages de la console',
+      failedRequests: 'Requêtes en échec',
+      totalCookies: 'Cookies au total',
+      secureCookies: 'Cookies Secure',
+      httpOnlyCookies: 'Cookies HttpOnly',
+      thirdPartyCookies: 'Cookies tiers',
+      totalMessages: 'Messages au total',
+      errors: 'Erreurs',
+      warnings: 'Avertissements',
+      protocol: 'Protocole',
+      issuer: 'Émetteur',
+      valid: 'Validité',
+      maliciousRequests: 'Requêtes malveillantes',
+      maliciousDomains: 'Domaines malveillants',
+      riskScore: 'Score de risque',
+      ipsContacted: 'IP contactées au total',
+      asnsInvolved: 'ASN impliqués',
+      countries: 'Pays'
+    },
+    changes: {
+      category: 'Catégorie',
+      domain: 'Domaine',
+      script: 'Script',
+      ip: 'IP',
+      asn: 'ASN',
+      country: 'Pays',
+      technology: 'Technologie',
+      cookie: 'Cookie',
+      certificateIssuer: 'Émetteur du certificat',
+      certificateValidTo: "Certificat valide jusqu'au"
+    }
+  },
+
+  appendix: {
+    title: 'Annexe : requêtes réseau',
+    intro: (requests, hosts) =>
+      `${requests} requête(s) vers ${hosts} hôte(s). Les réponses 4xx sont en orange, les 5xx en rouge.`,
+    requests: count => `${count} requête(s)`,
+    errors: count => `${count} erreur(s)`,
+    columns: {
+      method: 'Méthode',
+      status: 'Statut',
+      type: 'Type',
+      path: 'Chemin'
+    }
+  },
+
+  batch: {
+    title: companyName => `Synthèse du lot ${companyName}`,
+    subtitle: batchId => `Lot ${batchId}`,
+    completed: 'Terminé',
+    inProgress: percent => `En cours (${percent})`,
+    sections: {
+      overview: "Vue d'ensemble",
+      verdicts: 'Verdicts'
+    },
+    labels: {
+      batchId: 'ID du lot',
+      submitted: 'Soumis le',
+      status: 'Statut',
+      totalUrls: 'URL au total',
+      completed: 'Terminées',
+      failed: 'En échec',
+      inProgress: 'En cours',
+      malicious: 'Malveillantes'
+    }
+  },
+
+  email: {
+    subject: url => `Votre rapport d'analyse d'URL est prêt - ${url}`,
+    heading: 'Votre analyse est terminée !',
+    textHeading: "Votre rapport d'analyse d'URL est prêt !",
+    intro: url => `Nous avons terminé l'analyse de ${url} et votre rapport est prêt à être téléchargé.`,
+    scanDetails: "Détails de l'analyse",
+    verdict: 'Verdict',
+    completed: 'Terminée',
+    requestCount: (total, failed) => `${total} (${failed} en échec)`,
+    download: 'Télécharger le rapport (PDF)',
+    downloadText: 'Téléchargez votre rapport',
+    note: 'Remarque',
+    validity: validFor => `Ce lien est valable ${validFor}. Passé ce délai, vous devrez lancer une nouvelle analyse.`,
+    support: "Des questions ? Répondez à cet e-mail ou consultez notre page d'assistance.",
+    defaultFooter: 'Propulsé par Cloudflare Radar URL Scanner',
+    labels: {
+      url: 'URL',
+      scanned: 'Analysé le',
+      sessionId: 'ID de session',
+      status: 'Statut',
+      result: 'Résultat',
+      threatLevel: 'Niveau de menace',
+      categories: 'Catégories',
+      requests: 'Requêtes',
+      technologies: 'Technologies'
+    },
+    watchlist: {
+      subject: (url, headline) => `Alerte de surveillance : ${url} ${headline}`,
+      title: 'Alerte de surveillance',
+      nowMalicious: 'est désormais signalée comme MALVEILLANTE',
+      domainsChanged: "contacte désormais d'autres domaines",
+      summary: (url, headline) => `${url} ${headline}.`,
+      newDomains: 'Nouveaux domaines',
+      removedDomains: 'Domaines qui ne sont plus contactés',
+      downloadText: 'Télécharger le rapport',
+      reason: 'Vous recevez cet e-mail car cette URL figure dans votre liste de surveillance.'
+    }
+  }
+};
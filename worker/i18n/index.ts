@@ -0,0 +1,59 @@
+import type { Locale } from '../types';
+import { de } from './de';
+import { en, type Messages } from './en';
+import { fr } from './fr';
+import { ja } from './ja';
+
+export type { Messages };
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const CATALOGS: Record<Locale, Messages> = { en, de, fr, ja };
+
+export const SUPPORTED_LOCALES = Object.keys(CATALOGS) as Locale[];
+
+export function isLocale(value: unknown): value is Locale {
+  return SUPPORTED_LOCALES.includes(value as Locale);
+}
+
+/**
+ * Message catalog of a locale; unset means English
+ */
+export function getMessages(locale: Locale = DEFAULT_LOCALE): Messages {
+  return CATALOGS[locale];
+}
+
+/**
+ * Whether text in this locale needs a Unicode font in PDFs; the standard
+ * Helvetica only encodes Western European characters
+ */
+export function needsUnicodeFont(locale: Locale = DEFAULT_LOCALE): boolean {
+  return locale === 'ja';
+}
+
+/**
+ * Date and time in the locale's style. Times are in UTC, since the Worker
+ * does not know the reader's time zone. Unparseable values are returned as is.
+ */
+export function formatDateTime(value: number | string | Date, locale: Locale = DEFAULT_LOCALE): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return String(value);
+  }
+  return new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'long', timeZone: 'UTC' }).format(date);
+}
+
+export function formatNumber(
+  value: number,
+  locale: Locale = DEFAULT_LOCALE,
+  options?: Intl.NumberFormatOptions
+): string {
+  return new Intl.NumberFormat(locale, options).format(value);
+}
+
+/**
+ * "a, b and c" in the locale's style
+ */
+export function formatList(items: string[], locale: Locale = DEFAULT_LOCALE): string {
+  return new Intl.ListFormat(locale, { type: 'conjunction' }).format(items);
+}
@@ -0,0 +1,230 @@
+import type { Messages } from './en';
+
+export const ja: Messages = {
+  field: (label, value) => `${label}：${value}`,
+  defaultFooter: 'RadarScan により生成 - Powered by Cloudflare Radar',
+
+  verdicts: {
+    malicious: '悪意あり',
+    safe: '安全',
+    failed: '失敗',
+    cancelled: 'キャンセル',
+    pending: '保留中'
+  },
+
+  riskLevels: {
+    LOW: '低',
+    MEDIUM: '中',
+    HIGH: '高',
+    CRITICAL: '重大'
+  },
+
+  risk: {
+    labels: {
+      maliciousVerdict: '悪意ありの判定',
+      phishing: 'フィッシングの兆候',
+      maliciousContent: '悪意のあるコンテンツ',
+      tls: 'TLS 証明書',
+      domainRank: 'ドメインの知名度',
+      thirdPartyDomains: 'サードパーティドメイン',
+      cookies: 'Cookie の安全性',
+      failedRequests: '失敗したリクエスト'
+    },
+    maliciousVerdict: categories => `Radar の判定は悪意あり${categories ? `（${categories}）` : ''}`,
+    scannersFlagged: (flagged, total) => `${total} 個中 ${flagged} 個の URL スキャナーがページを検出`,
+    phishing: (count, indicators) => `${count} 件の兆候：${indicators}`,
+    maliciousContent: (requests, domains) => `悪意のある ${domains} ドメインへの悪意のあるリクエスト ${requests} 件`,
+    plainHttp: 'ページが暗号化されていない HTTP で配信されています',
+    certificateInvalid: 'スキャン時点で証明書が有効ではありませんでした',
+    certificate: reasons => `証明書：${reasons}`,
+    certificateExpires: days => `あと ${days} 日で期限切れ`,
+    certificateIssued: days => `スキャンの ${days} 日前に発行`,
+    unranked: 'ドメインが Radar の人気ランキングに含まれていません',
+    ranked: rank => `ドメインは上位 ${rank} 位以内`,
+    thirdPartyDomains: (thirdParty, total) => `接続先ドメイン ${total} 件中 ${thirdParty} 件がサードパーティ`,
+    weakCookies: (weak, total) => `Cookie ${total} 件中 ${weak} 件に Secure または HttpOnly がありません`,
+    failedRequests: (failed, total) => `リクエスト ${total} 件中 ${failed} 件が失敗`
+  },
+
+  progress: {
+    initializing: 'スキャンを準備しています...',
+    reusingCache: 'この URL の最近のスキャンが見つかりました。結果を再利用しています...',
+    submitting: 'URL を Cloudflare Radar に送信しています...',
+    submitted: 'スキャンを送信しました。結果を待っています...',
+    resuming: '以前の Radar スキャンの結果を確認しています...',
+    analyzing: (attempt, maxAttempts) => `URL を分析しています... (${attempt}/${maxAttempts})`,
+    generating: 'スキャン完了！PDF レポートを作成しています...',
+    uploading: 'レポートをクラウドストレージにアップロードしています...',
+    completed: 'スキャン完了！レポートの準備ができました。',
+    retrying: 'スキャンを再試行しています...',
+    cancelled: 'スキャンはキャンセルされました'
+  },
+
+  layout: {
+    contents: '目次',
+    page: (page, pageCount) => `${page} / ${pageCount} ページ`
+  },
+
+  report: {
+    title: companyName => `${companyName} セキュリティレポート`,
+    reportDate: 'レポート日時',
+    cachedSource: date => `${date} のキャッシュされたスキャン結果`,
+    noRiskFactors: 'リスク要因は見つかりませんでした。',
+    riskLevel: level => `リスク ${level}`,
+    riskScore: (score, level) => `${score}/100（${level}）`,
+    comparedWith: date => `${date} のスキャンと比較`,
+    noChanges: '変更は検出されませんでした。',
+    moreChanges: (count, label) => `...ほかに ${label} の変更 ${count} 件`,
+    validRange: (from, to) => `${from} から ${to} まで`,
+    warning: indicator => `警告：${indicator}`,
+    unknown: '不明',
+    none: 'なし',
+    notAvailable: '該当なし',
+    sections: {
+      verdict: 'セキュリティ判定',
+      riskScore: 'リスクスコア',
+      changes: '前回のスキャンからの変更',
+      pageInformation: 'ページ情報',
+      technologies: '検出されたテクノロジー',
+      networkStatistics: 'ネットワーク統計',
+      domainsContacted: '接続先ドメイン',
+      requestAnalysis: 'リクエスト分析',
+      cookieSecurity: 'Cookie のセキュリティ',
+      consoleMessages: 'コンソールメッセージ',
+      tls: 'SSL/TLS 証明書',
+      phishing: 'フィッシングの兆候',
+      maliciousContent: '悪意のあるコンテンツを検出',
+      summary: 'セキュリティの概要'
+    },
+    labels: {
+      url: 'URL',
+      scanned: 'スキャン日時',
+      scanId: 'スキャン ID',
+      visibility: '公開設定',
+      userAgent: 'ユーザーエージェント',
+      referer: 'リファラー',
+      customHeaders: 'カスタムヘッダー',
+      screenshotSizes: 'スクリーンショットのサイズ',
+      source: 'ソース',
+      categories: 'カテゴリ',
+      tags: 'タグ',
+      verdict: '判定',
+      domain: 'ドメイン',
+      ipAddress: 'IP アドレス',
+      country: '国',
+      asn: 'ASN',
+      httpStatus: 'HTTP ステータス',
+      pageTitle: 'ページタイトル',
+      totalRequests: 'リクエスト総数',
+      uniqueIps: '一意の IP',
+      uniqueCountries: '一意の国',
+      dataTransferred: '転送データ量',
+      cookiesFound: '検出された Cookie',
+      linksFound: '検出されたリンク',
+      consoleMessages: 'コンソールメッセージ',
+      failedRequests: '失敗したリクエスト',
+      totalCookies: 'Cookie 総数',
+      secureCookies: 'Secure Cookie',
+      httpOnlyCookies: 'HttpOnly Cookie',
+      thirdPartyCookies: 'サードパーティ Cookie',
+      totalMessages: 'メッセージ総数',
+      errors: 'エラー',
+      warnings: '警告',
+      protocol: 'プロトコル',
+      issuer: '発行者',
+      valid: '有効期間',
+      maliciousRequests: '悪意のあるリクエスト',
+      maliciousDomains: '悪意のあるドメイン',
+      riskScore: 'リスクスコア',
+      ipsContacted: '接続先 IP 総数',
+      asnsInvolved: '関係する ASN',
+      countries: '国'
+    },
+    changes: {
+      category: 'カテゴリ',
+      domain: 'ドメイン',
+      script: 'スクリプト',
+      ip: 'IP',
+      asn: 'ASN',
+      country: '国',
+      technology: 'テクノロジー',
+      cookie: 'Cookie',
+      certificateIssuer: '証明書の発行者',
+      certificateValidTo: '証明書の有効期限'
+    }
+  },
+
+  appendix: {
+    title: '付録：ネットワークリクエスト',
+    intro: (requests, hosts) =>
+      `${hosts} 個のホストへのリクエスト ${requests} 件。4xx の応答はオレンジ、5xx は赤で表示しています。`,
+    requests: count => `リクエスト ${count} 件`,
+    errors: count => `エラー ${count} 件`,
+    columns: {
+      method: 'メソッド',
+      status: 'ステータス',
+      type: '種類',
+      path: 'パス'
+    }
+  },
+
+  batch: {
+    title: companyName => `${companyName} 一括スキャンの概要`,
+    subtitle: batchId => `一括スキャン ${batchId}`,
+    completed: '完了',
+    inProgress: percent => `処理中（${percent}）`,
+    sections: {
+      overview: '概要',
+      verdicts: '判定'
+    },
+    labels: {
+      batchId: '一括スキャン ID',
+      submitted: '送信日時',
+      status: 'ステータス',
+      totalUrls: 'URL 総数',
+      completed: '完了',
+      failed: '失敗',
+      inProgress: '処理中',
+      malicious: '悪意あり'
+    }
+  },
+
+  email: {
+    subject: url => `URL スキャンレポートの準備ができました - ${url}`,
+    heading: 'スキャンが完了しました！',
+    textHeading: 'URL スキャンレポートの準備ができました！',
+    intro: url => `${url} のスキャンが完了し、レポートをダウンロードできるようになりました。`,
+    scanDetails: 'スキャンの詳細',
+    verdict: '判定',
+    completed: '完了',
+    requestCount: (total, failed) => `${total}（失敗 ${failed}）`,
+    download: 'レポートをダウンロード（PDF）',
+    downloadText: 'レポートのダウンロード',
+    note: '注意',
+    validity: validFor => `このリンクの有効期間は ${validFor} です。期限が過ぎた場合は、新しいスキャンを実行してください。`,
+    support: 'ご不明な点は、このメールに返信するか、サポートページをご覧ください。',
+    defaultFooter: 'Powered by Cloudflare Radar URL Scanner',
+    labels: {
+      url: 'URL',
+      scanned: 'スキャン日時',
+      sessionId: 'セッション ID',
+      status: 'ステータス',
+      result: '結果',
+      threatLevel: '脅威レベル',
+      categories: 'カテゴリ',
+      requests: 'リクエスト',
+      technologies: 'テクノロジー'
+    },
+    watchlist: {
+      subject: (url, headline) => `ウォッチリストのアラート：${url} ${headline}`,
+      title: 'ウォッチリストのアラート',
+      nowMalicious: 'が悪意ありと判定されました',
+      domainsChanged: 'の接続先ドメインが変わりました',
+      summary: (url, headline) => `${url} ${headline}。`,
+      newDomains: '新しいドメイン',
+      removedDomains: '接続しなくなったドメイン',
+      downloadText: 'レポートのダウンロード',
+      reason: 'この URL がウォッチリストに登録されているため、このメールをお送りしています。'
+    }
+  }
+};
@@ -1,17 +1,89 @@
-import type { Env } from './types';
-import { isValidUrl, isValidEmail, sanitizeString } from './utils/validation';
+import type { AuthContext, Env, Locale, RateLimitAction, RateLimitResult, ScreenshotResolution, SessionState } from './types';
+import { isValidUrl, isValidEmail, sanitizeString, validateReportOptions, validateScanOptions } from './utils/validation';
+import { normalizeUrl } from './utils/url';
+import {
+  MAX_SCAN_RETRIES,
+  createScanSession,
+  getClientMetadata,
+  getScanWorkflowInstance,
+  retryScanSession
+} from './services/scan-session';
+import { createBatchRecord, getBatchMaxUrls, getBatchStatus, trimBatchRecord } from './services/batch';
+import { loadScanReport } from './services/report-summary';
+import { resolveReportFonts } from './services/fonts';
+import { getMessages, isLocale, SUPPORTED_LOCALES } from './i18n';
+import { listScanHistory, loadSessionState, parseScanHistoryQuery, toPublicSessionState } from './services/scan-history';
+import { issueBrowserIdentity, readBrowserIdentity } from './services/identity';
+import { diffScans, loadStoredScan } from './services/scan-diff';
+import {
+  authenticateRequest,
+  createApiKey,
+  hasScope,
+  isAdminRequest,
+  isApiKeyScope,
+  listApiKeys,
+  revokeApiKey,
+  setApiKeyBranding
+} from './services/auth';
+import {
+  MAX_LOGO_BYTES,
+  brandingLogoKey,
+  createBrandingProfile,
+  deleteBrandingProfile,
+  getBrandingProfile,
+  isHexColor,
+  isPng,
+  listBrandingProfiles,
+  loadBranding,
+  putBrandingLogo,
+  updateBrandingProfile,
+  type BrandingUpdate
+} from './services/branding';
+import { consumeRateLimit, rateLimitHeaders } from './services/rate-limit';
+import { getCorsHeaders } from './services/cors';
+import {
+  MAX_WATCHLIST_INTERVAL_MINUTES,
+  MIN_WATCHLIST_INTERVAL_MINUTES,
+  createWatchlistEntry,
+  deleteWatchlistEntry,
+  getWatchlistEntry,
+  isValidWatchlistInterval,
+  listWatchlist,
+  listWatchlistRuns,
+  runDueWatchlistScans,
+  updateWatchlistEntry,
+  type WatchlistOwner,
+  type WatchlistUpdate
+} from './services/watchlist';
+import { ARTIFACTS, artifactDownloadName, artifactKey, isArtifactKind, screenshotKey } from './services/artifacts';
+import {
+  createOwnerToken,
+  createSignedLinks,
+  linkErrorPage,
+  verifyDownloadToken,
+  verifyOwnerToken
+} from './services/download-links';
+import { buildOpenApiDocument, schemaRef } from './services/openapi';
+import { Router, type RouteResponse } from './router';
+import {
+  AppError,
+  AuthenticationError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  RateLimitError,
+  ValidationError,
+  formatErrorForLogging,
+  toErrorEnvelope
+} from './utils/errors';
 
 // Export Durable Object and Workflow classes
 export { SessionManager } from './durable-objects/session-manager';
+export { RateLimiter } from './durable-objects/rate-limiter';
 export { ScanWorkflow } from './workflows/scan-workflow';
 
-// Security and CORS headers
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type',
-  'Access-Control-Max-Age': '86400'
-};
+// Session statuses after which a scan can no longer be cancelled
+const FINISHED_STATUSES: SessionState['status'][] = ['completed', 'failed', 'cancelled', 'expired'];
 
 // Security headers for all responses
 const securityHeaders = {
@@ -24,10 +96,70 @@ const securityHeaders = {
   'Strict-Transport-Security': 'max-age=31536000; includeSubDomains; preload'
 };
 
-// Helper to add security headers to responses
-function addSecurityHeaders(response: Response): Response {
+// Helper to add CORS and security headers to every API response
+function addSecurityHeaders(request: Request, env: Env, response: Response): Response {
+  const newHeaders = new Headers(response.headers);
+  Object.entries({ ...getCorsHeaders(request, env), ...securityHeaders }).forEach(([key, value]) => {
+    if (key === 'Vary') {
+      newHeaders.append(key, value);
+    } else {
+      newHeaders.set(key, value);
+    }
+  });
+  
+  // WebSocket upgrades must carry their socket over or the connection is dropped
+  if (response.status === 101) {
+    return new Response(null, { status: 101, webSocket: response.webSocket, headers: newHeaders });
+  }
+  
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: newHeaders
+  });
+}
+
+// Helper for the { code, title, message, action, retryable } envelope of every error response.
+// Anything that is not an AppError is reported as a 500 INTERNAL_ERROR without its message.
+function errorResponse(error: unknown, headers: Record<string, string> = {}): Response {
+  return Response.json(
+    toErrorEnvelope(error),
+    { status: error instanceof AppError ? error.httpStatus : 500, headers }
+  );
+}
+
+function rateLimitError(action: RateLimitAction, rateLimit: RateLimitResult): RateLimitError {
+  return new RateLimitError(
+    `${action === 'scan' ? 'Scan' : 'Email'} limit reached. Try again in ${rateLimit.retryAfterSeconds} seconds.`,
+    rateLimit.retryAfterSeconds
+  );
+}
+
+// Helper to run a handler behind the per-client rate limiter and attach X-RateLimit-* headers
+async function withRateLimit(
+  request: Request,
+  env: Env,
+  auth: AuthContext,
+  action: RateLimitAction,
+  handler: () => Promise<Response>
+): Promise<Response> {
+  const rateLimit = await consumeRateLimit(env, request, auth, action);
+  
+  if (rateLimit && !rateLimit.allowed) {
+    console.log(`[Worker] Rate limited ${action} request, retry after ${rateLimit.retryAfterSeconds}s`);
+    return errorResponse(rateLimitError(action, rateLimit), rateLimitHeaders(rateLimit));
+  }
+  
+  return withRateLimitHeaders(await handler(), rateLimit);
+}
+
+function withRateLimitHeaders(response: Response, rateLimit: RateLimitResult | null): Response {
+  if (!rateLimit) {
+    return response;
+  }
+  
   const newHeaders = new Headers(response.headers);
-  Object.entries(securityHeaders).forEach(([key, value]) => {
+  Object.entries(rateLimitHeaders(rateLimit)).forEach(([key, value]) => {
     newHeaders.set(key, value);
   });
   return new Response(response.body, {
@@ -37,248 +169,1763 @@ function addSecurityHeaders(response: Response): Response {
   });
 }
 
-export default {
-  // @ts-expect-error - ctx is required by Workers API but not used
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
-    const url = new URL(request.url);
+/**
+ * Whether the calling API key or browser created a session or batch
+ */
+function isCreator(record: { apiKeyId?: string; clientId?: string }, auth: AuthContext): boolean {
+  if (auth.type === 'api_key') {
+    return record.apiKeyId === auth.apiKey.id;
+  }
+  return record.clientId === auth.clientId;
+}
+
+/**
+ * Whoever started a session: the holder of its owner token, or the API key or browser that created it
+ */
+async function isSessionOwner(
+  session: SessionState,
+  request: Request,
+  env: Env,
+  auth: AuthContext
+): Promise<boolean> {
+  return isCreator(session, auth) || verifyOwnerToken(env, session.sessionId, request.headers.get('X-Session-Owner'));
+}
+
+/**
+ * Load a session the caller may read. Throws NotFoundError or ForbiddenError otherwise.
+ */
+async function loadOwnedSession(
+  env: Env,
+  sessionId: string,
+  request: Request,
+  auth: AuthContext
+): Promise<SessionState> {
+  const session = await loadSessionState(env, sessionId);
+  if (!session) {
+    throw new NotFoundError('Session not found');
+  }
+  if (!await isSessionOwner(session, request, env, auth)) {
+    throw new ForbiddenError('Only the creator of this scan can view it');
+  }
+  return session;
+}
+
+/**
+ * Owner of the caller's watchlist entries
+ */
+function getWatchlistOwner(auth: AuthContext): WatchlistOwner {
+  return auth.type === 'api_key' ? { apiKeyId: auth.apiKey.id } : { clientId: auth.clientId };
+}
+
+/**
+ * Branding profile for new scans: the one named in the request, or else the
+ * calling API key's default. Throws ValidationError for unknown profiles.
+ */
+async function resolveBrandingProfileId(
+  env: Env,
+  auth: AuthContext,
+  requested: unknown
+): Promise<string | undefined> {
+  if (requested === undefined || requested === null) {
+    return auth.type === 'api_key' ? auth.apiKey.brandingProfileId : undefined;
+  }
+  if (typeof requested !== 'string' || !(await getBrandingProfile(env, requested))) {
+    throw new ValidationError('Unknown brandingProfileId');
+  }
+  return requested;
+}
+
+/**
+ * Language requested for reports and emails; unset means English.
+ * Throws ValidationError for locales without a catalog.
+ */
+function parseLocale(requested: unknown): Locale | undefined {
+  if (requested === undefined || requested === null) {
+    return undefined;
+  }
+  if (!isLocale(requested)) {
+    throw new ValidationError(`Invalid locale. Supported: ${SUPPORTED_LOCALES.join(', ')}`);
+  }
+  return requested;
+}
+
+
+const PDF_RESPONSE: RouteResponse = { description: 'PDF report', contentType: 'application/pdf', schema: { type: 'string', format: 'binary' } };
+const NOT_FOUND_RESPONSE: RouteResponse = { description: 'Not found', schema: schemaRef('Error') };
+const NOT_OWNER_RESPONSE: RouteResponse = { description: 'Not the creator of the scan', schema: schemaRef('Error') };
+const BAD_REQUEST_RESPONSE: RouteResponse = { description: 'Invalid request', schema: schemaRef('Error') };
+
+/**
+ * Every API route. Routes are matched in order; the OpenAPI document is generated from this table.
+ */
+const router: Router = new Router([
+  {
+    method: 'GET',
+    path: '/api/health',
+    access: 'public',
+    handler: async () => Response.json({ status: 'ok', timestamp: Date.now() }),
+    docs: {
+      operationId: 'getHealth',
+      summary: 'Health check for uptime monitors',
+      tag: 'System',
+      responses: { 200: { description: 'Service is up', schema: { type: 'object', properties: { status: { type: 'string' }, timestamp: { type: 'integer' } } } } }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/identity',
+    access: 'public',
+    handler: ({ request, env }) => handleIssueIdentity(request, env),
+    docs: {
+      operationId: 'issueBrowserIdentity',
+      summary: 'Set the signed identity cookie the web app needs to scan, email and use the watchlist',
+      tag: 'System',
+      responses: {
+        204: { description: 'Identity cookie set, or already valid' },
+        403: { description: 'Browser identities are disabled because DOWNLOAD_LINK_SECRET is unset', schema: schemaRef('Error') }
+      }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/openapi.json',
+    access: 'public',
+    handler: async ({ env }) => Response.json(buildOpenApiDocument(router.routes, env.APP_URL)),
+    docs: {
+      operationId: 'getOpenApiDocument',
+      summary: 'This OpenAPI document',
+      tag: 'System',
+      responses: { 200: { description: 'OpenAPI 3.1 document', schema: { type: 'object' } } }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/admin/keys',
+    access: 'admin',
+    handler: ({ request, env }) => handleCreateApiKey(request, env),
+    docs: {
+      operationId: 'createApiKey',
+      summary: 'Mint an API key; the plaintext key is only returned here',
+      tag: 'Admin',
+      body: schemaRef('ApiKeyRequest'),
+      responses: { 201: { description: 'Key created', schema: schemaRef('ApiKey') }, 400: BAD_REQUEST_RESPONSE }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/admin/keys',
+    access: 'admin',
+    handler: ({ env }) => handleListApiKeys(env),
+    docs: {
+      operationId: 'listApiKeys',
+      summary: 'List API keys',
+      tag: 'Admin',
+      responses: { 200: { description: 'All keys', schema: { type: 'object', properties: { keys: { type: 'array', items: schemaRef('ApiKey') } } } } }
+    }
+  },
+  {
+    method: 'PATCH',
+    path: '/api/admin/keys/:keyId',
+    access: 'admin',
+    handler: ({ params, request, env }) => handleUpdateApiKey(params.keyId, request, env),
+    docs: {
+      operationId: 'updateApiKey',
+      summary: "Set or clear an API key's default branding profile",
+      tag: 'Admin',
+      body: schemaRef('ApiKeyUpdate'),
+      responses: { 200: { description: 'Updated key', schema: schemaRef('ApiKey') }, 400: BAD_REQUEST_RESPONSE, 404: NOT_FOUND_RESPONSE }
+    }
+  },
+  {
+    method: 'DELETE',
+    path: '/api/admin/keys/:keyId',
+    access: 'admin',
+    handler: ({ params, env }) => handleRevokeApiKey(params.keyId, env),
+    docs: {
+      operationId: 'revokeApiKey',
+      summary: 'Revoke an API key',
+      tag: 'Admin',
+      responses: { 200: { description: 'Key revoked', schema: schemaRef('Success') }, 404: NOT_FOUND_RESPONSE }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/admin/branding',
+    access: 'admin',
+    handler: ({ env }) => handleListBrandingProfiles(env),
+    docs: {
+      operationId: 'listBrandingProfiles',
+      summary: 'List branding profiles',
+      tag: 'Admin',
+      responses: { 200: { description: 'All profiles', schema: { type: 'object', properties: { profiles: { type: 'array', items: schemaRef('BrandingProfile') } } } } }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/admin/branding',
+    access: 'admin',
+    handler: ({ request, env }) => handleCreateBrandingProfile(request, env),
+    docs: {
+      operationId: 'createBrandingProfile',
+      summary: 'Create a white-label branding profile for reports and emails',
+      tag: 'Admin',
+      body: schemaRef('BrandingProfileRequest'),
+      responses: { 201: { description: 'Profile created', schema: schemaRef('BrandingProfile') }, 400: BAD_REQUEST_RESPONSE }
+    }
+  },
+  {
+    method: 'PATCH',
+    path: '/api/admin/branding/:profileId',
+    access: 'admin',
+    handler: ({ params, request, env }) => handleUpdateBrandingProfile(params.profileId, request, env),
+    docs: {
+      operationId: 'updateBrandingProfile',
+      summary: 'Change a branding profile',
+      tag: 'Admin',
+      body: schemaRef('BrandingProfileUpdate'),
+      responses: { 200: { description: 'Updated profile', schema: schemaRef('BrandingProfile') }, 400: BAD_REQUEST_RESPONSE, 404: NOT_FOUND_RESPONSE }
+    }
+  },
+  {
+    method: 'DELETE',
+    path: '/api/admin/branding/:profileId',
+    access: 'admin',
+    handler: ({ params, env }) => handleDeleteBrandingProfile(params.profileId, env),
+    docs: {
+      operationId: 'deleteBrandingProfile',
+      summary: 'Remove a branding profile and its logo; API keys using it fall back to the default branding',
+      tag: 'Admin',
+      responses: { 200: { description: 'Profile removed', schema: schemaRef('Success') }, 404: NOT_FOUND_RESPONSE }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/admin/branding/:profileId/logo',
+    access: 'admin',
+    handler: ({ params, request, env }) => handleUploadBrandingLogo(params.profileId, request, env),
+    docs: {
+      operationId: 'uploadBrandingLogo',
+      summary: `Upload a profile's logo as a raw PNG body (at most ${MAX_LOGO_BYTES / 1024} KB)`,
+      tag: 'Admin',
+      body: { type: 'string', format: 'binary' },
+      bodyContentType: 'image/png',
+      responses: { 200: { description: 'Updated profile', schema: schemaRef('BrandingProfile') }, 400: BAD_REQUEST_RESPONSE, 404: NOT_FOUND_RESPONSE }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/branding/:profileId/logo',
+    access: 'public',
+    // Public so email clients can load it
+    handler: ({ params, env }) => handleBrandingLogo(params.profileId, env),
+    docs: {
+      operationId: 'getBrandingLogo',
+      summary: "A branding profile's logo, as shown in emails",
+      tag: 'System',
+      responses: { 200: { description: 'Logo', contentType: 'image/png', schema: { type: 'string', format: 'binary' } }, 404: NOT_FOUND_RESPONSE }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/scan',
+    access: 'client',
+    scope: 'scan',
+    rateLimit: 'scan',
+    handler: ({ request, env, auth }) => handleCreateScan(request, env, auth),
+    docs: {
+      operationId: 'createScan',
+      summary: 'Start a scan',
+      tag: 'Scans',
+      body: schemaRef('ScanRequest'),
+      responses: { 200: { description: 'Scan queued', schema: schemaRef('ScanCreated') }, 400: BAD_REQUEST_RESPONSE }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/scans/batch',
+    access: 'client',
+    scope: 'scan',
+    // Rate limited by the handler, which charges one scan token per validated URL
+    handler: ({ request, env, auth }) => handleCreateBatch(request, env, auth),
+    docs: {
+      operationId: 'createBatch',
+      summary: 'Scan many URLs under one batch',
+      tag: 'Batches',
+      body: schemaRef('BatchRequest'),
+      responses: {
+        200: { description: 'Batch queued', schema: schemaRef('BatchCreated') },
+        400: BAD_REQUEST_RESPONSE,
+        429: { description: 'No scan tokens left; see the Retry-After header', schema: schemaRef('Error') }
+      }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/scans',
+    access: 'client',
+    scope: 'read',
+    handler: ({ url, env, auth }) => handleListScans(url, env, auth),
+    docs: {
+      operationId: 'listScans',
+      summary: "The caller's scan history, newest first",
+      tag: 'Scans',
+      query: [
+        { name: 'status', description: 'Session status', schema: { type: 'string' } },
+        { name: 'from', description: 'Created at or after (ISO date or Unix milliseconds)', schema: { type: 'string' } },
+        { name: 'to', description: 'Created before (ISO date or Unix milliseconds)', schema: { type: 'string' } },
+        { name: 'domain', description: 'Hostname; subdomains match too', schema: { type: 'string' } },
+        { name: 'verdict', description: 'Verdict', schema: { type: 'string', enum: ['malicious', 'safe'] } },
+        { name: 'limit', description: 'Page size', schema: { type: 'integer', minimum: 1, maximum: 100, default: 20 } },
+        { name: 'cursor', description: 'nextCursor from the previous page', schema: { type: 'string' } }
+      ],
+      responses: { 200: { description: 'One page of scans', schema: schemaRef('ScanHistoryPage') }, 400: BAD_REQUEST_RESPONSE }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/batch/:batchId',
+    access: 'client',
+    scope: 'read',
+    handler: ({ params, env, auth }) => handleGetBatch(params.batchId, env, auth),
+    docs: {
+      operationId: 'getBatch',
+      summary: 'Aggregate batch progress and per-URL status',
+      tag: 'Batches',
+      responses: { 200: { description: 'Batch status', schema: schemaRef('BatchStatus') }, 403: NOT_OWNER_RESPONSE, 404: NOT_FOUND_RESPONSE }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/batch/:batchId/report',
+    access: 'client',
+    scope: 'read',
+    handler: ({ params, env, auth }) => handleBatchReport(params.batchId, env, auth),
+    docs: {
+      operationId: 'getBatchReport',
+      summary: "Batch summary PDF listing every URL's verdict",
+      tag: 'Batches',
+      responses: { 200: PDF_RESPONSE, 403: NOT_OWNER_RESPONSE, 404: NOT_FOUND_RESPONSE }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/watchlist',
+    access: 'client',
+    scope: 'watchlist',
+    handler: ({ env, auth }) => handleListWatchlist(env, auth),
+    docs: {
+      operationId: 'listWatchlist',
+      summary: 'Watchlist entries created by the calling API key or browser',
+      tag: 'Watchlist',
+      responses: { 200: { description: 'Entries, newest first', schema: { type: 'object', properties: { entries: { type: 'array', items: schemaRef('WatchlistEntry') } } } } }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/watchlist',
+    access: 'client',
+    scope: 'watchlist',
+    rateLimit: 'email',
+    handler: ({ request, env, auth }) => handleCreateWatchlistEntry(request, env, auth),
+    docs: {
+      operationId: 'createWatchlistEntry',
+      summary: 'Add a URL to the watchlist',
+      tag: 'Watchlist',
+      body: schemaRef('WatchlistRequest'),
+      responses: { 201: { description: 'Entry created', schema: schemaRef('WatchlistEntry') }, 400: BAD_REQUEST_RESPONSE }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/watchlist/:watchlistId',
+    access: 'client',
+    scope: 'watchlist',
+    handler: ({ params, env, auth }) => handleGetWatchlistEntry(params.watchlistId, env, auth),
+    docs: {
+      operationId: 'getWatchlistEntry',
+      summary: 'Watchlist entry with its recent runs',
+      tag: 'Watchlist',
+      responses: { 200: { description: 'Entry and runs', schema: schemaRef('WatchlistEntry') }, 404: NOT_FOUND_RESPONSE }
+    }
+  },
+  {
+    method: 'PATCH',
+    path: '/api/watchlist/:watchlistId',
+    access: 'client',
+    scope: 'watchlist',
+    handler: ({ params, request, env, auth }) => handleUpdateWatchlistEntry(params.watchlistId, request, env, auth),
+    docs: {
+      operationId: 'updateWatchlistEntry',
+      summary: 'Change email, interval or options, or pause and resume an entry',
+      tag: 'Watchlist',
+      body: schemaRef('WatchlistUpdate'),
+      responses: { 200: { description: 'Updated entry', schema: schemaRef('WatchlistEntry') }, 400: BAD_REQUEST_RESPONSE, 404: NOT_FOUND_RESPONSE }
+    }
+  },
+  {
+    method: 'DELETE',
+    path: '/api/watchlist/:watchlistId',
+    access: 'client',
+    scope: 'watchlist',
+    handler: ({ params, env, auth }) => handleDeleteWatchlistEntry(params.watchlistId, env, auth),
+    docs: {
+      operationId: 'deleteWatchlistEntry',
+      summary: 'Remove an entry and its run history',
+      tag: 'Watchlist',
+      responses: { 200: { description: 'Entry removed', schema: schemaRef('Success') }, 404: NOT_FOUND_RESPONSE }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/session/:sessionId',
+    access: 'client',
+    scope: 'read',
+    handler: ({ params, request, env, auth }) => handleGetSession(params.sessionId, request, env, auth),
+    docs: {
+      operationId: 'getSession',
+      summary: 'Session status, rebuilt from D1 once the live session has expired',
+      tag: 'Sessions',
+      responses: { 200: { description: 'Session state', schema: schemaRef('SessionState') }, 403: NOT_OWNER_RESPONSE, 404: NOT_FOUND_RESPONSE }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/session/:sessionId/link',
+    access: 'client',
+    scope: 'read',
+    handler: ({ params, request, env, auth }) => handleCreateSessionLink(params.sessionId, request, env, auth),
+    docs: {
+      operationId: 'createSessionLink',
+      summary: 'Mint fresh signed download and preview links',
+      description: 'Callers other than the API key or browser that created the scan must send its ownerToken as X-Session-Owner.',
+      tag: 'Sessions',
+      responses: {
+        200: { description: 'Signed links', schema: schemaRef('SignedLinks') },
+        403: NOT_OWNER_RESPONSE,
+        404: NOT_FOUND_RESPONSE
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/session/:sessionId/cancel',
+    access: 'client',
+    scope: 'scan',
+    handler: ({ params, request, env, auth }) => handleCancelSession(params.sessionId, request, env, auth),
+    docs: {
+      operationId: 'cancelSession',
+      summary: 'Stop an in-flight scan',
+      tag: 'Sessions',
+      responses: {
+        200: { description: 'Scan cancelled', schema: schemaRef('SessionAction') },
+        404: NOT_FOUND_RESPONSE,
+        409: { description: 'Scan already finished', schema: schemaRef('Error') }
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/session/:sessionId/retry',
+    access: 'client',
+    scope: 'scan',
+    // A retry can submit a new Radar scan, so it spends a scan token
+    rateLimit: 'scan',
+    handler: ({ params, request, env, auth }) => handleRetrySession(params.sessionId, request, env, auth),
+    docs: {
+      operationId: 'retrySession',
+      summary: 'Restart a failed scan in place',
+      tag: 'Sessions',
+      responses: {
+        200: { description: 'Retry started', schema: schemaRef('SessionAction') },
+        404: NOT_FOUND_RESPONSE,
+        409: { description: 'Scan has not failed, or no retries are left', schema: schemaRef('Error') }
+      }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/download/:sessionId',
+    access: 'signed-link',
+    scope: 'read',
+    handler: ({ params, request, env, auth }) => handleDownload(params.sessionId, request, env, auth),
+    docs: {
+      operationId: 'downloadReport',
+      summary: 'Download the PDF report',
+      tag: 'Reports',
+      query: [{ name: 'token', description: 'Signed link token', schema: { type: 'string' } }],
+      responses: { 200: PDF_RESPONSE, 403: NOT_OWNER_RESPONSE, 404: NOT_FOUND_RESPONSE, 410: { description: 'Signed link has expired' } }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/preview/:sessionId',
+    access: 'signed-link',
+    scope: 'read',
+    handler: ({ params, request, env, auth }) => handleDownload(params.sessionId, request, env, auth, true),
+    docs: {
+      operationId: 'previewReport',
+      summary: 'Show the PDF report inline',
+      tag: 'Reports',
+      query: [{ name: 'token', description: 'Signed link token', schema: { type: 'string' } }],
+      responses: { 200: PDF_RESPONSE, 403: NOT_OWNER_RESPONSE, 404: NOT_FOUND_RESPONSE, 410: { description: 'Signed link has expired' } }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/report/:sessionId.json',
+    access: 'client',
+    scope: 'read',
+    handler: ({ params, request, env, auth }) => handleJsonReport(params.sessionId, request, env, auth),
+    docs: {
+      operationId: 'getJsonReport',
+      summary: 'Normalized, versioned JSON report',
+      tag: 'Reports',
+      responses: { 200: { description: 'Scan report', schema: schemaRef('ScanReport') }, 403: NOT_OWNER_RESPONSE, 404: NOT_FOUND_RESPONSE }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/diff',
+    access: 'client',
+    scope: 'read',
+    handler: ({ url, env, auth }) => handleDiff(url.searchParams.get('from'), url.searchParams.get('to'), env, auth),
+    docs: {
+      operationId: 'diffScans',
+      summary: 'Compare two stored scans',
+      tag: 'Reports',
+      query: [
+        { name: 'from', description: 'Earlier session ID', required: true, schema: { type: 'string' } },
+        { name: 'to', description: 'Later session ID', required: true, schema: { type: 'string' } }
+      ],
+      responses: { 200: { description: 'Differences', schema: schemaRef('ScanDiff') }, 400: BAD_REQUEST_RESPONSE, 403: NOT_OWNER_RESPONSE, 404: NOT_FOUND_RESPONSE }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/artifacts/:sessionId/:kind',
+    access: 'client',
+    scope: 'read',
+    handler: ({ params, request, env, auth }) => handleArtifact(params.sessionId, params.kind, request, env, auth),
+    docs: {
+      operationId: 'getArtifact',
+      summary: 'Raw scan artifact: result, har, dom or screenshot',
+      tag: 'Reports',
+      responses: {
+        200: { description: 'Artifact file', contentType: 'application/octet-stream', schema: { type: 'string', format: 'binary' } },
+        400: BAD_REQUEST_RESPONSE,
+        403: NOT_OWNER_RESPONSE,
+        404: NOT_FOUND_RESPONSE
+      }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/screenshot/:sessionId',
+    access: 'client',
+    scope: 'read',
+    handler: ({ params, url, request, env, auth }) => handleScreenshot(params.sessionId, url.searchParams.get('resolution'), request, env, auth),
+    docs: {
+      operationId: 'getScreenshot',
+      summary: 'Page screenshot',
+      tag: 'Reports',
+      query: [{ name: 'resolution', description: 'Screenshot resolution', schema: { type: 'string', enum: ['desktop', 'mobile', 'tablet'] } }],
+      responses: {
+        200: { description: 'PNG screenshot', contentType: 'image/png', schema: { type: 'string', format: 'binary' } },
+        400: BAD_REQUEST_RESPONSE,
+        403: NOT_OWNER_RESPONSE,
+        404: NOT_FOUND_RESPONSE
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/email/:sessionId',
+    access: 'client',
+    scope: 'scan',
+    rateLimit: 'email',
+    handler: ({ params, env, request, auth }) => handleSendEmail(params.sessionId, env, request, auth),
+    docs: {
+      operationId: 'sendReportEmail',
+      summary: 'Email a signed report link; only the creator of the scan may send one',
+      tag: 'Reports',
+      body: { type: 'object', properties: { email: { type: 'string', format: 'email' } }, required: ['email'] },
+      responses: { 200: { description: 'Email sent', schema: schemaRef('Success') }, 400: BAD_REQUEST_RESPONSE, 403: NOT_OWNER_RESPONSE, 404: NOT_FOUND_RESPONSE }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/ws/:sessionId',
+    access: 'client',
+    scope: 'read',
+    handler: ({ params, request, env, auth }) => handleWebSocket(params.sessionId, request, env, auth),
+    docs: {
+      operationId: 'connectSessionSocket',
+      summary: 'WebSocket with live session updates',
+      tag: 'Sessions',
+      responses: { 101: { description: 'Switching protocols' }, 400: { description: 'Expected WebSocket upgrade', schema: schemaRef('Error') }, 403: NOT_OWNER_RESPONSE, 404: NOT_FOUND_RESPONSE }
+    }
+  }
+]);
+
+/**
+ * Match a request to its route, then authenticate, check scopes and rate limits before running it
+ */
+async function dispatch(request: Request, env: Env, ctx: ExecutionContext, url: URL): Promise<Response> {
+  const match = router.match(request.method, url.pathname);
+  
+  if (!match) {
+    return errorResponse(new NotFoundError(`No route for ${url.pathname}`));
+  }
+  
+  if ('allowedMethods' in match) {
+    return errorResponse(
+      new AppError('METHOD_NOT_ALLOWED', {
+        message: `${request.method} is not supported here. Use ${match.allowedMethods.join(' or ')}.`
+      }),
+      { Allow: match.allowedMethods.join(', ') }
+    );
+  }
+  
+  const { route, params } = match;
+  const context = { request, env, ctx, url, params };
+  
+  if (route.access === 'public') {
+    return route.handler({ ...context, auth: null });
+  }
+  
+  // Admin routes authenticate with ADMIN_API_TOKEN instead of an API key
+  if (route.access === 'admin') {
+    if (!isAdminRequest(request, env)) {
+      return errorResponse(new AuthenticationError('Valid admin token required'), { 'WWW-Authenticate': 'Bearer' });
+    }
+    return route.handler({ ...context, auth: null });
+  }
+  
+  // Signed links carry their own authorization, so they open from any mail client
+  const linkToken = url.searchParams.get('token');
+  if (route.access === 'signed-link' && linkToken) {
+    const check = await verifyDownloadToken(env, linkToken, params.sessionId);
+    if (!check.valid) {
+      console.log(`[Worker] Rejected ${check.reason} download link for session: ${params.sessionId}`);
+      return linkErrorPage(check.reason);
+    }
+    console.log(`[Worker] Signed link for session ${params.sessionId} used (recipient: ${check.recipient})`);
+    return route.handler({ ...context, auth: null });
+  }
+  
+  // Everything else needs an API key or the SPA's identity cookie
+  const auth = await authenticateRequest(request, env, ctx);
+  
+  if (!auth) {
+    // Someone opening an unsigned report URL gets a page rather than JSON
+    if (route.access === 'signed-link' && request.headers.get('Accept')?.includes('text/html')) {
+      return linkErrorPage('missing');
+    }
+    return errorResponse(new AuthenticationError(), { 'WWW-Authenticate': 'Bearer' });
+  }
+  
+  if (!hasScope(auth, route.scope)) {
+    return errorResponse(new ForbiddenError(`API key is missing the '${route.scope}' scope`));
+  }
+  
+  // Unsigned report URLs are only served to API keys; the SPA mints a signed link first
+  if (route.access === 'signed-link') {
+    return auth.type === 'browser' ? linkErrorPage('missing') : route.handler({ ...context, auth });
+  }
+  
+  if (route.rateLimit) {
+    return withRateLimit(request, env, auth, route.rateLimit, () => route.handler({ ...context, auth }));
+  }
+  return route.handler({ ...context, auth });
+}
+
+export default {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    const url = new URL(request.url);
+    
+    // Handle CORS preflight
+    if (request.method === 'OPTIONS') {
+      return new Response(null, { status: 204, headers: getCorsHeaders(request, env) });
+    }
+    
+    // Handle API routes BEFORE assets (important for /api/download)
+    if (url.pathname.startsWith('/api/') || url.pathname.startsWith('/ws/')) {
+      try {
+        return addSecurityHeaders(request, env, await dispatch(request, env, ctx, url));
+      } catch (error) {
+        console.error(formatErrorForLogging(error, 'Worker'));
+        return addSecurityHeaders(request, env, errorResponse(error));
+      }
+    }
+    
+    // All other routes fall through to assets (SPA)
+    return new Response('Not found', { status: 404 });
+  },
+  
+  // Cron trigger: start scans for watchlist entries that are due
+  async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    ctx.waitUntil(
+      runDueWatchlistScans(env, controller.scheduledTime)
+        .then(started => console.log(`[Scheduled] Started ${started} watchlist scan(s)`))
+        .catch(error => console.error('[Scheduled] Watchlist run failed:', error))
+    );
+  }
+};
+
+/**
+ * Handle POST /api/identity - Set the browser identity cookie. The web app calls
+ * this before its first scan; a cookie that is still valid is kept as is.
+ */
+async function handleIssueIdentity(request: Request, env: Env): Promise<Response> {
+  try {
+    if (await readBrowserIdentity(request, env)) {
+      return new Response(null, { status: 204 });
+    }
+    
+    const identity = await issueBrowserIdentity(env);
+    
+    if (!identity) {
+      return errorResponse(new ForbiddenError('Browser identities are disabled on this server'));
+    }
+    
+    return new Response(null, { status: 204, headers: { 'Set-Cookie': identity.cookie } });
+    
+  } catch (error) {
+    console.error('[Worker] Error in handleIssueIdentity:', error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Handle POST /api/scan - Create a new scan session
+ */
+async function handleCreateScan(
+  request: Request,
+  env: Env,
+  auth: AuthContext
+): Promise<Response> {
+  try {
+    const body = await request.json<{
+      url: string;
+      email: string;
+      force?: boolean;
+      options?: unknown;
+      reportOptions?: unknown;
+      brandingProfileId?: unknown;
+      locale?: unknown;
+      callbackUrl?: string;
+    }>();
+    
+    // Validate inputs
+    const url = sanitizeString(body.url || '');
+    const email = sanitizeString(body.email || '');
+    const callbackUrl = body.callbackUrl ? sanitizeString(body.callbackUrl) : undefined;
+    
+    if (!url || !email) {
+      return errorResponse(new ValidationError('Missing required fields: url and email'));
+    }
+    
+    if (!isValidUrl(url)) {
+      return errorResponse(new ValidationError('Invalid URL. Must be HTTP/HTTPS and not a private IP address.'));
+    }
+    
+    if (!isValidEmail(email)) {
+      return errorResponse(new ValidationError('Invalid email address'));
+    }
+    
+    const scanOptions = validateScanOptions(body.options);
+    if ('error' in scanOptions) {
+      return errorResponse(new ValidationError(`Invalid scan options: ${scanOptions.error}`));
+    }
+    
+    const reportOptions = validateReportOptions(body.reportOptions);
+    if ('error' in reportOptions) {
+      return errorResponse(new ValidationError(`Invalid report options: ${reportOptions.error}`));
+    }
+    
+    if (callbackUrl !== undefined) {
+      if (!isValidUrl(callbackUrl)) {
+        return errorResponse(new ValidationError('Invalid callbackUrl. Must be HTTP/HTTPS and not a private IP address.'));
+      }
+      
+      if (!env.WEBHOOK_SIGNING_SECRET) {
+        return errorResponse(new ValidationError('Webhooks are not enabled on this server'));
+      }
+    }
+    
+    const brandingProfileId = await resolveBrandingProfileId(env, auth, body.brandingProfileId);
+    const locale = parseLocale(body.locale);
+    
+    // Minted before the workflow starts, so a signing failure cannot strand a running scan
+    const sessionId = crypto.randomUUID();
+    const ownerToken = await createOwnerToken(env, sessionId);
+    
+    await createScanSession(env, {
+      sessionId,
+      url,
+      email,
+      force: body.force === true,
+      scanOptions: scanOptions.options,
+      reportOptions: reportOptions.options,
+      brandingProfileId,
+      locale,
+      callbackUrl,
+      apiKeyId: auth.type === 'api_key' ? auth.apiKey.id : undefined,
+      clientId: auth.type === 'browser' ? auth.clientId : undefined,
+      ...getClientMetadata(request)
+    });
+    
+    console.log(`[Worker] Session created successfully: ${sessionId}`);
+    
+    return Response.json({
+      sessionId,
+      ownerToken,
+      wsUrl: `/ws/${sessionId}`,
+      status: 'queued',
+      message: 'Scan initiated successfully'
+    });
+    
+  } catch (error) {
+    console.error('[Worker] Error in handleCreateScan:', error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Handle POST /api/scans/batch - Fan out many URLs under one batch
+ */
+async function handleCreateBatch(
+  request: Request,
+  env: Env,
+  auth: AuthContext
+): Promise<Response> {
+  try {
+    const body = await request.json<{
+      urls: string[];
+      email: string;
+      force?: boolean;
+      options?: unknown;
+      reportOptions?: unknown;
+      brandingProfileId?: unknown;
+      locale?: unknown;
+    }>();
+    
+    const email = sanitizeString(body.email || '');
+    const maxUrls = getBatchMaxUrls(env);
+    
+    if (!Array.isArray(body.urls) || body.urls.length === 0 || !email) {
+      return errorResponse(new ValidationError('Missing required fields: urls and email'));
+    }
+    
+    if (!isValidEmail(email)) {
+      return errorResponse(new ValidationError('Invalid email address'));
+    }
+    
+    // Validate every entry and drop duplicates (by normalized URL)
+    const urls: string[] = [];
+    const seen = new Set<string>();
+    const invalid: Array<{ index: number; url: string }> = [];
+    
+    body.urls.forEach((rawUrl, index) => {
+      const url = sanitizeString(typeof rawUrl === 'string' ? rawUrl : '');
+      if (!isValidUrl(url)) {
+        invalid.push({ index, url });
+        return;
+      }
+      const normalized = normalizeUrl(url);
+      if (!seen.has(normalized)) {
+        seen.add(normalized);
+        urls.push(url);
+      }
+    });
+    
+    if (invalid.length > 0) {
+      return errorResponse(new ValidationError('Invalid URL(s) in batch. Must be HTTP/HTTPS and not a private IP address.', { invalid }));
+    }
+    
+    if (urls.length > maxUrls) {
+      return errorResponse(new ValidationError(`Too many URLs. A batch may contain at most ${maxUrls} URLs.`));
+    }
+    
+    // One set of options applies to every URL in the batch
+    const scanOptions = validateScanOptions(body.options);
+    if ('error' in scanOptions) {
+      return errorResponse(new ValidationError(`Invalid scan options: ${scanOptions.error}`));
+    }
+    
+    const reportOptions = validateReportOptions(body.reportOptions);
+    if ('error' in reportOptions) {
+      return errorResponse(new ValidationError(`Invalid report options: ${reportOptions.error}`));
+    }
+    
+    const brandingProfileId = await resolveBrandingProfileId(env, auth, body.brandingProfileId);
+    const locale = parseLocale(body.locale);
+    
+    // Each validated, deduplicated URL takes a scan token. When the budget runs short
+    // the batch starts the URLs it has tokens for and reports the rest as notStarted.
+    const rateLimit = await consumeRateLimit(env, request, auth, 'scan', urls.length);
+    if (rateLimit && !rateLimit.allowed) {
+      console.log(`[Worker] Rate limited batch request, retry after ${rateLimit.retryAfterSeconds}s`);
+      return errorResponse(rateLimitError('scan', rateLimit), rateLimitHeaders(rateLimit));
+    }
+    const admitted = rateLimit ? urls.slice(0, rateLimit.granted) : urls;
+    const throttled = urls.slice(admitted.length);
+    
+    const batchId = crypto.randomUUID();
+    const clientMetadata = getClientMetadata(request);
+    
+    console.log(`[Worker] Creating batch ${batchId} with ${admitted.length} of ${urls.length} URLs`);
+    
+    // The batch is recorded before any scan starts, so every started session belongs to it
+    const planned = await Promise.all(admitted.map(async url => {
+      const sessionId = crypto.randomUUID();
+      return { sessionId, url, ownerToken: await createOwnerToken(env, sessionId) };
+    }));
+    const owner = {
+      apiKeyId: auth.type === 'api_key' ? auth.apiKey.id : undefined,
+      clientId: auth.type === 'browser' ? auth.clientId : undefined
+    };
+    await createBatchRecord(env, batchId, email, planned.map(s => s.sessionId), owner, brandingProfileId, locale);
+    
+    // Sessions start one at a time; after a failure the rest are not attempted
+    // and the batch is trimmed to the sessions already running
+    const sessions: typeof planned = [];
+    let startError: unknown;
+    for (const session of planned) {
+      try {
+        await createScanSession(env, {
+          sessionId: session.sessionId,
+          url: session.url,
+          email,
+          force: body.force === true,
+          scanOptions: scanOptions.options,
+          reportOptions: reportOptions.options,
+          brandingProfileId,
+          locale,
+          batchId,
+          ...owner,
+          ...clientMetadata
+        });
+        sessions.push(session);
+      } catch (error) {
+        startError = error;
+        break;
+      }
+    }
+    
+    if (startError !== undefined) {
+      console.error(`[Worker] Batch ${batchId} stopped after ${sessions.length} of ${planned.length} sessions:`, startError);
+      await trimBatchRecord(env, batchId, sessions.map(s => s.sessionId));
+      if (sessions.length === 0) {
+        throw startError;
+      }
+    } else {
+      console.log(`[Worker] Batch created successfully: ${batchId}`);
+    }
+    
+    const notStarted = [...planned.slice(sessions.length).map(s => s.url), ...throttled];
+    const notStartedError = startError ?? (throttled.length > 0 ? rateLimitError('scan', rateLimit!) : undefined);
+    
+    return withRateLimitHeaders(Response.json(
+      {
+        batchId,
+        statusUrl: `/api/batch/${batchId}`,
+        reportUrl: `/api/batch/${batchId}/report`,
+        sessions: sessions.map(s => ({ ...s, wsUrl: `/ws/${s.sessionId}` })),
+        status: 'queued',
+        ...(notStarted.length > 0 && {
+          notStarted,
+          error: toErrorEnvelope(notStartedError)
+        }),
+        message: notStarted.length === 0
+          ? 'Batch scan initiated successfully'
+          : `Batch scan partially initiated: ${sessions.length} of ${urls.length} URLs started`
+      }
+    ), rateLimit);
+    
+  } catch (error) {
+    console.error('[Worker] Error in handleCreateBatch:', error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Handle GET /api/batch/:batchId - Aggregate batch progress
+ */
+async function handleGetBatch(batchId: string, env: Env, auth: AuthContext): Promise<Response> {
+  try {
+    if (!batchId) {
+      return errorResponse(new ValidationError('Batch ID required'));
+    }
+    
+    const batch = await getBatchStatus(env, batchId);
+    
+    if (!batch) {
+      return errorResponse(new NotFoundError('Batch not found'));
+    }
+    
+    if (!isCreator(batch, auth)) {
+      return errorResponse(new ForbiddenError('Only the creator of this batch can view it'));
+    }
+    
+    return Response.json(batch);
+    
+  } catch (error) {
+    console.error('[Worker] Error in handleGetBatch:', error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Handle GET /api/batch/:batchId/report - Combined batch summary PDF
+ */
+async function handleBatchReport(batchId: string, env: Env, auth: AuthContext): Promise<Response> {
+  try {
+    if (!batchId) {
+      return errorResponse(new ValidationError('Batch ID required'));
+    }
+    
+    const batch = await getBatchStatus(env, batchId);
+    
+    if (!batch) {
+      return errorResponse(new NotFoundError('Batch not found'));
+    }
+    
+    if (!isCreator(batch, auth)) {
+      return errorResponse(new ForbiddenError('Only the creator of this batch can download its report'));
+    }
+    
+    const branding = await loadBranding(env, batch.brandingProfileId, { withLogo: true });
+    const { generateBatchSummaryPDF } = await import('./services/pdf-generator');
+    const pdfBytes = await generateBatchSummaryPDF(batch, branding, await resolveReportFonts(env, batch.locale));
+    
+    return new Response(pdfBytes, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="radar-batch-${batchId}.pdf"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+    
+  } catch (error) {
+    console.error('[Worker] Error in handleBatchReport:', error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Handle POST /api/admin/keys - Mint an API key (the plaintext key is only returned here)
+ */
+async function handleCreateApiKey(request: Request, env: Env): Promise<Response> {
+  try {
+    const body = await request.json<{ name?: string; owner?: string; scopes?: unknown; brandingProfileId?: unknown }>();
+    
+    const name = sanitizeString(body.name || '');
+    const owner = sanitizeString(body.owner || '');
+    
+    if (!name || !owner) {
+      return errorResponse(new ValidationError('Missing required fields: name and owner'));
+    }
+    
+    const scopes = body.scopes === undefined ? ['scan', 'read'] : body.scopes;
+    if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isApiKeyScope)) {
+      return errorResponse(new ValidationError('scopes must be a non-empty array of: scan, read, watchlist'));
+    }
+    
+    if (body.brandingProfileId !== undefined && (typeof body.brandingProfileId !== 'string' || !(await getBrandingProfile(env, body.brandingProfileId)))) {
+      return errorResponse(new ValidationError('Unknown brandingProfileId'));
+    }
+    
+    const { key, apiKey } = await createApiKey(env, {
+      name,
+      owner,
+      scopes: [...new Set(scopes)],
+      brandingProfileId: body.brandingProfileId
+    });
+    
+    console.log(`[Worker] API key created: ${apiKey.id} (${apiKey.name}) for ${apiKey.owner}`);
+    
+    return Response.json({ ...apiKey, key }, { status: 201 });
+    
+  } catch (error) {
+    console.error('[Worker] Error in handleCreateApiKey:', error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Handle GET /api/admin/keys - List API keys (hashes are never returned)
+ */
+async function handleListApiKeys(env: Env): Promise<Response> {
+  try {
+    const keys = await listApiKeys(env);
+    return Response.json({ keys });
+    
+  } catch (error) {
+    console.error('[Worker] Error in handleListApiKeys:', error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Handle DELETE /api/admin/keys/:id - Revoke an API key
+ */
+async function handleRevokeApiKey(keyId: string, env: Env): Promise<Response> {
+  try {
+    const revoked = await revokeApiKey(env, keyId);
+    
+    if (!revoked) {
+      return errorResponse(new NotFoundError('API key not found'));
+    }
+    
+    console.log(`[Worker] API key revoked: ${keyId}`);
+    
+    return Response.json({ success: true });
+    
+  } catch (error) {
+    console.error('[Worker] Error in handleRevokeApiKey:', error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Handle PATCH /api/admin/keys/:id - Set or clear (null) a key's default branding profile
+ */
+async function handleUpdateApiKey(keyId: string, request: Request, env: Env): Promise<Response> {
+  try {
+    const body = await request.json<{ brandingProfileId?: unknown }>();
+    
+    if (body.brandingProfileId === undefined) {
+      return errorResponse(new ValidationError('Missing required field: brandingProfileId (null to clear)'));
+    }
+    
+    if (body.brandingProfileId !== null && (typeof body.brandingProfileId !== 'string' || !(await getBrandingProfile(env, body.brandingProfileId)))) {
+      return errorResponse(new ValidationError('Unknown brandingProfileId'));
+    }
+    
+    const apiKey = await setApiKeyBranding(env, keyId, body.brandingProfileId);
+    
+    if (!apiKey) {
+      return errorResponse(new NotFoundError('API key not found'));
+    }
+    
+    console.log(`[Worker] API key ${keyId} branding set to: ${apiKey.brandingProfileId ?? 'default'}`);
+    
+    return Response.json(apiKey);
+    
+  } catch (error) {
+    console.error('[Worker] Error in handleUpdateApiKey:', error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Check the text fields of a branding profile. `partial` allows fields to be
+ * missing, as in an update. Returns the sanitized fields or an error message.
+ */
+function parseBrandingInput(
+  body: Record<string, unknown>,
+  partial: boolean
+): { input: BrandingUpdate } | { error: string } {
+  const input: BrandingUpdate = {};
+  
+  for (const field of ['name', 'companyName', 'footerText'] as const) {
+    const value = body[field];
+    if (value === undefined && partial) {
+      continue;
+    }
+    const text = typeof value === 'string' ? sanitizeString(value) : '';
+    if (!text) {
+      return { error: `${field} must be a non-empty string` };
+    }
+    input[field] = text;
+  }
+  
+  if (body.primaryColor !== undefined || !partial) {
+    if (!isHexColor(body.primaryColor)) {
+      return { error: 'primaryColor must be a hex color such as #1E40AF' };
+    }
+    input.primaryColor = body.primaryColor.toUpperCase();
+  }
+  
+  if (body.contactLine !== undefined) {
+    if (typeof body.contactLine !== 'string') {
+      return { error: 'contactLine must be a string' };
+    }
+    input.contactLine = sanitizeString(body.contactLine);
+  }
+  
+  return { input };
+}
+
+/**
+ * Handle GET /api/admin/branding - List branding profiles
+ */
+async function handleListBrandingProfiles(env: Env): Promise<Response> {
+  try {
+    const profiles = await listBrandingProfiles(env);
+    return Response.json({ profiles });
+    
+  } catch (error) {
+    console.error('[Worker] Error in handleListBrandingProfiles:', error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Handle POST /api/admin/branding - Create a branding profile (the logo is uploaded separately)
+ */
+async function handleCreateBrandingProfile(request: Request, env: Env): Promise<Response> {
+  try {
+    const parsed = parseBrandingInput(await request.json<Record<string, unknown>>(), false);
+    if ('error' in parsed) {
+      return errorResponse(new ValidationError(`Invalid branding profile: ${parsed.error}`));
+    }
+    
+    const { name, companyName, primaryColor, footerText, contactLine } = parsed.input;
+    const profile = await createBrandingProfile(env, {
+      name: name!,
+      companyName: companyName!,
+      primaryColor: primaryColor!,
+      footerText: footerText!,
+      contactLine: contactLine || undefined
+    });
+    
+    console.log(`[Worker] Branding profile created: ${profile.id} (${profile.name})`);
+    
+    return Response.json(profile, { status: 201 });
+    
+  } catch (error) {
+    console.error('[Worker] Error in handleCreateBrandingProfile:', error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Handle PATCH /api/admin/branding/:id - Change a branding profile; an empty contactLine removes it
+ */
+async function handleUpdateBrandingProfile(profileId: string, request: Request, env: Env): Promise<Response> {
+  try {
+    const parsed = parseBrandingInput(await request.json<Record<string, unknown>>(), true);
+    if ('error' in parsed) {
+      return errorResponse(new ValidationError(`Invalid branding profile: ${parsed.error}`));
+    }
+    
+    const profile = await updateBrandingProfile(env, profileId, parsed.input);
+    
+    if (!profile) {
+      return errorResponse(new NotFoundError('Branding profile not found'));
+    }
+    
+    return Response.json(profile);
+    
+  } catch (error) {
+    console.error('[Worker] Error in handleUpdateBrandingProfile:', error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Handle DELETE /api/admin/branding/:id - Remove a branding profile and its logo
+ */
+async function handleDeleteBrandingProfile(profileId: string, env: Env): Promise<Response> {
+  try {
+    const deleted = await deleteBrandingProfile(env, profileId);
+    
+    if (!deleted) {
+      return errorResponse(new NotFoundError('Branding profile not found'));
+    }
+    
+    console.log(`[Worker] Branding profile deleted: ${profileId}`);
+    
+    return Response.json({ success: true });
+    
+  } catch (error) {
+    console.error('[Worker] Error in handleDeleteBrandingProfile:', error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Handle POST /api/admin/branding/:id/logo - Store a profile's logo from a raw PNG body
+ */
+async function handleUploadBrandingLogo(profileId: string, request: Request, env: Env): Promise<Response> {
+  try {
+    const logo = new Uint8Array(await request.arrayBuffer());
+    
+    if (logo.length > MAX_LOGO_BYTES) {
+      return errorResponse(new ValidationError(`Logo is too large. The limit is ${MAX_LOGO_BYTES / 1024} KB.`));
+    }
+    
+    if (!isPng(logo)) {
+      return errorResponse(new ValidationError('Logo must be a PNG image'));
+    }
+    
+    if (!(await putBrandingLogo(env, profileId, logo))) {
+      return errorResponse(new NotFoundError('Branding profile not found'));
+    }
+    
+    console.log(`[Worker] Logo uploaded for branding profile: ${profileId} (${logo.length} bytes)`);
+    
+    return Response.json(await getBrandingProfile(env, profileId));
+    
+  } catch (error) {
+    console.error('[Worker] Error in handleUploadBrandingLogo:', error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Handle GET /api/branding/:id/logo - Serve a profile's logo to email clients
+ */
+async function handleBrandingLogo(profileId: string, env: Env): Promise<Response> {
+  try {
+    const object = await env.radar_scan_reports.get(brandingLogoKey(profileId));
+    
+    if (!object) {
+      return errorResponse(new NotFoundError('Logo not found'));
+    }
+    
+    return new Response(object.body, {
+      headers: {
+        'Content-Type': 'image/png',
+        'Cache-Control': 'public, max-age=3600'
+      }
+    });
+    
+  } catch (error) {
+    console.error('[Worker] Error in handleBrandingLogo:', error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Handle GET /api/watchlist - Watchlist entries of the calling API key or browser
+ */
+async function handleListWatchlist(env: Env, auth: AuthContext): Promise<Response> {
+  try {
+    const entries = await listWatchlist(env, getWatchlistOwner(auth));
+    return Response.json({ entries });
+    
+  } catch (error) {
+    console.error('[Worker] Error in handleListWatchlist:', error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Handle POST /api/watchlist - Add a URL to the watchlist
+ */
+async function handleCreateWatchlistEntry(request: Request, env: Env, auth: AuthContext): Promise<Response> {
+  try {
+    const body = await request.json<{
+      url: string;
+      email: string;
+      intervalMinutes: number;
+      options?: unknown;
+      brandingProfileId?: unknown;
+      locale?: unknown;
+    }>();
+    
+    const url = sanitizeString(body.url || '');
+    const email = sanitizeString(body.email || '');
+    
+    if (!url || !email || body.intervalMinutes === undefined) {
+      return errorResponse(new ValidationError('Missing required fields: url, email and intervalMinutes'));
+    }
+    
+    if (!isValidUrl(url)) {
+      return errorResponse(new ValidationError('Invalid URL. Must be HTTP/HTTPS and not a private IP address.'));
+    }
+    
+    if (!isValidEmail(email)) {
+      return errorResponse(new ValidationError('Invalid email address'));
+    }
+    
+    if (!isValidWatchlistInterval(body.intervalMinutes)) {
+      return errorResponse(new ValidationError(`intervalMinutes must be a whole number between ${MIN_WATCHLIST_INTERVAL_MINUTES} and ${MAX_WATCHLIST_INTERVAL_MINUTES}`));
+    }
+    
+    const scanOptions = validateScanOptions(body.options);
+    if ('error' in scanOptions) {
+      return errorResponse(new ValidationError(`Invalid scan options: ${scanOptions.error}`));
+    }
+    
+    const brandingProfileId = await resolveBrandingProfileId(env, auth, body.brandingProfileId);
+    const locale = parseLocale(body.locale);
+    
+    const entry = await createWatchlistEntry(env, {
+      url,
+      email,
+      intervalMinutes: body.intervalMinutes,
+      scanOptions: scanOptions.options,
+      brandingProfileId,
+      locale,
+      owner: getWatchlistOwner(auth)
+    });
+    
+    console.log(`[Worker] Watchlist entry created: ${entry.id} for URL: ${url}`);
+    
+    return Response.json(entry, { status: 201 });
+    
+  } catch (error) {
+    console.error('[Worker] Error in handleCreateWatchlistEntry:', error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Handle GET /api/watchlist/:id - Watchlist entry with its recent runs
+ */
+async function handleGetWatchlistEntry(watchlistId: string, env: Env, auth: AuthContext): Promise<Response> {
+  try {
+    const entry = await getWatchlistEntry(env, watchlistId, getWatchlistOwner(auth));
+    
+    if (!entry) {
+      return errorResponse(new NotFoundError('Watchlist entry not found'));
+    }
+    
+    const runs = await listWatchlistRuns(env, watchlistId);
+    
+    return Response.json({ ...entry, runs });
+    
+  } catch (error) {
+    console.error('[Worker] Error in handleGetWatchlistEntry:', error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Handle PATCH /api/watchlist/:id - Change email, interval, options, branding, locale or pause/resume
+ */
+async function handleUpdateWatchlistEntry(
+  watchlistId: string,
+  request: Request,
+  env: Env,
+  auth: AuthContext
+): Promise<Response> {
+  try {
+    const body = await request.json<{
+      email?: string;
+      intervalMinutes?: number;
+      enabled?: boolean;
+      options?: unknown;
+      brandingProfileId?: unknown;
+      locale?: unknown;
+    }>();
+    const update: WatchlistUpdate = {};
     
-    // Handle CORS preflight
-    if (request.method === 'OPTIONS') {
-      return new Response(null, { headers: corsHeaders });
+    if (body.email !== undefined) {
+      const email = sanitizeString(body.email);
+      if (!isValidEmail(email)) {
+        return errorResponse(new ValidationError('Invalid email address'));
+      }
+      update.email = email;
     }
     
-    // Handle API routes BEFORE assets (important for /api/download)
-    if (url.pathname.startsWith('/api/') || url.pathname.startsWith('/ws/')) {
-      try {
-        // API Routes
-        if (url.pathname === '/api/scan' && request.method === 'POST') {
-          return addSecurityHeaders(await handleCreateScan(request, env));
-        }
-        
-        if (url.pathname.startsWith('/api/session/')) {
-          const sessionId = url.pathname.split('/')[3];
-          return addSecurityHeaders(await handleGetSession(sessionId, env));
-        }
-        
-        if (url.pathname.startsWith('/api/download/')) {
-          const sessionId = url.pathname.split('/')[3];
-          return addSecurityHeaders(await handleDownload(sessionId, env, false));
-        }
-        
-        if (url.pathname.startsWith('/api/preview/')) {
-          const sessionId = url.pathname.split('/')[3];
-          return addSecurityHeaders(await handleDownload(sessionId, env, true));
-        }
-        
-        if (url.pathname.startsWith('/api/email/') && request.method === 'POST') {
-          const sessionId = url.pathname.split('/')[3];
-          return addSecurityHeaders(await handleSendEmail(sessionId, env, request));
-        }
-        
-        // WebSocket upgrade
-        if (url.pathname.startsWith('/ws/')) {
-          const sessionId = url.pathname.split('/')[2];
-          return await handleWebSocket(sessionId, request, env);
-        }
-        
-        // Health check
-        if (url.pathname === '/api/health') {
-          return addSecurityHeaders(Response.json({ status: 'ok', timestamp: Date.now() }, { headers: corsHeaders }));
-        }
-        
-        return addSecurityHeaders(Response.json({ error: 'Not found' }, { status: 404, headers: corsHeaders }));
-        
-      } catch (error) {
-        console.error('Worker error:', error);
-        return Response.json(
-          { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
-          { status: 500, headers: corsHeaders }
-        );
+    if (body.intervalMinutes !== undefined) {
+      if (!isValidWatchlistInterval(body.intervalMinutes)) {
+        return errorResponse(new ValidationError(`intervalMinutes must be a whole number between ${MIN_WATCHLIST_INTERVAL_MINUTES} and ${MAX_WATCHLIST_INTERVAL_MINUTES}`));
       }
+      update.intervalMinutes = body.intervalMinutes;
     }
     
-    // All other routes fall through to assets (SPA)
-    return new Response('Not found', { status: 404 });
+    if (body.enabled !== undefined) {
+      if (typeof body.enabled !== 'boolean') {
+        return errorResponse(new ValidationError('enabled must be a boolean'));
+      }
+      update.enabled = body.enabled;
+    }
+    
+    if (body.options !== undefined) {
+      const scanOptions = validateScanOptions(body.options);
+      if ('error' in scanOptions) {
+        return errorResponse(new ValidationError(`Invalid scan options: ${scanOptions.error}`));
+      }
+      update.scanOptions = scanOptions.options;
+    }
+    
+    // null switches the entry back to the default branding
+    if (body.brandingProfileId !== undefined) {
+      if (body.brandingProfileId !== null && (typeof body.brandingProfileId !== 'string' || !(await getBrandingProfile(env, body.brandingProfileId)))) {
+        return errorResponse(new ValidationError('Unknown brandingProfileId'));
+      }
+      update.brandingProfileId = body.brandingProfileId ?? undefined;
+    }
+    
+    // null switches the entry back to English
+    if (body.locale !== undefined) {
+      update.locale = parseLocale(body.locale);
+    }
+    
+    const entry = await updateWatchlistEntry(env, watchlistId, getWatchlistOwner(auth), update);
+    
+    if (!entry) {
+      return errorResponse(new NotFoundError('Watchlist entry not found'));
+    }
+    
+    return Response.json(entry);
+    
+  } catch (error) {
+    console.error('[Worker] Error in handleUpdateWatchlistEntry:', error);
+    return errorResponse(error);
   }
-};
+}
 
 /**
- * Handle POST /api/scan - Create a new scan session
+ * Handle DELETE /api/watchlist/:id - Remove an entry and its run history
  */
-async function handleCreateScan(
+async function handleDeleteWatchlistEntry(watchlistId: string, env: Env, auth: AuthContext): Promise<Response> {
+  try {
+    const deleted = await deleteWatchlistEntry(env, watchlistId, getWatchlistOwner(auth));
+    
+    if (!deleted) {
+      return errorResponse(new NotFoundError('Watchlist entry not found'));
+    }
+    
+    return Response.json({ success: true });
+    
+  } catch (error) {
+    console.error('[Worker] Error in handleDeleteWatchlistEntry:', error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Handle GET /api/scans - Scan history for the calling API key or browser, newest first
+ */
+async function handleListScans(url: URL, env: Env, auth: AuthContext): Promise<Response> {
+  try {
+    const query = parseScanHistoryQuery(url.searchParams);
+    if ('error' in query) {
+      return errorResponse(new ValidationError(`Invalid history query: ${query.error}`));
+    }
+    
+    const owner = auth.type === 'api_key'
+      ? { apiKeyId: auth.apiKey.id }
+      : { clientId: auth.clientId };
+    
+    const page = await listScanHistory(env, owner, query.filters, { cursor: query.cursor, limit: query.limit });
+    
+    return Response.json(page);
+    
+  } catch (error) {
+    console.error('[Worker] Error in handleListScans:', error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Handle GET /api/session/:sessionId - Get session state
+ * Falls back to D1 once the live session has expired.
+ */
+async function handleGetSession(sessionId: string, request: Request, env: Env, auth: AuthContext): Promise<Response> {
+  try {
+    if (!sessionId) {
+      return errorResponse(new ValidationError('Session ID required'));
+    }
+    
+    const sessionData = await loadOwnedSession(env, sessionId, request, auth);
+    
+    return Response.json(toPublicSessionState(sessionData));
+    
+  } catch (error) {
+    console.error('[Worker] Error in handleGetSession:', error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Handle POST /api/session/:sessionId/link - Mint fresh signed download/preview links
+ * Allowed for the holder of the session's owner token, or the API key or browser that created the scan.
+ */
+async function handleCreateSessionLink(
+  sessionId: string,
   request: Request,
-  env: Env
+  env: Env,
+  auth: AuthContext
 ): Promise<Response> {
   try {
-    const body = await request.json<{ url: string; email: string }>();
+    if (!sessionId) {
+      return errorResponse(new ValidationError('Session ID required'));
+    }
     
-    // Validate inputs
-    const url = sanitizeString(body.url || '');
-    const email = sanitizeString(body.email || '');
+    const session = await loadSessionState(env, sessionId);
     
-    if (!url || !email) {
-      return Response.json(
-        { error: 'Missing required fields: url and email' },
-        { status: 400, headers: corsHeaders }
-      );
+    if (!session) {
+      return errorResponse(new NotFoundError('Session not found'));
     }
     
-    if (!isValidUrl(url)) {
-      return Response.json(
-        { error: 'Invalid URL. Must be HTTP/HTTPS and not a private IP address.' },
-        { status: 400, headers: corsHeaders }
-      );
+    if (!await isSessionOwner(session, request, env, auth)) {
+      return errorResponse(new ForbiddenError('Only the creator of this scan can request download links'));
     }
     
-    if (!isValidEmail(email)) {
-      return Response.json(
-        { error: 'Invalid email address' },
-        { status: 400, headers: corsHeaders }
-      );
+    if (session.status !== 'completed' || !session.r2Key) {
+      return errorResponse(new ValidationError('Report not available', { status: session.status }));
     }
     
-    // Generate session ID
-    const sessionId = crypto.randomUUID();
+    const recipient = auth.type === 'api_key' ? `key:${auth.apiKey.id}` : 'owner';
+    const links = await createSignedLinks(env, sessionId, recipient);
     
-    console.log(`[Worker] Creating scan session: ${sessionId} for URL: ${url}`);
+    return Response.json({ ...links, expiresAt: new Date(links.expiresAt * 1000).toISOString() });
     
-    // Get Durable Object instance
-    const id = env.SESSION_MANAGER.idFromName(sessionId);
-    const sessionDO = env.SESSION_MANAGER.get(id);
+  } catch (error) {
+    console.error('[Worker] Error in handleCreateSessionLink:', error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Handle POST /api/session/:sessionId/cancel - Stop an in-flight scan
+ * Terminates the ScanWorkflow instance and marks the session cancelled.
+ */
+async function handleCancelSession(
+  sessionId: string,
+  request: Request,
+  env: Env,
+  auth: AuthContext
+): Promise<Response> {
+  try {
+    if (!sessionId) {
+      return errorResponse(new ValidationError('Session ID required'));
+    }
     
-    // Initialize session
-    const now = Date.now();
-    const expiresAt = now + (24 * 60 * 60 * 1000); // 24 hours
+    const session = await loadSessionState(env, sessionId);
     
-    const initResponse = await sessionDO.fetch('https://do/init', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        sessionId,
-        url,
-        email,
-        createdAt: now,
-        updatedAt: now,
-        expiresAt,
-        ipAddress: request.headers.get('CF-Connecting-IP'),
-        userAgent: request.headers.get('User-Agent'),
-        country: request.cf?.country
-      })
-    });
+    if (!session) {
+      return errorResponse(new NotFoundError('Session not found'));
+    }
+    
+    if (!await isSessionOwner(session, request, env, auth)) {
+      return errorResponse(new ForbiddenError('Only the creator of this scan can cancel it'));
+    }
+    
+    if (FINISHED_STATUSES.includes(session.status)) {
+      return errorResponse(new ConflictError('Scan already finished', { status: session.status }));
+    }
+    
+    const instance = await getScanWorkflowInstance(env, session);
+    const { status: workflowStatus } = await instance.status();
     
-    if (!initResponse.ok) {
-      throw new Error('Failed to initialize session');
+    if (workflowStatus === 'complete' || workflowStatus === 'errored' || workflowStatus === 'terminated') {
+      return errorResponse(new ConflictError('Scan already finished', { status: session.status }));
     }
     
-    // Trigger workflow and store instance ID (fixes race condition)
-    let workflowInstanceId: string | undefined;
     try {
-      const workflowInstance = await env.SCAN_WORKFLOW.create({ 
-        id: sessionId, 
-        params: { sessionId } 
-      });
-      workflowInstanceId = workflowInstance.id;
-      
-      // Update session with workflow instance ID
-      await sessionDO.fetch('https://do/update', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          workflowInstanceId: workflowInstanceId,
-          progressPercent: 0,
-          progressMessage: 'Initializing scan...'
-        })
-      });
-      
-      console.log(`[Worker] Workflow started for session: ${sessionId}, instance: ${workflowInstanceId}`);
+      await instance.terminate();
     } catch (error) {
-      console.error(`[Worker] Failed to start workflow:`, error);
-      // Mark session as failed
-      await sessionDO.fetch('https://do/update', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          status: 'failed',
-          error: 'Failed to start scan workflow'
-        })
-      });
+      // The workflow may have finished since the checks above; that is a conflict, not a failure
+      const current = await loadSessionState(env, sessionId);
+      if (current && FINISHED_STATUSES.includes(current.status)) {
+        return errorResponse(new ConflictError('Scan already finished', { status: current.status }));
+      }
+      const { status: currentWorkflowStatus } = await instance.status();
+      if (currentWorkflowStatus === 'complete' || currentWorkflowStatus === 'errored' || currentWorkflowStatus === 'terminated') {
+        return errorResponse(new ConflictError('Scan already finished', { status: current?.status ?? session.status }));
+      }
       throw error;
     }
     
-    console.log(`[Worker] Session created successfully: ${sessionId}`);
+    console.log(`[Worker] Cancelled workflow ${instance.id} for session: ${sessionId}`);
     
-    return Response.json(
-      {
-        sessionId,
-        wsUrl: `/ws/${sessionId}`,
-        status: 'queued',
-        message: 'Scan initiated successfully'
-      },
-      { headers: corsHeaders }
-    );
+    // The Durable Object persists the new status to D1 and broadcasts it to WebSocket clients
+    const sessionDO = env.SESSION_MANAGER.get(env.SESSION_MANAGER.idFromName(sessionId));
+    await sessionDO.fetch('https://do/update', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        status: 'cancelled',
+        progressMessage: getMessages(session.locale).progress.cancelled
+      })
+    });
+    
+    return Response.json({ sessionId, status: 'cancelled', message: 'Scan cancelled' });
     
   } catch (error) {
-    console.error('[Worker] Error in handleCreateScan:', error);
-    return Response.json(
-      { error: 'Failed to create scan', message: error instanceof Error ? error.message : 'Unknown error' },
-      { status: 500, headers: corsHeaders }
-    );
+    console.error('[Worker] Error in handleCancelSession:', error);
+    return errorResponse(error);
   }
 }
 
 /**
- * Handle GET /api/session/:sessionId - Get session state
+ * Handle POST /api/session/:sessionId/retry - Restart a failed scan in place
  */
-async function handleGetSession(sessionId: string, env: Env): Promise<Response> {
+async function handleRetrySession(
+  sessionId: string,
+  request: Request,
+  env: Env,
+  auth: AuthContext
+): Promise<Response> {
   try {
     if (!sessionId) {
-      return Response.json(
-        { error: 'Session ID required' },
-        { status: 400, headers: corsHeaders }
-      );
+      return errorResponse(new ValidationError('Session ID required'));
     }
     
-    const id = env.SESSION_MANAGER.idFromName(sessionId);
-    const sessionDO = env.SESSION_MANAGER.get(id);
-    
-    const response = await sessionDO.fetch('https://do/state');
+    // Retries need the live session; expired ones are only kept in D1
+    const response = await env.SESSION_MANAGER.get(env.SESSION_MANAGER.idFromName(sessionId)).fetch('https://do/state');
     
     if (!response.ok) {
-      return Response.json(
-        { error: 'Session not found' },
-        { status: 404, headers: corsHeaders }
-      );
+      return errorResponse(new NotFoundError('Session not found or expired'));
     }
     
-    const sessionData = await response.json();
+    const session = await response.json<SessionState>();
     
-    return Response.json(sessionData, { headers: corsHeaders });
+    if (!await isSessionOwner(session, request, env, auth)) {
+      return errorResponse(new ForbiddenError('Only the creator of this scan can retry it'));
+    }
+    
+    if (session.status !== 'failed') {
+      return errorResponse(new ConflictError('Only failed scans can be retried', { status: session.status }));
+    }
+    
+    const retriesUsed = (session.attempt ?? 1) - 1;
+    if (retriesUsed >= MAX_SCAN_RETRIES) {
+      return errorResponse(new ConflictError(`A scan can be retried at most ${MAX_SCAN_RETRIES} times. Start a new scan instead.`));
+    }
+    
+    const attempt = await retryScanSession(env, session);
     
-  } catch (error) {
-    console.error('[Worker] Error in handleGetSession:', error);
     return Response.json(
-      { error: 'Failed to fetch session', message: error instanceof Error ? error.message : 'Unknown error' },
-      { status: 500, headers: corsHeaders }
+      {
+        sessionId,
+        attempt,
+        retriesRemaining: MAX_SCAN_RETRIES - (attempt - 1),
+        status: 'queued',
+        message: 'Scan retry started'
+      }
     );
+    
+  } catch (error) {
+    console.error('[Worker] Error in handleRetrySession:', error);
+    return errorResponse(error);
   }
 }
 
 /**
  * Handle GET /api/download/:sessionId - Download PDF report
  * Handle GET /api/preview/:sessionId - Preview PDF inline
+ * auth is null for signed links, which authorize the session themselves.
  */
-async function handleDownload(sessionId: string, env: Env, isPreview: boolean = false): Promise<Response> {
+async function handleDownload(
+  sessionId: string,
+  request: Request,
+  env: Env,
+  auth: AuthContext | null,
+  isPreview: boolean = false
+): Promise<Response> {
   try {
     if (!sessionId) {
-      return new Response('Session ID required', { status: 400 });
+      return errorResponse(new ValidationError('Session ID required'));
+    }
+    
+    if (auth) {
+      await loadOwnedSession(env, sessionId, request, auth);
     }
     
-    const r2Key = `sessions/${sessionId}/report.pdf`;
-    const object = await env.radar_scan_reports.get(r2Key);
+    const object = await env.radar_scan_reports.get(artifactKey(sessionId, 'report'));
     
     if (!object) {
-      return new Response('Report not found', { status: 404 });
+      return errorResponse(new NotFoundError('Report not found'));
     }
     
     console.log(`[Worker] Serving PDF ${isPreview ? 'preview' : 'download'} for session: ${sessionId}`);
@@ -286,20 +1933,189 @@ async function handleDownload(sessionId: string, env: Env, isPreview: boolean =
     // Use 'inline' for preview (shows in browser), 'attachment' for download
     const disposition = isPreview 
       ? 'inline'
-      : `attachment; filename="radar-scan-${sessionId}.pdf"`;
+      : `attachment; filename="${artifactDownloadName(sessionId, 'report')}"`;
     
     return new Response(object.body, {
       headers: {
         'Content-Type': 'application/pdf',
         'Content-Disposition': disposition,
-        'Cache-Control': 'private, max-age=3600',
-        ...corsHeaders
+        'Cache-Control': 'private, max-age=3600'
       }
     });
     
   } catch (error) {
     console.error('[Worker] Error in handleDownload:', error);
-    return new Response('Failed to download report', { status: 500 });
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Handle GET /api/report/:sessionId.json - Machine-readable scan report
+ */
+async function handleJsonReport(sessionId: string, request: Request, env: Env, auth: AuthContext): Promise<Response> {
+  try {
+    if (!sessionId) {
+      return errorResponse(new ValidationError('Session ID required'));
+    }
+    
+    await loadOwnedSession(env, sessionId, request, auth);
+    
+    const report = await loadScanReport(env, sessionId);
+    
+    if (!report) {
+      return errorResponse(new NotFoundError('Report not found'));
+    }
+    
+    return Response.json(report, {
+      headers: {
+        'Cache-Control': 'private, max-age=300'
+      }
+    });
+    
+  } catch (error) {
+    console.error('[Worker] Error in handleJsonReport:', error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Handle GET /api/diff?from=:sessionA&to=:sessionB - Compare two stored scans
+ */
+async function handleDiff(
+  fromId: string | null,
+  toId: string | null,
+  env: Env,
+  auth: AuthContext
+): Promise<Response> {
+  try {
+    if (!fromId || !toId) {
+      return errorResponse(new ValidationError('Missing required query parameters: from and to'));
+    }
+    
+    // Owner tokens name a single session, so a diff needs the caller to have created both
+    const sessions = await Promise.all([loadSessionState(env, fromId), loadSessionState(env, toId)]);
+    if (sessions.some(session => session && !isCreator(session, auth))) {
+      return errorResponse(new ForbiddenError('Only the creator of both scans can compare them'));
+    }
+    
+    const [from, to] = await Promise.all([
+      loadStoredScan(env, fromId),
+      loadStoredScan(env, toId)
+    ]);
+    
+    if (!from || !to) {
+      const missing = [from ? null : fromId, to ? null : toId].filter((id): id is string => id !== null);
+      return errorResponse(new NotFoundError('Scan result not found', { missing }));
+    }
+    
+    return Response.json(diffScans(from, to), {
+      headers: {
+        'Cache-Control': 'private, max-age=300'
+      }
+    });
+    
+  } catch (error) {
+    console.error('[Worker] Error in handleDiff:', error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Handle GET /api/artifacts/:sessionId/:kind - Raw scan artifact download
+ * (kind: result, har, dom, report, screenshot)
+ */
+async function handleArtifact(
+  sessionId: string,
+  kind: string,
+  request: Request,
+  env: Env,
+  auth: AuthContext
+): Promise<Response> {
+  try {
+    if (!sessionId || !kind) {
+      return errorResponse(new ValidationError('Session ID and artifact kind required'));
+    }
+    
+    // The PDF is only served through /api/download, which enforces signed links for browsers
+    if (!isArtifactKind(kind) || kind === 'report') {
+      const kinds = Object.keys(ARTIFACTS).filter(name => name !== 'report');
+      return errorResponse(new ValidationError(`Unknown artifact kind. Expected one of: ${kinds.join(', ')}`));
+    }
+    
+    await loadOwnedSession(env, sessionId, request, auth);
+    
+    const object = await env.radar_scan_reports.get(artifactKey(sessionId, kind));
+    
+    if (!object) {
+      return errorResponse(new NotFoundError('Artifact not found'));
+    }
+    
+    console.log(`[Worker] Serving ${kind} artifact for session: ${sessionId}`);
+    
+    return new Response(object.body, {
+      headers: {
+        'Content-Type': ARTIFACTS[kind].contentType,
+        // Always download: the DOM snapshot is untrusted HTML and must never render on our origin
+        'Content-Disposition': `attachment; filename="${artifactDownloadName(sessionId, kind)}"`,
+        'Content-Security-Policy': 'sandbox',
+        'Content-Length': String(object.size),
+        'Cache-Control': 'private, max-age=3600'
+      }
+    });
+    
+  } catch (error) {
+    console.error('[Worker] Error in handleArtifact:', error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Handle GET /api/screenshot/:sessionId[?resolution=desktop|mobile|tablet] - Page screenshot
+ */
+async function handleScreenshot(
+  sessionId: string,
+  resolution: string | null,
+  request: Request,
+  env: Env,
+  auth: AuthContext
+): Promise<Response> {
+  try {
+    if (!sessionId) {
+      return errorResponse(new ValidationError('Session ID required'));
+    }
+    
+    if (resolution && !['desktop', 'mobile', 'tablet'].includes(resolution)) {
+      return errorResponse(new ValidationError('resolution must be one of: desktop, mobile, tablet'));
+    }
+    
+    await loadOwnedSession(env, sessionId, request, auth);
+    
+    // The first requested resolution is stored as screenshot.png, others with a suffix
+    let object = resolution
+      ? await env.radar_scan_reports.get(screenshotKey(sessionId, resolution as ScreenshotResolution))
+      : null;
+    
+    if (!object) {
+      object = await env.radar_scan_reports.get(artifactKey(sessionId, 'screenshot'));
+      if (object && resolution && object.customMetadata?.resolution !== resolution) {
+        object = null;
+      }
+    }
+    
+    if (!object) {
+      return errorResponse(new NotFoundError('Screenshot not found'));
+    }
+    
+    return new Response(object.body, {
+      headers: {
+        'Content-Type': 'image/png',
+        'Cache-Control': 'private, max-age=3600'
+      }
+    });
+    
+  } catch (error) {
+    console.error('[Worker] Error in handleScreenshot:', error);
+    return errorResponse(error);
   }
 }
 
@@ -309,18 +2125,21 @@ async function handleDownload(sessionId: string, env: Env, isPreview: boolean =
 async function handleWebSocket(
   sessionId: string,
   request: Request,
-  env: Env
+  env: Env,
+  auth: AuthContext
 ): Promise<Response> {
   try {
     if (!sessionId) {
-      return new Response('Session ID required', { status: 400 });
+      return errorResponse(new ValidationError('Session ID required'));
     }
     
     // Verify it's a WebSocket upgrade request
     if (request.headers.get('Upgrade') !== 'websocket') {
-      return new Response('Expected WebSocket upgrade', { status: 426 });
+      return errorResponse(new ValidationError('Expected WebSocket upgrade'), { Upgrade: 'websocket' });
     }
     
+    await loadOwnedSession(env, sessionId, request, auth);
+    
     console.log(`[Worker] WebSocket upgrade request for session: ${sessionId}`);
     
     const id = env.SESSION_MANAGER.idFromName(sessionId);
@@ -331,20 +2150,17 @@ async function handleWebSocket(
     
   } catch (error) {
     console.error('[Worker] Error in handleWebSocket:', error);
-    return new Response('Failed to establish WebSocket connection', { status: 500 });
+    return errorResponse(error);
   }
 }
 
 /**
  * Handle POST /api/email/:sessionId - Send email with report link
  */
-async function handleSendEmail(sessionId: string, env: Env, request: Request): Promise<Response> {
+async function handleSendEmail(sessionId: string, env: Env, request: Request, auth: AuthContext): Promise<Response> {
   try {
     if (!sessionId) {
-      return Response.json(
-        { error: 'Session ID required' },
-        { status: 400, headers: corsHeaders }
-      );
+      return errorResponse(new ValidationError('Session ID required'));
     }
     
     // Get email from request body
@@ -352,50 +2168,39 @@ async function handleSendEmail(sessionId: string, env: Env, request: Request): P
     const email = body.email;
     
     if (!email || !email.includes('@')) {
-      return Response.json(
-        { error: 'Valid email required' },
-        { status: 400, headers: corsHeaders }
-      );
+      return errorResponse(new ValidationError('Valid email required'));
     }
     
     console.log(`[Worker] Sending email to: ${email} for session: ${sessionId}`);
     
-    // Get session data
-    const id = env.SESSION_MANAGER.idFromName(sessionId);
-    const sessionDO = env.SESSION_MANAGER.get(id);
-    
-    const response = await sessionDO.fetch('https://do/state');
+    // Get session data (reports reopened from history may outlive the live session)
+    const sessionData = await loadSessionState(env, sessionId);
     
-    if (!response.ok) {
-      return Response.json(
-        { error: 'Session not found' },
-        { status: 404, headers: corsHeaders }
-      );
+    if (!sessionData) {
+      return errorResponse(new NotFoundError('Session not found'));
     }
     
-    const sessionData = await response.json<{ url: string; status: string; r2Key?: string }>();
+    // The email carries a signed download link, so it is minted under the same rule as /link
+    if (!await isSessionOwner(sessionData, request, env, auth)) {
+      return errorResponse(new ForbiddenError('Only the creator of this scan can email its report'));
+    }
     
     console.log(`[Worker] Session status: ${sessionData.status}, r2Key: ${sessionData.r2Key}`);
     
     // Verify scan is completed
     if (sessionData.status !== 'completed') {
-      return Response.json(
-        { error: 'Scan not completed yet', status: sessionData.status },
-        { status: 400, headers: corsHeaders }
-      );
+      return errorResponse(new ValidationError('Scan not completed yet', { status: sessionData.status }));
     }
     
     if (!sessionData.r2Key) {
-      return Response.json(
-        { error: 'Report not available' },
-        { status: 404, headers: corsHeaders }
-      );
+      return errorResponse(new NotFoundError('Report not available'));
     }
     
-    // Send email
-    const downloadUrl = `${env.APP_URL}/api/download/${sessionId}`;
+    console.log(`[Worker] Calling Resend API with email: ${email}`);
     
-    console.log(`[Worker] Calling Resend API with email: ${email}, downloadUrl: ${downloadUrl}`);
+    // Summary is optional: the email still goes out if result.json is unavailable
+    const report = await loadScanReport(env, sessionId).catch(() => null);
+    const branding = await loadBranding(env, sessionData.brandingProfileId);
     
     const { sendEmailViaResend } = await import('./services/email');
     await sendEmailViaResend(
@@ -403,21 +2208,17 @@ async function handleSendEmail(sessionId: string, env: Env, request: Request): P
       email,
       sessionData.url,
       sessionId,
-      downloadUrl
+      report,
+      branding,
+      sessionData.locale
     );
     
     console.log(`[Worker] Email sent successfully to: ${email}`);
     
-    return Response.json(
-      { success: true, message: 'Email sent successfully' },
-      { headers: corsHeaders }
-    );
+    return Response.json({ success: true, message: 'Email sent successfully' });
     
   } catch (error) {
     console.error('[Worker] Error in handleSendEmail:', error);
-    return Response.json(
-      { error: 'Failed to send email', message: error instanceof Error ? error.message : 'Unknown error' },
-      { status: 500, headers: corsHeaders }
-    );
+    return errorResponse(error);
   }
 }
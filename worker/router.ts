@@ -0,0 +1,152 @@
+import type { ApiKeyScope, AuthContext, Env, RateLimitAction } from './types';
+
+export type HttpMethod = 'GET' | 'POST' | 'PATCH' | 'DELETE';
+
+/**
+ * JSON Schema (2020-12, as used by OpenAPI 3.1) for request and response bodies
+ */
+export type JsonSchema = Record<string, unknown>;
+
+export interface RouteContext<A> {
+  request: Request;
+  env: Env;
+  ctx: ExecutionContext;
+  url: URL;
+  // Path parameters, URL-decoded
+  params: Record<string, string>;
+  auth: A;
+}
+
+export type RouteHandler<A> = (context: RouteContext<A>) => Promise<Response>;
+
+export interface QueryParameter {
+  name: string;
+  description: string;
+  required?: boolean;
+  schema: JsonSchema;
+}
+
+export interface RouteResponse {
+  description: string;
+  contentType?: string;          // Defaults to application/json
+  schema?: JsonSchema;
+}
+
+/**
+ * What the OpenAPI document says about a route
+ */
+export interface RouteDocs {
+  operationId: string;
+  summary: string;
+  description?: string;
+  tag: string;
+  query?: QueryParameter[];
+  body?: JsonSchema;
+  bodyContentType?: string;      // Defaults to application/json
+  responses: Record<number, RouteResponse>;
+}
+
+interface RouteBase {
+  method: HttpMethod;
+  // Literal segments and :params, e.g. /api/session/:sessionId/cancel or /api/report/:sessionId.json
+  path: string;
+  docs: RouteDocs;
+}
+
+/**
+ * How a route authenticates:
+ * - public: anyone
+ * - admin: ADMIN_API_TOKEN bearer token
+ * - client: an API key with `scope`, or the SPA itself
+ * - signed-link: a `?token=` signed download link, otherwise an API key with `scope`
+ */
+export type RouteDefinition =
+  | (RouteBase & { access: 'public'; handler: RouteHandler<null> })
+  | (RouteBase & { access: 'admin'; handler: RouteHandler<null> })
+  | (RouteBase & { access: 'client'; scope: ApiKeyScope; rateLimit?: RateLimitAction; handler: RouteHandler<AuthContext> })
+  | (RouteBase & { access: 'signed-link'; scope: ApiKeyScope; handler: RouteHandler<AuthContext | null> });
+
+interface CompiledRoute {
+  route: RouteDefinition;
+  pattern: RegExp;
+  paramNames: string[];
+}
+
+export type RouteMatch =
+  | { route: RouteDefinition; params: Record<string, string> }
+  | { allowedMethods: HttpMethod[] };
+
+const PARAM_PATTERN = /:([A-Za-z][A-Za-z0-9]*)/g;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function compileRoute(route: RouteDefinition): CompiledRoute {
+  const paramNames: string[] = [];
+  let source = '';
+  let lastIndex = 0;
+
+  for (const match of route.path.matchAll(PARAM_PATTERN)) {
+    source += escapeRegExp(route.path.slice(lastIndex, match.index)) + '([^/]+?)';
+    paramNames.push(match[1]);
+    lastIndex = match.index + match[0].length;
+  }
+  source += escapeRegExp(route.path.slice(lastIndex));
+
+  return { route, pattern: new RegExp(`^${source}$`), paramNames };
+}
+
+/**
+ * Route table with paths compiled once, at module load
+ */
+export class Router {
+  readonly routes: RouteDefinition[];
+  private compiled: CompiledRoute[];
+
+  constructor(routes: RouteDefinition[]) {
+    this.routes = routes;
+    this.compiled = routes.map(compileRoute);
+  }
+
+  /**
+   * The route for a request, the methods the path does support (for 405), or
+   * null when no route has this path
+   */
+  match(method: string, pathname: string): RouteMatch | null {
+    const allowedMethods: HttpMethod[] = [];
+
+    for (const { route, pattern, paramNames } of this.compiled) {
+      const match = pattern.exec(pathname);
+      if (!match) {
+        continue;
+      }
+
+      let params: Record<string, string>;
+      try {
+        params = Object.fromEntries(paramNames.map((name, i) => [name, decodeURIComponent(match[i + 1])]));
+      } catch {
+        // Malformed percent-encoding cannot name any session or entry
+        continue;
+      }
+
+      if (route.method === method) {
+        return { route, params };
+      }
+      allowedMethods.push(route.method);
+    }
+
+    return allowedMethods.length > 0 ? { allowedMethods } : null;
+  }
+}
+
+/**
+ * /api/session/:sessionId -> /api/session/{sessionId}
+ */
+export function toOpenApiPath(path: string): string {
+  return path.replace(PARAM_PATTERN, '{$1}');
+}
+
+export function pathParameterNames(path: string): string[] {
+  return [...path.matchAll(PARAM_PATTERN)].map(match => match[1]);
+}
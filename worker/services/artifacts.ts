@@ -0,0 +1,82 @@
+import type { Env, ScreenshotResolution } from '../types';
+import { retryWithBackoff, isRetryableError } from '../utils/retry';
+
+/**
+ * Per-session files kept in R2 under sessions/{sessionId}/
+ */
+export type ArtifactKind = 'report' | 'result' | 'har' | 'dom' | 'screenshot';
+
+interface ArtifactDefinition {
+  fileName: string;
+  contentType: string;
+  extension: string;
+}
+
+export const ARTIFACTS: Record<ArtifactKind, ArtifactDefinition> = {
+  report: { fileName: 'report.pdf', contentType: 'application/pdf', extension: 'pdf' },
+  result: { fileName: 'result.json', contentType: 'application/json', extension: 'json' },
+  har: { fileName: 'har.json', contentType: 'application/json', extension: 'har' },
+  dom: { fileName: 'dom.html', contentType: 'text/html; charset=utf-8', extension: 'html' },
+  screenshot: { fileName: 'screenshot.png', contentType: 'image/png', extension: 'png' }
+};
+
+export function isArtifactKind(kind: string): kind is ArtifactKind {
+  return Object.prototype.hasOwnProperty.call(ARTIFACTS, kind);
+}
+
+/**
+ * R2 key for a session artifact
+ */
+export function artifactKey(sessionId: string, kind: ArtifactKind): string {
+  return `sessions/${sessionId}/${ARTIFACTS[kind].fileName}`;
+}
+
+/**
+ * R2 key for an additional screenshot resolution (the first one uses artifactKey)
+ */
+export function screenshotKey(sessionId: string, resolution: ScreenshotResolution): string {
+  return `sessions/${sessionId}/screenshot-${resolution}.png`;
+}
+
+/**
+ * File name offered to the browser when downloading an artifact
+ */
+export function artifactDownloadName(sessionId: string, kind: ArtifactKind): string {
+  return kind === 'report'
+    ? `radar-scan-${sessionId}.pdf`
+    : `radar-scan-${sessionId}-${kind}.${ARTIFACTS[kind].extension}`;
+}
+
+/**
+ * Upload an artifact to R2 with retry logic. Returns the R2 key.
+ */
+export async function putArtifact(
+  env: Env,
+  sessionId: string,
+  kind: ArtifactKind,
+  body: ArrayBuffer | Uint8Array | string,
+  customMetadata: Record<string, string> = {}
+): Promise<string> {
+  const key = artifactKey(sessionId, kind);
+
+  await retryWithBackoff(
+    async () => {
+      await env.radar_scan_reports.put(key, body, {
+        httpMetadata: { contentType: ARTIFACTS[kind].contentType },
+        customMetadata: {
+          sessionId,
+          createdAt: new Date().toISOString(),
+          ...customMetadata
+        }
+      });
+    },
+    {
+      maxAttempts: 3,
+      initialDelayMs: 1000,
+      maxDelayMs: 5000,
+      retryableErrors: isRetryableError
+    }
+  );
+
+  return key;
+}
@@ -0,0 +1,182 @@
+import type { ApiKey, ApiKeyScope, AuthContext, Env } from '../types';
+import { sha256Hex } from '../utils/url';
+import { timingSafeEqual } from '../utils/crypto';
+import { readBrowserIdentity } from './identity';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['scan', 'read', 'watchlist'];
+
+const API_KEY_PREFIX = 'rsk_';
+const DISPLAY_PREFIX_LENGTH = 12;
+
+interface ApiKeyRow {
+  id: string;
+  name: string;
+  owner: string;
+  key_prefix: string;
+  scopes: string;
+  revoked: number;
+  created_at: number;
+  last_used_at: number | null;
+  revoked_at: number | null;
+  branding_profile_id: string | null;
+}
+
+function toApiKey(row: ApiKeyRow): ApiKey {
+  return {
+    id: row.id,
+    name: row.name,
+    owner: row.owner,
+    prefix: row.key_prefix,
+    scopes: JSON.parse(row.scopes) as ApiKeyScope[],
+    revoked: row.revoked === 1,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at ?? undefined,
+    revokedAt: row.revoked_at ?? undefined,
+    brandingProfileId: row.branding_profile_id ?? undefined
+  };
+}
+
+export function isApiKeyScope(scope: unknown): scope is ApiKeyScope {
+  return API_KEY_SCOPES.includes(scope as ApiKeyScope);
+}
+
+function getBearerToken(request: Request): string | null {
+  const header = request.headers.get('Authorization');
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Browsers attach cookies to WebSocket handshakes from any site, so upgrades
+ * are only accepted from our own origin.
+ */
+function isCrossSiteWebSocket(request: Request): boolean {
+  return request.headers.get('Upgrade') === 'websocket'
+    && request.headers.get('Origin') !== new URL(request.url).origin;
+}
+
+/**
+ * Resolve who is calling: an API key from the Authorization header, or else the
+ * browser named by the signed identity cookie (see POST /api/identity).
+ * Returns null when the request has neither.
+ */
+export async function authenticateRequest(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext
+): Promise<AuthContext | null> {
+  const token = getBearerToken(request);
+
+  if (!token) {
+    const clientId = await readBrowserIdentity(request, env);
+    return clientId && !isCrossSiteWebSocket(request) ? { type: 'browser', clientId } : null;
+  }
+
+  if (!token.startsWith(API_KEY_PREFIX)) {
+    return null;
+  }
+
+  const row = await env.radar_scanner_db.prepare(`
+    SELECT * FROM api_keys WHERE key_hash = ? AND revoked = 0
+  `).bind(await sha256Hex(token)).first<ApiKeyRow>();
+
+  if (!row) {
+    return null;
+  }
+
+  // Usage tracking is best-effort and must not delay the response
+  ctx.waitUntil(
+    env.radar_scanner_db.prepare('UPDATE api_keys SET last_used_at = ? WHERE id = ?')
+      .bind(Date.now(), row.id)
+      .run()
+      .catch(error => console.error('[Auth] Failed to record key usage:', error))
+  );
+
+  return { type: 'api_key', apiKey: toApiKey(row) };
+}
+
+/**
+ * API keys need the scope. Browsers may use every client route, since handlers
+ * only show them what their own client ID created.
+ */
+export function hasScope(auth: AuthContext, scope: ApiKeyScope): boolean {
+  return auth.type === 'browser' || auth.apiKey.scopes.includes(scope);
+}
+
+/**
+ * Check the admin bearer token. Admin routes are disabled when ADMIN_API_TOKEN is unset.
+ */
+export function isAdminRequest(request: Request, env: Env): boolean {
+  const token = getBearerToken(request);
+  return !!env.ADMIN_API_TOKEN && !!token && timingSafeEqual(token, env.ADMIN_API_TOKEN);
+}
+
+/**
+ * Mint a key. The plaintext key is returned once and only its hash is stored.
+ */
+export async function createApiKey(
+  env: Env,
+  input: { name: string; owner: string; scopes: ApiKeyScope[]; brandingProfileId?: string }
+): Promise<{ key: string; apiKey: ApiKey }> {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const key = API_KEY_PREFIX + Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+
+  const apiKey: ApiKey = {
+    id: crypto.randomUUID(),
+    name: input.name,
+    owner: input.owner,
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    scopes: input.scopes,
+    revoked: false,
+    createdAt: Date.now(),
+    brandingProfileId: input.brandingProfileId
+  };
+
+  await env.radar_scanner_db.prepare(`
+    INSERT INTO api_keys (id, name, owner, key_hash, key_prefix, scopes, revoked, created_at, branding_profile_id)
+    VALUES (?, ?, ?, ?, ?, ?, 0, ?, ?)
+  `).bind(
+    apiKey.id,
+    apiKey.name,
+    apiKey.owner,
+    await sha256Hex(key),
+    apiKey.prefix,
+    JSON.stringify(apiKey.scopes),
+    apiKey.createdAt,
+    apiKey.brandingProfileId ?? null
+  ).run();
+
+  return { key, apiKey };
+}
+
+export async function listApiKeys(env: Env): Promise<ApiKey[]> {
+  const { results } = await env.radar_scanner_db.prepare(`
+    SELECT id, name, owner, key_prefix, scopes, revoked, created_at, last_used_at, revoked_at, branding_profile_id
+    FROM api_keys ORDER BY created_at DESC
+  `).all<ApiKeyRow>();
+
+  return results.map(toApiKey);
+}
+
+/**
+ * Revoke a key. Returns false if the key does not exist.
+ */
+export async function revokeApiKey(env: Env, id: string): Promise<boolean> {
+  const result = await env.radar_scanner_db.prepare(`
+    UPDATE api_keys SET revoked = 1, revoked_at = COALESCE(revoked_at, ?) WHERE id = ?
+  `).bind(Date.now(), id).run();
+
+  return result.meta.changes > 0;
+}
+
+/**
+ * Set or clear (null) a key's default branding profile. Returns null if the key does not exist.
+ */
+export async function setApiKeyBranding(env: Env, id: string, brandingProfileId: string | null): Promise<ApiKey | null> {
+  const row = await env.radar_scanner_db.prepare(`
+    UPDATE api_keys SET branding_profile_id = ? WHERE id = ?
+    RETURNING id, name, owner, key_prefix, scopes, revoked, created_at, last_used_at, revoked_at, branding_profile_id
+  `).bind(brandingProfileId, id).first<ApiKeyRow>();
+
+  return row ? toApiKey(row) : null;
+}
@@ -0,0 +1,150 @@
+import type { Env, BatchItemStatus, BatchStatus, Locale, SessionState } from '../types';
+import { DatabaseError, storedErrorEnvelope, wrapError } from '../utils/errors';
+
+const DEFAULT_BATCH_MAX_URLS = 50;
+
+const TERMINAL_STATUSES: SessionState['status'][] = ['completed', 'failed', 'cancelled', 'expired'];
+
+/**
+ * Maximum URLs per batch from BATCH_MAX_URLS, falling back to 50
+ */
+export function getBatchMaxUrls(env: Env): number {
+  const max = Number(env.BATCH_MAX_URLS);
+  return Number.isInteger(max) && max > 0 ? max : DEFAULT_BATCH_MAX_URLS;
+}
+
+/**
+ * Who created a batch: an API key or a browser identity
+ */
+export interface BatchOwner {
+  apiKeyId?: string;
+  clientId?: string;
+}
+
+/**
+ * Record a batch and the ordered list of sessions it fans out to
+ */
+export async function createBatchRecord(
+  env: Env,
+  batchId: string,
+  email: string,
+  sessionIds: string[],
+  owner: BatchOwner,
+  brandingProfileId?: string,
+  locale?: Locale
+): Promise<void> {
+  await env.radar_scanner_db.prepare(`
+    INSERT INTO batches (id, email, session_ids, url_count, created_at, branding_profile_id, locale, api_key_id, client_id)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    batchId,
+    email,
+    JSON.stringify(sessionIds),
+    sessionIds.length,
+    Date.now(),
+    brandingProfileId ?? null,
+    locale ?? null,
+    owner.apiKeyId ?? null,
+    owner.clientId ?? null
+  ).run();
+}
+
+/**
+ * Shrink a batch to the sessions that actually started. A batch left without
+ * sessions is removed.
+ */
+export async function trimBatchRecord(env: Env, batchId: string, sessionIds: string[]): Promise<void> {
+  if (sessionIds.length === 0) {
+    await env.radar_scanner_db.prepare('DELETE FROM batches WHERE id = ?').bind(batchId).run();
+    return;
+  }
+
+  await env.radar_scanner_db.prepare(`
+    UPDATE batches SET session_ids = ?, url_count = ? WHERE id = ?
+  `).bind(JSON.stringify(sessionIds), sessionIds.length, batchId).run();
+}
+
+/**
+ * Aggregate progress and per-URL status for a batch. Returns null if the batch is unknown.
+ */
+export async function getBatchStatus(env: Env, batchId: string): Promise<BatchStatus | null> {
+  const batch = await env.radar_scanner_db.prepare(`
+    SELECT id, session_ids, created_at, branding_profile_id, locale, api_key_id, client_id FROM batches WHERE id = ?
+  `).bind(batchId).first<{
+    id: string;
+    session_ids: string;
+    created_at: number;
+    branding_profile_id: string | null;
+    locale: Locale | null;
+    api_key_id: string | null;
+    client_id: string | null;
+  }>().catch(error => {
+    throw wrapError(error, (detail, cause) => new DatabaseError(detail, cause));
+  });
+
+  if (!batch) {
+    return null;
+  }
+
+  const { results } = await env.radar_scanner_db.prepare(`
+    SELECT id, url, status, progress_percent, malicious, cache_hit, error, error_code
+    FROM sessions WHERE batch_id = ?
+  `).bind(batchId).all<{
+    id: string;
+    url: string;
+    status: SessionState['status'];
+    progress_percent: number | null;
+    malicious: number | null;
+    cache_hit: number | null;
+    error: string | null;
+    error_code: string | null;
+  }>().catch(error => {
+    throw wrapError(error, (detail, cause) => new DatabaseError(detail, cause));
+  });
+
+  const rows = new Map(results.map(row => [row.id, row]));
+  const sessionIds = JSON.parse(batch.session_ids) as string[];
+
+  const items: BatchItemStatus[] = sessionIds.map(sessionId => {
+    const row = rows.get(sessionId);
+    if (!row) {
+      // D1 writes from the session are best-effort; treat a missing row as not started
+      return { sessionId, url: '', status: 'queued', progressPercent: 0 };
+    }
+
+    const isTerminal = TERMINAL_STATUSES.includes(row.status);
+    return {
+      sessionId,
+      url: row.url,
+      status: row.status,
+      progressPercent: isTerminal ? 100 : (row.progress_percent || 0),
+      malicious: row.malicious === null ? undefined : row.malicious === 1,
+      cacheHit: row.cache_hit === 1,
+      error: row.error ? storedErrorEnvelope(row.error_code, row.error) : undefined
+    };
+  });
+
+  const completed = items.filter(item => item.status === 'completed').length;
+  // Cancelled scans count as failed: they are finished without a report
+  const failed = items.filter(item => item.status === 'failed' || item.status === 'cancelled' || item.status === 'expired').length;
+  const inProgress = items.length - completed - failed;
+
+  return {
+    batchId,
+    createdAt: batch.created_at,
+    status: inProgress === 0 ? 'completed' : 'running',
+    total: items.length,
+    completed,
+    failed,
+    inProgress,
+    malicious: items.filter(item => item.malicious).length,
+    progressPercent: items.length > 0
+      ? Math.round(items.reduce((sum, item) => sum + item.progressPercent, 0) / items.length)
+      : 100,
+    items,
+    brandingProfileId: batch.branding_profile_id ?? undefined,
+    locale: batch.locale ?? undefined,
+    apiKeyId: batch.api_key_id ?? undefined,
+    clientId: batch.client_id ?? undefined
+  };
+}
@@ -0,0 +1,245 @@
+import type { BrandingProfile, Env } from '../types';
+import { DatabaseError, StorageError, wrapError } from '../utils/errors';
+
+export const MAX_LOGO_BYTES = 512 * 1024;
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+interface BrandingProfileRow {
+  id: string;
+  name: string;
+  company_name: string;
+  primary_color: string;
+  footer_text: string;
+  contact_line: string | null;
+  logo_key: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface BrandingInput {
+  name: string;
+  companyName: string;
+  primaryColor: string;
+  footerText: string;
+  contactLine?: string;
+}
+
+export type BrandingUpdate = Partial<BrandingInput>;
+
+/**
+ * Branding as applied to a report or email, with the default filled in
+ * when no profile is selected
+ */
+export interface ResolvedBranding {
+  profileId?: string;
+  companyName: string;
+  primaryColor: string;
+  footerText: string;
+  contactLine?: string;
+  // Logo PNG bytes, only loaded when asked for (PDF reports)
+  logo?: Uint8Array;
+  // Public logo URL for email templates
+  logoUrl?: string;
+}
+
+export const DEFAULT_BRANDING: ResolvedBranding = {
+  companyName: 'RadarScan',
+  primaryColor: '#F5821F',
+  footerText: 'Generated by RadarScan - Powered by Cloudflare Radar'
+};
+
+export function isHexColor(color: unknown): color is string {
+  return typeof color === 'string' && /^#[0-9a-f]{6}$/i.test(color);
+}
+
+export function isPng(bytes: Uint8Array): boolean {
+  return bytes.length > PNG_SIGNATURE.length && PNG_SIGNATURE.every((byte, i) => bytes[i] === byte);
+}
+
+/**
+ * R2 key of a profile's logo
+ */
+export function brandingLogoKey(profileId: string): string {
+  return `branding/${profileId}/logo.png`;
+}
+
+/**
+ * Hex color as 0-1 RGB channels, the form pdf-lib takes
+ */
+export function hexToRgb(color: string): [number, number, number] {
+  const value = parseInt(color.slice(1), 16);
+  return [(value >> 16) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255];
+}
+
+function toBrandingProfile(row: BrandingProfileRow): BrandingProfile {
+  return {
+    id: row.id,
+    name: row.name,
+    companyName: row.company_name,
+    primaryColor: row.primary_color,
+    footerText: row.footer_text,
+    contactLine: row.contact_line ?? undefined,
+    hasLogo: row.logo_key !== null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+export async function listBrandingProfiles(env: Env): Promise<BrandingProfile[]> {
+  const { results } = await env.radar_scanner_db.prepare(`
+    SELECT * FROM branding_profiles ORDER BY created_at DESC
+  `).all<BrandingProfileRow>();
+
+  return results.map(toBrandingProfile);
+}
+
+export async function getBrandingProfile(env: Env, id: string): Promise<BrandingProfile | null> {
+  const row = await env.radar_scanner_db.prepare(`
+    SELECT * FROM branding_profiles WHERE id = ?
+  `).bind(id).first<BrandingProfileRow>();
+
+  return row ? toBrandingProfile(row) : null;
+}
+
+export async function createBrandingProfile(env: Env, input: BrandingInput): Promise<BrandingProfile> {
+  const now = Date.now();
+  const profile: BrandingProfile = {
+    id: crypto.randomUUID(),
+    ...input,
+    hasLogo: false,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await env.radar_scanner_db.prepare(`
+    INSERT INTO branding_profiles (id, name, company_name, primary_color, footer_text, contact_line, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    profile.id,
+    profile.name,
+    profile.companyName,
+    profile.primaryColor,
+    profile.footerText,
+    profile.contactLine ?? null,
+    profile.createdAt,
+    profile.updatedAt
+  ).run();
+
+  return profile;
+}
+
+/**
+ * Apply a partial update. An empty contactLine removes it. Returns null if
+ * the profile does not exist.
+ */
+export async function updateBrandingProfile(env: Env, id: string, update: BrandingUpdate): Promise<BrandingProfile | null> {
+  const existing = await getBrandingProfile(env, id);
+  if (!existing) {
+    return null;
+  }
+
+  const profile: BrandingProfile = {
+    ...existing,
+    ...update,
+    contactLine: (update.contactLine ?? existing.contactLine) || undefined,
+    updatedAt: Date.now()
+  };
+
+  await env.radar_scanner_db.prepare(`
+    UPDATE branding_profiles
+    SET name = ?, company_name = ?, primary_color = ?, footer_text = ?, contact_line = ?, updated_at = ?
+    WHERE id = ?
+  `).bind(
+    profile.name,
+    profile.companyName,
+    profile.primaryColor,
+    profile.footerText,
+    profile.contactLine ?? null,
+    profile.updatedAt,
+    id
+  ).run();
+
+  return profile;
+}
+
+/**
+ * Remove a profile and its logo. API keys using it fall back to the default
+ * branding. Returns false if the profile does not exist.
+ */
+export async function deleteBrandingProfile(env: Env, id: string): Promise<boolean> {
+  const [deleted] = await env.radar_scanner_db.batch([
+    env.radar_scanner_db.prepare('DELETE FROM branding_profiles WHERE id = ?').bind(id),
+    env.radar_scanner_db.prepare('UPDATE api_keys SET branding_profile_id = NULL WHERE branding_profile_id = ?').bind(id)
+  ]);
+
+  if (deleted.meta.changes === 0) {
+    return false;
+  }
+
+  await env.radar_scan_reports.delete(brandingLogoKey(id));
+  return true;
+}
+
+/**
+ * Store a profile's logo PNG. Returns false if the profile does not exist.
+ */
+export async function putBrandingLogo(env: Env, id: string, logo: Uint8Array): Promise<boolean> {
+  if (!await getBrandingProfile(env, id)) {
+    return false;
+  }
+
+  const key = brandingLogoKey(id);
+  await env.radar_scan_reports.put(key, logo, {
+    httpMetadata: { contentType: 'image/png' }
+  });
+  await env.radar_scanner_db.prepare(`
+    UPDATE branding_profiles SET logo_key = ?, updated_at = ? WHERE id = ?
+  `).bind(key, Date.now(), id).run();
+
+  return true;
+}
+
+/**
+ * Resolve the branding for a report or email. A missing or deleted profile
+ * falls back to the default branding rather than failing the report.
+ */
+export async function loadBranding(
+  env: Env,
+  profileId: string | undefined,
+  { withLogo = false }: { withLogo?: boolean } = {}
+): Promise<ResolvedBranding> {
+  if (!profileId) {
+    return DEFAULT_BRANDING;
+  }
+
+  const profile = await getBrandingProfile(env, profileId).catch(error => {
+    throw wrapError(error, (detail, cause) => new DatabaseError(detail, cause));
+  });
+  if (!profile) {
+    console.warn(`[Branding] Profile ${profileId} not found; using the default branding`);
+    return DEFAULT_BRANDING;
+  }
+
+  const branding: ResolvedBranding = {
+    profileId: profile.id,
+    companyName: profile.companyName,
+    primaryColor: profile.primaryColor,
+    footerText: profile.footerText,
+    contactLine: profile.contactLine
+  };
+
+  if (profile.hasLogo) {
+    branding.logoUrl = `${env.APP_URL}/api/branding/${profile.id}/logo`;
+    if (withLogo) {
+      const object = await env.radar_scan_reports.get(brandingLogoKey(profile.id)).catch(error => {
+        throw wrapError(error, (detail, cause) => new StorageError(detail, cause));
+      });
+      if (object) {
+        branding.logo = new Uint8Array(await object.arrayBuffer());
+      }
+    }
+  }
+
+  return branding;
+}
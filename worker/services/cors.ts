@@ -0,0 +1,103 @@
+import type { Env } from '../types';
+
+const DEFAULT_ALLOWED_METHODS = ['GET', 'POST', 'PATCH', 'DELETE', 'OPTIONS'];
+const DEFAULT_ALLOWED_HEADERS = ['Content-Type', 'Authorization', 'X-Session-Owner', 'Idempotency-Key'];
+const EXPOSED_HEADERS = ['Retry-After', 'X-RateLimit-Limit', 'X-RateLimit-Remaining', 'X-RateLimit-Reset'];
+const PREFLIGHT_MAX_AGE_SECONDS = 86400;
+
+/**
+ * One entry of CORS_ALLOWED_ORIGINS:
+ * - any: `*`, answered with `Access-Control-Allow-Origin: *` and no credentials
+ * - exact: `https://dash.example.com`
+ * - subdomain: `https://*.example.com`, any subdomain of example.com but not example.com itself
+ */
+type OriginRule =
+  | { type: 'any' }
+  | { type: 'exact'; origin: string }
+  | { type: 'subdomain'; protocol: string; suffix: string };
+
+const WILDCARD_ORIGIN_PATTERN = /^(https?):\/\/\*(\.[a-z0-9.-]+(?::\d+)?)$/;
+
+function readList(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function parseOriginRule(rule: string): OriginRule | null {
+  if (rule === '*') {
+    return { type: 'any' };
+  }
+
+  const wildcard = rule.toLowerCase().match(WILDCARD_ORIGIN_PATTERN);
+  if (wildcard) {
+    return { type: 'subdomain', protocol: `${wildcard[1]}:`, suffix: wildcard[2] };
+  }
+
+  try {
+    return { type: 'exact', origin: new URL(rule).origin };
+  } catch {
+    console.warn(`[CORS] Ignoring invalid CORS_ALLOWED_ORIGINS entry: ${rule}`);
+    return null;
+  }
+}
+
+/**
+ * The app's own origin is always allowed; CORS_ALLOWED_ORIGINS adds to it
+ */
+function getOriginRules(env: Env): OriginRule[] {
+  const rules = readList(env.CORS_ALLOWED_ORIGINS)
+    .map(parseOriginRule)
+    .filter((rule): rule is OriginRule => rule !== null);
+  return [{ type: 'exact', origin: new URL(env.APP_URL).origin }, ...rules];
+}
+
+function matchesOrigin(rule: OriginRule, origin: string): boolean {
+  if (rule.type === 'exact') {
+    return rule.origin === origin;
+  }
+  if (rule.type === 'subdomain') {
+    try {
+      const parsed = new URL(origin);
+      return parsed.protocol === rule.protocol && parsed.host.endsWith(rule.suffix);
+    } catch {
+      // e.g. the literal `null` origin of sandboxed frames
+      return false;
+    }
+  }
+  return false;
+}
+
+/**
+ * CORS headers for a response to this request. The request's Origin is
+ * reflected, with credentials allowed, only when a rule matches it; other
+ * origins get no Access-Control-Allow-Origin and the browser blocks the
+ * response. `Vary: Origin` is always set so caches keep the answers apart.
+ */
+export function getCorsHeaders(request: Request, env: Env): Record<string, string> {
+  const headers: Record<string, string> = { Vary: 'Origin' };
+  const origin = request.headers.get('Origin');
+  if (!origin) {
+    return headers;
+  }
+
+  const rules = getOriginRules(env);
+  if (rules.some(rule => matchesOrigin(rule, origin))) {
+    headers['Access-Control-Allow-Origin'] = origin;
+    headers['Access-Control-Allow-Credentials'] = 'true';
+  } else if (rules.some(rule => rule.type === 'any')) {
+    headers['Access-Control-Allow-Origin'] = '*';
+  } else {
+    return headers;
+  }
+
+  headers['Access-Control-Expose-Headers'] = EXPOSED_HEADERS.join(', ');
+
+  if (request.method === 'OPTIONS') {
+    const methods = readList(env.CORS_ALLOWED_METHODS);
+    const allowedHeaders = readList(env.CORS_ALLOWED_HEADERS);
+    headers['Access-Control-Allow-Methods'] = (methods.length > 0 ? methods : DEFAULT_ALLOWED_METHODS).join(', ');
+    headers['Access-Control-Allow-Headers'] = (allowedHeaders.length > 0 ? allowedHeaders : DEFAULT_ALLOWED_HEADERS).join(', ');
+    headers['Access-Control-Max-Age'] = String(PREFLIGHT_MAX_AGE_SECONDS);
+  }
+
+  return headers;
+}
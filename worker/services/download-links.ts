@@ -0,0 +1,196 @@
+import type { Env, Locale } from '../types';
+import { DEFAULT_LOCALE, formatNumber } from '../i18n';
+import { base64UrlDecode, base64UrlEncode, hmacSha256, timingSafeEqual } from '../utils/crypto';
+
+const DEFAULT_LINK_TTL_SECONDS = 24 * 60 * 60;
+
+interface DownloadTokenPayload {
+  sid: string;   // Session ID
+  exp: number;   // Expiry (Unix seconds)
+  rcp: string;   // Intended recipient (email address, "owner" or "webhook:<origin>")
+}
+
+export type DownloadTokenCheck =
+  | { valid: true; recipient: string; expiresAt: number }
+  | { valid: false; reason: 'invalid' | 'expired' };
+
+export interface SignedLinks {
+  downloadUrl: string;
+  previewUrl: string;
+  expiresAt: number;
+}
+
+function getLinkSecret(env: Env): string {
+  if (!env.DOWNLOAD_LINK_SECRET) {
+    throw new Error('DOWNLOAD_LINK_SECRET is not configured');
+  }
+  return env.DOWNLOAD_LINK_SECRET;
+}
+
+/**
+ * Lifetime of signed links from DOWNLOAD_LINK_TTL_SECONDS, falling back to 24 hours
+ */
+export function getLinkTtlSeconds(env: Env): number {
+  const ttl = Number(env.DOWNLOAD_LINK_TTL_SECONDS);
+  return Number.isInteger(ttl) && ttl > 0 ? ttl : DEFAULT_LINK_TTL_SECONDS;
+}
+
+/**
+ * "24 hours", "7 Tage", "30 minutes" - for the validity note in emails
+ */
+export function describeLinkLifetime(seconds: number, locale: Locale = DEFAULT_LOCALE): string {
+  const format = (value: number, unit: 'day' | 'hour' | 'minute') =>
+    formatNumber(value, locale, { style: 'unit', unit, unitDisplay: 'long' });
+
+  if (seconds % 86400 === 0 && seconds >= 2 * 86400) {
+    return format(seconds / 86400, 'day');
+  }
+  if (seconds % 3600 === 0) {
+    return format(seconds / 3600, 'hour');
+  }
+  return format(Math.max(1, Math.round(seconds / 60)), 'minute');
+}
+
+async function sign(secret: string, data: string): Promise<string> {
+  return base64UrlEncode(await hmacSha256(secret, data));
+}
+
+/**
+ * Token of the form base64url(payload).base64url(HMAC-SHA256(payload))
+ */
+export async function createDownloadToken(env: Env, sessionId: string, recipient: string): Promise<{ token: string; expiresAt: number }> {
+  const expiresAt = Math.floor(Date.now() / 1000) + getLinkTtlSeconds(env);
+  const payload: DownloadTokenPayload = { sid: sessionId, exp: expiresAt, rcp: recipient };
+  const encoded = base64UrlEncode(JSON.stringify(payload));
+
+  return {
+    token: `${encoded}.${await sign(getLinkSecret(env), encoded)}`,
+    expiresAt
+  };
+}
+
+/**
+ * Check a token's signature, session binding and expiry. The signature is
+ * checked first so an expired-but-forged token is reported as invalid.
+ */
+export async function verifyDownloadToken(env: Env, token: string, sessionId: string): Promise<DownloadTokenCheck> {
+  const [encoded, signature, extra] = token.split('.');
+  if (!encoded || !signature || extra !== undefined || !env.DOWNLOAD_LINK_SECRET) {
+    return { valid: false, reason: 'invalid' };
+  }
+
+  if (!timingSafeEqual(signature, await sign(env.DOWNLOAD_LINK_SECRET, encoded))) {
+    return { valid: false, reason: 'invalid' };
+  }
+
+  let payload: DownloadTokenPayload;
+  try {
+    payload = JSON.parse(base64UrlDecode(encoded)) as DownloadTokenPayload;
+  } catch {
+    return { valid: false, reason: 'invalid' };
+  }
+
+  if (payload.sid !== sessionId) {
+    return { valid: false, reason: 'invalid' };
+  }
+
+  if (payload.exp * 1000 <= Date.now()) {
+    return { valid: false, reason: 'expired' };
+  }
+
+  return { valid: true, recipient: payload.rcp, expiresAt: payload.exp };
+}
+
+/**
+ * Signed download and preview URLs for a session
+ */
+export async function createSignedLinks(env: Env, sessionId: string, recipient: string): Promise<SignedLinks> {
+  const { token, expiresAt } = await createDownloadToken(env, sessionId, recipient);
+  const query = `?token=${encodeURIComponent(token)}`;
+
+  return {
+    downloadUrl: `${env.APP_URL}/api/download/${sessionId}${query}`,
+    previewUrl: `${env.APP_URL}/api/preview/${sessionId}${query}`,
+    expiresAt
+  };
+}
+
+/**
+ * Download URL for an email recipient: signed when DOWNLOAD_LINK_SECRET is set,
+ * otherwise the plain URL, which only opens with an API key
+ */
+export async function createReportLink(env: Env, sessionId: string, recipient: string): Promise<string> {
+  return env.DOWNLOAD_LINK_SECRET
+    ? (await createSignedLinks(env, sessionId, recipient)).downloadUrl
+    : `${env.APP_URL}/api/download/${sessionId}`;
+}
+
+/**
+ * Secret handed to whoever created a session; proves ownership when minting
+ * new links. Derived from the session ID, so nothing extra is stored.
+ * Undefined when DOWNLOAD_LINK_SECRET is not configured.
+ */
+export async function createOwnerToken(env: Env, sessionId: string): Promise<string | undefined> {
+  return env.DOWNLOAD_LINK_SECRET ? sign(env.DOWNLOAD_LINK_SECRET, `owner:${sessionId}`) : undefined;
+}
+
+export async function verifyOwnerToken(env: Env, sessionId: string, token: string | null): Promise<boolean> {
+  if (!token || !env.DOWNLOAD_LINK_SECRET) {
+    return false;
+  }
+  return timingSafeEqual(token, await sign(env.DOWNLOAD_LINK_SECRET, `owner:${sessionId}`));
+}
+
+/**
+ * Human-readable page for links that cannot be served
+ */
+export function linkErrorPage(reason: 'invalid' | 'expired' | 'missing'): Response {
+  const content = {
+    invalid: {
+      status: 403,
+      title: 'This link is not valid',
+      message: 'The download link is incomplete or has been altered. Please use the exact link from your email, or request a new one.'
+    },
+    missing: {
+      status: 403,
+      title: 'This link is not valid',
+      message: 'Reports can only be opened with a signed link. Please use the link from your email, or request a new one.'
+    },
+    expired: {
+      status: 410,
+      title: 'This link has expired',
+      message: 'Download links are only valid for a limited time. Open the scan again to get a fresh link, or run a new scan.'
+    }
+  }[reason];
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${content.title} - RadarScan</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background: #f5f5f5; color: #333; margin: 0; padding: 40px 20px; }
+    .card { max-width: 480px; margin: 0 auto; background: white; border-radius: 12px; padding: 32px; box-shadow: 0 2px 8px rgba(0,0,0,0.1); text-align: center; }
+    h1 { font-size: 22px; margin: 0 0 12px; color: #F6821F; }
+    p { line-height: 1.6; color: #4b5563; }
+    a { color: #F6821F; font-weight: 600; }
+  </style>
+</head>
+<body>
+  <div class="card">
+    <h1>${content.title}</h1>
+    <p>${content.message}</p>
+    <p><a href="/">Go to RadarScan</a></p>
+  </div>
+</body>
+</html>`;
+
+  return new Response(html, {
+    status: content.status,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'no-store'
+    }
+  });
+}
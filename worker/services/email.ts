@@ -1,30 +1,76 @@
-import type { Env } from '../types';
+import type { Env, Locale, ScanReport, WatchlistEntry, WatchlistRun } from '../types';
+import { createReportLink, describeLinkLifetime, getLinkTtlSeconds } from './download-links';
+import { DEFAULT_BRANDING, type ResolvedBranding } from './branding';
+import { DEFAULT_LOCALE, formatDateTime, getMessages, type Messages } from '../i18n';
+import { EmailError, ValidationError } from '../utils/errors';
 
 function sanitize(s: string) {
   return s.replace(/[<>&]/g, (c) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;' }[c] as string));
 }
 
+/**
+ * Colors and footer of an email. Without a branding profile emails keep
+ * their original purple look.
+ */
+interface EmailTheme {
+  accent: string;
+  headerBackground: string;
+  // <img> for the top of the header, empty without a logo
+  logoHtml: string;
+  footerText: string;
+  contactLine?: string;
+}
+
+function emailTheme(branding: ResolvedBranding, t: Messages): EmailTheme {
+  if (!branding.profileId) {
+    return {
+      accent: '#667eea',
+      headerBackground: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+      logoHtml: '',
+      footerText: t.email.defaultFooter
+    };
+  }
+
+  return {
+    accent: branding.primaryColor,
+    headerBackground: branding.primaryColor,
+    logoHtml: branding.logoUrl
+      ? `<img src="${branding.logoUrl}" alt="${sanitize(branding.companyName).replace(/"/g, '&quot;')}" style="max-height: 48px; margin-bottom: 12px;"><br>`
+      : '',
+    footerText: branding.footerText,
+    contactLine: branding.contactLine
+  };
+}
+
 export async function sendEmailViaResend(
   env: Env,
   email: string,
   url: string,
   sessionId: string,
-  downloadUrl: string
+  report?: ScanReport | null,
+  branding: ResolvedBranding = DEFAULT_BRANDING,
+  locale: Locale = DEFAULT_LOCALE
 ): Promise<void> {
   // Validate email format
   if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
     console.error('[Email] Invalid email format:', email);
-    throw new Error('Invalid email format');
+    throw new ValidationError('Invalid email format');
   }
 
   const apiKey = env.RESEND_API_KEY;
   if (!apiKey) {
     console.error('[Email] Missing RESEND_API_KEY');
-    throw new Error('Missing RESEND_API_KEY');
+    throw new EmailError('Missing RESEND_API_KEY');
   }
 
-  const html = renderEmailTemplate(sanitize(url), sessionId, downloadUrl);
-  const text = renderPlainTextEmail(sanitize(url), sessionId, downloadUrl);
+  // The link is bound to this recipient and expires after DOWNLOAD_LINK_TTL_SECONDS
+  const downloadUrl = await createReportLink(env, sessionId, email);
+  const validFor = describeLinkLifetime(getLinkTtlSeconds(env), locale);
+
+  const t = getMessages(locale);
+  const theme = emailTheme(branding, t);
+  const html = renderEmailTemplate(sanitize(url), sessionId, downloadUrl, validFor, theme, locale, report);
+  const text = renderPlainTextEmail(sanitize(url), sessionId, downloadUrl, validFor, theme, locale, report);
   
   console.log('[Email] Sending to:', email);
   console.log('[Email] API Key present:', !!apiKey);
@@ -35,7 +81,7 @@ export async function sendEmailViaResend(
   const payload = {
     from: FROM,
     to: [email],
-    subject: `Your URL Scan Report is Ready - ${url}`,
+    subject: t.email.subject(url),
     html: html,
     text: text
   };
@@ -43,6 +89,45 @@ export async function sendEmailViaResend(
   console.log('[Email] Sending from:', FROM);
   console.log('[Email] Subject:', payload.subject);
   
+  await postToResend(apiKey, payload);
+}
+
+/**
+ * Alert a watchlist owner that a watched URL's verdict or contacted domains changed
+ */
+export async function sendWatchlistAlert(
+  env: Env,
+  entry: WatchlistEntry,
+  run: WatchlistRun,
+  report: ScanReport,
+  branding: ResolvedBranding = DEFAULT_BRANDING
+): Promise<void> {
+  const apiKey = env.RESEND_API_KEY;
+  if (!apiKey) {
+    console.error('[Email] Missing RESEND_API_KEY');
+    throw new EmailError('Missing RESEND_API_KEY');
+  }
+
+  const downloadUrl = await createReportLink(env, run.sessionId, entry.email);
+  const t = getMessages(entry.locale);
+  const headline = run.verdictChanged && report.verdict.malicious
+    ? t.email.watchlist.nowMalicious
+    : t.email.watchlist.domainsChanged;
+
+  const theme = emailTheme(branding, t);
+
+  console.log('[Email] Sending watchlist alert to:', entry.email);
+
+  await postToResend(apiKey, {
+    from: env.RESEND_FROM || 'Radar Scanner <onboarding@resend.dev>',
+    to: [entry.email],
+    subject: t.email.watchlist.subject(entry.url, headline),
+    html: renderWatchlistAlertTemplate(sanitize(entry.url), headline, run, report, downloadUrl, theme, entry.locale),
+    text: renderWatchlistAlertText(entry.url, headline, run, report, downloadUrl, theme, entry.locale)
+  });
+}
+
+async function postToResend(apiKey: string, payload: Record<string, unknown>): Promise<void> {
   const response = await fetch('https://api.resend.com/emails', {
     method: 'POST',
     headers: { 
@@ -55,19 +140,45 @@ export async function sendEmailViaResend(
   if (!response.ok) {
     const detail = await response.text().catch(() => '');
     console.error('[Email] Resend failed:', response.status, detail.slice(0, 500));
-    throw new Error(`Resend failed (${response.status}): ${detail.slice(0, 500)}`);
+    throw new EmailError(`Resend failed (${response.status}): ${detail.slice(0, 500)}`);
   }
   
   const result = await response.json() as { id: string };
   console.log('[Email] Email sent successfully. ID:', result.id);
 }
 
-function renderEmailTemplate(url: string, sessionId: string, downloadUrl: string): string {
-  const scanDate = new Date().toLocaleString();
+function renderEmailTemplate(
+  url: string,
+  sessionId: string,
+  downloadUrl: string,
+  validFor: string,
+  theme: EmailTheme,
+  locale: Locale,
+  report?: ScanReport | null
+): string {
+  const t = getMessages(locale);
+  const labels = t.email.labels;
+  // The label and its colon are bold, the value is not
+  const field = (label: string, value: string) => `<strong>${t.field(label, '')}</strong>${value}`;
+  const scanDate = formatDateTime(Date.now(), locale);
+  const summary = report
+    ? `
+      <div class="info-box">
+        <h3>🛡️ ${t.email.verdict}</h3>
+        <ul>
+          <li>${field(labels.result, report.verdict.malicious ? `⚠️ ${t.verdicts.malicious}` : `✅ ${t.verdicts.safe}`)}</li>
+          <li>${field(labels.threatLevel, t.riskLevels[report.verdict.threatLevel])}</li>
+          ${report.verdict.categories.length > 0 ? `<li>${field(labels.categories, sanitize(report.verdict.categories.join(', ')))}</li>` : ''}
+          <li>${field(labels.requests, t.email.requestCount(report.network.totalRequests, report.network.failedRequests))}</li>
+          <li>${field(labels.technologies, String(report.technologies.length))}</li>
+        </ul>
+      </div>
+      `
+    : '';
   
   return `
 <!DOCTYPE html>
-<html>
+<html lang="${locale}">
 <head>
   <meta charset="utf-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
@@ -89,7 +200,7 @@ function renderEmailTemplate(url: string, sessionId: string, downloadUrl: string
       box-shadow: 0 2px 8px rgba(0,0,0,0.1);
     }
     .header {
-      background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+      background: ${theme.headerBackground};
       color: white;
       padding: 30px;
       text-align: center;
@@ -103,14 +214,14 @@ function renderEmailTemplate(url: string, sessionId: string, downloadUrl: string
     }
     .info-box {
       background: #f9fafb;
-      border-left: 4px solid #667eea;
+      border-left: 4px solid ${theme.accent};
       padding: 15px;
       margin: 20px 0;
       border-radius: 4px;
     }
     .info-box h3 {
       margin-top: 0;
-      color: #667eea;
+      color: ${theme.accent};
     }
     .info-box ul {
       list-style: none;
@@ -122,7 +233,7 @@ function renderEmailTemplate(url: string, sessionId: string, downloadUrl: string
     }
     .button {
       display: inline-block;
-      background: #667eea;
+      background: ${theme.accent};
       color: white !important;
       padding: 12px 30px;
       text-decoration: none;
@@ -147,32 +258,33 @@ function renderEmailTemplate(url: string, sessionId: string, downloadUrl: string
 <body>
   <div class="container">
     <div class="header">
-      <h1>🎉 Your Scan is Complete!</h1>
+      ${theme.logoHtml}
+      <h1>🎉 ${t.email.heading}</h1>
     </div>
     <div class="content">
-      <p>We've finished scanning <strong>${url}</strong> and your report is ready for download.</p>
+      <p>${t.email.intro(`<strong>${url}</strong>`)}</p>
       
       <div class="info-box">
-        <h3>📊 Scan Details</h3>
+        <h3>📊 ${t.email.scanDetails}</h3>
         <ul>
-          <li><strong>URL:</strong> ${url}</li>
-          <li><strong>Scanned:</strong> ${scanDate}</li>
-          <li><strong>Session ID:</strong> ${sessionId}</li>
-          <li><strong>Status:</strong> ✅ Completed</li>
+          <li>${field(labels.url, url)}</li>
+          <li>${field(labels.scanned, scanDate)}</li>
+          <li>${field(labels.sessionId, sessionId)}</li>
+          <li>${field(labels.status, `✅ ${t.email.completed}`)}</li>
         </ul>
       </div>
-      
+      ${summary}
       <center>
-        <a href="${downloadUrl}" class="button">📥 Download Report (PDF)</a>
+        <a href="${downloadUrl}" class="button">📥 ${t.email.download}</a>
       </center>
       
       <p class="note">
-        <strong>Note:</strong> This link is valid for 24 hours. After that, you'll need to run a new scan.
+        ${field(t.email.note, t.email.validity(validFor))}
       </p>
     </div>
     <div class="footer">
-      <p><strong>Powered by Cloudflare Radar URL Scanner</strong></p>
-      <p>Questions? Reply to this email or visit our support page.</p>
+      <p><strong>${sanitize(theme.footerText)}</strong></p>
+      <p>${theme.contactLine ? sanitize(theme.contactLine) : t.email.support}</p>
     </div>
   </div>
 </body>
@@ -180,25 +292,200 @@ function renderEmailTemplate(url: string, sessionId: string, downloadUrl: string
   `;
 }
 
-function renderPlainTextEmail(url: string, sessionId: string, downloadUrl: string): string {
-  const scanDate = new Date().toLocaleString();
+function renderPlainTextEmail(
+  url: string,
+  sessionId: string,
+  downloadUrl: string,
+  validFor: string,
+  theme: EmailTheme,
+  locale: Locale,
+  report?: ScanReport | null
+): string {
+  const t = getMessages(locale);
+  const labels = t.email.labels;
+  const heading = (text: string) => t.field(text, '').trimEnd();
+  const scanDate = formatDateTime(Date.now(), locale);
+  const summary = report
+    ? `
+${heading(t.email.verdict)}
+- ${t.field(labels.result, report.verdict.malicious ? t.verdicts.malicious : t.verdicts.safe)}
+- ${t.field(labels.threatLevel, t.riskLevels[report.verdict.threatLevel])}${report.verdict.categories.length > 0 ? `\n- ${t.field(labels.categories, report.verdict.categories.join(', '))}` : ''}
+- ${t.field(labels.requests, t.email.requestCount(report.network.totalRequests, report.network.failedRequests))}
+- ${t.field(labels.technologies, String(report.technologies.length))}
+`
+    : '';
   
   return `
-Your URL Scan Report is Ready!
+${t.email.textHeading}
 
-We've finished scanning ${url} and your report is ready for download.
+${t.email.intro(url)}
 
-Scan Details:
-- URL: ${url}
-- Scanned: ${scanDate}
-- Session ID: ${sessionId}
-- Status: Completed
+${heading(t.email.scanDetails)}
+- ${t.field(labels.url, url)}
+- ${t.field(labels.scanned, scanDate)}
+- ${t.field(labels.sessionId, sessionId)}
+- ${t.field(labels.status, t.email.completed)}
+${summary}
+${t.field(t.email.downloadText, downloadUrl)}
+
+${t.field(t.email.note, t.email.validity(validFor))}
+
+---
+${theme.footerText}${theme.contactLine ? `\n${theme.contactLine}` : ''}
+  `;
+}
+
+function renderDomainList(domains: string[]): string {
+  return domains.map(domain => `<li>${sanitize(domain)}</li>`).join('');
+}
+
+function renderWatchlistAlertTemplate(
+  url: string,
+  headline: string,
+  run: WatchlistRun,
+  report: ScanReport,
+  downloadUrl: string,
+  theme: EmailTheme,
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  const t = getMessages(locale);
+  const verdict = report.verdict.malicious ? `⚠️ ${t.verdicts.malicious}` : `✅ ${t.verdicts.safe}`;
+
+  return `
+<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+      line-height: 1.6;
+      color: #333;
+      margin: 0;
+      padding: 0;
+      background-color: #f5f5f5;
+    }
+    .container {
+      max-width: 600px;
+      margin: 20px auto;
+      background: white;
+      border-radius: 8px;
+      overflow: hidden;
+      box-shadow: 0 2px 8px rgba(0,0,0,0.1);
+    }
+    .header {
+      background: ${report.verdict.malicious ? '#dc2626' : '#d97706'};
+      color: white;
+      padding: 30px;
+      text-align: center;
+    }
+    .header h1 {
+      margin: 0;
+      font-size: 22px;
+    }
+    .content {
+      padding: 30px;
+    }
+    .info-box {
+      background: #f9fafb;
+      border-left: 4px solid ${theme.accent};
+      padding: 15px;
+      margin: 20px 0;
+      border-radius: 4px;
+    }
+    .info-box h3 {
+      margin-top: 0;
+      color: ${theme.accent};
+    }
+    .button {
+      display: inline-block;
+      background: ${theme.accent};
+      color: white !important;
+      padding: 12px 30px;
+      text-decoration: none;
+      border-radius: 6px;
+      margin: 20px 0;
+      font-weight: 600;
+    }
+    .footer {
+      text-align: center;
+      padding: 20px;
+      color: #6b7280;
+      font-size: 14px;
+      background: #f9fafb;
+    }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      ${theme.logoHtml}
+      <h1>🔔 ${t.email.watchlist.title}</h1>
+    </div>
+    <div class="content">
+      <p>${t.email.watchlist.summary(`<strong>${url}</strong>`, headline)}</p>
+      
+      <div class="info-box">
+        <h3>🛡️ ${t.email.verdict}</h3>
+        <p>${verdict}${report.verdict.categories.length > 0 ? ` (${sanitize(report.verdict.categories.join(', '))})` : ''}</p>
+      </div>
+      ${run.domainsAdded.length > 0 ? `
+      <div class="info-box">
+        <h3>➕ ${t.email.watchlist.newDomains}</h3>
+        <ul>${renderDomainList(run.domainsAdded)}</ul>
+      </div>` : ''}
+      ${run.domainsRemoved.length > 0 ? `
+      <div class="info-box">
+        <h3>➖ ${t.email.watchlist.removedDomains}</h3>
+        <ul>${renderDomainList(run.domainsRemoved)}</ul>
+      </div>` : ''}
+      
+      <center>
+        <a href="${downloadUrl}" class="button">📥 ${t.email.download}</a>
+      </center>
+    </div>
+    <div class="footer">
+      <p><strong>${sanitize(theme.footerText)}</strong></p>
+      ${theme.contactLine ? `<p>${sanitize(theme.contactLine)}</p>` : ''}
+      <p>${t.email.watchlist.reason}</p>
+    </div>
+  </div>
+</body>
+</html>
+  `;
+}
+
+function renderWatchlistAlertText(
+  url: string,
+  headline: string,
+  run: WatchlistRun,
+  report: ScanReport,
+  downloadUrl: string,
+  theme: EmailTheme,
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  const t = getMessages(locale);
+  const heading = (text: string) => t.field(text, '').trimEnd();
+  const added = run.domainsAdded.length > 0
+    ? `\n${heading(t.email.watchlist.newDomains)}\n${run.domainsAdded.map(domain => `- ${domain}`).join('\n')}\n`
+    : '';
+  const removed = run.domainsRemoved.length > 0
+    ? `\n${heading(t.email.watchlist.removedDomains)}\n${run.domainsRemoved.map(domain => `- ${domain}`).join('\n')}\n`
+    : '';
+  const verdict = report.verdict.malicious ? t.verdicts.malicious : t.verdicts.safe;
+
+  return `
+${t.email.watchlist.title}
 
-Download your report: ${downloadUrl}
+${t.email.watchlist.summary(url, headline)}
 
-Note: This link is valid for 24 hours. After that, you'll need to run a new scan.
+${t.field(t.email.verdict, verdict)}${report.verdict.categories.length > 0 ? ` (${report.verdict.categories.join(', ')})` : ''}
+${added}${removed}
+${t.field(t.email.watchlist.downloadText, downloadUrl)}
 
 ---
-Powered by Cloudflare Radar URL Scanner
+${theme.footerText}${theme.contactLine ? `\n${theme.contactLine}` : ''}
+${t.email.watchlist.reason}
   `;
 }
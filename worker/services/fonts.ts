@@ -0,0 +1,44 @@
+import type { Env, Locale } from '../types';
+import { DEFAULT_LOCALE, needsUnicodeFont } from '../i18n';
+import type { ReportLanguage } from './pdf-generator';
+import { StorageError, wrapError } from '../utils/errors';
+
+/**
+ * R2 keys of the Unicode fonts used for reports in locales Helvetica cannot
+ * encode. CJK fonts run to several megabytes, too large to bundle with the
+ * Worker, so they are uploaded to the reports bucket once (see the README).
+ */
+export const UNICODE_FONT_KEYS = {
+  regular: 'fonts/unicode-regular.ttf',
+  bold: 'fonts/unicode-bold.ttf'
+};
+
+/**
+ * The language a report can be rendered in, with the fonts it needs. Locales
+ * that need the Unicode fonts fall back to English while they are missing,
+ * rather than printing every character as "?". The bold font is optional.
+ */
+export async function resolveReportFonts(env: Env, locale: Locale | undefined): Promise<ReportLanguage> {
+  if (!needsUnicodeFont(locale)) {
+    return { locale };
+  }
+
+  const [regular, bold] = await Promise.all([
+    env.radar_scan_reports.get(UNICODE_FONT_KEYS.regular),
+    env.radar_scan_reports.get(UNICODE_FONT_KEYS.bold)
+  ]).catch(error => {
+    throw wrapError(error, (detail, cause) => new StorageError(detail, cause));
+  });
+  if (!regular) {
+    console.warn(`[Fonts] ${UNICODE_FONT_KEYS.regular} is missing; ${locale} reports fall back to English`);
+    return { locale: DEFAULT_LOCALE };
+  }
+
+  return {
+    locale,
+    fonts: {
+      regular: new Uint8Array(await regular.arrayBuffer()),
+      bold: bold ? new Uint8Array(await bold.arrayBuffer()) : undefined
+    }
+  };
+}
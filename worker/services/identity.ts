@@ -0,0 +1,63 @@
+import type { Env } from '../types';
+import { base64UrlEncode, hmacSha256, timingSafeEqual } from '../utils/crypto';
+
+const IDENTITY_COOKIE = 'rs_client';
+const IDENTITY_MAX_AGE_SECONDS = 365 * 24 * 60 * 60;
+
+async function signClientId(secret: string, clientId: string): Promise<string> {
+  return base64UrlEncode(await hmacSha256(secret, `client:${clientId}`));
+}
+
+function getCookie(request: Request, name: string): string | null {
+  const header = request.headers.get('Cookie');
+  if (!header) {
+    return null;
+  }
+
+  for (const part of header.split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) {
+      return value.join('=');
+    }
+  }
+  return null;
+}
+
+/**
+ * Client ID from the browser's identity cookie, if present and correctly signed.
+ * Browser identities are keyed with DOWNLOAD_LINK_SECRET; without it browsers
+ * have no history.
+ */
+export async function readBrowserIdentity(request: Request, env: Env): Promise<string | undefined> {
+  const cookie = getCookie(request, IDENTITY_COOKIE);
+  if (!cookie || !env.DOWNLOAD_LINK_SECRET) {
+    return undefined;
+  }
+
+  const [clientId, signature] = cookie.split('.');
+  if (!clientId || !signature) {
+    return undefined;
+  }
+
+  return timingSafeEqual(signature, await signClientId(env.DOWNLOAD_LINK_SECRET, clientId))
+    ? clientId
+    : undefined;
+}
+
+/**
+ * Mint a new browser identity and the Set-Cookie header that stores it.
+ * Returns null when DOWNLOAD_LINK_SECRET is not configured.
+ */
+export async function issueBrowserIdentity(env: Env): Promise<{ clientId: string; cookie: string } | null> {
+  if (!env.DOWNLOAD_LINK_SECRET) {
+    return null;
+  }
+
+  const clientId = crypto.randomUUID();
+  const signature = await signClientId(env.DOWNLOAD_LINK_SECRET, clientId);
+
+  return {
+    clientId,
+    cookie: `${IDENTITY_COOKIE}=${clientId}.${signature}; Path=/; Max-Age=${IDENTITY_MAX_AGE_SECONDS}; HttpOnly; Secure; SameSite=Lax`
+  };
+}
@@ -0,0 +1,561 @@
+import type { JsonSchema, RouteDefinition, RouteResponse } from '../router';
+import { pathParameterNames, toOpenApiPath } from '../router';
+import { ERROR_CATALOG } from '../utils/errors';
+import { DEFAULT_RISK_WEIGHTS } from './risk-score';
+import { SUPPORTED_LOCALES } from '../i18n';
+
+const API_TITLE = 'RadarScan API';
+const API_VERSION = '1.0.0';
+
+/**
+ * Reference to a schema in components.schemas
+ */
+export function schemaRef(name: keyof typeof componentSchemas): JsonSchema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+const timestamp: JsonSchema = { type: 'integer', description: 'Unix timestamp in milliseconds' };
+const sessionStatus: JsonSchema = {
+  type: 'string',
+  enum: ['queued', 'scanning', 'generating', 'uploading', 'sending', 'completed', 'failed', 'cancelled', 'expired']
+};
+const locale: JsonSchema = { type: 'string', enum: SUPPORTED_LOCALES };
+const screenshotResolution: JsonSchema = { type: 'string', enum: ['desktop', 'mobile', 'tablet'] };
+const stringList: JsonSchema = { type: 'array', items: { type: 'string' } };
+const listDiff: JsonSchema = {
+  type: 'object',
+  properties: { added: stringList, removed: stringList },
+  required: ['added', 'removed']
+};
+const brandingFields: Record<string, JsonSchema> = {
+  name: { type: 'string', description: 'Internal label' },
+  companyName: { type: 'string', description: 'Shown in the report title' },
+  primaryColor: { type: 'string', pattern: '^#[0-9A-Fa-f]{6}$' },
+  footerText: { type: 'string' },
+  contactLine: { type: 'string', description: 'Printed under the footer; empty removes it' }
+};
+
+/**
+ * Shapes shared by several routes. These mirror the interfaces in worker/types.ts.
+ */
+const componentSchemas = {
+  Error: {
+    type: 'object',
+    description: 'Envelope of every error response, and of SessionState.error. Branch on code, not on message.',
+    properties: {
+      code: { type: 'string', enum: Object.keys(ERROR_CATALOG) },
+      title: { type: 'string' },
+      message: { type: 'string' },
+      action: { type: 'string' },
+      retryable: { type: 'boolean' },
+      details: { type: 'object', description: 'Extra fields for some errors, e.g. retryAfter (seconds) when rate limited' }
+    },
+    required: ['code', 'title', 'message', 'retryable']
+  },
+  Success: {
+    type: 'object',
+    properties: { success: { type: 'boolean' }, message: { type: 'string' } },
+    required: ['success']
+  },
+  ScanOptions: {
+    type: 'object',
+    properties: {
+      visibility: { type: 'string', enum: ['Public', 'Unlisted'] },
+      userAgent: { type: 'string' },
+      referer: { type: 'string' },
+      customHeaders: { type: 'object', additionalProperties: { type: 'string' } },
+      screenshotsResolutions: { type: 'array', items: screenshotResolution }
+    },
+    required: ['visibility']
+  },
+  ReportOptions: {
+    type: 'object',
+    description: 'Options for the generated PDF; they do not change the Radar scan or its cache key',
+    properties: {
+      requestAppendix: { type: 'boolean', description: 'Append a table of every network request, grouped by host' }
+    }
+  },
+  RiskScore: {
+    type: 'object',
+    description: 'Composite 0-100 risk score; factors lists the signals that added points, largest first',
+    properties: {
+      score: { type: 'integer', minimum: 0, maximum: 100 },
+      level: { type: 'string', enum: ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'] },
+      factors: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', enum: Object.keys(DEFAULT_RISK_WEIGHTS) },
+            label: { type: 'string' },
+            points: { type: 'number' },
+            weight: { type: 'number' },
+            detail: { type: 'string' }
+          },
+          required: ['id', 'label', 'points', 'weight', 'detail']
+        }
+      }
+    },
+    required: ['score', 'level', 'factors']
+  },
+  ScanRequest: {
+    type: 'object',
+    properties: {
+      url: { type: 'string', format: 'uri' },
+      email: { type: 'string', format: 'email' },
+      force: { type: 'boolean', description: 'Bypass the scan cache' },
+      options: { $ref: '#/components/schemas/ScanOptions' },
+      reportOptions: { $ref: '#/components/schemas/ReportOptions' },
+      brandingProfileId: { type: 'string', description: "Branding of the report and emails; defaults to the API key's profile" },
+      locale: { ...locale, description: 'Language of the report and emails; defaults to en' },
+      callbackUrl: { type: 'string', format: 'uri', description: 'HTTPS URL notified when the scan finishes' }
+    },
+    required: ['url', 'email']
+  },
+  ScanCreated: {
+    type: 'object',
+    properties: {
+      sessionId: { type: 'string' },
+      ownerToken: { type: 'string', description: 'Send as X-Session-Owner to manage the session; omitted when DOWNLOAD_LINK_SECRET is not configured' },
+      wsUrl: { type: 'string' },
+      status: { type: 'string', const: 'queued' },
+      message: { type: 'string' }
+    },
+    required: ['sessionId', 'wsUrl', 'status']
+  },
+  BatchRequest: {
+    type: 'object',
+    properties: {
+      urls: { type: 'array', items: { type: 'string', format: 'uri' }, minItems: 1 },
+      email: { type: 'string', format: 'email' },
+      force: { type: 'boolean' },
+      options: { $ref: '#/components/schemas/ScanOptions' },
+      reportOptions: { $ref: '#/components/schemas/ReportOptions' },
+      brandingProfileId: { type: 'string', description: "Branding of the report and emails; defaults to the API key's profile" },
+      locale: { ...locale, description: 'Language of the reports, summary and emails; defaults to en' }
+    },
+    required: ['urls', 'email']
+  },
+  BatchCreated: {
+    type: 'object',
+    properties: {
+      batchId: { type: 'string' },
+      statusUrl: { type: 'string' },
+      reportUrl: { type: 'string' },
+      sessions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            sessionId: { type: 'string' },
+            url: { type: 'string' },
+            ownerToken: { type: 'string' },
+            wsUrl: { type: 'string' }
+          },
+          required: ['sessionId', 'url', 'wsUrl']
+        }
+      },
+      status: { type: 'string', const: 'queued' },
+      notStarted: { ...stringList, description: 'URLs left unscanned because the scan rate limit ran out or starting a session failed; only present on a partial batch' },
+      error: { $ref: '#/components/schemas/Error', description: 'Why the remaining URLs were not started; only present on a partial batch' },
+      message: { type: 'string' }
+    },
+    required: ['batchId', 'statusUrl', 'reportUrl', 'sessions', 'status']
+  },
+  BatchStatus: {
+    type: 'object',
+    properties: {
+      batchId: { type: 'string' },
+      createdAt: timestamp,
+      status: { type: 'string', enum: ['running', 'completed'] },
+      total: { type: 'integer' },
+      completed: { type: 'integer' },
+      failed: { type: 'integer' },
+      inProgress: { type: 'integer' },
+      malicious: { type: 'integer' },
+      progressPercent: { type: 'integer' },
+      items: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            sessionId: { type: 'string' },
+            url: { type: 'string' },
+            status: sessionStatus,
+            progressPercent: { type: 'integer' },
+            malicious: { type: 'boolean' },
+            cacheHit: { type: 'boolean' },
+            error: { $ref: '#/components/schemas/Error' }
+          },
+          required: ['sessionId', 'url', 'status', 'progressPercent']
+        }
+      },
+      brandingProfileId: { type: 'string' },
+      locale
+    },
+    required: ['batchId', 'createdAt', 'status', 'total', 'completed', 'failed', 'inProgress', 'malicious', 'progressPercent', 'items']
+  },
+  SessionState: {
+    type: 'object',
+    properties: {
+      sessionId: { type: 'string' },
+      url: { type: 'string' },
+      email: { type: 'string' },
+      status: sessionStatus,
+      radarUuid: { type: 'string' },
+      error: { $ref: '#/components/schemas/Error' },
+      createdAt: timestamp,
+      updatedAt: timestamp,
+      expiresAt: timestamp,
+      progressPercent: { type: 'integer' },
+      progressMessage: { type: 'string' },
+      cacheHit: { type: 'boolean' },
+      cachedAt: timestamp,
+      scanOptions: { $ref: '#/components/schemas/ScanOptions' },
+      reportOptions: { $ref: '#/components/schemas/ReportOptions' },
+      brandingProfileId: { type: 'string' },
+      locale,
+      screenshots: { type: 'object', additionalProperties: { type: 'string' } },
+      batchId: { type: 'string' },
+      watchlistId: { type: 'string' },
+      malicious: { type: 'boolean' },
+      categories: stringList,
+      risk: { $ref: '#/components/schemas/RiskScore' },
+      previousSessionId: { type: 'string' },
+      attempt: { type: 'integer' },
+      attemptErrors: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { attempt: { type: 'integer' }, error: { $ref: '#/components/schemas/Error' }, failedAt: timestamp },
+          required: ['attempt', 'error', 'failedAt']
+        }
+      },
+      callbackUrl: { type: 'string' },
+      webhookStatus: { type: 'string', enum: ['pending', 'delivered', 'failed'] }
+    },
+    required: ['sessionId', 'url', 'email', 'status', 'createdAt', 'updatedAt', 'expiresAt']
+  },
+  SessionAction: {
+    type: 'object',
+    properties: {
+      sessionId: { type: 'string' },
+      status: sessionStatus,
+      attempt: { type: 'integer', description: 'Retries only' },
+      retriesRemaining: { type: 'integer', description: 'Retries only' },
+      message: { type: 'string' }
+    },
+    required: ['sessionId', 'status']
+  },
+  SignedLinks: {
+    type: 'object',
+    properties: {
+      downloadUrl: { type: 'string', format: 'uri' },
+      previewUrl: { type: 'string', format: 'uri' },
+      expiresAt: { type: 'string', format: 'date-time' }
+    },
+    required: ['downloadUrl', 'previewUrl', 'expiresAt']
+  },
+  ScanHistoryPage: {
+    type: 'object',
+    properties: {
+      scans: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            sessionId: { type: 'string' },
+            url: { type: 'string' },
+            domain: { type: ['string', 'null'] },
+            status: sessionStatus,
+            malicious: { type: ['boolean', 'null'] },
+            riskScore: { type: ['integer', 'null'] },
+            cacheHit: { type: 'boolean' },
+            batchId: { type: ['string', 'null'] },
+            watchlistId: { type: ['string', 'null'] },
+            reportAvailable: { type: 'boolean' },
+            error: { oneOf: [{ $ref: '#/components/schemas/Error' }, { type: 'null' }] },
+            createdAt: timestamp,
+            updatedAt: timestamp
+          },
+          required: ['sessionId', 'url', 'status', 'reportAvailable', 'createdAt', 'updatedAt']
+        }
+      },
+      nextCursor: { type: ['string', 'null'] }
+    },
+    required: ['scans', 'nextCursor']
+  },
+  ScanReport: {
+    type: 'object',
+    description: 'Normalized scan summary; see the ScanReport type in worker/types.ts for every field',
+    properties: {
+      schemaVersion: { type: 'integer', const: 1 },
+      generatedAt: { type: 'string', format: 'date-time' },
+      scan: { type: 'object' },
+      verdict: {
+        type: 'object',
+        properties: {
+          malicious: { type: 'boolean' },
+          label: { type: 'string', enum: ['SAFE', 'MALICIOUS'] },
+          threatLevel: { type: 'string', enum: ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'], description: 'Same as risk.level' },
+          categories: stringList,
+          tags: stringList
+        }
+      },
+      page: { type: 'object' },
+      technologies: { type: 'array', items: { type: 'object' } },
+      network: { type: 'object' },
+      cookies: { type: 'object' },
+      tls: { type: ['object', 'null'] },
+      phishing: { type: 'object' },
+      maliciousContent: { type: 'object' },
+      iocs: { type: 'object' },
+      risk: { $ref: '#/components/schemas/RiskScore' }
+    },
+    required: ['schemaVersion', 'generatedAt', 'scan', 'verdict', 'page']
+  },
+  ScanDiff: {
+    type: 'object',
+    description: 'Differences between two stored scans; see the ScanDiff type in worker/types.ts',
+    properties: {
+      from: { type: 'object' },
+      to: { type: 'object' },
+      hasChanges: { type: 'boolean' },
+      verdict: { type: 'object' },
+      domains: listDiff,
+      ips: listDiff,
+      asns: listDiff,
+      countries: listDiff,
+      scripts: listDiff,
+      technologies: { type: 'object' },
+      cookies: { type: 'object' },
+      certificate: { type: 'object' }
+    },
+    required: ['from', 'to', 'hasChanges']
+  },
+  WatchlistRequest: {
+    type: 'object',
+    properties: {
+      url: { type: 'string', format: 'uri' },
+      email: { type: 'string', format: 'email' },
+      intervalMinutes: { type: 'integer' },
+      options: { $ref: '#/components/schemas/ScanOptions' },
+      brandingProfileId: { type: 'string', description: "Branding of change alerts and reports; defaults to the API key's profile" },
+      locale: { ...locale, description: 'Language of change alerts and reports; defaults to en' }
+    },
+    required: ['url', 'email', 'intervalMinutes']
+  },
+  WatchlistUpdate: {
+    type: 'object',
+    properties: {
+      email: { type: 'string', format: 'email' },
+      intervalMinutes: { type: 'integer' },
+      enabled: { type: 'boolean' },
+      options: { $ref: '#/components/schemas/ScanOptions' },
+      brandingProfileId: { type: ['string', 'null'], description: 'null switches back to the default branding' },
+      locale: { type: ['string', 'null'], enum: [...SUPPORTED_LOCALES, null], description: 'null switches back to English' }
+    }
+  },
+  WatchlistEntry: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      url: { type: 'string' },
+      email: { type: 'string' },
+      intervalMinutes: { type: 'integer' },
+      enabled: { type: 'boolean' },
+      scanOptions: { $ref: '#/components/schemas/ScanOptions' },
+      brandingProfileId: { type: 'string' },
+      locale,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+      nextRunAt: timestamp,
+      lastRunAt: timestamp,
+      lastSessionId: { type: 'string' },
+      lastMalicious: { type: 'boolean' },
+      lastDomains: stringList,
+      runs: {
+        type: 'array',
+        description: 'Recent runs (GET /api/watchlist/{id} only)',
+        items: {
+          type: 'object',
+          properties: {
+            sessionId: { type: 'string' },
+            startedAt: timestamp,
+            completedAt: timestamp,
+            malicious: { type: 'boolean' },
+            verdictChanged: { type: 'boolean' },
+            domainsAdded: stringList,
+            domainsRemoved: stringList,
+            notified: { type: 'boolean' }
+          }
+        }
+      }
+    },
+    required: ['id', 'url', 'email', 'intervalMinutes', 'enabled', 'createdAt', 'updatedAt', 'nextRunAt']
+  },
+  ApiKeyRequest: {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      owner: { type: 'string' },
+      scopes: { type: 'array', items: { type: 'string', enum: ['scan', 'read', 'watchlist'] }, minItems: 1 },
+      brandingProfileId: { type: 'string', description: 'Default branding for scans made with the key' }
+    },
+    required: ['name', 'owner']
+  },
+  ApiKeyUpdate: {
+    type: 'object',
+    properties: {
+      brandingProfileId: { type: ['string', 'null'], description: 'null switches back to the default branding' }
+    },
+    required: ['brandingProfileId']
+  },
+  ApiKey: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      owner: { type: 'string' },
+      prefix: { type: 'string' },
+      scopes: { type: 'array', items: { type: 'string', enum: ['scan', 'read', 'watchlist'] } },
+      revoked: { type: 'boolean' },
+      createdAt: timestamp,
+      lastUsedAt: timestamp,
+      revokedAt: timestamp,
+      brandingProfileId: { type: 'string' },
+      key: { type: 'string', description: 'Plaintext key, only returned when the key is created' }
+    },
+    required: ['id', 'name', 'owner', 'prefix', 'scopes', 'revoked', 'createdAt']
+  },
+  BrandingProfileRequest: {
+    type: 'object',
+    properties: brandingFields,
+    required: ['name', 'companyName', 'primaryColor', 'footerText']
+  },
+  BrandingProfileUpdate: {
+    type: 'object',
+    properties: brandingFields
+  },
+  BrandingProfile: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      ...brandingFields,
+      hasLogo: { type: 'boolean', description: 'Upload with POST /api/admin/branding/{profileId}/logo' },
+      createdAt: timestamp,
+      updatedAt: timestamp
+    },
+    required: ['id', 'name', 'companyName', 'primaryColor', 'footerText', 'hasLogo', 'createdAt', 'updatedAt']
+  }
+} satisfies Record<string, JsonSchema>;
+
+const errorResponse = (description: string): RouteResponse => ({ description, schema: schemaRef('Error') });
+
+/**
+ * Responses every route of a kind can return, added to the route's own
+ */
+function standardResponses(route: RouteDefinition): Record<number, RouteResponse> {
+  const responses: Record<number, RouteResponse> = {};
+
+  if (route.access !== 'public') {
+    responses[401] = errorResponse('Missing or invalid credentials');
+  }
+  if (route.access === 'client' || route.access === 'signed-link') {
+    responses[403] = errorResponse(`API key is missing the '${route.scope}' scope`);
+  }
+  if (route.access === 'client' && route.rateLimit) {
+    responses[429] = errorResponse('Rate limit reached; see the Retry-After header');
+  }
+  responses[500] = errorResponse('Unexpected server error');
+
+  return responses;
+}
+
+function security(route: RouteDefinition): Array<Record<string, string[]>> {
+  switch (route.access) {
+    case 'public':
+      return [];
+    case 'admin':
+      return [{ adminToken: [] }];
+    case 'client':
+      return [{ apiKey: [] }];
+    case 'signed-link':
+      return [{ signedLink: [] }, { apiKey: [] }];
+  }
+}
+
+function operation(route: RouteDefinition): Record<string, unknown> {
+  const { docs } = route;
+
+  const parameters = [
+    ...pathParameterNames(route.path).map(name => ({
+      name,
+      in: 'path',
+      required: true,
+      schema: { type: 'string' }
+    })),
+    ...(docs.query || []).map(param => ({
+      name: param.name,
+      in: 'query',
+      required: param.required ?? false,
+      description: param.description,
+      schema: param.schema
+    }))
+  ];
+
+  const responses = Object.fromEntries(
+    Object.entries({ ...standardResponses(route), ...docs.responses }).map(([status, response]) => [
+      status,
+      response.schema
+        ? { description: response.description, content: { [response.contentType || 'application/json']: { schema: response.schema } } }
+        : { description: response.description }
+    ])
+  );
+
+  return {
+    operationId: docs.operationId,
+    summary: docs.summary,
+    ...(docs.description ? { description: docs.description } : {}),
+    tags: [docs.tag],
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(docs.body ? { requestBody: { required: true, content: { [docs.bodyContentType || 'application/json']: { schema: docs.body } } } } : {}),
+    responses,
+    security: security(route),
+    ...('scope' in route ? { 'x-required-scope': route.scope } : {})
+  };
+}
+
+/**
+ * OpenAPI 3.1 description of the route table, served at GET /api/openapi.json
+ */
+export function buildOpenApiDocument(routes: RouteDefinition[], serverUrl: string): Record<string, unknown> {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const route of routes) {
+    const path = toOpenApiPath(route.path);
+    paths[path] = { ...paths[path], [route.method.toLowerCase()]: operation(route) };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: API_TITLE,
+      version: API_VERSION,
+      description: 'Scan URLs with Cloudflare Radar and retrieve PDF and JSON reports. ' +
+        'Requests from the RadarScan web app itself are authenticated by the browser; ' +
+        'all other clients send an API key as a bearer token. Operations list the key scope they need in x-required-scope.'
+    },
+    servers: [{ url: serverUrl }],
+    tags: [...new Set(routes.map(route => route.docs.tag))].map(name => ({ name })),
+    paths,
+    components: {
+      schemas: componentSchemas,
+      securitySchemes: {
+        apiKey: { type: 'http', scheme: 'bearer', description: 'API key (rsk_...)' },
+        adminToken: { type: 'http', scheme: 'bearer', description: 'ADMIN_API_TOKEN' },
+        signedLink: { type: 'apiKey', in: 'query', name: 'token', description: 'Signed download link token' }
+      }
+    }
+  };
+}
@@ -1,307 +1,529 @@
-import { PDFDocument, rgb, StandardFonts } from 'pdf-lib';
-import type { RadarScanResult } from '../types';
+import { rgb, type Color } from 'pdf-lib';
+import type { BatchStatus, ListDiff, Locale, RadarScanResult, RiskLevel, ScanDiff, ScanReport } from '../types';
+import { COLORS, fitText, PdfLayout, type Cell, type LayoutFonts } from './pdf-layout';
+import { DEFAULT_BRANDING, hexToRgb, type ResolvedBranding } from './branding';
+import { formatDateTime, formatNumber, getMessages, type Messages } from '../i18n';
+
+type NetworkRequest = RadarScanResult['data']['requests'][number];
+
+/**
+ * Language of a report. Locales that Helvetica cannot encode need `fonts`;
+ * resolveReportFonts picks both.
+ */
+export interface ReportLanguage {
+  locale?: Locale;
+  fonts?: LayoutFonts;
+}
+
+export interface PDFReportOptions extends ReportLanguage {
+  screenshot?: Uint8Array;
+  // Comparison with the previous scan of the same URL
+  diff?: ScanDiff;
+  // Every request the page made; when set the report ends with the network request appendix
+  requests?: NetworkRequest[];
+  // White-label branding; the RadarScan branding when unset
+  branding?: ResolvedBranding;
+}
+
+const LOGO_MAX_HEIGHT = 50;
+
+// Wrapped lines of a "- item" list entry line up under the item text
+const BULLET_INDENT = 10;
+
+const RISK_COLORS: Record<RiskLevel, Color> = {
+  LOW: COLORS.safe,
+  MEDIUM: COLORS.caution,
+  HIGH: COLORS.warning,
+  CRITICAL: COLORS.danger
+};
+
+// Request appendix columns: method, status, type, then the path in the remaining width
+const APPENDIX_SIZE = 8;
+const APPENDIX_COLUMNS = { method: 0, status: 45, type: 85, path: 160 };
+
+/**
+ * Layout with the branding's running header and footer
+ */
+function createBrandedLayout(
+  branding: ResolvedBranding,
+  { locale, fonts }: ReportLanguage,
+  title: string,
+  subtitle: string,
+  tableOfContents = false
+): Promise<PdfLayout> {
+  const t = getMessages(locale);
+  // A profile's footer is the customer's own wording and is not translated
+  const footerText = branding.profileId ? branding.footerText : t.defaultFooter;
+
+  return PdfLayout.create({
+    title,
+    subtitle,
+    footer: `${footerText} | ${t.field(t.report.reportDate, formatDateTime(Date.now(), locale))}`,
+    footerNote: branding.contactLine,
+    // The default branding keeps the plain gray rule
+    accent: branding.profileId ? rgb(...hexToRgb(branding.primaryColor)) : undefined,
+    tableOfContents,
+    fonts,
+    labels: t.layout
+  });
+}
+
+/**
+ * Logo, if the branding has one, above the title in the brand color
+ */
+async function drawTitle(layout: PdfLayout, branding: ResolvedBranding, title: string): Promise<void> {
+  if (branding.logo) {
+    try {
+      await layout.image(branding.logo, LOGO_MAX_HEIGHT, { border: false, gap: 15 });
+    } catch (error) {
+      // A broken logo should not cost the customer their report
+      console.error('[PDF] Failed to embed logo:', error);
+    }
+  }
+  layout.text(title, { size: 24, bold: true, color: rgb(...hexToRgb(branding.primaryColor)), gap: 8 });
+}
+
+function splitRequestUrl(url: string): { host: string; path: string } {
+  try {
+    const parsed = new URL(url);
+    // data: and blob: URLs have no host; they are grouped by scheme
+    return parsed.host
+      ? { host: parsed.host, path: `${parsed.pathname}${parsed.search}` }
+      : { host: parsed.protocol, path: url };
+  } catch {
+    return { host: 'unknown', path: url };
+  }
+}
+
+function statusColor(status?: number) {
+  if (status && status >= 500) {
+    return COLORS.danger;
+  }
+  return status && status >= 400 ? COLORS.warning : COLORS.text;
+}
+
+/**
+ * Every request in a table grouped by host, busiest hosts first, with
+ * per-host totals. Rows with 4xx and 5xx responses are colored.
+ */
+function drawRequestAppendix(layout: PdfLayout, t: Messages, requests: NetworkRequest[]): void {
+  const groups = new Map<string, Array<NetworkRequest & { path: string }>>();
+  for (const request of requests) {
+    const { host, path } = splitRequestUrl(request.url);
+    const group = groups.get(host) || [];
+    group.push({ ...request, path });
+    groups.set(host, group);
+  }
+  const hosts = [...groups.entries()].sort(([a, x], [b, y]) => y.length - x.length || a.localeCompare(b));
+  
+  layout.pageBreak();
+  layout.heading(t.appendix.title);
+  layout.text(t.appendix.intro(requests.length, hosts.length), { size: 10, color: COLORS.muted });
+  
+  const pathWidth = layout.contentWidth - APPENDIX_COLUMNS.path;
+  layout.startTable([
+    { text: t.appendix.columns.method, x: APPENDIX_COLUMNS.method, width: 40 },
+    { text: t.appendix.columns.status, x: APPENDIX_COLUMNS.status, width: 35 },
+    { text: t.appendix.columns.type, x: APPENDIX_COLUMNS.type, width: 70 },
+    { text: t.appendix.columns.path, x: APPENDIX_COLUMNS.path, width: pathWidth }
+  ], APPENDIX_SIZE);
+  
+  for (const [host, rows] of hosts) {
+    const errors = rows.filter(row => row.status && row.status >= 400).length;
+    
+    // Keep the host line with its first request
+    layout.ensureSpace(3 * APPENDIX_SIZE + 14);
+    layout.row([
+      { text: host, x: 0, width: layout.contentWidth - 150, bold: true },
+      {
+        text: `${t.appendix.requests(rows.length)}${errors > 0 ? `, ${t.appendix.errors(errors)}` : ''}`,
+        x: layout.contentWidth - 140,
+        width: 140,
+        color: errors > 0 ? COLORS.warning : COLORS.muted
+      }
+    ], APPENDIX_SIZE + 1, 4);
+    
+    for (const row of rows) {
+      const color = statusColor(row.status);
+      // Cap very long data: URLs before measuring them
+      const path = fitText(layout.printable(row.path.slice(0, 500)), layout.regularFont, APPENDIX_SIZE, pathWidth);
+      const cells: Cell[] = [
+        { text: row.method || 'GET', x: APPENDIX_COLUMNS.method, width: 40, color },
+        { text: row.status ? String(row.status) : '-', x: APPENDIX_COLUMNS.status, width: 35, color },
+        { text: row.type || 'other', x: APPENDIX_COLUMNS.type, width: 70, color },
+        { text: path, x: APPENDIX_COLUMNS.path, width: pathWidth, color }
+      ];
+      layout.row(cells, APPENDIX_SIZE, 3);
+    }
+    layout.space(6);
+  }
+  
+  layout.endTable();
+}
 
 export async function generatePDFReport(
-  scanResult: RadarScanResult,
-  url: string
+  report: ScanReport,
+  options: PDFReportOptions = {}
 ): Promise<Uint8Array> {
-  // Create PDF document
-  const pdfDoc = await PDFDocument.create();
-  const page = pdfDoc.addPage([595, 842]); // A4 size in points
-  
-  // Embed fonts
-  const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
-  const regularFont = await pdfDoc.embedFont(StandardFonts.Helvetica);
-  
-  const { width, height } = page.getSize();
-  let yPosition = height - 50;
-  
-  // Helper function to draw text
-  const drawText = (text: string, size: number, font: typeof regularFont | typeof boldFont, color = rgb(0, 0, 0)) => {
-    page.drawText(text, {
-      x: 50,
-      y: yPosition,
-      size,
-      font,
-      color
-    });
-    yPosition -= size + 10;
+  const { scan, verdict } = report;
+  const { locale } = options;
+  const t = getMessages(locale);
+  const labels = t.report.labels;
+  const branding = options.branding ?? DEFAULT_BRANDING;
+  const title = t.report.title(branding.companyName);
+  const date = (value: number | string) => formatDateTime(value, locale);
+  const verdictLabel = (malicious: boolean) => (malicious ? t.verdicts.malicious : t.verdicts.safe);
+  
+  const layout = await createBrandedLayout(branding, options, title, scan.url, true);
+  
+  const bullet = (text: string, color = COLORS.text) => {
+    layout.text(text, { size: 10, color, hangingIndent: BULLET_INDENT });
   };
+  const field = (label: string, value: string | number) => t.field(label, String(value));
   
-  // Header with RadarScan branding
-  drawText('RadarScan Security Report', 24, boldFont, rgb(0.96, 0.51, 0.12));
-  yPosition -= 10;
+  await drawTitle(layout, branding, title);
+  layout.space(12);
   
   // Scan metadata
-  drawText(`URL: ${url}`, 12, regularFont);
-  drawText(`Scanned: ${new Date().toLocaleString()}`, 10, regularFont, rgb(0.4, 0.4, 0.4));
-  drawText(`Scan ID: ${scanResult.task.uuid}`, 10, regularFont, rgb(0.4, 0.4, 0.4));
-  drawText(`Visibility: ${scanResult.task.visibility}`, 10, regularFont, rgb(0.4, 0.4, 0.4));
-  yPosition -= 20;
+  layout.text(field(labels.url, scan.url), { size: 12 });
+  const detail = (text: string) => layout.text(text, { size: 10, color: COLORS.muted });
+  detail(field(labels.scanned, date(Date.now())));
+  detail(field(labels.scanId, scan.radarUuid));
+  detail(field(labels.visibility, scan.visibility));
+  if (scan.options?.userAgent) {
+    detail(field(labels.userAgent, scan.options.userAgent));
+  }
+  if (scan.options?.referer) {
+    detail(field(labels.referer, scan.options.referer));
+  }
+  if (scan.options?.customHeaderNames && scan.options.customHeaderNames.length > 0) {
+    detail(field(labels.customHeaders, scan.options.customHeaderNames.join(', ')));
+  }
+  if (scan.options?.screenshotsResolutions) {
+    detail(field(labels.screenshotSizes, scan.options.screenshotsResolutions.join(', ')));
+  }
+  if (scan.cacheHit) {
+    detail(field(labels.source, t.report.cachedSource(date(scan.cachedAt || scan.scannedAt))));
+  }
+  layout.space(20);
+  
+  // Page screenshot (first page, below the metadata)
+  if (options.screenshot) {
+    try {
+      await layout.image(options.screenshot, 220);
+    } catch (error) {
+      console.error('[PDF] Failed to embed screenshot:', error);
+    }
+  }
   
   // Security Verdict Section
-  drawText('Security Verdict', 16, boldFont);
-  yPosition -= 5;
+  layout.heading(t.report.sections.verdict);
+  layout.text(verdictLabel(verdict.malicious), { size: 14, bold: true, color: verdict.malicious ? COLORS.danger : COLORS.safe });
+  
+  if (verdict.categories.length > 0) {
+    layout.text(field(labels.categories, verdict.categories.join(', ')), { size: 10 });
+  }
+  
+  if (verdict.tags.length > 0) {
+    layout.text(field(labels.tags, verdict.tags.join(', ')), { size: 10 });
+  }
+  layout.space(20);
   
-  const isMalicious = scanResult.verdicts?.overall?.malicious || false;
-  const verdictText = isMalicious ? 'MALICIOUS' : 'SAFE';
-  const verdictColor = isMalicious ? rgb(0.8, 0, 0) : rgb(0, 0.6, 0);
-  drawText(verdictText, 14, boldFont, verdictColor);
+  // Composite risk score and what contributed to it
+  const { risk } = report;
+  const riskLevel = t.riskLevels[risk.level];
+  layout.heading(t.report.sections.riskScore);
+  layout.gauge(risk.score, { label: t.report.riskLevel(riskLevel), color: RISK_COLORS[risk.level] });
   
-  if (scanResult.verdicts?.overall?.categories?.length > 0) {
-    drawText(`Categories: ${scanResult.verdicts.overall.categories.join(', ')}`, 10, regularFont);
+  if (risk.factors.length === 0) {
+    layout.text(t.report.noRiskFactors, { size: 10, color: COLORS.muted });
+  }
+  for (const factor of risk.factors) {
+    bullet(`+${formatNumber(factor.points, locale)} ${field(factor.label, factor.detail)}`);
   }
+  layout.space(20);
   
-  if (scanResult.verdicts?.overall?.tags?.length > 0) {
-    drawText(`Tags: ${scanResult.verdicts.overall.tags.join(', ')}`, 10, regularFont);
+  // Changes since the previous scan of this URL
+  if (options.diff) {
+    const { diff } = options;
+    const changes = t.report.changes;
+    
+    layout.heading(t.report.sections.changes);
+    detail(t.report.comparedWith(date(diff.from.scannedAt)));
+    
+    if (!diff.hasChanges) {
+      layout.text(t.report.noChanges, { color: COLORS.safe });
+    }
+    
+    if (diff.verdict.changed) {
+      layout.text(
+        field(labels.verdict, `${verdictLabel(diff.verdict.fromMalicious)} -> ${verdictLabel(diff.verdict.toMalicious)}`),
+        { bold: true, color: diff.verdict.toMalicious ? COLORS.danger : COLORS.safe }
+      );
+    }
+    
+    const drawListDiff = (label: string, list: ListDiff) => {
+      // Long lists are capped so the section stays readable
+      list.added.slice(0, 10).forEach(item => bullet(`+ ${field(label, item)}`, COLORS.warning));
+      list.removed.slice(0, 10).forEach(item => bullet(`- ${field(label, item)}`, COLORS.muted));
+      const hidden = Math.max(list.added.length - 10, 0) + Math.max(list.removed.length - 10, 0);
+      if (hidden > 0) {
+        bullet(`  ${t.report.moreChanges(hidden, label)}`, COLORS.muted);
+      }
+    };
+    
+    drawListDiff(changes.category, diff.verdict.categories);
+    drawListDiff(changes.domain, diff.domains);
+    drawListDiff(changes.script, diff.scripts);
+    drawListDiff(changes.ip, diff.ips);
+    drawListDiff(changes.asn, diff.asns);
+    drawListDiff(changes.country, diff.countries);
+    
+    diff.technologies.added.forEach(tech => {
+      bullet(`+ ${field(changes.technology, `${tech.name}${tech.version ? ` ${tech.version}` : ''}`)}`, COLORS.warning);
+    });
+    diff.technologies.removed.forEach(tech => {
+      bullet(`- ${field(changes.technology, `${tech.name}${tech.version ? ` ${tech.version}` : ''}`)}`, COLORS.muted);
+    });
+    diff.technologies.versionChanged.forEach(tech => {
+      const versions = `${tech.from || t.report.unknown} -> ${tech.to || t.report.unknown}`;
+      bullet(`~ ${field(changes.technology, `${tech.name} ${versions}`)}`, COLORS.warning);
+    });
+    
+    drawListDiff(changes.cookie, diff.cookies);
+    diff.cookies.changed.forEach(cookie => {
+      bullet(`~ ${field(changes.cookie, `${cookie.cookie} (${cookie.changes.join(', ')})`)}`, COLORS.warning);
+    });
+    
+    if (diff.certificate.issuerChanged) {
+      const from = diff.certificate.from?.issuer || t.report.none;
+      const to = diff.certificate.to?.issuer || t.report.none;
+      bullet(`~ ${field(changes.certificateIssuer, `${from} -> ${to}`)}`, COLORS.warning);
+    }
+    if (diff.certificate.validityChanged) {
+      const from = diff.certificate.from?.validTo || t.report.notAvailable;
+      const to = diff.certificate.to?.validTo || t.report.notAvailable;
+      bullet(`~ ${field(changes.certificateValidTo, `${from} -> ${to}`)}`, COLORS.warning);
+    }
+    layout.space(20);
   }
-  yPosition -= 20;
   
   // Page Information
-  drawText('Page Information', 16, boldFont);
-  yPosition -= 5;
-  drawText(`Domain: ${scanResult.page.domain}`, 11, regularFont);
-  drawText(`IP Address: ${scanResult.page.ip}`, 11, regularFont);
-  drawText(`Country: ${scanResult.page.country}`, 11, regularFont);
-  drawText(`ASN: ${scanResult.page.asn}`, 11, regularFont);
-  drawText(`HTTP Status: ${scanResult.page.status}`, 11, regularFont);
-  
-  if (scanResult.page.title) {
-    drawText(`Page Title: ${scanResult.page.title}`, 11, regularFont);
+  layout.heading(t.report.sections.pageInformation);
+  layout.text(field(labels.domain, report.page.domain));
+  layout.text(field(labels.ipAddress, report.page.ip));
+  layout.text(field(labels.country, report.page.country));
+  layout.text(field(labels.asn, report.page.asn));
+  layout.text(field(labels.httpStatus, report.page.status));
+  
+  if (report.page.title) {
+    layout.text(field(labels.pageTitle, report.page.title));
   }
-  yPosition -= 20;
+  layout.space(20);
   
   // Technologies Detected
-  if (scanResult.meta?.processors?.wappa?.data && scanResult.meta.processors.wappa.data.length > 0) {
-    drawText('Technologies Detected', 16, boldFont);
-    yPosition -= 5;
+  if (report.technologies.length > 0) {
+    layout.heading(t.report.sections.technologies);
     
-    const technologies = scanResult.meta.processors.wappa.data.slice(0, 10); // Top 10
+    const technologies = report.technologies.slice(0, 10); // Top 10
     for (const tech of technologies) {
-      const techText = `- ${tech.app} (${tech.categories.map(c => c.name).join(', ')})`;
-      drawText(techText, 10, regularFont);
+      bullet(`- ${tech.name} (${tech.categories.join(', ')})`);
     }
-    yPosition -= 20;
+    layout.space(20);
   }
   
   // Network Statistics
-  drawText('Network Statistics', 16, boldFont);
-  yPosition -= 5;
-  drawText(`Total Requests: ${scanResult.data.requests?.length || 0}`, 11, regularFont);
-  drawText(`Unique IPs: ${scanResult.stats?.uniqIPs || 0}`, 11, regularFont);
-  drawText(`Unique Countries: ${scanResult.stats?.uniqCountries || 0}`, 11, regularFont);
-  drawText(`Data Transferred: ${((scanResult.stats?.dataLength || 0) / 1024).toFixed(2)} KB`, 11, regularFont);
-  
-  // Additional data insights
-  if (scanResult.data.cookies && Array.isArray(scanResult.data.cookies)) {
-    drawText(`Cookies Found: ${scanResult.data.cookies.length}`, 11, regularFont);
-  }
-  if (scanResult.data.links && Array.isArray(scanResult.data.links)) {
-    drawText(`Links Found: ${scanResult.data.links.length}`, 11, regularFont);
-  }
-  if (scanResult.data.console && Array.isArray(scanResult.data.console)) {
-    drawText(`Console Messages: ${scanResult.data.console.length}`, 11, regularFont);
-  }
-  yPosition -= 20;
+  const { network } = report;
+  const kilobytes = formatNumber(network.dataTransferredBytes / 1024, locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  layout.heading(t.report.sections.networkStatistics);
+  layout.text(field(labels.totalRequests, network.totalRequests));
+  layout.text(field(labels.uniqueIps, network.uniqueIps));
+  layout.text(field(labels.uniqueCountries, network.uniqueCountries));
+  layout.text(field(labels.dataTransferred, `${kilobytes} KB`));
+  layout.text(field(labels.cookiesFound, report.cookies.total));
+  layout.text(field(labels.linksFound, network.linksFound));
+  layout.text(field(labels.consoleMessages, network.consoleMessages));
+  layout.space(20);
   
   // Domains Contacted
-  if (scanResult.lists?.domains && scanResult.lists.domains.length > 0) {
-    drawText('Domains Contacted', 16, boldFont);
-    yPosition -= 5;
+  if (report.iocs.domains.length > 0) {
+    layout.heading(t.report.sections.domainsContacted);
     
-    const domains = scanResult.lists.domains.slice(0, 15); // Top 15
+    const domains = report.iocs.domains.slice(0, 15); // Top 15
     for (const domain of domains) {
-      if (yPosition < 100) {
-        // Add new page if running out of space
-        const newPage = pdfDoc.addPage([595, 842]);
-        yPosition = height - 50;
-        page.drawText = newPage.drawText.bind(newPage);
-      }
-      drawText(`- ${domain}`, 10, regularFont);
+      bullet(`- ${domain}`);
     }
-    yPosition -= 20;
+    layout.space(20);
   }
   
   // Request Analysis
-  if (scanResult.data.requests && scanResult.data.requests.length > 0) {
-    if (yPosition < 200) {
-      const newPage = pdfDoc.addPage([595, 842]);
-      yPosition = height - 50;
-      page.drawText = newPage.drawText.bind(newPage);
-    }
-    
-    drawText('Request Analysis', 16, boldFont);
-    yPosition -= 5;
-    
-    // Count request types
-    const requestTypes: Record<string, number> = {};
-    const failedRequests = scanResult.data.requests.filter(r => r.status && r.status >= 400);
-    
-    scanResult.data.requests.forEach(req => {
-      const type = req.type || 'other';
-      requestTypes[type] = (requestTypes[type] || 0) + 1;
-    });
+  if (network.totalRequests > 0) {
+    layout.heading(t.report.sections.requestAnalysis);
     
-    drawText(`Total Requests: ${scanResult.data.requests.length}`, 11, regularFont);
-    if (failedRequests.length > 0) {
-      drawText(`Failed Requests: ${failedRequests.length}`, 11, regularFont, rgb(0.8, 0.4, 0));
+    layout.text(field(labels.totalRequests, network.totalRequests));
+    if (network.failedRequests > 0) {
+      layout.text(field(labels.failedRequests, network.failedRequests), { color: COLORS.warning });
     }
     
     // Show request type breakdown
-    Object.entries(requestTypes).slice(0, 5).forEach(([type, count]) => {
-      drawText(`  ${type}: ${count}`, 10, regularFont);
+    Object.entries(network.requestTypes).slice(0, 5).forEach(([type, count]) => {
+      layout.text(field(type, count), { size: 10, indent: BULLET_INDENT });
     });
-    yPosition -= 20;
+    layout.space(20);
   }
   
   // Cookie Security Analysis
-  if (scanResult.data.cookies && scanResult.data.cookies.length > 0) {
-    if (yPosition < 150) {
-      const newPage = pdfDoc.addPage([595, 842]);
-      yPosition = height - 50;
-      page.drawText = newPage.drawText.bind(newPage);
-    }
-    
-    drawText('Cookie Security', 16, boldFont);
-    yPosition -= 5;
-    
-    const secureCookies = scanResult.data.cookies.filter(c => c.secure);
-    const httpOnlyCookies = scanResult.data.cookies.filter(c => c.httpOnly);
-    const thirdPartyCookies = scanResult.data.cookies.filter(c => c.domain && !c.domain.includes(scanResult.page.domain));
+  if (report.cookies.total > 0) {
+    layout.heading(t.report.sections.cookieSecurity);
     
-    drawText(`Total Cookies: ${scanResult.data.cookies.length}`, 11, regularFont);
-    drawText(`Secure Cookies: ${secureCookies.length}`, 11, regularFont);
-    drawText(`HttpOnly Cookies: ${httpOnlyCookies.length}`, 11, regularFont);
-    if (thirdPartyCookies.length > 0) {
-      drawText(`Third-Party Cookies: ${thirdPartyCookies.length}`, 11, regularFont, rgb(0.8, 0.4, 0));
+    layout.text(field(labels.totalCookies, report.cookies.total));
+    layout.text(field(labels.secureCookies, report.cookies.secure));
+    layout.text(field(labels.httpOnlyCookies, report.cookies.httpOnly));
+    if (report.cookies.thirdParty > 0) {
+      layout.text(field(labels.thirdPartyCookies, report.cookies.thirdParty), { color: COLORS.warning });
     }
-    yPosition -= 20;
+    layout.space(20);
   }
   
   // Console Errors & Warnings
-  if (scanResult.data.console && scanResult.data.console.length > 0) {
-    if (yPosition < 150) {
-      const newPage = pdfDoc.addPage([595, 842]);
-      yPosition = height - 50;
-      page.drawText = newPage.drawText.bind(newPage);
-    }
-    
-    drawText('Console Messages', 16, boldFont);
-    yPosition -= 5;
-    
-    const errors = scanResult.data.console.filter(c => c.type === 'error');
-    const warnings = scanResult.data.console.filter(c => c.type === 'warning');
+  if (network.consoleMessages > 0) {
+    layout.heading(t.report.sections.consoleMessages);
     
-    drawText(`Total Messages: ${scanResult.data.console.length}`, 11, regularFont);
-    if (errors.length > 0) {
-      drawText(`Errors: ${errors.length}`, 11, regularFont, rgb(0.8, 0, 0));
+    layout.text(field(labels.totalMessages, network.consoleMessages));
+    if (network.consoleErrors > 0) {
+      layout.text(field(labels.errors, network.consoleErrors), { color: COLORS.danger });
     }
-    if (warnings.length > 0) {
-      drawText(`Warnings: ${warnings.length}`, 11, regularFont, rgb(0.8, 0.4, 0));
+    if (network.consoleWarnings > 0) {
+      layout.text(field(labels.warnings, network.consoleWarnings), { color: COLORS.warning });
     }
-    yPosition -= 20;
+    layout.space(20);
   }
   
   // SSL/TLS Certificate Info
-  if (scanResult.page.securityDetails) {
-    if (yPosition < 150) {
-      const newPage = pdfDoc.addPage([595, 842]);
-      yPosition = height - 50;
-      page.drawText = newPage.drawText.bind(newPage);
-    }
-    
-    drawText('SSL/TLS Certificate', 16, boldFont);
-    yPosition -= 5;
+  if (report.tls) {
+    layout.heading(t.report.sections.tls);
     
-    if (scanResult.page.securityDetails.protocol) {
-      drawText(`Protocol: ${scanResult.page.securityDetails.protocol}`, 11, regularFont);
+    if (report.tls.protocol) {
+      layout.text(field(labels.protocol, report.tls.protocol));
     }
-    if (scanResult.page.securityDetails.issuer) {
-      drawText(`Issuer: ${scanResult.page.securityDetails.issuer}`, 11, regularFont);
+    if (report.tls.issuer) {
+      layout.text(field(labels.issuer, report.tls.issuer));
     }
-    if (scanResult.page.securityDetails.validFrom && scanResult.page.securityDetails.validTo) {
-      drawText(`Valid: ${scanResult.page.securityDetails.validFrom} to ${scanResult.page.securityDetails.validTo}`, 10, regularFont);
+    if (report.tls.validFrom && report.tls.validTo) {
+      layout.text(field(labels.valid, t.report.validRange(report.tls.validFrom, report.tls.validTo)), { size: 10 });
     }
-    yPosition -= 20;
+    layout.space(20);
   }
   
   // Phishing Detection
-  if (scanResult.meta?.processors?.phishing?.data && scanResult.meta.processors.phishing.data.length > 0) {
-    if (yPosition < 150) {
-      const newPage = pdfDoc.addPage([595, 842]);
-      yPosition = height - 50;
-      page.drawText = newPage.drawText.bind(newPage);
-    }
-    
-    drawText('Phishing Indicators', 16, boldFont, rgb(0.8, 0, 0));
-    yPosition -= 5;
+  if (report.phishing.indicators.length > 0) {
+    layout.heading(t.report.sections.phishing, { color: COLORS.danger });
     
-    for (const indicator of scanResult.meta.processors.phishing.data) {
-      drawText(`WARNING: ${indicator}`, 10, regularFont, rgb(0.8, 0, 0));
+    for (const indicator of report.phishing.indicators) {
+      layout.text(t.report.warning(indicator), { size: 10, color: COLORS.danger });
     }
-    yPosition -= 20;
+    layout.space(20);
   }
   
   // Malicious Content Detection
-  if (scanResult.stats.malicious && (scanResult.stats.malicious.requests || scanResult.stats.malicious.domains)) {
-    if (yPosition < 150) {
-      const newPage = pdfDoc.addPage([595, 842]);
-      yPosition = height - 50;
-      page.drawText = newPage.drawText.bind(newPage);
-    }
-    
-    drawText('Malicious Content Detected', 16, boldFont, rgb(0.8, 0, 0));
-    yPosition -= 5;
+  if (report.maliciousContent.requests || report.maliciousContent.domains) {
+    layout.heading(t.report.sections.maliciousContent, { color: COLORS.danger });
     
-    if (scanResult.stats.malicious.requests) {
-      drawText(`Malicious Requests: ${scanResult.stats.malicious.requests}`, 11, regularFont, rgb(0.8, 0, 0));
+    if (report.maliciousContent.requests) {
+      layout.text(field(labels.maliciousRequests, report.maliciousContent.requests), { color: COLORS.danger });
     }
-    if (scanResult.stats.malicious.domains) {
-      drawText(`Malicious Domains: ${scanResult.stats.malicious.domains}`, 11, regularFont, rgb(0.8, 0, 0));
+    if (report.maliciousContent.domains) {
+      layout.text(field(labels.maliciousDomains, report.maliciousContent.domains), { color: COLORS.danger });
     }
-    yPosition -= 20;
+    layout.space(20);
   }
   
-  // Security Summary Box (if space available)
-  if (yPosition > 150) {
-    yPosition -= 10;
-    drawText('Security Summary', 16, boldFont);
-    yPosition -= 5;
-    
-    const threatLevel = isMalicious ? 'HIGH RISK' : 'LOW RISK';
-    const threatColor = isMalicious ? rgb(0.8, 0, 0) : rgb(0, 0.6, 0);
-    drawText(`Threat Level: ${threatLevel}`, 12, boldFont, threatColor);
-    
-    if (scanResult.lists?.ips && scanResult.lists.ips.length > 0) {
-      drawText(`Total IPs Contacted: ${scanResult.lists.ips.length}`, 10, regularFont);
-    }
-    if (scanResult.lists?.asns && scanResult.lists.asns.length > 0) {
-      drawText(`ASNs Involved: ${scanResult.lists.asns.length}`, 10, regularFont);
-    }
-    if (scanResult.lists?.countries && scanResult.lists.countries.length > 0) {
-      drawText(`Countries: ${scanResult.lists.countries.join(', ')}`, 10, regularFont);
-    }
+  // Security Summary
+  layout.heading(t.report.sections.summary);
+  layout.text(field(labels.riskScore, t.report.riskScore(risk.score, riskLevel)), { size: 12, bold: true, color: RISK_COLORS[risk.level] });
+  
+  if (report.iocs.ips.length > 0) {
+    layout.text(field(labels.ipsContacted, report.iocs.ips.length), { size: 10 });
+  }
+  if (report.iocs.asns.length > 0) {
+    layout.text(field(labels.asnsInvolved, report.iocs.asns.length), { size: 10 });
+  }
+  if (report.iocs.countries.length > 0) {
+    layout.text(field(labels.countries, report.iocs.countries.join(', ')), { size: 10 });
   }
   
-  // Footer
-  yPosition = 50;
-  page.drawText('Generated by RadarScan - Powered by Cloudflare Radar', {
-    x: 50,
-    y: yPosition,
-    size: 8,
-    font: regularFont,
-    color: rgb(0.5, 0.5, 0.5)
+  if (options.requests && options.requests.length > 0) {
+    drawRequestAppendix(layout, t, options.requests);
+  }
+  
+  return layout.finish();
+}
+
+/**
+ * Combined summary for a batch: one line per URL with its verdict
+ */
+export async function generateBatchSummaryPDF(
+  batch: BatchStatus,
+  branding: ResolvedBranding = DEFAULT_BRANDING,
+  language: ReportLanguage = {}
+): Promise<Uint8Array> {
+  const t = getMessages(language.locale);
+  const labels = t.batch.labels;
+  const field = (label: string, value: string | number) => t.field(label, String(value));
+  const title = t.batch.title(branding.companyName);
+  const layout = await createBrandedLayout(branding, language, title, t.batch.subtitle(batch.batchId));
+  
+  await drawTitle(layout, branding, title);
+  layout.space(10);
+  
+  const progress = formatNumber(batch.progressPercent / 100, language.locale, { style: 'percent' });
+  const detail = (text: string) => layout.text(text, { size: 10, color: COLORS.muted, gap: 8 });
+  detail(field(labels.batchId, batch.batchId));
+  detail(field(labels.submitted, formatDateTime(batch.createdAt, language.locale)));
+  detail(field(labels.status, batch.status === 'completed' ? t.batch.completed : t.batch.inProgress(progress)));
+  layout.space(20);
+  
+  layout.heading(t.batch.sections.overview);
+  layout.text(field(labels.totalUrls, batch.total), { gap: 8 });
+  layout.text(field(labels.completed, batch.completed), { gap: 8 });
+  if (batch.failed > 0) {
+    layout.text(field(labels.failed, batch.failed), { color: COLORS.warning, gap: 8 });
+  }
+  if (batch.inProgress > 0) {
+    layout.text(field(labels.inProgress, batch.inProgress), { gap: 8 });
+  }
+  layout.text(field(labels.malicious, batch.malicious), {
+    bold: true,
+    color: batch.malicious > 0 ? COLORS.danger : COLORS.safe,
+    gap: 8
   });
+  layout.space(20);
+  
+  layout.heading(t.batch.sections.verdicts);
   
-  page.drawText(`Report Date: ${new Date().toISOString()}`, {
-    x: width - 250,
-    y: yPosition,
-    size: 8,
-    font: regularFont,
-    color: rgb(0.5, 0.5, 0.5)
+  batch.items.forEach((item, index) => {
+    let label: string;
+    let color = COLORS.muted;
+    
+    if (item.status === 'completed') {
+      label = item.malicious ? t.verdicts.malicious : t.verdicts.safe;
+      color = item.malicious ? COLORS.danger : COLORS.safe;
+    } else if (item.status === 'failed' || item.status === 'expired') {
+      label = t.verdicts.failed;
+      color = COLORS.warning;
+    } else if (item.status === 'cancelled') {
+      label = t.verdicts.cancelled;
+    } else {
+      label = t.verdicts.pending;
+    }
+    
+    layout.row([
+      { text: `${index + 1}.`, x: 0, width: 25 },
+      // Wide enough for the longest translated label, e.g. FEHLGESCHLAGEN
+      { text: label, x: 25, width: 95, bold: true, color },
+      { text: item.url || item.sessionId, x: 125, width: layout.contentWidth - 125 }
+    ]);
   });
   
-  // Save and return PDF as Uint8Array
-  const pdfBytes = await pdfDoc.save();
-  return pdfBytes;
+  return layout.finish();
 }
@@ -0,0 +1,543 @@
+import fontkit from '@pdf-lib/fontkit';
+import { PDFDocument, rgb, StandardFonts, type Color, type PDFFont, type PDFPage } from 'pdf-lib';
+
+const PAGE_SIZE: [number, number] = [595, 842]; // A4 size in points
+const MARGIN_X = 50;
+const CONTENT_WIDTH = PAGE_SIZE[0] - 2 * MARGIN_X;
+
+// Running header and footer baselines; content flows between CONTENT_TOP and CONTENT_BOTTOM
+const HEADER_Y = PAGE_SIZE[1] - 30;
+const FOOTER_Y = 30;
+const CONTENT_TOP = PAGE_SIZE[1] - 65;
+const CONTENT_BOTTOM = 60;
+
+// A heading is only placed where this much of the section's body fits below it
+const KEEP_WITH_NEXT = 2 * (11 + 10);
+
+const TOC_LINE_HEIGHT = 20;
+
+// Breaking long words after these characters keeps URLs and hostnames readable
+const BREAK_AFTER = new Set(['/', '?', '&', '=', '.', '-', '_', '#', ':', ',', ';', '+', '、', '。']);
+
+export const COLORS = {
+  text: rgb(0, 0, 0),
+  muted: rgb(0.4, 0.4, 0.4),
+  faint: rgb(0.5, 0.5, 0.5),
+  border: rgb(0.8, 0.8, 0.8),
+  danger: rgb(0.8, 0, 0),
+  warning: rgb(0.8, 0.4, 0),
+  caution: rgb(0.85, 0.65, 0),
+  safe: rgb(0, 0.6, 0)
+};
+
+export interface TextOptions {
+  size?: number;          // Defaults to 11
+  bold?: boolean;
+  color?: Color;
+  indent?: number;        // From the left margin
+  hangingIndent?: number; // Extra indent for wrapped lines, e.g. to align under a bullet's text
+  gap?: number;           // Space after the paragraph; defaults to 10
+}
+
+export interface HeadingOptions {
+  size?: number;          // Defaults to 16
+  color?: Color;
+}
+
+export interface GaugeOptions {
+  label: string;          // Shown under the value
+  color: Color;           // Of the filled part of the arc
+}
+
+export interface ImageOptions {
+  border?: boolean;       // Thin gray border; defaults to true
+  gap?: number;           // Space after the image; defaults to 30
+}
+
+export interface Cell {
+  text: string;
+  x: number;              // From the left margin
+  width: number;
+  bold?: boolean;
+  color?: Color;
+}
+
+export interface LayoutFonts {
+  regular: Uint8Array;    // TrueType or OpenType font file
+  bold?: Uint8Array;      // Defaults to the regular font
+}
+
+// Text the layout draws itself, in the report's language
+export interface LayoutLabels {
+  contents: string;
+  page: (page: number, pageCount: number) => string;
+}
+
+export interface LayoutOptions {
+  // Running header, left and right
+  title: string;
+  subtitle?: string;
+  // Footer text left of the page number
+  footer: string;
+  // Second, smaller footer line, e.g. contact details
+  footerNote?: string;
+  // Color of the rule under the running header; defaults to the border gray
+  accent?: Color;
+  // Insert a contents page after the first page listing every heading
+  tableOfContents?: boolean;
+  // Fonts to embed instead of Helvetica, e.g. for Japanese text
+  fonts?: LayoutFonts;
+  // Defaults to English
+  labels?: LayoutLabels;
+}
+
+const DEFAULT_LABELS: LayoutLabels = {
+  contents: 'Contents',
+  page: (page, pageCount) => `Page ${page} of ${pageCount}`
+};
+
+interface Section {
+  title: string;
+  page: PDFPage;
+}
+
+interface TableHeader {
+  cells: Cell[];
+  size: number;
+}
+
+/**
+ * Where to split a word that is wider than the line: after the last URL
+ * punctuation that fits, or else after the last character that fits
+ */
+function breakPoint(word: string, font: PDFFont, size: number, maxWidth: number): number {
+  let fit = 1;
+  while (fit < word.length && font.widthOfTextAtSize(word.slice(0, fit + 1), size) <= maxWidth) {
+    fit++;
+  }
+
+  for (let i = fit; i > fit / 2; i--) {
+    if (BREAK_AFTER.has(word[i - 1])) {
+      return i;
+    }
+  }
+  return fit;
+}
+
+/**
+ * Word-wrap text; words that cannot fit on a line of their own are broken.
+ * Lines after the first may have a different width, e.g. for a hanging indent.
+ */
+export function wrapText(
+  text: string,
+  font: PDFFont,
+  size: number,
+  maxWidth: number,
+  nextLinesWidth = maxWidth
+): string[] {
+  const lines: string[] = [];
+  const lineWidth = () => (lines.length === 0 ? maxWidth : nextLinesWidth);
+  let line = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, size) <= lineWidth()) {
+      line = candidate;
+      continue;
+    }
+
+    if (line) {
+      lines.push(line);
+    }
+    let rest = word;
+    while (font.widthOfTextAtSize(rest, size) > lineWidth()) {
+      const cut = breakPoint(rest, font, size, lineWidth());
+      lines.push(rest.slice(0, cut));
+      rest = rest.slice(cut);
+    }
+    line = rest;
+  }
+
+  if (line || lines.length === 0) {
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Shorten text to a width with a trailing ellipsis
+ */
+export function fitText(text: string, font: PDFFont, size: number, maxWidth: number): string {
+  if (font.widthOfTextAtSize(text, size) <= maxWidth) {
+    return text;
+  }
+  let truncated = text;
+  while (truncated.length > 0 && font.widthOfTextAtSize(`${truncated}...`, size) > maxWidth) {
+    truncated = truncated.slice(0, -1);
+  }
+  return `${truncated}...`;
+}
+
+/**
+ * Flowing layout on A4 pages: wrapped paragraphs, headings kept with their
+ * content, a contents page, and running headers and footers with page numbers.
+ * Content is drawn top to bottom; a new page starts whenever the next line
+ * would cross the bottom margin.
+ */
+export class PdfLayout {
+  readonly doc: PDFDocument;
+  readonly regularFont: PDFFont;
+  readonly boldFont: PDFFont;
+  private readonly options: LayoutOptions;
+  private readonly labels: LayoutLabels;
+  // Characters Helvetica can encode; null for embedded fonts, which take any text
+  private readonly charset: Set<number> | null;
+  private readonly sections: Section[] = [];
+  private page: PDFPage;
+  private y = CONTENT_TOP;
+  // Column titles of the table being drawn, repeated at the top of each page it continues on
+  private tableHeader: TableHeader | null = null;
+
+  private constructor(doc: PDFDocument, regularFont: PDFFont, boldFont: PDFFont, options: LayoutOptions) {
+    this.doc = doc;
+    this.regularFont = regularFont;
+    this.boldFont = boldFont;
+    this.options = options;
+    this.labels = options.labels ?? DEFAULT_LABELS;
+    this.charset = options.fonts ? null : new Set(regularFont.getCharacterSet());
+    this.page = doc.addPage(PAGE_SIZE);
+  }
+
+  static async create(options: LayoutOptions): Promise<PdfLayout> {
+    const doc = await PDFDocument.create();
+    if (!options.fonts) {
+      const regularFont = await doc.embedFont(StandardFonts.Helvetica);
+      const boldFont = await doc.embedFont(StandardFonts.HelveticaBold);
+      return new PdfLayout(doc, regularFont, boldFont, options);
+    }
+
+    // Subsetting keeps only the glyphs used, so a CJK font adds kilobytes rather than megabytes
+    doc.registerFontkit(fontkit);
+    const regularFont = await doc.embedFont(options.fonts.regular, { subset: true });
+    const boldFont = options.fonts.bold
+      ? await doc.embedFont(options.fonts.bold, { subset: true })
+      : regularFont;
+    return new PdfLayout(doc, regularFont, boldFont, options);
+  }
+
+  get contentWidth(): number {
+    return CONTENT_WIDTH;
+  }
+
+  /**
+   * Text with every character the fonts cannot encode replaced by "?".
+   * Helvetica only covers Western European text, and pdf-lib throws on
+   * anything else, e.g. an internationalized page title.
+   */
+  printable(text: string): string {
+    const charset = this.charset;
+    if (!charset) {
+      return text;
+    }
+    // Line breaks are handled by drawText. Other unencodable whitespace, e.g. a thin or
+    // narrow no-break space, becomes a plain space so wrapText can still split on it
+    // and unwrapped text such as the header and footer can be drawn as is.
+    return Array.from(text, char => {
+      if (charset.has(char.codePointAt(0)!) || char === '\n' || char === '\r') {
+        return char;
+      }
+      return /\s/.test(char) ? ' ' : '?';
+    }).join('');
+  }
+
+  private newPage(): void {
+    this.page = this.doc.addPage(PAGE_SIZE);
+    this.y = CONTENT_TOP;
+    if (this.tableHeader) {
+      this.drawTableHeader(this.tableHeader);
+    }
+  }
+
+  /**
+   * Continue on a new page unless nothing has been drawn on this one yet
+   */
+  pageBreak(): void {
+    if (this.y < CONTENT_TOP) {
+      this.newPage();
+    }
+  }
+
+  /**
+   * Start a new page unless `height` points still fit on this one
+   */
+  ensureSpace(height: number): void {
+    if (this.y - height < CONTENT_BOTTOM && this.y < CONTENT_TOP) {
+      this.newPage();
+    }
+  }
+
+  /**
+   * Vertical space; never starts a page by itself
+   */
+  space(points: number): void {
+    this.y -= points;
+  }
+
+  /**
+   * A paragraph, wrapped to the content width and continued on the next page if needed
+   */
+  text(text: string, options: TextOptions = {}): void {
+    const size = options.size ?? 11;
+    const font = options.bold ? this.boldFont : this.regularFont;
+    const indent = options.indent ?? 0;
+    const hangingIndent = options.hangingIndent ?? 0;
+    const gap = options.gap ?? 10;
+
+    const lines = wrapText(this.printable(text), font, size, CONTENT_WIDTH - indent, CONTENT_WIDTH - indent - hangingIndent);
+
+    lines.forEach((line, index) => {
+      this.ensureSpace(size);
+      this.page.drawText(line, {
+        x: MARGIN_X + indent + (index > 0 ? hangingIndent : 0),
+        y: this.y,
+        size,
+        font,
+        color: options.color ?? COLORS.text
+      });
+      this.y -= index < lines.length - 1 ? size * 1.25 : size + gap;
+    });
+  }
+
+  /**
+   * Section heading, listed in the contents and never left alone at the bottom of a page
+   */
+  heading(title: string, options: HeadingOptions = {}): void {
+    const size = options.size ?? 16;
+    this.ensureSpace(size + 15 + KEEP_WITH_NEXT);
+    this.sections.push({ title: this.printable(title), page: this.page });
+    this.text(title, { size, bold: true, color: options.color });
+    this.y -= 5;
+  }
+
+  /**
+   * PNG image scaled to the content width and `maxHeight`
+   */
+  async image(png: Uint8Array, maxHeight: number, options: ImageOptions = {}): Promise<void> {
+    const image = await this.doc.embedPng(png);
+    const scale = Math.min(CONTENT_WIDTH / image.width, maxHeight / image.height, 1);
+    const width = image.width * scale;
+    const height = image.height * scale;
+
+    this.ensureSpace(height);
+    this.y -= height;
+    this.page.drawImage(image, { x: MARGIN_X, y: this.y, width, height });
+    if (options.border ?? true) {
+      this.page.drawRectangle({
+        x: MARGIN_X,
+        y: this.y,
+        width,
+        height,
+        borderColor: COLORS.border,
+        borderWidth: 1
+      });
+    }
+    this.y -= options.gap ?? 30;
+  }
+
+  /**
+   * Half-circle gauge filled to `value` out of 100, with the value in the
+   * middle and a label underneath
+   */
+  gauge(value: number, options: GaugeOptions): void {
+    const radius = 55;
+    const thickness = 12;
+    const segments = 60;
+    const filled = Math.round((segments * Math.min(Math.max(value, 0), 100)) / 100);
+
+    this.ensureSpace(radius + thickness + 30);
+    const cx = MARGIN_X + radius + thickness;
+    const cy = this.y - radius - thickness / 2;
+    const point = (angle: number) => ({ x: cx + radius * Math.cos(angle), y: cy + radius * Math.sin(angle) });
+
+    // The arc is drawn as short thick chords from left (0) to right (100)
+    for (let i = 0; i < segments; i++) {
+      this.page.drawLine({
+        start: point(Math.PI * (1 - i / segments)),
+        end: point(Math.PI * (1 - (i + 1) / segments)),
+        thickness,
+        color: i < filled ? options.color : COLORS.border
+      });
+    }
+
+    const text = String(Math.round(value));
+    const valueSize = 24;
+    this.page.drawText(text, {
+      x: cx - this.boldFont.widthOfTextAtSize(text, valueSize) / 2,
+      y: cy + 6,
+      size: valueSize,
+      font: this.boldFont,
+      color: COLORS.text
+    });
+
+    const labelSize = 10;
+    const label = this.printable(options.label);
+    this.page.drawText(label, {
+      x: cx - this.boldFont.widthOfTextAtSize(label, labelSize) / 2,
+      y: cy - 16,
+      size: labelSize,
+      font: this.boldFont,
+      color: options.color
+    });
+
+    this.y = cy - 16 - labelSize - 14;
+  }
+
+  /**
+   * One table row; each cell wraps within its own width and the row moves
+   * to the next page as a whole
+   */
+  row(cells: Cell[], size = 10, gap = 8): void {
+    const wrapped = cells.map(cell => {
+      const font = cell.bold ? this.boldFont : this.regularFont;
+      return { cell, font, lines: wrapText(this.printable(cell.text), font, size, cell.width) };
+    });
+    const lineCount = Math.max(...wrapped.map(({ lines }) => lines.length));
+
+    this.ensureSpace(size + (lineCount - 1) * size * 1.25);
+    for (const { cell, font, lines } of wrapped) {
+      lines.forEach((line, index) => {
+        this.page.drawText(line, {
+          x: MARGIN_X + cell.x,
+          y: this.y - index * size * 1.25,
+          size,
+          font,
+          color: cell.color ?? COLORS.text
+        });
+      });
+    }
+    this.y -= (lineCount - 1) * size * 1.25 + size + gap;
+  }
+
+  /**
+   * Start a table: draws the column titles, and again on every page the
+   * table's rows continue on until `endTable`
+   */
+  startTable(cells: Cell[], size = 10): void {
+    const header = { cells: cells.map(cell => ({ ...cell, bold: true })), size };
+    // Keep the column titles with at least one row
+    this.ensureSpace(3 * size + 14);
+    this.drawTableHeader(header);
+    this.tableHeader = header;
+  }
+
+  endTable(): void {
+    this.tableHeader = null;
+  }
+
+  private drawTableHeader({ cells, size }: TableHeader): void {
+    this.row(cells, size, 4);
+    this.page.drawLine({
+      start: { x: MARGIN_X, y: this.y + size / 2 },
+      end: { x: MARGIN_X + CONTENT_WIDTH, y: this.y + size / 2 },
+      thickness: 0.5,
+      color: COLORS.border
+    });
+    this.y -= 4;
+  }
+
+  private drawTableOfContents(): void {
+    const entriesPerPage = Math.floor((CONTENT_TOP - 40 - CONTENT_BOTTOM) / TOC_LINE_HEIGHT);
+    const tocPageCount = Math.ceil(this.sections.length / entriesPerPage);
+    const tocPages = Array.from({ length: tocPageCount }, (_, i) => this.doc.insertPage(1 + i, PAGE_SIZE));
+    const pages = this.doc.getPages();
+    const size = 11;
+
+    tocPages.forEach((page, pageIndex) => {
+      let y = CONTENT_TOP;
+      if (pageIndex === 0) {
+        page.drawText(this.printable(this.labels.contents), { x: MARGIN_X, y, size: 18, font: this.boldFont, color: COLORS.text });
+      }
+      y -= 40;
+
+      for (const section of this.sections.slice(pageIndex * entriesPerPage, (pageIndex + 1) * entriesPerPage)) {
+        const pageNumber = String(pages.indexOf(section.page) + 1);
+        const numberWidth = this.regularFont.widthOfTextAtSize(pageNumber, size);
+        const title = fitText(section.title, this.regularFont, size, CONTENT_WIDTH - numberWidth - 40);
+        const titleWidth = this.regularFont.widthOfTextAtSize(title, size);
+
+        // Dot leader between the title and its page number
+        const dotWidth = this.regularFont.widthOfTextAtSize('.', size);
+        const leaderWidth = CONTENT_WIDTH - titleWidth - numberWidth - 12;
+        const leader = '.'.repeat(Math.max(Math.floor(leaderWidth / dotWidth), 0));
+
+        page.drawText(title, { x: MARGIN_X, y, size, font: this.regularFont, color: COLORS.text });
+        page.drawText(leader, { x: MARGIN_X + titleWidth + 6, y, size, font: this.regularFont, color: COLORS.border });
+        page.drawText(pageNumber, {
+          x: MARGIN_X + CONTENT_WIDTH - numberWidth,
+          y,
+          size,
+          font: this.regularFont,
+          color: COLORS.text
+        });
+        y -= TOC_LINE_HEIGHT;
+      }
+    });
+  }
+
+  private drawHeaderAndFooter(page: PDFPage, pageNumber: number, pageCount: number): void {
+    const size = 8;
+    const font = this.regularFont;
+    const right = MARGIN_X + CONTENT_WIDTH;
+
+    const title = this.printable(this.options.title);
+    const titleWidth = font.widthOfTextAtSize(title, size);
+    page.drawText(title, { x: MARGIN_X, y: HEADER_Y, size, font, color: COLORS.faint });
+    if (this.options.subtitle) {
+      const subtitle = fitText(this.printable(this.options.subtitle), font, size, CONTENT_WIDTH - titleWidth - 20);
+      page.drawText(subtitle, {
+        x: right - font.widthOfTextAtSize(subtitle, size),
+        y: HEADER_Y,
+        size,
+        font,
+        color: COLORS.faint
+      });
+    }
+    page.drawLine({
+      start: { x: MARGIN_X, y: HEADER_Y - 6 },
+      end: { x: right, y: HEADER_Y - 6 },
+      thickness: 0.5,
+      color: this.options.accent ?? COLORS.border
+    });
+
+    const pageLabel = this.printable(this.labels.page(pageNumber, pageCount));
+    const labelWidth = font.widthOfTextAtSize(pageLabel, size);
+    const footer = fitText(this.printable(this.options.footer), font, size, CONTENT_WIDTH - labelWidth - 20);
+    page.drawText(footer, { x: MARGIN_X, y: FOOTER_Y, size, font, color: COLORS.faint });
+    page.drawText(pageLabel, {
+      x: right - labelWidth,
+      y: FOOTER_Y,
+      size,
+      font,
+      color: COLORS.faint
+    });
+    if (this.options.footerNote) {
+      const noteSize = 7;
+      const note = fitText(this.printable(this.options.footerNote), font, noteSize, CONTENT_WIDTH);
+      page.drawText(note, { x: MARGIN_X, y: FOOTER_Y - 10, size: noteSize, font, color: COLORS.faint });
+    }
+  }
+
+  /**
+   * Add the contents page and the running header and footer, then serialize
+   */
+  async finish(): Promise<Uint8Array> {
+    if (this.options.tableOfContents && this.sections.length > 0) {
+      this.drawTableOfContents();
+    }
+
+    const pages = this.doc.getPages();
+    pages.forEach((page, index) => this.drawHeaderAndFooter(page, index + 1, pages.length));
+
+    return this.doc.save();
+  }
+}
@@ -0,0 +1,233 @@
+import type {
+  Env,
+  RadarScanResponse,
+  RadarScanResult,
+  RadarSearchResponse,
+  RadarSubmitRequest,
+  ScreenshotResolution
+} from '../types';
+import exampleFixture from '../fixtures/radar/example.json';
+import phishingFixture from '../fixtures/radar/phishing.json';
+import { FIXTURE_SCREENSHOT_BASE64 } from '../fixtures/radar/screenshot';
+import { RadarApiError } from '../utils/errors';
+
+/**
+ * Cloudflare Radar URL Scanner client
+ */
+export interface RadarClient {
+  submit(request: RadarSubmitRequest): Promise<RadarScanResponse>;
+  /** Returns null while the scan is still processing */
+  getResult(uuid: string): Promise<RadarScanResult | null>;
+  /** Returns null if no screenshot exists for the resolution */
+  getScreenshot(uuid: string, resolution?: ScreenshotResolution): Promise<ArrayBuffer | null>;
+  /** Returns null if the HAR is not available */
+  getHar(uuid: string): Promise<unknown | null>;
+  /** Returns null if the DOM snapshot is not available */
+  getDom(uuid: string): Promise<string | null>;
+  search(query: string, size?: number): Promise<RadarSearchResponse>;
+}
+
+/**
+ * Pick the Radar backend from RADAR_BACKEND ('api' by default, 'fixture' for offline use)
+ */
+export function createRadarClient(env: Env): RadarClient {
+  if (env.RADAR_BACKEND === 'fixture') {
+    return new FixtureRadarClient(env.RADAR_FIXTURE);
+  }
+  return new HttpRadarClient(env.CLOUDFLARE_ACCOUNT_ID, env.CLOUDFLARE_API_TOKEN);
+}
+
+/**
+ * Client for the live API at /accounts/:id/urlscanner/v2
+ */
+export class HttpRadarClient implements RadarClient {
+  private readonly baseUrl: string;
+  private readonly apiToken: string;
+
+  constructor(accountId: string, apiToken: string) {
+    this.baseUrl = `https://api.cloudflare.com/client/v4/accounts/${accountId}/urlscanner/v2`;
+    this.apiToken = apiToken;
+  }
+
+  async submit(request: RadarSubmitRequest): Promise<RadarScanResponse> {
+    const response = await this.request('/scan', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        url: request.url,
+        visibility: request.visibility || 'Unlisted',
+        customagent: request.userAgent,
+        referer: request.referer,
+        customHeaders: request.customHeaders,
+        screenshotsResolutions: request.screenshotsResolutions
+      })
+    });
+    return await response.json<RadarScanResponse>();
+  }
+
+  async getResult(uuid: string): Promise<RadarScanResult | null> {
+    const response = await this.request(`/result/${uuid}`, {}, true);
+    return response ? await response.json<RadarScanResult>() : null;
+  }
+
+  async getScreenshot(uuid: string, resolution: ScreenshotResolution = 'desktop'): Promise<ArrayBuffer | null> {
+    const response = await this.request(`/screenshots/${uuid}.png?resolution=${resolution}`, {}, true);
+    return response ? await response.arrayBuffer() : null;
+  }
+
+  async getHar(uuid: string): Promise<unknown | null> {
+    const response = await this.request(`/har/${uuid}`, {}, true);
+    return response ? await response.json() : null;
+  }
+
+  async getDom(uuid: string): Promise<string | null> {
+    const response = await this.request(`/dom/${uuid}`, {}, true);
+    return response ? await response.text() : null;
+  }
+
+  async search(query: string, size = 20): Promise<RadarSearchResponse> {
+    const params = new URLSearchParams({ q: query, size: String(size) });
+    const response = await this.request(`/search?${params}`);
+    return await response.json<RadarSearchResponse>();
+  }
+
+  private request(path: string, init?: RequestInit): Promise<Response>;
+  private request(path: string, init: RequestInit, allowNotFound: true): Promise<Response | null>;
+  private async request(path: string, init: RequestInit = {}, allowNotFound = false): Promise<Response | null> {
+    const headers = new Headers(init.headers);
+    headers.set('Authorization', `Bearer ${this.apiToken}`);
+
+    const response = await fetch(`${this.baseUrl}${path}`, { ...init, headers });
+
+    if (response.status === 404 && allowNotFound) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new RadarApiError(response.status, await response.text());
+    }
+
+    return response;
+  }
+}
+
+const FIXTURES: Record<string, RadarScanResult> = {
+  example: exampleFixture as RadarScanResult,
+  phishing: phishingFixture as RadarScanResult
+};
+
+const DEFAULT_FIXTURE = 'example';
+
+/**
+ * Offline client that replays recorded results from worker/fixtures/radar.
+ * The fixture name is encoded in the scan UUID so lookups stay stateless
+ * across workflow steps.
+ */
+export class FixtureRadarClient implements RadarClient {
+  private readonly fixtureName?: string;
+
+  constructor(fixtureName?: string) {
+    this.fixtureName = fixtureName;
+  }
+
+  async submit(request: RadarSubmitRequest): Promise<RadarScanResponse> {
+    const name = this.pickFixture(request.url);
+    const uuid = `fixture-${name}-${crypto.randomUUID()}`;
+    console.log(`[RadarClient] Fixture scan ${uuid} for ${request.url}`);
+
+    return {
+      uuid,
+      url: request.url,
+      api: `fixture://result/${uuid}`,
+      result: `fixture://scan/${uuid}`,
+      visibility: request.visibility || 'Unlisted'
+    };
+  }
+
+  async getResult(uuid: string): Promise<RadarScanResult | null> {
+    const fixture = this.fixtureFor(uuid);
+    return {
+      ...fixture,
+      task: { ...fixture.task, uuid, time: new Date().toISOString() }
+    };
+  }
+
+  async getScreenshot(uuid: string): Promise<ArrayBuffer | null> {
+    this.fixtureFor(uuid);
+    const bytes = Uint8Array.from(atob(FIXTURE_SCREENSHOT_BASE64), c => c.charCodeAt(0));
+    return bytes.buffer;
+  }
+
+  async getHar(uuid: string): Promise<unknown | null> {
+    const fixture = this.fixtureFor(uuid);
+
+    // Synthesize a minimal HAR 1.2 log from the recorded requests
+    return {
+      log: {
+        version: '1.2',
+        creator: { name: 'RadarScan fixture', version: '1.0' },
+        pages: [{ id: 'page_1', title: fixture.page.title || fixture.page.url, startedDateTime: fixture.task.time }],
+        entries: fixture.data.requests.map(req => ({
+          pageref: 'page_1',
+          startedDateTime: fixture.task.time,
+          request: { method: req.method || 'GET', url: req.url, headers: [] },
+          response: { status: req.status || 0, headers: [], content: { mimeType: req.type || 'other' } }
+        }))
+      }
+    };
+  }
+
+  async getDom(uuid: string): Promise<string | null> {
+    const fixture = this.fixtureFor(uuid);
+    const escape = (s: string) => s.replace(/[<>&"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;' }[c] as string));
+
+    // Synthesize a DOM snapshot from the recorded page title and links
+    const links = fixture.data.links
+      .map(link => `    <a href="${escape(link.href)}">${escape(link.text || link.href)}</a>`)
+      .join('\n');
+    return `<!DOCTYPE html>\n<html>\n  <head><title>${escape(fixture.page.title || '')}</title></head>\n  <body>\n${links}\n  </body>\n</html>\n`;
+  }
+
+  async search(query: string, size = 20): Promise<RadarSearchResponse> {
+    const needle = query.toLowerCase();
+    const results = Object.values(FIXTURES)
+      .filter(fixture => fixture.page.url.toLowerCase().includes(needle) || fixture.page.domain.includes(needle))
+      .slice(0, size)
+      .map(fixture => ({
+        task: {
+          uuid: fixture.task.uuid,
+          url: fixture.task.url,
+          time: fixture.task.time,
+          visibility: fixture.task.visibility
+        },
+        page: {
+          url: fixture.page.url,
+          domain: fixture.page.domain,
+          country: fixture.page.country,
+          ip: fixture.page.ip,
+          asn: fixture.page.asn,
+          status: fixture.page.status
+        },
+        verdicts: { malicious: fixture.verdicts.overall.malicious }
+      }));
+
+    return { results };
+  }
+
+  // RADAR_FIXTURE wins; otherwise URLs that look like phishing replay the phishing fixture
+  private pickFixture(url: string): string {
+    if (this.fixtureName && FIXTURES[this.fixtureName]) {
+      return this.fixtureName;
+    }
+    return /phish|login|verify/i.test(url) ? 'phishing' : DEFAULT_FIXTURE;
+  }
+
+  private fixtureFor(uuid: string): RadarScanResult {
+    const name = uuid.match(/^fixture-([a-z0-9]+)-/)?.[1];
+    const fixture = name ? FIXTURES[name] : undefined;
+    if (!fixture) {
+      throw new RadarApiError(404, `Unknown fixture scan: ${uuid}`);
+    }
+    return fixture;
+  }
+}
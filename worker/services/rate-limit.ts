@@ -0,0 +1,87 @@
+import type { AuthContext, Env, RateLimitAction, RateLimitRequest, RateLimitResult } from '../types';
+
+const DEFAULT_LIMITS: Record<RateLimitAction, { perMinute: number; perDay: number }> = {
+  scan: { perMinute: 5, perDay: 100 },
+  email: { perMinute: 3, perDay: 20 }
+};
+
+function readLimit(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value !== undefined && Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Per-minute and per-day budgets for an action. A budget of 0 disables that window.
+ */
+export function getRateLimits(env: Env, action: RateLimitAction): RateLimitRequest['limits'] {
+  const defaults = DEFAULT_LIMITS[action];
+  const perMinute = action === 'scan'
+    ? readLimit(env.RATE_LIMIT_SCANS_PER_MINUTE, defaults.perMinute)
+    : readLimit(env.RATE_LIMIT_EMAILS_PER_MINUTE, defaults.perMinute);
+  const perDay = action === 'scan'
+    ? readLimit(env.RATE_LIMIT_SCANS_PER_DAY, defaults.perDay)
+    : readLimit(env.RATE_LIMIT_EMAILS_PER_DAY, defaults.perDay);
+
+  return [
+    { limit: perMinute, windowSeconds: 60 },
+    { limit: perDay, windowSeconds: 24 * 60 * 60 }
+  ].filter(limit => limit.limit > 0);
+}
+
+/**
+ * Limiter key: the API key when one was used, otherwise the client IP
+ */
+export function getRateLimitKey(request: Request, auth: AuthContext): string {
+  if (auth.type === 'api_key') {
+    return `key:${auth.apiKey.id}`;
+  }
+  return `ip:${request.headers.get('CF-Connecting-IP') || 'unknown'}`;
+}
+
+/**
+ * Take up to `cost` tokens for the action; `granted` says how many were available.
+ * Returns null when limiting is disabled or the limiter is unavailable (requests
+ * are allowed through rather than failing).
+ */
+export async function consumeRateLimit(
+  env: Env,
+  request: Request,
+  auth: AuthContext,
+  action: RateLimitAction,
+  cost = 1
+): Promise<RateLimitResult | null> {
+  const limits = getRateLimits(env, action);
+  if (limits.length === 0) {
+    return null;
+  }
+
+  try {
+    const limiter = env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(getRateLimitKey(request, auth)));
+    const response = await limiter.fetch('https://do/consume', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action, limits, cost } satisfies RateLimitRequest)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Rate limiter responded with ${response.status}`);
+    }
+
+    return await response.json<RateLimitResult>();
+  } catch (error) {
+    console.error('[RateLimit] Limiter unavailable, allowing request:', error);
+    return null;
+  }
+}
+
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(result.resetAt)
+  };
+  if (!result.allowed) {
+    headers['Retry-After'] = String(result.retryAfterSeconds);
+  }
+  return headers;
+}
@@ -0,0 +1,170 @@
+import type { Env, Locale, RadarScanResult, ReportScanOptions, ScanOptions, ScanReport, SessionState } from '../types';
+import { artifactKey } from './artifacts';
+import { computeRiskScore, getRiskWeights, type RiskWeights } from './risk-score';
+
+export interface ScanReportContext {
+  sessionId?: string;
+  url: string;
+  cacheHit?: boolean;
+  cachedAt?: number;
+  scanOptions?: ScanOptions;
+  // Defaults to DEFAULT_RISK_WEIGHTS
+  riskWeights?: RiskWeights;
+  // Language of the risk factor text; English when unset
+  locale?: Locale;
+}
+
+/**
+ * Build the normalized report model from a raw Radar result
+ */
+export function buildScanReport(scanResult: RadarScanResult, context: ScanReportContext): ScanReport {
+  const requests = scanResult.data?.requests || [];
+  const cookies = scanResult.data?.cookies || [];
+  const consoleMessages = scanResult.data?.console || [];
+  const malicious = scanResult.verdicts?.overall?.malicious || false;
+
+  const requestTypes: Record<string, number> = {};
+  requests.forEach(req => {
+    const type = req.type || 'other';
+    requestTypes[type] = (requestTypes[type] || 0) + 1;
+  });
+
+  const securityDetails = scanResult.page.securityDetails;
+  const risk = computeRiskScore(scanResult, context.riskWeights, context.locale);
+
+  return {
+    schemaVersion: 1,
+    generatedAt: new Date().toISOString(),
+    scan: {
+      sessionId: context.sessionId,
+      url: context.url,
+      radarUuid: scanResult.task.uuid,
+      scannedAt: scanResult.task.time,
+      visibility: scanResult.task.visibility,
+      cacheHit: context.cacheHit || false,
+      cachedAt: context.cachedAt ? new Date(context.cachedAt).toISOString() : undefined,
+      options: context.scanOptions && redactScanOptions(context.scanOptions)
+    },
+    verdict: {
+      malicious,
+      label: malicious ? 'MALICIOUS' : 'SAFE',
+      threatLevel: risk.level,
+      categories: scanResult.verdicts?.overall?.categories || [],
+      tags: scanResult.verdicts?.overall?.tags || [],
+      scanners: scanResult.verdicts?.urlScanners || {}
+    },
+    page: {
+      url: scanResult.page.url,
+      domain: scanResult.page.domain,
+      ip: scanResult.page.ip,
+      country: scanResult.page.country,
+      asn: scanResult.page.asn,
+      status: scanResult.page.status,
+      title: scanResult.page.title,
+      server: scanResult.page.server
+    },
+    technologies: (scanResult.meta?.processors?.wappa?.data || []).map(tech => ({
+      name: tech.app,
+      categories: tech.categories.map(c => c.name),
+      version: tech.version,
+      confidence: tech.confidenceTotal
+    })),
+    network: {
+      totalRequests: requests.length,
+      failedRequests: requests.filter(r => r.status && r.status >= 400).length,
+      requestTypes,
+      uniqueIps: scanResult.stats?.uniqIPs || 0,
+      uniqueCountries: scanResult.stats?.uniqCountries || 0,
+      dataTransferredBytes: scanResult.stats?.dataLength || 0,
+      secureRequests: scanResult.stats?.secureRequests,
+      linksFound: scanResult.data?.links?.length || 0,
+      consoleMessages: consoleMessages.length,
+      consoleErrors: consoleMessages.filter(c => c.type === 'error').length,
+      consoleWarnings: consoleMessages.filter(c => c.type === 'warning').length
+    },
+    cookies: {
+      total: cookies.length,
+      secure: cookies.filter(c => c.secure).length,
+      httpOnly: cookies.filter(c => c.httpOnly).length,
+      thirdParty: cookies.filter(c => c.domain && !c.domain.includes(scanResult.page.domain)).length
+    },
+    tls: securityDetails
+      ? {
+          protocol: securityDetails.protocol,
+          issuer: securityDetails.issuer,
+          validFrom: securityDetails.validFrom,
+          validTo: securityDetails.validTo
+        }
+      : null,
+    phishing: {
+      indicators: scanResult.meta?.processors?.phishing?.data || []
+    },
+    maliciousContent: {
+      requests: scanResult.stats?.malicious?.requests || 0,
+      domains: scanResult.stats?.malicious?.domains || 0
+    },
+    iocs: {
+      domains: scanResult.lists?.domains || [],
+      ips: scanResult.lists?.ips || [],
+      asns: scanResult.lists?.asns || [],
+      countries: scanResult.lists?.countries || [],
+      urls: scanResult.lists?.urls || []
+    },
+    risk
+  };
+}
+
+/**
+ * Drop custom header values, which may carry credentials, keeping only the header names
+ */
+function redactScanOptions(options: ScanOptions): ReportScanOptions {
+  const { customHeaders, ...rest } = options;
+  return customHeaders ? { ...rest, customHeaderNames: Object.keys(customHeaders) } : rest;
+}
+
+/**
+ * Load the stored Radar result for a session. Returns null if it is gone.
+ */
+export async function loadScanResult(env: Env, sessionId: string): Promise<{ result: RadarScanResult; url?: string } | null> {
+  const object = await env.radar_scan_reports.get(artifactKey(sessionId, 'result'));
+  if (!object) {
+    return null;
+  }
+  return {
+    result: await object.json<RadarScanResult>(),
+    url: object.customMetadata?.url
+  };
+}
+
+/**
+ * Build the report for a stored session from result.json plus whatever
+ * session context is still available in the Durable Object
+ */
+export async function loadScanReport(env: Env, sessionId: string): Promise<ScanReport | null> {
+  const stored = await loadScanResult(env, sessionId);
+  if (!stored) {
+    return null;
+  }
+
+  let session: SessionState | null = null;
+  try {
+    const sessionDO = env.SESSION_MANAGER.get(env.SESSION_MANAGER.idFromName(sessionId));
+    const response = await sessionDO.fetch('https://do/state');
+    if (response.ok) {
+      session = await response.json<SessionState>();
+    }
+  } catch (error) {
+    // Session state expires after 24 hours; the report still renders without it
+    console.error('[Report] Failed to load session state:', error);
+  }
+
+  return buildScanReport(stored.result, {
+    sessionId,
+    url: session?.url || stored.url || stored.result.task.url,
+    cacheHit: session?.cacheHit,
+    cachedAt: session?.cachedAt,
+    scanOptions: session?.scanOptions,
+    riskWeights: getRiskWeights(env),
+    locale: session?.locale
+  });
+}
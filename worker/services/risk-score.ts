@@ -0,0 +1,214 @@
+import type { Env, Locale, RadarScanResult, RiskFactor, RiskFactorId, RiskLevel, RiskScore } from '../types';
+import { DEFAULT_LOCALE, formatList, formatNumber, getMessages, type Messages } from '../i18n';
+
+export type RiskWeights = Record<RiskFactorId, number>;
+
+/**
+ * Maximum points each signal can add. They sum to more than 100 on purpose:
+ * a malicious verdict plus any corroborating signal should reach the top of
+ * the scale. Override with RISK_SCORE_WEIGHTS.
+ */
+export const DEFAULT_RISK_WEIGHTS: RiskWeights = {
+  maliciousVerdict: 60,
+  phishing: 25,
+  maliciousContent: 25,
+  tls: 15,
+  domainRank: 10,
+  thirdPartyDomains: 10,
+  cookies: 5,
+  failedRequests: 5
+};
+
+// Lower bound of each level's score range, highest first
+const LEVELS: Array<[RiskLevel, number]> = [['CRITICAL', 75], ['HIGH', 50], ['MEDIUM', 25], ['LOW', 0]];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Weights from RISK_SCORE_WEIGHTS (a JSON object of factor to points), on top
+ * of the defaults. Unknown factors and negative or non-numeric weights are ignored.
+ */
+export function getRiskWeights(env: Env): RiskWeights {
+  if (!env.RISK_SCORE_WEIGHTS) {
+    return DEFAULT_RISK_WEIGHTS;
+  }
+
+  let overrides: unknown;
+  try {
+    overrides = JSON.parse(env.RISK_SCORE_WEIGHTS);
+  } catch {
+    console.error('[Risk] RISK_SCORE_WEIGHTS is not valid JSON; using the default weights');
+    return DEFAULT_RISK_WEIGHTS;
+  }
+  if (typeof overrides !== 'object' || overrides === null || Array.isArray(overrides)) {
+    console.error('[Risk] RISK_SCORE_WEIGHTS must be a JSON object; using the default weights');
+    return DEFAULT_RISK_WEIGHTS;
+  }
+
+  const weights = { ...DEFAULT_RISK_WEIGHTS };
+  for (const [id, weight] of Object.entries(overrides)) {
+    if (id in weights && typeof weight === 'number' && Number.isFinite(weight) && weight >= 0) {
+      weights[id as RiskFactorId] = weight;
+    }
+  }
+  return weights;
+}
+
+export function riskLevel(score: number): RiskLevel {
+  return LEVELS.find(([, min]) => score >= min)![0];
+}
+
+// Radar reports certificate dates as ISO strings or Unix seconds
+function parseDate(value?: string): number {
+  if (!value) {
+    return NaN;
+  }
+  return /^\d+$/.test(value) ? Number(value) * 1000 : Date.parse(value);
+}
+
+// Last two labels of a hostname; close enough to tell first from third parties
+function siteOf(host: string): string {
+  return host.toLowerCase().replace(/\.$/, '').split('.').slice(-2).join('.');
+}
+
+/**
+ * Radar rank buckets read like "top 200" or "top 1000000"; null when unranked
+ */
+function rankOf(bucket?: string): number | null {
+  const match = bucket?.match(/^top\s+(\d+)$/i);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Each scorer returns the share of its weight earned (0 to 1) and why, in
+ * the report's language, or null when the signal is absent
+ */
+type Scorer = (
+  result: RadarScanResult,
+  scannedAt: number,
+  text: Messages['risk'],
+  locale: Locale
+) => { share: number; detail: string } | null;
+
+const SCORERS: Record<RiskFactorId, Scorer> = {
+  maliciousVerdict: (result, _scannedAt, text) => {
+    if (result.verdicts?.overall?.malicious) {
+      const categories = result.verdicts.overall.categories || [];
+      return { share: 1, detail: text.maliciousVerdict(categories.join(', ')) };
+    }
+    // A scanner flagging the page without changing the overall verdict counts for half
+    const scanners = Object.values(result.verdicts?.urlScanners || {});
+    const flagged = scanners.filter(scanner => scanner.malicious).length;
+    return flagged > 0
+      ? { share: 0.5, detail: text.scannersFlagged(flagged, scanners.length) }
+      : null;
+  },
+
+  phishing: (result, _scannedAt, text) => {
+    const indicators = result.meta?.processors?.phishing?.data || [];
+    return indicators.length > 0
+      ? { share: Math.min(indicators.length / 2, 1), detail: text.phishing(indicators.length, indicators.join(', ')) }
+      : null;
+  },
+
+  maliciousContent: (result, _scannedAt, text) => {
+    const requests = result.stats?.malicious?.requests || 0;
+    const domains = result.stats?.malicious?.domains || 0;
+    return requests + domains > 0
+      ? { share: Math.min((requests + domains) / 3, 1), detail: text.maliciousContent(requests, domains) }
+      : null;
+  },
+
+  tls: (result, scannedAt, text, locale) => {
+    if (result.page.url?.startsWith('http:')) {
+      return { share: 1, detail: text.plainHttp };
+    }
+
+    const details = result.page.securityDetails;
+    const validFrom = parseDate(details?.validFrom);
+    const validTo = parseDate(details?.validTo);
+    const reasons: string[] = [];
+    let share = 0;
+
+    if (validTo < scannedAt || validFrom > scannedAt) {
+      return { share: 1, detail: text.certificateInvalid };
+    }
+    if (validTo - scannedAt < 14 * DAY_MS) {
+      share += 0.5;
+      reasons.push(text.certificateExpires(Math.floor((validTo - scannedAt) / DAY_MS)));
+    }
+    // Freshly issued certificates are typical of short-lived phishing sites
+    const ageDays = Math.floor((scannedAt - validFrom) / DAY_MS);
+    if (ageDays < 7) {
+      share += 0.5;
+      reasons.push(text.certificateIssued(ageDays));
+    } else if (ageDays < 30) {
+      share += 0.25;
+      reasons.push(text.certificateIssued(ageDays));
+    }
+
+    return share > 0 ? { share: Math.min(share, 1), detail: text.certificate(formatList(reasons, locale)) } : null;
+  },
+
+  domainRank: (result, _scannedAt, text, locale) => {
+    const rank = rankOf(result.meta?.processors?.rank?.bucket);
+    if (rank === null) {
+      return { share: 1, detail: text.unranked };
+    }
+    const share = rank <= 1000 ? 0 : rank <= 10000 ? 0.25 : rank <= 100000 ? 0.5 : rank <= 1000000 ? 0.75 : 1;
+    return share > 0 ? { share, detail: text.ranked(formatNumber(rank, locale)) } : null;
+  },
+
+  thirdPartyDomains: (result, _scannedAt, text) => {
+    const site = siteOf(result.page.domain || '');
+    const domains = result.lists?.domains || [];
+    const thirdParty = domains.filter(domain => siteOf(domain) !== site).length;
+    return thirdParty > 0
+      ? { share: thirdParty / domains.length, detail: text.thirdPartyDomains(thirdParty, domains.length) }
+      : null;
+  },
+
+  cookies: (result, _scannedAt, text) => {
+    const cookies = result.data?.cookies || [];
+    const weak = cookies.filter(cookie => !cookie.secure || !cookie.httpOnly).length;
+    return weak > 0
+      ? { share: weak / cookies.length, detail: text.weakCookies(weak, cookies.length) }
+      : null;
+  },
+
+  failedRequests: (result, _scannedAt, text) => {
+    const requests = result.data?.requests || [];
+    const failed = requests.filter(request => request.status && request.status >= 400).length;
+    // Half of all requests failing already earns the full weight
+    return failed > 0
+      ? { share: Math.min((2 * failed) / requests.length, 1), detail: text.failedRequests(failed, requests.length) }
+      : null;
+  }
+};
+
+/**
+ * Weigh every scan signal into a 0-100 score. Factor labels and details are
+ * written in `locale`.
+ */
+export function computeRiskScore(
+  result: RadarScanResult,
+  weights: RiskWeights = DEFAULT_RISK_WEIGHTS,
+  locale: Locale = DEFAULT_LOCALE
+): RiskScore {
+  const scannedAt = Date.parse(result.task.time) || Date.now();
+  const text = getMessages(locale).risk;
+  const factors: RiskFactor[] = [];
+
+  for (const [id, scorer] of Object.entries(SCORERS) as Array<[RiskFactorId, Scorer]>) {
+    const signal = scorer(result, scannedAt, text, locale);
+    const points = signal ? Math.round(signal.share * weights[id] * 10) / 10 : 0;
+    if (signal && points > 0) {
+      factors.push({ id, label: text.labels[id], points, weight: weights[id], detail: signal.detail });
+    }
+  }
+
+  factors.sort((a, b) => b.points - a.points);
+  const score = Math.min(Math.round(factors.reduce((sum, factor) => sum + factor.points, 0)), 100);
+
+  return { score, level: riskLevel(score), factors };
+}
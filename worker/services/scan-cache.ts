@@ -0,0 +1,124 @@
+import type { Env, RadarScanResult, ScanOptions } from '../types';
+import { normalizeUrl, sha256Hex } from '../utils/url';
+import { retryWithBackoff, isRetryableD1Error } from '../utils/retry';
+
+export interface CachedScan {
+  radarUuid: string;
+  result: RadarScanResult;
+  cachedAt: number;
+  expiresAt: number;
+}
+
+const DEFAULT_CACHE_TTL_SECONDS = 60 * 60; // 1 hour
+
+/**
+ * Cache TTL from SCAN_CACHE_TTL_SECONDS, falling back to 1 hour
+ */
+export function getCacheTtlMs(env: Env): number {
+  const ttl = Number(env.SCAN_CACHE_TTL_SECONDS);
+  return (Number.isFinite(ttl) && ttl >= 0 ? ttl : DEFAULT_CACHE_TTL_SECONDS) * 1000;
+}
+
+/**
+ * Cache key for a URL (SHA-256 of the normalized URL). Scans with non-default
+ * options (user agent, referer, headers, ...) produce different results, so the
+ * options are folded into the key.
+ */
+export async function getCacheKey(url: string, options?: ScanOptions): Promise<string> {
+  const normalized = normalizeUrl(url);
+  if (!options || isDefaultScanOptions(options)) {
+    return sha256Hex(normalized);
+  }
+
+  const headers = Object.entries(options.customHeaders || {})
+    .map(([name, value]) => [name.toLowerCase(), value])
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  return sha256Hex(JSON.stringify([
+    normalized,
+    options.visibility,
+    options.userAgent || '',
+    options.referer || '',
+    headers,
+    [...(options.screenshotsResolutions || [])].sort()
+  ]));
+}
+
+function isDefaultScanOptions(options: ScanOptions): boolean {
+  const resolutions = options.screenshotsResolutions || ['desktop'];
+  return options.visibility === 'Unlisted' &&
+    !options.userAgent &&
+    !options.referer &&
+    Object.keys(options.customHeaders || {}).length === 0 &&
+    resolutions.length === 1 && resolutions[0] === 'desktop';
+}
+
+/**
+ * Look up a fresh cached scan. Returns null on miss, expiry or lookup failure.
+ */
+export async function getCachedScan(env: Env, urlHash: string): Promise<CachedScan | null> {
+  try {
+    const row = await env.radar_scanner_db.prepare(`
+      SELECT radar_uuid, result_json, cached_at, expires_at
+      FROM scan_cache
+      WHERE url_hash = ? AND expires_at > ?
+    `).bind(urlHash, Date.now()).first<{
+      radar_uuid: string;
+      result_json: string;
+      cached_at: number;
+      expires_at: number;
+    }>();
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      radarUuid: row.radar_uuid,
+      result: JSON.parse(row.result_json) as RadarScanResult,
+      cachedAt: row.cached_at,
+      expiresAt: row.expires_at
+    };
+  } catch (error) {
+    // A broken cache must never block a scan
+    console.error('[ScanCache] Lookup failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Store a finished scan result. Failures are logged and swallowed.
+ */
+export async function putCachedScan(
+  env: Env,
+  urlHash: string,
+  radarUuid: string,
+  result: RadarScanResult
+): Promise<void> {
+  const ttlMs = getCacheTtlMs(env);
+  if (ttlMs === 0) {
+    return;
+  }
+
+  const now = Date.now();
+
+  try {
+    await retryWithBackoff(
+      async () => {
+        await env.radar_scanner_db.prepare(`
+          INSERT OR REPLACE INTO scan_cache (url_hash, radar_uuid, result_json, cached_at, expires_at)
+          VALUES (?, ?, ?, ?, ?)
+        `).bind(urlHash, radarUuid, JSON.stringify(result), now, now + ttlMs).run();
+      },
+      {
+        maxAttempts: 3,
+        initialDelayMs: 500,
+        maxDelayMs: 5000,
+        retryableErrors: isRetryableD1Error
+      }
+    );
+    console.log(`[ScanCache] Cached result for ${urlHash}`);
+  } catch (error) {
+    console.error('[ScanCache] Failed to write cache entry:', error);
+  }
+}
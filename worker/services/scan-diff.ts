@@ -0,0 +1,168 @@
+import type { Env, ListDiff, RadarScanResult, ScanDiff, SessionState } from '../types';
+import { buildScanReport, loadScanResult } from './report-summary';
+
+export interface StoredScan {
+  sessionId: string;
+  url: string;
+  result: RadarScanResult;
+}
+
+function diffLists(from: string[], to: string[]): ListDiff {
+  const fromSet = new Set(from);
+  const toSet = new Set(to);
+  return {
+    added: [...toSet].filter(item => !fromSet.has(item)).sort(),
+    removed: [...fromSet].filter(item => !toSet.has(item)).sort()
+  };
+}
+
+function hasListChanges(diff: ListDiff): boolean {
+  return diff.added.length > 0 || diff.removed.length > 0;
+}
+
+function scriptUrls(result: RadarScanResult): string[] {
+  return (result.data?.requests || [])
+    .filter(req => req.type?.toLowerCase() === 'script')
+    .map(req => {
+      try {
+        const url = new URL(req.url);
+        return `${url.origin}${url.pathname}`;
+      } catch {
+        return req.url;
+      }
+    });
+}
+
+function cookieLabel(cookie: RadarScanResult['data']['cookies'][number]): string {
+  return cookie.domain ? `${cookie.name} (${cookie.domain})` : cookie.name;
+}
+
+/**
+ * Compare two stored Radar results. `from` is the older scan.
+ */
+export function diffScans(from: StoredScan, to: StoredScan): ScanDiff {
+  const fromReport = buildScanReport(from.result, { sessionId: from.sessionId, url: from.url });
+  const toReport = buildScanReport(to.result, { sessionId: to.sessionId, url: to.url });
+
+  // Technologies keyed by name
+  const fromTech = new Map(fromReport.technologies.map(tech => [tech.name, tech.version]));
+  const toTech = new Map(toReport.technologies.map(tech => [tech.name, tech.version]));
+  const technologies: ScanDiff['technologies'] = {
+    added: [...toTech].filter(([name]) => !fromTech.has(name)).map(([name, version]) => ({ name, version })),
+    removed: [...fromTech].filter(([name]) => !toTech.has(name)).map(([name, version]) => ({ name, version })),
+    versionChanged: [...toTech]
+      .filter(([name, version]) => fromTech.has(name) && fromTech.get(name) !== version)
+      .map(([name, version]) => ({ name, from: fromTech.get(name), to: version }))
+  };
+
+  // Cookies keyed by name and domain; flag changes are reported per cookie
+  const fromCookies = new Map((from.result.data?.cookies || []).map(cookie => [cookieLabel(cookie), cookie]));
+  const toCookies = new Map((to.result.data?.cookies || []).map(cookie => [cookieLabel(cookie), cookie]));
+  const cookieList = diffLists([...fromCookies.keys()], [...toCookies.keys()]);
+  const changedCookies: ScanDiff['cookies']['changed'] = [];
+  for (const [label, cookie] of toCookies) {
+    const previous = fromCookies.get(label);
+    if (!previous) continue;
+    const changes: string[] = [];
+    if (!!previous.secure !== !!cookie.secure) {
+      changes.push(cookie.secure ? 'now Secure' : 'no longer Secure');
+    }
+    if (!!previous.httpOnly !== !!cookie.httpOnly) {
+      changes.push(cookie.httpOnly ? 'now HttpOnly' : 'no longer HttpOnly');
+    }
+    if ((previous.sameSite || '') !== (cookie.sameSite || '')) {
+      changes.push(`SameSite ${previous.sameSite || 'unset'} -> ${cookie.sameSite || 'unset'}`);
+    }
+    if (changes.length > 0) {
+      changedCookies.push({ cookie: label, changes });
+    }
+  }
+
+  const fromTls = fromReport.tls;
+  const toTls = toReport.tls;
+  const issuerChanged = (fromTls?.issuer || '') !== (toTls?.issuer || '');
+  const validityChanged = (fromTls?.validFrom || '') !== (toTls?.validFrom || '')
+    || (fromTls?.validTo || '') !== (toTls?.validTo || '');
+
+  const diff: ScanDiff = {
+    from: { sessionId: from.sessionId, url: from.url, scannedAt: fromReport.scan.scannedAt },
+    to: { sessionId: to.sessionId, url: to.url, scannedAt: toReport.scan.scannedAt },
+    hasChanges: false,
+    verdict: {
+      changed: fromReport.verdict.malicious !== toReport.verdict.malicious,
+      fromMalicious: fromReport.verdict.malicious,
+      toMalicious: toReport.verdict.malicious,
+      categories: diffLists(fromReport.verdict.categories, toReport.verdict.categories)
+    },
+    domains: diffLists(fromReport.iocs.domains, toReport.iocs.domains),
+    ips: diffLists(fromReport.iocs.ips, toReport.iocs.ips),
+    asns: diffLists(fromReport.iocs.asns, toReport.iocs.asns),
+    countries: diffLists(fromReport.iocs.countries, toReport.iocs.countries),
+    scripts: diffLists(scriptUrls(from.result), scriptUrls(to.result)),
+    technologies,
+    cookies: { ...cookieList, changed: changedCookies },
+    certificate: {
+      changed: issuerChanged || validityChanged || (!fromTls !== !toTls),
+      issuerChanged,
+      validityChanged,
+      from: fromTls,
+      to: toTls
+    }
+  };
+
+  diff.hasChanges = diff.verdict.changed
+    || hasListChanges(diff.verdict.categories)
+    || hasListChanges(diff.domains)
+    || hasListChanges(diff.ips)
+    || hasListChanges(diff.asns)
+    || hasListChanges(diff.countries)
+    || hasListChanges(diff.scripts)
+    || technologies.added.length > 0
+    || technologies.removed.length > 0
+    || technologies.versionChanged.length > 0
+    || hasListChanges(diff.cookies)
+    || changedCookies.length > 0
+    || diff.certificate.changed;
+
+  return diff;
+}
+
+/**
+ * Load a stored scan by session ID. Returns null if its result.json is gone.
+ */
+export async function loadStoredScan(env: Env, sessionId: string): Promise<StoredScan | null> {
+  const stored = await loadScanResult(env, sessionId);
+  if (!stored) {
+    return null;
+  }
+  return {
+    sessionId,
+    url: stored.url || stored.result.task.url,
+    result: stored.result
+  };
+}
+
+/**
+ * Most recent earlier session of the same URL, by the same API key or browser,
+ * that has a stored result. Sessions with no recorded creator have none.
+ */
+export async function findPreviousSessionId(
+  env: Env,
+  session: Pick<SessionState, 'sessionId' | 'url' | 'createdAt' | 'apiKeyId' | 'clientId'>
+): Promise<string | null> {
+  const owner = session.apiKeyId
+    ? { column: 'api_key_id', id: session.apiKeyId }
+    : session.clientId ? { column: 'client_id', id: session.clientId } : null;
+
+  if (!owner) {
+    return null;
+  }
+
+  const row = await env.radar_scanner_db.prepare(`
+    SELECT id FROM sessions
+    WHERE url = ? AND ${owner.column} = ? AND id != ? AND r2_key IS NOT NULL AND created_at < ?
+    ORDER BY created_at DESC LIMIT 1
+  `).bind(session.url, owner.id, session.sessionId, session.createdAt).first<{ id: string }>();
+
+  return row?.id || null;
+}
@@ -0,0 +1,307 @@
+import type {
+  Env,
+  Locale,
+  ScanHistoryFilters,
+  ScanHistoryItem,
+  ScanHistoryPage,
+  ScanOptions,
+  ScreenshotResolution,
+  SessionState
+} from '../types';
+import { base64UrlDecode, base64UrlEncode } from '../utils/crypto';
+import { DatabaseError, storedErrorEnvelope, wrapError } from '../utils/errors';
+import { findPreviousSessionId } from './scan-diff';
+
+const DEFAULT_HISTORY_PAGE_SIZE = 20;
+const MAX_HISTORY_PAGE_SIZE = 100;
+
+const SESSION_STATUSES: SessionState['status'][] = [
+  'queued', 'scanning', 'generating', 'uploading', 'sending', 'completed', 'failed', 'cancelled', 'expired'
+];
+
+const DOMAIN_PATTERN = /^[a-z0-9.-]+$/;
+
+/**
+ * Whose scans a history query may return
+ */
+export type HistoryOwner = { apiKeyId: string } | { clientId: string };
+
+interface SessionRow {
+  id: string;
+  url: string;
+  email: string;
+  status: SessionState['status'];
+  radar_uuid: string | null;
+  r2_key: string | null;
+  error: string | null;
+  error_code: string | null;
+  created_at: number;
+  updated_at: number;
+  expires_at: number;
+  cache_hit: number | null;
+  batch_id: string | null;
+  malicious: number | null;
+  risk_score: number | null;
+  scan_options: string | null;
+  watchlist_id: string | null;
+  api_key_id: string | null;
+  client_id: string | null;
+  domain: string | null;
+  branding_profile_id: string | null;
+  locale: Locale | null;
+}
+
+function toHistoryItem(row: SessionRow): ScanHistoryItem {
+  return {
+    sessionId: row.id,
+    url: row.url,
+    domain: row.domain,
+    status: row.status,
+    malicious: row.malicious === null ? null : row.malicious === 1,
+    riskScore: row.risk_score,
+    cacheHit: row.cache_hit === 1,
+    batchId: row.batch_id,
+    watchlistId: row.watchlist_id,
+    reportAvailable: row.r2_key !== null,
+    error: row.error ? storedErrorEnvelope(row.error_code, row.error) : null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * Position after which the next page starts: the (created_at, id) of the last row returned
+ */
+type HistoryCursor = [number, string];
+
+/**
+ * Cursors are opaque to clients
+ */
+function encodeCursor(row: SessionRow): string {
+  return base64UrlEncode(JSON.stringify([row.created_at, row.id]));
+}
+
+function decodeCursor(cursor: string): HistoryCursor | null {
+  try {
+    const [createdAt, id] = JSON.parse(base64UrlDecode(cursor)) as unknown[];
+    return typeof createdAt === 'number' && typeof id === 'string' ? [createdAt, id] : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Accepts Unix milliseconds or anything Date.parse understands (e.g. 2025-01-31)
+ */
+function parseTimestamp(value: string): number | null {
+  const timestamp = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isFinite(timestamp) ? timestamp : null;
+}
+
+/**
+ * Validate GET /api/scans query parameters
+ */
+export function parseScanHistoryQuery(
+  params: URLSearchParams
+): { filters: ScanHistoryFilters; cursor?: HistoryCursor; limit: number } | { error: string } {
+  const filters: ScanHistoryFilters = {};
+
+  const limit = params.has('limit') ? Number(params.get('limit')) : DEFAULT_HISTORY_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_PAGE_SIZE) {
+    return { error: `limit must be an integer between 1 and ${MAX_HISTORY_PAGE_SIZE}` };
+  }
+
+  const status = params.get('status');
+  if (status !== null) {
+    if (!SESSION_STATUSES.includes(status as SessionState['status'])) {
+      return { error: `status must be one of: ${SESSION_STATUSES.join(', ')}` };
+    }
+    filters.status = status as SessionState['status'];
+  }
+
+  for (const bound of ['from', 'to'] as const) {
+    const value = params.get(bound);
+    if (value !== null) {
+      const timestamp = parseTimestamp(value);
+      if (timestamp === null) {
+        return { error: `${bound} must be a date or a Unix timestamp in milliseconds` };
+      }
+      filters[bound] = timestamp;
+    }
+  }
+
+  const domain = params.get('domain');
+  if (domain !== null) {
+    const normalized = domain.trim().toLowerCase();
+    if (!DOMAIN_PATTERN.test(normalized)) {
+      return { error: 'domain must be a hostname such as example.com' };
+    }
+    filters.domain = normalized;
+  }
+
+  const verdict = params.get('verdict');
+  if (verdict !== null) {
+    if (verdict !== 'malicious' && verdict !== 'safe') {
+      return { error: 'verdict must be malicious or safe' };
+    }
+    filters.verdict = verdict;
+  }
+
+  const rawCursor = params.get('cursor');
+  if (rawCursor === null) {
+    return { filters, limit };
+  }
+
+  const cursor = decodeCursor(rawCursor);
+  return cursor ? { filters, cursor, limit } : { error: 'Invalid cursor' };
+}
+
+/**
+ * One page of the owner's scans, newest first
+ */
+export async function listScanHistory(
+  env: Env,
+  owner: HistoryOwner,
+  filters: ScanHistoryFilters,
+  page: { cursor?: HistoryCursor; limit: number }
+): Promise<ScanHistoryPage> {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  if ('apiKeyId' in owner) {
+    conditions.push('api_key_id = ?');
+    params.push(owner.apiKeyId);
+  } else {
+    conditions.push('client_id = ?');
+    params.push(owner.clientId);
+  }
+
+  if (filters.status) {
+    conditions.push('status = ?');
+    params.push(filters.status);
+  }
+  if (filters.from !== undefined) {
+    conditions.push('created_at >= ?');
+    params.push(filters.from);
+  }
+  if (filters.to !== undefined) {
+    conditions.push('created_at < ?');
+    params.push(filters.to);
+  }
+  if (filters.domain) {
+    conditions.push('(domain = ? OR domain LIKE ?)');
+    params.push(filters.domain, `%.${filters.domain}`);
+  }
+  if (filters.verdict) {
+    conditions.push('malicious = ?');
+    params.push(filters.verdict === 'malicious' ? 1 : 0);
+  }
+
+  if (page.cursor) {
+    const [createdAt, id] = page.cursor;
+    conditions.push('(created_at < ? OR (created_at = ? AND id < ?))');
+    params.push(createdAt, createdAt, id);
+  }
+
+  // Fetch one extra row to know whether another page exists
+  const { results } = await env.radar_scanner_db.prepare(`
+    SELECT * FROM sessions
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY created_at DESC, id DESC
+    LIMIT ?
+  `).bind(...params, page.limit + 1).all<SessionRow>().catch(error => {
+    throw wrapError(error, (detail, cause) => new DatabaseError(detail, cause));
+  });
+
+  const rows = results.slice(0, page.limit);
+
+  return {
+    scans: rows.map(toHistoryItem),
+    nextCursor: results.length > page.limit ? encodeCursor(rows[rows.length - 1]) : null
+  };
+}
+
+/**
+ * Screenshot keys by resolution, read back from R2 metadata
+ */
+async function listStoredScreenshots(env: Env, sessionId: string): Promise<Partial<Record<ScreenshotResolution, string>>> {
+  const listed = await env.radar_scan_reports.list({
+    prefix: `sessions/${sessionId}/screenshot`,
+    include: ['customMetadata']
+  });
+
+  const screenshots: Partial<Record<ScreenshotResolution, string>> = {};
+  for (const object of listed.objects) {
+    const resolution = object.customMetadata?.resolution as ScreenshotResolution | undefined;
+    if (resolution) {
+      screenshots[resolution] = object.key;
+    }
+  }
+  return screenshots;
+}
+
+/**
+ * Session state as returned to clients. Custom header values may carry
+ * credentials, so the headers are dropped; the Durable Object keeps them for retries.
+ */
+export function toPublicSessionState(session: SessionState): SessionState {
+  if (!session.scanOptions?.customHeaders) {
+    return session;
+  }
+  const scanOptions = { ...session.scanOptions };
+  delete scanOptions.customHeaders;
+  return { ...session, scanOptions };
+}
+
+/**
+ * Session state from its Durable Object, or rebuilt from D1 and R2 once the
+ * live session has expired. Returns null if the session is unknown.
+ */
+export async function loadSessionState(env: Env, sessionId: string): Promise<SessionState | null> {
+  const sessionDO = env.SESSION_MANAGER.get(env.SESSION_MANAGER.idFromName(sessionId));
+  const response = await sessionDO.fetch('https://do/state');
+
+  if (response.ok) {
+    return response.json<SessionState>();
+  }
+
+  const row = await env.radar_scanner_db.prepare(
+    'SELECT * FROM sessions WHERE id = ?'
+  ).bind(sessionId).first<SessionRow>();
+
+  if (!row) {
+    return null;
+  }
+
+  // The report may have been removed from R2 since the row was written
+  const reportExists = row.r2_key !== null && (await env.radar_scan_reports.head(row.r2_key)) !== null;
+
+  const session: SessionState = {
+    sessionId: row.id,
+    url: row.url,
+    email: row.email,
+    status: row.status,
+    radarUuid: row.radar_uuid ?? undefined,
+    r2Key: reportExists ? row.r2_key! : undefined,
+    error: row.error ? storedErrorEnvelope(row.error_code, row.error) : undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    expiresAt: row.expires_at,
+    cacheHit: row.cache_hit === 1,
+    batchId: row.batch_id ?? undefined,
+    watchlistId: row.watchlist_id ?? undefined,
+    apiKeyId: row.api_key_id ?? undefined,
+    clientId: row.client_id ?? undefined,
+    brandingProfileId: row.branding_profile_id ?? undefined,
+    locale: row.locale ?? undefined,
+    malicious: row.malicious === null ? undefined : row.malicious === 1,
+    scanOptions: row.scan_options ? JSON.parse(row.scan_options) as ScanOptions : undefined
+  };
+
+  if (reportExists) {
+    session.screenshots = await listStoredScreenshots(env, sessionId);
+    session.previousSessionId = await findPreviousSessionId(env, session) ?? undefined;
+  }
+
+  return session;
+}
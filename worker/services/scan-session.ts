@@ -0,0 +1,168 @@
+import type { Env, Locale, ReportOptions, ScanOptions, SessionState } from '../types';
+import { getMessages } from '../i18n';
+import { ConflictError, errorEnvelope } from '../utils/errors';
+
+export interface CreateScanSessionInput {
+  // Generated when not given; callers that hand out credentials for the session mint them first
+  sessionId?: string;
+  url: string;
+  email: string;
+  force?: boolean;
+  scanOptions?: ScanOptions;
+  reportOptions?: ReportOptions;
+  brandingProfileId?: string;
+  locale?: Locale;
+  batchId?: string;
+  watchlistId?: string;
+  callbackUrl?: string;
+  apiKeyId?: string;
+  clientId?: string;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  country?: string;
+}
+
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+// Server-side retries allowed per session, on top of the first attempt
+export const MAX_SCAN_RETRIES = 3;
+
+/**
+ * Client metadata recorded on every session for analytics
+ */
+export function getClientMetadata(request: Request): Pick<CreateScanSessionInput, 'ipAddress' | 'userAgent' | 'country'> {
+  return {
+    ipAddress: request.headers.get('CF-Connecting-IP'),
+    userAgent: request.headers.get('User-Agent'),
+    country: request.cf?.country as string | undefined
+  };
+}
+
+/**
+ * Initialize a SessionManager session and start its ScanWorkflow.
+ * Returns the new session ID.
+ */
+export async function createScanSession(env: Env, input: CreateScanSessionInput): Promise<string> {
+  const sessionId = input.sessionId ?? crypto.randomUUID();
+
+  console.log(`[Session] Creating scan session: ${sessionId} for URL: ${input.url}`);
+
+  // Get Durable Object instance
+  const id = env.SESSION_MANAGER.idFromName(sessionId);
+  const sessionDO = env.SESSION_MANAGER.get(id);
+
+  // Initialize session
+  const now = Date.now();
+
+  const initResponse = await sessionDO.fetch('https://do/init', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      sessionId,
+      url: input.url,
+      email: input.email,
+      createdAt: now,
+      updatedAt: now,
+      expiresAt: now + SESSION_TTL_MS,
+      ipAddress: input.ipAddress,
+      userAgent: input.userAgent,
+      country: input.country,
+      force: input.force === true,
+      scanOptions: input.scanOptions,
+      reportOptions: input.reportOptions,
+      brandingProfileId: input.brandingProfileId,
+      locale: input.locale,
+      batchId: input.batchId,
+      watchlistId: input.watchlistId,
+      callbackUrl: input.callbackUrl,
+      apiKeyId: input.apiKeyId,
+      clientId: input.clientId
+    })
+  });
+
+  if (!initResponse.ok) {
+    throw new Error('Failed to initialize session');
+  }
+
+  // Trigger workflow and store instance ID (fixes race condition)
+  try {
+    const workflowInstance = await env.SCAN_WORKFLOW.create({
+      id: sessionId,
+      params: { sessionId }
+    });
+
+    // Update session with workflow instance ID
+    await sessionDO.fetch('https://do/update', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        workflowInstanceId: workflowInstance.id,
+        progressPercent: 0,
+        progressMessage: getMessages(input.locale).progress.initializing
+      })
+    });
+
+    console.log(`[Session] Workflow started for session: ${sessionId}, instance: ${workflowInstance.id}`);
+  } catch (error) {
+    console.error(`[Session] Failed to start workflow:`, error);
+    // Mark session as failed
+    await sessionDO.fetch('https://do/update', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        status: 'failed',
+        error: errorEnvelope('INTERNAL_ERROR', 'Failed to start scan workflow')
+      })
+    });
+    throw error;
+  }
+
+  return sessionId;
+}
+
+/**
+ * The session's ScanWorkflow instance. Instances are created with the session
+ * ID, so that is the fallback if the instance ID was never stored.
+ */
+export async function getScanWorkflowInstance(env: Env, session: SessionState): Promise<WorkflowInstance> {
+  return env.SCAN_WORKFLOW.get(session.workflowInstanceId || session.sessionId);
+}
+
+/**
+ * Restart a failed session's ScanWorkflow instance in place. The failed
+ * attempt's error moves to attemptErrors, and the workflow resumes polling the
+ * session's Radar scan if one was already submitted. Returns the new attempt number.
+ */
+export async function retryScanSession(env: Env, session: SessionState): Promise<number> {
+  const sessionDO = env.SESSION_MANAGER.get(env.SESSION_MANAGER.idFromName(session.sessionId));
+
+  const retryResponse = await sessionDO.fetch('https://do/retry', { method: 'POST' });
+  // The Durable Object rechecks the status, so a concurrent retry or a session that is no longer failed ends here
+  if (retryResponse.status === 409) {
+    throw new ConflictError('Scan is no longer failed; it may already be retrying');
+  }
+  if (!retryResponse.ok) {
+    throw new Error(`Failed to queue retry: ${await retryResponse.text()}`);
+  }
+  const { attempt } = await retryResponse.json<{ attempt: number }>();
+
+  try {
+    const instance = await getScanWorkflowInstance(env, session);
+    await instance.restart();
+
+    console.log(`[Session] Workflow restarted for session: ${session.sessionId}, attempt ${attempt}`);
+  } catch (error) {
+    console.error(`[Session] Failed to restart workflow:`, error);
+    await sessionDO.fetch('https://do/update', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        status: 'failed',
+        error: errorEnvelope('INTERNAL_ERROR', 'Failed to restart scan workflow')
+      })
+    });
+    throw error;
+  }
+
+  return attempt;
+}
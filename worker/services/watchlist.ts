@@ -0,0 +1,369 @@
+import type { Env, Locale, ScanOptions, ScanReport, WatchlistEntry, WatchlistRun } from '../types';
+import { createScanSession } from './scan-session';
+import { sendWatchlistAlert } from './email';
+import { loadBranding } from './branding';
+
+export const MIN_WATCHLIST_INTERVAL_MINUTES = 60;
+export const MAX_WATCHLIST_INTERVAL_MINUTES = 30 * 24 * 60; // 30 days
+
+// Upper bound on scans started per cron tick; the rest are picked up on the next tick
+const MAX_DUE_PER_TICK = 20;
+
+interface WatchlistRow {
+  id: string;
+  url: string;
+  email: string;
+  interval_minutes: number;
+  enabled: number;
+  scan_options: string | null;
+  created_at: number;
+  updated_at: number;
+  next_run_at: number;
+  last_run_at: number | null;
+  last_session_id: string | null;
+  last_malicious: number | null;
+  last_domains: string | null;
+  branding_profile_id: string | null;
+  locale: Locale | null;
+  api_key_id: string | null;
+  client_id: string | null;
+}
+
+interface WatchlistRunRow {
+  session_id: string;
+  watchlist_id: string;
+  started_at: number;
+  completed_at: number | null;
+  malicious: number | null;
+  verdict_changed: number;
+  domains_added: string | null;
+  domains_removed: string | null;
+  notified: number;
+}
+
+/**
+ * Whose entries a watchlist query may return or change
+ */
+export type WatchlistOwner = { apiKeyId: string } | { clientId: string };
+
+export interface WatchlistInput {
+  url: string;
+  email: string;
+  intervalMinutes: number;
+  scanOptions?: ScanOptions;
+  brandingProfileId?: string;
+  locale?: Locale;
+  owner: WatchlistOwner;
+}
+
+export type WatchlistUpdate = Partial<Pick<
+  WatchlistEntry,
+  'email' | 'intervalMinutes' | 'enabled' | 'scanOptions' | 'brandingProfileId' | 'locale'
+>>;
+
+export function isValidWatchlistInterval(minutes: unknown): minutes is number {
+  return Number.isInteger(minutes)
+    && (minutes as number) >= MIN_WATCHLIST_INTERVAL_MINUTES
+    && (minutes as number) <= MAX_WATCHLIST_INTERVAL_MINUTES;
+}
+
+function toWatchlistEntry(row: WatchlistRow): WatchlistEntry {
+  return {
+    id: row.id,
+    url: row.url,
+    email: row.email,
+    intervalMinutes: row.interval_minutes,
+    enabled: row.enabled === 1,
+    scanOptions: row.scan_options ? JSON.parse(row.scan_options) as ScanOptions : undefined,
+    brandingProfileId: row.branding_profile_id ?? undefined,
+    locale: row.locale ?? undefined,
+    apiKeyId: row.api_key_id ?? undefined,
+    clientId: row.client_id ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    nextRunAt: row.next_run_at,
+    lastRunAt: row.last_run_at ?? undefined,
+    lastSessionId: row.last_session_id ?? undefined,
+    lastMalicious: row.last_malicious === null ? undefined : row.last_malicious === 1,
+    lastDomains: row.last_domains ? JSON.parse(row.last_domains) as string[] : undefined
+  };
+}
+
+function toWatchlistRun(row: WatchlistRunRow): WatchlistRun {
+  return {
+    sessionId: row.session_id,
+    watchlistId: row.watchlist_id,
+    startedAt: row.started_at,
+    completedAt: row.completed_at ?? undefined,
+    malicious: row.malicious === null ? undefined : row.malicious === 1,
+    verdictChanged: row.verdict_changed === 1,
+    domainsAdded: row.domains_added ? JSON.parse(row.domains_added) as string[] : [],
+    domainsRemoved: row.domains_removed ? JSON.parse(row.domains_removed) as string[] : [],
+    notified: row.notified === 1
+  };
+}
+
+function ownerCondition(owner: WatchlistOwner): { sql: string; param: string } {
+  return 'apiKeyId' in owner
+    ? { sql: 'api_key_id = ?', param: owner.apiKeyId }
+    : { sql: 'client_id = ?', param: owner.clientId };
+}
+
+export async function listWatchlist(env: Env, owner: WatchlistOwner): Promise<WatchlistEntry[]> {
+  const condition = ownerCondition(owner);
+  const { results } = await env.radar_scanner_db.prepare(`
+    SELECT * FROM watchlist WHERE ${condition.sql} ORDER BY created_at DESC
+  `).bind(condition.param).all<WatchlistRow>();
+
+  return results.map(toWatchlistEntry);
+}
+
+/**
+ * Look up an entry. With an owner, entries created by anyone else are treated as missing.
+ */
+export async function getWatchlistEntry(env: Env, id: string, owner?: WatchlistOwner): Promise<WatchlistEntry | null> {
+  const condition = owner ? ownerCondition(owner) : null;
+  const row = await env.radar_scanner_db.prepare(`
+    SELECT * FROM watchlist WHERE id = ?${condition ? ` AND ${condition.sql}` : ''}
+  `).bind(...(condition ? [id, condition.param] : [id])).first<WatchlistRow>();
+
+  return row ? toWatchlistEntry(row) : null;
+}
+
+/**
+ * Most recent runs for an entry, newest first
+ */
+export async function listWatchlistRuns(env: Env, watchlistId: string, limit = 20): Promise<WatchlistRun[]> {
+  const { results } = await env.radar_scanner_db.prepare(`
+    SELECT * FROM watchlist_runs WHERE watchlist_id = ? ORDER BY started_at DESC LIMIT ?
+  `).bind(watchlistId, limit).all<WatchlistRunRow>();
+
+  return results.map(toWatchlistRun);
+}
+
+/**
+ * Add a URL to the watchlist. The first scan runs on the next cron tick.
+ */
+export async function createWatchlistEntry(env: Env, input: WatchlistInput): Promise<WatchlistEntry> {
+  const now = Date.now();
+  const entry: WatchlistEntry = {
+    id: crypto.randomUUID(),
+    url: input.url,
+    email: input.email,
+    intervalMinutes: input.intervalMinutes,
+    enabled: true,
+    scanOptions: input.scanOptions,
+    brandingProfileId: input.brandingProfileId,
+    locale: input.locale,
+    apiKeyId: 'apiKeyId' in input.owner ? input.owner.apiKeyId : undefined,
+    clientId: 'clientId' in input.owner ? input.owner.clientId : undefined,
+    createdAt: now,
+    updatedAt: now,
+    nextRunAt: now
+  };
+
+  await env.radar_scanner_db.prepare(`
+    INSERT INTO watchlist (id, url, email, interval_minutes, enabled, scan_options, branding_profile_id, locale, api_key_id, client_id, created_at, updated_at, next_run_at)
+    VALUES (?, ?, ?, ?, 1, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    entry.id,
+    entry.url,
+    entry.email,
+    entry.intervalMinutes,
+    entry.scanOptions ? JSON.stringify(entry.scanOptions) : null,
+    entry.brandingProfileId ?? null,
+    entry.locale ?? null,
+    entry.apiKeyId ?? null,
+    entry.clientId ?? null,
+    entry.createdAt,
+    entry.updatedAt,
+    entry.nextRunAt
+  ).run();
+
+  return entry;
+}
+
+/**
+ * Apply a partial update. Changing the interval reschedules the next run
+ * relative to the last one. Returns null if the owner has no such entry.
+ */
+export async function updateWatchlistEntry(
+  env: Env,
+  id: string,
+  owner: WatchlistOwner,
+  update: WatchlistUpdate
+): Promise<WatchlistEntry | null> {
+  const existing = await getWatchlistEntry(env, id, owner);
+  if (!existing) {
+    return null;
+  }
+
+  const entry: WatchlistEntry = {
+    ...existing,
+    ...update,
+    updatedAt: Date.now()
+  };
+
+  if (update.intervalMinutes !== undefined && existing.lastRunAt) {
+    entry.nextRunAt = existing.lastRunAt + entry.intervalMinutes * 60 * 1000;
+  }
+
+  await env.radar_scanner_db.prepare(`
+    UPDATE watchlist
+    SET email = ?, interval_minutes = ?, enabled = ?, scan_options = ?, branding_profile_id = ?, locale = ?, updated_at = ?, next_run_at = ?
+    WHERE id = ?
+  `).bind(
+    entry.email,
+    entry.intervalMinutes,
+    entry.enabled ? 1 : 0,
+    entry.scanOptions ? JSON.stringify(entry.scanOptions) : null,
+    entry.brandingProfileId ?? null,
+    entry.locale ?? null,
+    entry.updatedAt,
+    entry.nextRunAt,
+    id
+  ).run();
+
+  return entry;
+}
+
+/**
+ * Remove an entry and its run history. Returns false if the owner has no such entry.
+ */
+export async function deleteWatchlistEntry(env: Env, id: string, owner: WatchlistOwner): Promise<boolean> {
+  if (!(await getWatchlistEntry(env, id, owner))) {
+    return false;
+  }
+
+  const [deleted] = await env.radar_scanner_db.batch([
+    env.radar_scanner_db.prepare('DELETE FROM watchlist WHERE id = ?').bind(id),
+    env.radar_scanner_db.prepare('DELETE FROM watchlist_runs WHERE watchlist_id = ?').bind(id)
+  ]);
+
+  return deleted.meta.changes > 0;
+}
+
+/**
+ * Start a scan for every enabled entry that is due. Called from the cron trigger.
+ */
+export async function runDueWatchlistScans(env: Env, now = Date.now()): Promise<number> {
+  const { results } = await env.radar_scanner_db.prepare(`
+    SELECT * FROM watchlist WHERE enabled = 1 AND next_run_at <= ? ORDER BY next_run_at LIMIT ?
+  `).bind(now, MAX_DUE_PER_TICK).all<WatchlistRow>();
+
+  let started = 0;
+
+  for (const entry of results.map(toWatchlistEntry)) {
+    // Reschedule first so a failing entry waits a full interval instead of retrying every tick
+    await env.radar_scanner_db.prepare(`
+      UPDATE watchlist SET next_run_at = ? WHERE id = ?
+    `).bind(now + entry.intervalMinutes * 60 * 1000, entry.id).run();
+
+    try {
+      const sessionId = await createScanSession(env, {
+        url: entry.url,
+        email: entry.email,
+        force: true,
+        scanOptions: entry.scanOptions,
+        brandingProfileId: entry.brandingProfileId,
+        locale: entry.locale,
+        watchlistId: entry.id,
+        // Scheduled scans show up in the owner's scan history
+        apiKeyId: entry.apiKeyId,
+        clientId: entry.clientId
+      });
+
+      await env.radar_scanner_db.batch([
+        env.radar_scanner_db.prepare(`
+          INSERT INTO watchlist_runs (session_id, watchlist_id, started_at) VALUES (?, ?, ?)
+        `).bind(sessionId, entry.id, now),
+        env.radar_scanner_db.prepare(`
+          UPDATE watchlist SET last_run_at = ?, last_session_id = ? WHERE id = ?
+        `).bind(now, sessionId, entry.id)
+      ]);
+
+      started++;
+      console.log(`[Watchlist] Started scan ${sessionId} for ${entry.url}`);
+    } catch (error) {
+      console.error(`[Watchlist] Failed to start scan for ${entry.id}:`, error);
+    }
+  }
+
+  return started;
+}
+
+/**
+ * Compare a completed watchlist scan against the entry's baseline, email an
+ * alert if the verdict flipped to malicious or the contacted domains changed,
+ * then store the new baseline. The first scan of an entry only sets the baseline.
+ */
+export async function recordWatchlistResult(
+  env: Env,
+  watchlistId: string,
+  sessionId: string,
+  report: ScanReport
+): Promise<WatchlistRun | null> {
+  const entry = await getWatchlistEntry(env, watchlistId);
+  if (!entry) {
+    // Entry was deleted while the scan was running
+    return null;
+  }
+
+  const started = await env.radar_scanner_db.prepare(`
+    SELECT started_at FROM watchlist_runs WHERE session_id = ?
+  `).bind(sessionId).first<{ started_at: number }>();
+
+  const domains = [...new Set(report.iocs.domains)].sort();
+  const hasBaseline = entry.lastMalicious !== undefined;
+  const previousDomains = new Set(entry.lastDomains || []);
+  const currentDomains = new Set(domains);
+
+  const run: WatchlistRun = {
+    sessionId,
+    watchlistId,
+    startedAt: started?.started_at ?? Date.now(),
+    completedAt: Date.now(),
+    malicious: report.verdict.malicious,
+    verdictChanged: hasBaseline && entry.lastMalicious !== report.verdict.malicious,
+    domainsAdded: hasBaseline ? domains.filter(domain => !previousDomains.has(domain)) : [],
+    domainsRemoved: hasBaseline ? [...previousDomains].filter(domain => !currentDomains.has(domain)).sort() : [],
+    notified: false
+  };
+
+  const flippedToMalicious = run.verdictChanged && report.verdict.malicious;
+  const domainsChanged = run.domainsAdded.length > 0 || run.domainsRemoved.length > 0;
+
+  if (flippedToMalicious || domainsChanged) {
+    try {
+      await sendWatchlistAlert(env, entry, run, report, await loadBranding(env, entry.brandingProfileId));
+      run.notified = true;
+    } catch (error) {
+      // A failed alert should not lose the new baseline
+      console.error(`[Watchlist] Failed to send alert for ${watchlistId}:`, error);
+    }
+  }
+
+  await env.radar_scanner_db.batch([
+    env.radar_scanner_db.prepare(`
+      INSERT OR REPLACE INTO watchlist_runs
+      (session_id, watchlist_id, started_at, completed_at, malicious, verdict_changed, domains_added, domains_removed, notified)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      run.sessionId,
+      run.watchlistId,
+      run.startedAt,
+      run.completedAt,
+      run.malicious ? 1 : 0,
+      run.verdictChanged ? 1 : 0,
+      JSON.stringify(run.domainsAdded),
+      JSON.stringify(run.domainsRemoved),
+      run.notified ? 1 : 0
+    ),
+    env.radar_scanner_db.prepare(`
+      UPDATE watchlist SET last_malicious = ?, last_domains = ? WHERE id = ?
+    `).bind(report.verdict.malicious ? 1 : 0, JSON.stringify(domains), watchlistId)
+  ]);
+
+  console.log(`[Watchlist] Recorded run ${sessionId} for ${watchlistId}, notified: ${run.notified}`);
+  return run;
+}
@@ -0,0 +1,132 @@
+import type { Env, ScanReport, SessionState, WebhookDelivery, WebhookPayload } from '../types';
+import { hmacSha256Hex } from '../utils/crypto';
+import { createSignedLinks } from './download-links';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-RadarScan-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-RadarScan-Timestamp';
+export const WEBHOOK_EVENT_HEADER = 'X-RadarScan-Event';
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+const MISSING_SECRET_ERROR = 'WEBHOOK_SIGNING_SECRET is not configured';
+
+/**
+ * Summary sent to the callback URL. `report` is omitted for failed scans.
+ * The report link is signed when DOWNLOAD_LINK_SECRET is set; otherwise it
+ * needs the API key that created the scan.
+ */
+export async function buildWebhookPayload(
+  env: Env,
+  session: SessionState,
+  report?: ScanReport
+): Promise<WebhookPayload> {
+  const completed = session.status === 'completed';
+  const payload: WebhookPayload = {
+    event: completed ? 'scan.completed' : 'scan.failed',
+    sessionId: session.sessionId,
+    url: session.url,
+    status: completed ? 'completed' : 'failed',
+    finishedAt: new Date().toISOString(),
+    links: {
+      session: `${env.APP_URL}/api/session/${session.sessionId}`
+    }
+  };
+
+  if (!completed) {
+    payload.error = session.error?.message;
+    payload.errorCode = session.error?.code;
+    return payload;
+  }
+
+  payload.links.report = env.DOWNLOAD_LINK_SECRET && session.callbackUrl
+    ? (await createSignedLinks(env, session.sessionId, `webhook:${new URL(session.callbackUrl).origin}`)).downloadUrl
+    : `${env.APP_URL}/api/download/${session.sessionId}`;
+  payload.links.jsonReport = `${env.APP_URL}/api/report/${session.sessionId}.json`;
+
+  if (report) {
+    payload.verdict = {
+      malicious: report.verdict.malicious,
+      categories: report.verdict.categories,
+      tags: report.verdict.tags
+    };
+    payload.summary = {
+      domain: report.page.domain,
+      totalRequests: report.network.totalRequests,
+      domainsContacted: report.iocs.domains.length,
+      technologies: report.technologies.length,
+      phishingIndicators: report.phishing.indicators.length
+    };
+  }
+
+  return payload;
+}
+
+/**
+ * Hex HMAC-SHA256 of `${timestamp}.${body}`. Receivers recompute this with the
+ * shared secret and should reject stale timestamps to prevent replays.
+ */
+export async function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  return hmacSha256Hex(secret, `${timestamp}.${body}`);
+}
+
+/**
+ * POST a signed payload once. Never throws; the outcome is returned so the
+ * caller can record it and decide whether to retry.
+ */
+export async function sendWebhook(
+  env: Env,
+  callbackUrl: string,
+  payload: WebhookPayload,
+  attempt: number
+): Promise<WebhookDelivery> {
+  const attemptedAt = Date.now();
+
+  if (!env.WEBHOOK_SIGNING_SECRET) {
+    return { attempt, attemptedAt, ok: false, error: MISSING_SECRET_ERROR };
+  }
+
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(attemptedAt / 1000);
+  const signature = await signWebhookPayload(env.WEBHOOK_SIGNING_SECRET, timestamp, body);
+
+  try {
+    const response = await fetch(callbackUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'RadarScan-Webhook/1.0',
+        [WEBHOOK_EVENT_HEADER]: payload.event,
+        [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+        [WEBHOOK_SIGNATURE_HEADER]: `sha256=${signature}`
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+    });
+
+    return {
+      attempt,
+      attemptedAt,
+      ok: response.ok,
+      statusCode: response.status,
+      error: response.ok ? undefined : `Callback responded with ${response.status}`
+    };
+  } catch (error) {
+    return {
+      attempt,
+      attemptedAt,
+      ok: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Network errors, timeouts, 408, 429 and 5xx are worth retrying; other
+ * responses and configuration errors are final.
+ */
+export function isRetryableDelivery(delivery: WebhookDelivery): boolean {
+  if (delivery.statusCode === undefined) {
+    return delivery.error !== MISSING_SECRET_ERROR;
+  }
+  return delivery.statusCode === 408 || delivery.statusCode === 429 || delivery.statusCode >= 500;
+}
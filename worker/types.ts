@@ -3,6 +3,7 @@
 export interface Env {
   // Bindings
   SESSION_MANAGER: DurableObjectNamespace;
+  RATE_LIMITER: DurableObjectNamespace;
   SCAN_WORKFLOW: Workflow;
   radar_scanner_db: D1Database;
   radar_scan_reports: R2Bucket;
@@ -15,17 +16,33 @@ export interface Env {
   CLOUDFLARE_ACCOUNT_ID: string;
   APP_URL: string;
   RESEND_FROM?: string;
+  SCAN_CACHE_TTL_SECONDS?: string;
+  BATCH_MAX_URLS?: string;
+  RISK_SCORE_WEIGHTS?: string;     // JSON object of risk factor weights, overriding the defaults
+  RADAR_BACKEND?: string;          // 'api' (default) or 'fixture'
+  RADAR_FIXTURE?: string;          // Fixture name to replay when RADAR_BACKEND=fixture
+  WEBHOOK_SIGNING_SECRET?: string; // HMAC-SHA256 key for completion webhooks (secret)
+  ADMIN_API_TOKEN?: string;        // Bearer token for /api/admin/* (secret)
+  DOWNLOAD_LINK_SECRET?: string;   // HMAC-SHA256 key for signed download links (secret)
+  DOWNLOAD_LINK_TTL_SECONDS?: string;
+  RATE_LIMIT_SCANS_PER_MINUTE?: string;
+  RATE_LIMIT_SCANS_PER_DAY?: string;
+  RATE_LIMIT_EMAILS_PER_MINUTE?: string;
+  RATE_LIMIT_EMAILS_PER_DAY?: string;
+  CORS_ALLOWED_ORIGINS?: string;   // Comma-separated origins besides APP_URL, e.g. https://dash.example.com, https://*.example.com
+  CORS_ALLOWED_METHODS?: string;   // Comma-separated; defaults to GET, POST, PATCH, DELETE, OPTIONS
+  CORS_ALLOWED_HEADERS?: string;   // Comma-separated; defaults to Content-Type, Authorization, X-Session-Owner, Idempotency-Key
 }
 
 export interface SessionState {
   sessionId: string;
   url: string;
   email: string;
-  status: 'queued' | 'scanning' | 'generating' | 'uploading' | 'sending' | 'completed' | 'failed' | 'expired';
+  status: 'queued' | 'scanning' | 'generating' | 'uploading' | 'sending' | 'completed' | 'failed' | 'cancelled' | 'expired';
   jobId?: string;
   radarUuid?: string;
   r2Key?: string;
-  error?: string;
+  error?: ErrorEnvelope;
   createdAt: number;
   updatedAt: number;
   expiresAt: number;
@@ -37,6 +54,274 @@ export interface SessionState {
   // Progress tracking for live updates
   progressPercent?: number;
   progressMessage?: string;
+  // Scan cache
+  force?: boolean;
+  cacheHit?: boolean;
+  cachedAt?: number;
+  // Radar scan options (visibility, user agent, referer, headers, screenshots)
+  scanOptions?: ScanOptions;
+  // PDF report options
+  reportOptions?: ReportOptions;
+  // Branding of the report and emails (default branding when unset)
+  brandingProfileId?: string;
+  // Language of the report, emails and progress messages (English when unset)
+  locale?: Locale;
+  // R2 keys of stored page screenshots by resolution
+  screenshots?: Partial<Record<ScreenshotResolution, string>>;
+  // R2 keys of raw scan artifacts (report, result, har, dom)
+  artifacts?: Partial<Record<'report' | 'result' | 'har' | 'dom', string>>;
+  // Batch membership
+  batchId?: string;
+  // Watchlist entry that scheduled this scan
+  watchlistId?: string;
+  // API key that created this scan (unset for browser sessions)
+  apiKeyId?: string;
+  // Signed browser identity that created this scan (browser sessions only)
+  clientId?: string;
+  // Verdict summary (set on completion)
+  malicious?: boolean;
+  categories?: string[];
+  risk?: RiskScore;
+  // Most recent earlier scan of the same URL, used for diffs
+  previousSessionId?: string;
+  // Server-side retries: current attempt (starting at 1) and errors of earlier attempts
+  attempt?: number;
+  attemptErrors?: ScanAttemptError[];
+  // Completion webhook
+  callbackUrl?: string;
+  webhookStatus?: 'pending' | 'delivered' | 'failed';
+  webhookDeliveries?: WebhookDelivery[];
+}
+
+export interface ScanAttemptError {
+  attempt: number;
+  error: ErrorEnvelope;
+  failedAt: number;
+}
+
+/**
+ * Stable, machine-readable error codes. See ERROR_CATALOG in worker/utils/errors.ts.
+ */
+export type ErrorCode =
+  | 'VALIDATION_FAILED'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'METHOD_NOT_ALLOWED'
+  | 'CONFLICT'
+  | 'RATE_LIMITED'
+  | 'RADAR_AUTH_FAILED'
+  | 'RADAR_RATE_LIMITED'
+  | 'RADAR_URL_REJECTED'
+  | 'RADAR_UNAVAILABLE'
+  | 'SCAN_TIMEOUT'
+  | 'STORAGE_FAILED'
+  | 'DATABASE_FAILED'
+  | 'REPORT_GENERATION_FAILED'
+  | 'EMAIL_FAILED'
+  | 'INTERNAL_ERROR';
+
+/**
+ * Body of every error response, and the shape of SessionState.error
+ */
+export interface ErrorEnvelope {
+  code: ErrorCode;
+  title: string;
+  message: string;
+  action?: string;
+  retryable: boolean;
+  // Extra machine-readable fields some errors carry, e.g. retryAfter when rate limited
+  details?: ErrorDetails;
+}
+
+export type ErrorDetails = Record<
+  string,
+  string | number | boolean | null | string[] | Array<Record<string, string | number>>
+>;
+
+export type ApiKeyScope = 'scan' | 'read' | 'watchlist';
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  owner: string;
+  // First characters of the key, shown so owners can tell keys apart
+  prefix: string;
+  scopes: ApiKeyScope[];
+  revoked: boolean;
+  createdAt: number;
+  lastUsedAt?: number;
+  revokedAt?: number;
+  // Branding applied to reports of scans made with this key, unless the request picks another
+  brandingProfileId?: string;
+}
+
+/**
+ * White-label branding for PDF reports and emails. The logo PNG is stored
+ * in R2 under branding/{id}/logo.png.
+ */
+export interface BrandingProfile {
+  id: string;
+  // Internal label, never shown in reports
+  name: string;
+  companyName: string;
+  primaryColor: string;   // Hex, e.g. #1E40AF
+  footerText: string;
+  contactLine?: string;
+  hasLogo: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type AuthContext =
+  | { type: 'browser'; clientId: string }
+  | { type: 'api_key'; apiKey: ApiKey };
+
+export interface ScanHistoryFilters {
+  status?: SessionState['status'];
+  from?: number;                // Unix timestamp (ms), inclusive
+  to?: number;                  // Unix timestamp (ms), exclusive
+  domain?: string;              // Hostname; subdomains match too
+  verdict?: 'malicious' | 'safe';
+}
+
+export interface ScanHistoryItem {
+  sessionId: string;
+  url: string;
+  domain: string | null;
+  status: SessionState['status'];
+  malicious: boolean | null;
+  riskScore: number | null;
+  cacheHit: boolean;
+  batchId: string | null;
+  watchlistId: string | null;
+  reportAvailable: boolean;
+  error: ErrorEnvelope | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ScanHistoryPage {
+  scans: ScanHistoryItem[];
+  nextCursor: string | null;
+}
+
+export type RateLimitAction = 'scan' | 'email';
+
+export interface RateLimitRequest {
+  action: RateLimitAction;
+  limits: Array<{ limit: number; windowSeconds: number }>;
+  // Tokens wanted from every bucket; defaults to 1. Fewer are granted when the buckets run low.
+  cost?: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  granted: number;              // Tokens taken, from 0 up to the requested cost
+  limit: number;
+  remaining: number;
+  resetAt: number;              // Unix time (seconds) when the bucket is full again
+  retryAfterSeconds: number;    // 0 when every requested token was granted
+}
+
+export interface WebhookDelivery {
+  attempt: number;
+  attemptedAt: number;
+  ok: boolean;
+  statusCode?: number;
+  error?: string;
+}
+
+/**
+ * Body POSTed to a session's callbackUrl when the scan finishes
+ */
+export interface WebhookPayload {
+  event: 'scan.completed' | 'scan.failed';
+  sessionId: string;
+  url: string;
+  status: 'completed' | 'failed';
+  finishedAt: string;
+  error?: string;
+  errorCode?: ErrorCode;
+  verdict?: {
+    malicious: boolean;
+    categories: string[];
+    tags: string[];
+  };
+  summary?: {
+    domain: string;
+    totalRequests: number;
+    domainsContacted: number;
+    technologies: number;
+    phishingIndicators: number;
+  };
+  links: {
+    session: string;
+    report?: string;
+    jsonReport?: string;
+  };
+}
+
+export interface BatchItemStatus {
+  sessionId: string;
+  url: string;
+  status: SessionState['status'];
+  progressPercent: number;
+  malicious?: boolean;
+  cacheHit?: boolean;
+  error?: ErrorEnvelope;
+}
+
+export interface BatchStatus {
+  batchId: string;
+  createdAt: number;
+  status: 'running' | 'completed';
+  total: number;
+  completed: number;
+  failed: number;
+  inProgress: number;
+  malicious: number;
+  progressPercent: number;
+  items: BatchItemStatus[];
+  brandingProfileId?: string;
+  locale?: Locale;
+  // API key or browser identity that created the batch; only they can read it
+  apiKeyId?: string;
+  clientId?: string;
+}
+
+export interface WatchlistEntry {
+  id: string;
+  url: string;
+  email: string;
+  intervalMinutes: number;
+  enabled: boolean;
+  scanOptions?: ScanOptions;
+  brandingProfileId?: string;
+  locale?: Locale;
+  // API key or browser identity that created the entry; only they can see or change it
+  apiKeyId?: string;
+  clientId?: string;
+  createdAt: number;
+  updatedAt: number;
+  nextRunAt: number;
+  lastRunAt?: number;
+  lastSessionId?: string;
+  // Baseline from the last completed scan, used to detect changes
+  lastMalicious?: boolean;
+  lastDomains?: string[];
+}
+
+export interface WatchlistRun {
+  sessionId: string;
+  watchlistId: string;
+  startedAt: number;
+  completedAt?: number;
+  malicious?: boolean;
+  verdictChanged: boolean;
+  domainsAdded: string[];
+  domainsRemoved: string[];
+  notified: boolean;
 }
 
 export interface RadarScanResponse {
@@ -47,6 +332,44 @@ export interface RadarScanResponse {
   visibility: string;
 }
 
+export type ScreenshotResolution = 'desktop' | 'mobile' | 'tablet';
+
+export interface ScanOptions {
+  visibility: 'Public' | 'Unlisted';
+  userAgent?: string;
+  referer?: string;
+  customHeaders?: Record<string, string>;
+  screenshotsResolutions?: ScreenshotResolution[];
+}
+
+// Scan options as published in reports and webhooks. Header values may carry credentials, so only names are kept
+export interface ReportScanOptions extends Omit<ScanOptions, 'customHeaders'> {
+  customHeaderNames?: string[];
+}
+
+// Options for the generated PDF; unlike ScanOptions they do not affect the Radar scan or its cache key
+export interface ReportOptions {
+  // Append a table of every network request, grouped by host
+  requestAppendix?: boolean;
+}
+
+// Languages with a message catalog in worker/i18n
+export type Locale = 'en' | 'de' | 'fr' | 'ja';
+
+export interface RadarSubmitRequest extends Partial<ScanOptions> {
+  url: string;
+}
+
+export interface RadarSearchResponse {
+  results: Array<{
+    task: Pick<RadarScanResult['task'], 'uuid' | 'url' | 'time' | 'visibility'>;
+    page: Partial<Pick<RadarScanResult['page'], 'url' | 'domain' | 'country' | 'ip' | 'asn' | 'status'>>;
+    verdicts?: {
+      malicious: boolean;
+    };
+  }>;
+}
+
 export interface RadarScanResult {
   data: {
     requests: Array<{
@@ -148,3 +471,161 @@ export interface RadarScanResult {
     userAgent?: string;
   };
 }
+
+/**
+ * Normalized scan summary (schema version 1). The PDF report, the email and
+ * GET /api/report/:sessionId.json are all rendered from this model.
+ * Fields are only ever added within a schema version, never renamed or removed.
+ */
+export interface ScanReport {
+  schemaVersion: 1;
+  generatedAt: string;
+  scan: {
+    sessionId?: string;
+    url: string;
+    radarUuid: string;
+    scannedAt: string;
+    visibility: string;
+    cacheHit: boolean;
+    cachedAt?: string;
+    options?: ReportScanOptions;
+  };
+  verdict: {
+    malicious: boolean;
+    label: 'SAFE' | 'MALICIOUS';
+    // Same as risk.level
+    threatLevel: RiskLevel;
+    categories: string[];
+    tags: string[];
+    scanners: Record<string, { malicious: boolean }>;
+  };
+  page: {
+    url: string;
+    domain: string;
+    ip: string;
+    country: string;
+    asn: string;
+    status: string;
+    title?: string;
+    server?: string;
+  };
+  technologies: Array<{
+    name: string;
+    categories: string[];
+    version?: string;
+    confidence: number;
+  }>;
+  network: {
+    totalRequests: number;
+    failedRequests: number;
+    requestTypes: Record<string, number>;
+    uniqueIps: number;
+    uniqueCountries: number;
+    dataTransferredBytes: number;
+    secureRequests?: number;
+    linksFound: number;
+    consoleMessages: number;
+    consoleErrors: number;
+    consoleWarnings: number;
+  };
+  cookies: {
+    total: number;
+    secure: number;
+    httpOnly: number;
+    thirdParty: number;
+  };
+  tls: {
+    protocol?: string;
+    issuer?: string;
+    validFrom?: string;
+    validTo?: string;
+  } | null;
+  phishing: {
+    indicators: string[];
+  };
+  maliciousContent: {
+    requests: number;
+    domains: number;
+  };
+  iocs: {
+    domains: string[];
+    ips: string[];
+    asns: string[];
+    countries: string[];
+    urls: string[];
+  };
+  risk: RiskScore;
+}
+
+export type RiskFactorId =
+  | 'maliciousVerdict'
+  | 'phishing'
+  | 'maliciousContent'
+  | 'tls'
+  | 'domainRank'
+  | 'thirdPartyDomains'
+  | 'cookies'
+  | 'failedRequests';
+
+export type RiskLevel = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+
+// One signal's contribution to the risk score
+export interface RiskFactor {
+  id: RiskFactorId;
+  label: string;
+  points: number;         // Between 0 and weight
+  weight: number;
+  detail: string;
+}
+
+/**
+ * Composite 0-100 risk score; factors lists only the signals that added
+ * points, largest first
+ */
+export interface RiskScore {
+  score: number;
+  level: RiskLevel;
+  factors: RiskFactor[];
+}
+
+export interface ListDiff {
+  added: string[];
+  removed: string[];
+}
+
+/**
+ * Differences between two stored scans, returned by GET /api/diff and
+ * rendered as the "Changes since last scan" PDF section
+ */
+export interface ScanDiff {
+  from: { sessionId: string; url: string; scannedAt: string };
+  to: { sessionId: string; url: string; scannedAt: string };
+  hasChanges: boolean;
+  verdict: {
+    changed: boolean;
+    fromMalicious: boolean;
+    toMalicious: boolean;
+    categories: ListDiff;
+  };
+  domains: ListDiff;
+  ips: ListDiff;
+  asns: ListDiff;
+  countries: ListDiff;
+  // Script URLs without query strings, so cache busters do not show up as changes
+  scripts: ListDiff;
+  technologies: {
+    added: Array<{ name: string; version?: string }>;
+    removed: Array<{ name: string; version?: string }>;
+    versionChanged: Array<{ name: string; from?: string; to?: string }>;
+  };
+  cookies: ListDiff & {
+    changed: Array<{ cookie: string; changes: string[] }>;
+  };
+  certificate: {
+    changed: boolean;
+    issuerChanged: boolean;
+    validityChanged: boolean;
+    from: ScanReport['tls'];
+    to: ScanReport['tls'];
+  };
+}
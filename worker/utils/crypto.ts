@@ -0,0 +1,66 @@
+/**
+ * HMAC and encoding helpers for signed tokens and webhooks
+ */
+
+const encoder = new TextEncoder();
+
+async function importHmacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+}
+
+/**
+ * Raw HMAC-SHA256 of a message
+ */
+export async function hmacSha256(secret: string, message: string): Promise<Uint8Array> {
+  const signature = await crypto.subtle.sign('HMAC', await importHmacKey(secret), encoder.encode(message));
+  return new Uint8Array(signature);
+}
+
+/**
+ * Hex HMAC-SHA256 of a message
+ */
+export async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  return Array.from(await hmacSha256(secret, message))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export function base64UrlEncode(input: Uint8Array | string): string {
+  const bytes = typeof input === 'string' ? encoder.encode(input) : input;
+  let binary = '';
+  bytes.forEach(b => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode base64url to a UTF-8 string. Throws on malformed input.
+ */
+export function base64UrlDecode(input: string): string {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+}
+
+/**
+ * Constant-time string comparison for secrets
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+  if (left.length !== right.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < left.length; i++) {
+    diff |= left[i] ^ right[i];
+  }
+  return diff === 0;
+}
@@ -0,0 +1,358 @@
+/**
+ * Typed errors and the envelope every route and session reports them with
+ */
+
+import type { ErrorCode, ErrorDetails, ErrorEnvelope } from '../types';
+
+interface ErrorDefinition {
+  status: number;
+  title: string;
+  message: string;
+  action?: string;
+  retryable: boolean;
+}
+
+/**
+ * Default HTTP status, wording and retry hint for each code. Codes are part of
+ * the API contract: add new ones, never rename or reuse them.
+ */
+export const ERROR_CATALOG: Record<ErrorCode, ErrorDefinition> = {
+  VALIDATION_FAILED: {
+    status: 400,
+    title: 'Invalid Request',
+    message: 'The request is missing a field or has an invalid value.',
+    action: 'Check the request and try again.',
+    retryable: false
+  },
+  UNAUTHORIZED: {
+    status: 401,
+    title: 'Authentication Required',
+    message: 'Missing or invalid API key.',
+    action: 'Send Authorization: Bearer <key>.',
+    retryable: false
+  },
+  FORBIDDEN: {
+    status: 403,
+    title: 'Not Allowed',
+    message: 'You are not allowed to do this.',
+    retryable: false
+  },
+  NOT_FOUND: {
+    status: 404,
+    title: 'Not Found',
+    message: 'The requested resource does not exist.',
+    retryable: false
+  },
+  METHOD_NOT_ALLOWED: {
+    status: 405,
+    title: 'Method Not Allowed',
+    message: 'This method is not supported here.',
+    retryable: false
+  },
+  CONFLICT: {
+    status: 409,
+    title: 'Conflict',
+    message: 'The request conflicts with the current state of the resource.',
+    retryable: false
+  },
+  RATE_LIMITED: {
+    status: 429,
+    title: 'Too Many Requests',
+    message: 'You have reached the request limit.',
+    action: 'Wait for the time in the Retry-After header, then try again.',
+    retryable: true
+  },
+  RADAR_AUTH_FAILED: {
+    status: 502,
+    title: 'Authentication Error',
+    message: 'Unable to connect to the scanning service. Please try again later.',
+    action: 'If this persists, contact support.',
+    retryable: false
+  },
+  RADAR_RATE_LIMITED: {
+    status: 503,
+    title: 'Too Many Requests',
+    message: 'We\'re receiving a high volume of scan requests right now.',
+    action: 'Please wait a few minutes and try again.',
+    retryable: true
+  },
+  RADAR_URL_REJECTED: {
+    status: 422,
+    title: 'Invalid URL',
+    message: 'The URL you provided couldn\'t be scanned.',
+    action: 'Please check the URL and try again.',
+    retryable: false
+  },
+  RADAR_UNAVAILABLE: {
+    status: 502,
+    title: 'Scanning Service Error',
+    message: 'We encountered an issue while scanning your URL.',
+    action: 'Please try again in a few moments.',
+    retryable: true
+  },
+  SCAN_TIMEOUT: {
+    status: 504,
+    title: 'Scan Timeout',
+    message: 'The scan took longer than expected to complete.',
+    action: 'Please try scanning this URL again.',
+    retryable: true
+  },
+  STORAGE_FAILED: {
+    status: 503,
+    title: 'Storage Error',
+    message: 'We couldn\'t save your scan report.',
+    action: 'Please try scanning again.',
+    retryable: true
+  },
+  DATABASE_FAILED: {
+    status: 503,
+    title: 'Database Error',
+    message: 'We encountered an issue saving your scan data.',
+    action: 'Your scan may still complete. Please check back in a moment.',
+    retryable: true
+  },
+  REPORT_GENERATION_FAILED: {
+    status: 500,
+    title: 'Report Generation Error',
+    message: 'We couldn\'t generate your PDF report.',
+    action: 'Please try scanning again.',
+    retryable: true
+  },
+  EMAIL_FAILED: {
+    status: 502,
+    title: 'Email Delivery Failed',
+    message: 'We couldn\'t send the report to your email.',
+    action: 'You can still download the report from this page.',
+    retryable: true
+  },
+  INTERNAL_ERROR: {
+    status: 500,
+    title: 'Something Went Wrong',
+    message: 'We encountered an unexpected error.',
+    action: 'Please try again. If the problem persists, contact support.',
+    retryable: true
+  }
+};
+
+export function isErrorCode(code: unknown): code is ErrorCode {
+  return typeof code === 'string' && Object.prototype.hasOwnProperty.call(ERROR_CATALOG, code);
+}
+
+/**
+ * Envelope for a code, with the catalog wording unless a message is given
+ */
+export function errorEnvelope(code: ErrorCode, message?: string): ErrorEnvelope {
+  const definition = ERROR_CATALOG[code];
+  return {
+    code,
+    title: definition.title,
+    message: message || definition.message,
+    action: definition.action,
+    retryable: definition.retryable
+  };
+}
+
+/**
+ * Envelope for an error read back from D1. Rows written before error codes
+ * existed have no code and report INTERNAL_ERROR with their stored message.
+ */
+export function storedErrorEnvelope(code: string | null, message: string): ErrorEnvelope {
+  return errorEnvelope(isErrorCode(code) ? code : 'INTERNAL_ERROR', message);
+}
+
+interface AppErrorOptions {
+  // Shown to the caller; defaults to the catalog message
+  message?: string;
+  // Technical detail for logs only
+  detail?: string;
+  // Extra machine-readable fields for the envelope, e.g. the invalid URLs of a batch
+  details?: ErrorDetails;
+  cause?: unknown;
+}
+
+/**
+ * Base class for errors the API reports with a stable code. Error.message
+ * holds the technical detail for logs; the envelope holds what callers see.
+ */
+export class AppError extends Error {
+  readonly code: ErrorCode;
+  readonly httpStatus: number;
+  readonly retryable: boolean;
+  readonly publicMessage?: string;
+  readonly details?: ErrorDetails;
+
+  constructor(code: ErrorCode, options: AppErrorOptions = {}) {
+    super(options.detail || options.message || ERROR_CATALOG[code].message, { cause: options.cause });
+    this.name = 'AppError';
+    this.code = code;
+    this.httpStatus = ERROR_CATALOG[code].status;
+    this.retryable = ERROR_CATALOG[code].retryable;
+    this.publicMessage = options.message;
+    this.details = options.details;
+  }
+
+  toEnvelope(): ErrorEnvelope {
+    const envelope = errorEnvelope(this.code, this.publicMessage);
+    return this.details ? { ...envelope, details: this.details } : envelope;
+  }
+}
+
+export class ValidationError extends AppError {
+  constructor(message: string, details?: ErrorDetails) {
+    super('VALIDATION_FAILED', { message, details });
+    this.name = 'ValidationError';
+  }
+}
+
+export class AuthenticationError extends AppError {
+  constructor(message?: string) {
+    super('UNAUTHORIZED', { message });
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message: string) {
+    super('FORBIDDEN', { message });
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: string, details?: ErrorDetails) {
+    super('NOT_FOUND', { message, details });
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string, details?: ErrorDetails) {
+    super('CONFLICT', { message, details });
+    this.name = 'ConflictError';
+  }
+}
+
+export class RateLimitError extends AppError {
+  readonly retryAfterSeconds: number;
+
+  constructor(message: string, retryAfterSeconds: number) {
+    super('RATE_LIMITED', { message, details: { retryAfter: retryAfterSeconds } });
+    this.name = 'RateLimitError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+function radarErrorCode(status: number): ErrorCode {
+  if (status === 401 || status === 403) {
+    return 'RADAR_AUTH_FAILED';
+  }
+  if (status === 429) {
+    return 'RADAR_RATE_LIMITED';
+  }
+  if (status === 400 || status === 422) {
+    return 'RADAR_URL_REJECTED';
+  }
+  return 'RADAR_UNAVAILABLE';
+}
+
+/**
+ * Non-2xx response from the Radar API. `status` is Radar's status code, which
+ * isRetryableError checks.
+ */
+export class RadarApiError extends AppError {
+  readonly status: number;
+  readonly body: string;
+
+  constructor(status: number, body: string) {
+    super(radarErrorCode(status), { detail: `Radar API error (${status}): ${body}` });
+    this.name = 'RadarApiError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+export class ScanTimeoutError extends AppError {
+  constructor(detail: string) {
+    super('SCAN_TIMEOUT', { detail });
+    this.name = 'ScanTimeoutError';
+  }
+}
+
+export class StorageError extends AppError {
+  constructor(detail: string, cause?: unknown) {
+    super('STORAGE_FAILED', { detail, cause });
+    this.name = 'StorageError';
+  }
+}
+
+export class DatabaseError extends AppError {
+  constructor(detail: string, cause?: unknown) {
+    super('DATABASE_FAILED', { detail, cause });
+    this.name = 'DatabaseError';
+  }
+}
+
+export class ReportGenerationError extends AppError {
+  constructor(detail: string, cause?: unknown) {
+    super('REPORT_GENERATION_FAILED', { detail, cause });
+    this.name = 'ReportGenerationError';
+  }
+}
+
+export class EmailError extends AppError {
+  constructor(detail: string, cause?: unknown) {
+    super('EMAIL_FAILED', { detail, cause });
+    this.name = 'EmailError';
+  }
+}
+
+/**
+ * Envelope for any thrown value; unexpected errors never leak their message
+ */
+export function toErrorEnvelope(error: unknown): ErrorEnvelope {
+  return error instanceof AppError ? error.toEnvelope() : errorEnvelope('INTERNAL_ERROR');
+}
+
+function describe(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Keep typed errors as they are and wrap anything else in the given kind.
+ * Errors lose their class when they cross a Workflow step boundary, so the
+ * workflow wraps each stage's failures with the kind of error that stage raises.
+ */
+export function wrapError(error: unknown, wrap: (detail: string, cause: unknown) => AppError): AppError {
+  return error instanceof AppError ? error : wrap(describe(error), error);
+}
+
+/**
+ * Radar errors that crossed a Workflow step boundary arrive as plain Errors;
+ * recover the Radar status from the RadarApiError message format
+ */
+export function toRadarError(error: unknown): AppError {
+  if (error instanceof AppError) {
+    return error;
+  }
+  const match = describe(error).match(/^Radar API error \((\d{3})\): ([\s\S]*)$/);
+  return match
+    ? new RadarApiError(Number(match[1]), match[2])
+    : new AppError('RADAR_UNAVAILABLE', { detail: describe(error), cause: error });
+}
+
+/**
+ * Format error for logging (includes technical details)
+ */
+export function formatErrorForLogging(error: unknown, context?: string): string {
+  const prefix = context ? `[${context}]` : '';
+
+  if (error instanceof AppError) {
+    return `${prefix} ${error.name} [${error.code}]: ${error.message}\n${error.stack || ''}`;
+  }
+
+  if (error instanceof Error) {
+    return `${prefix} ${error.name}: ${error.message}\n${error.stack || ''}`;
+  }
+
+  return `${prefix} ${String(error)}`;
+}
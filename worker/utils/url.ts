@@ -0,0 +1,38 @@
+/**
+ * URL normalization helpers
+ */
+
+/**
+ * Normalize a URL so equivalent submissions map to the same cache entry.
+ * Lowercases scheme and host, drops default ports, fragments and trailing
+ * slashes, and sorts query parameters.
+ */
+export function normalizeUrl(url: string): string {
+  const parsed = new URL(url);
+
+  parsed.hash = '';
+  parsed.hostname = parsed.hostname.toLowerCase();
+
+  if ((parsed.protocol === 'http:' && parsed.port === '80') ||
+      (parsed.protocol === 'https:' && parsed.port === '443')) {
+    parsed.port = '';
+  }
+
+  parsed.searchParams.sort();
+
+  if (parsed.pathname.length > 1 && parsed.pathname.endsWith('/')) {
+    parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+  }
+
+  return parsed.toString();
+}
+
+/**
+ * SHA-256 hex digest of a string
+ */
+export async function sha256Hex(input: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
@@ -1,3 +1,5 @@
+import type { ReportOptions, ScanOptions, ScreenshotResolution } from '../types';
+
 /**
  * Validates a URL for security and format
  */
@@ -73,3 +75,115 @@ export function sanitizeString(input: string): string {
     .trim()
     .substring(0, 2048);
 }
+
+const SCREENSHOT_RESOLUTIONS = ['desktop', 'mobile', 'tablet'] as const;
+const FORBIDDEN_HEADERS = ['host', 'content-length', 'connection', 'transfer-encoding', 'upgrade'];
+const MAX_CUSTOM_HEADERS = 10;
+
+export const DEFAULT_SCAN_OPTIONS: ScanOptions = {
+  visibility: 'Unlisted',
+  screenshotsResolutions: ['desktop']
+};
+
+/**
+ * Validates and normalizes Radar scan options from a request body.
+ * Missing fields fall back to DEFAULT_SCAN_OPTIONS.
+ */
+export function validateScanOptions(input: unknown): { options: ScanOptions } | { error: string } {
+  if (input === undefined || input === null) {
+    return { options: { ...DEFAULT_SCAN_OPTIONS } };
+  }
+
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'Scan options must be an object' };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const options: ScanOptions = { ...DEFAULT_SCAN_OPTIONS };
+
+  if (raw.visibility !== undefined) {
+    if (raw.visibility !== 'Public' && raw.visibility !== 'Unlisted') {
+      return { error: 'Visibility must be "Public" or "Unlisted"' };
+    }
+    options.visibility = raw.visibility;
+  }
+
+  if (raw.userAgent !== undefined && raw.userAgent !== '') {
+    if (typeof raw.userAgent !== 'string' || raw.userAgent.length > 512 || /[\r\n]/.test(raw.userAgent)) {
+      return { error: 'User agent must be a single line of at most 512 characters' };
+    }
+    options.userAgent = raw.userAgent.trim();
+  }
+
+  if (raw.referer !== undefined && raw.referer !== '') {
+    if (typeof raw.referer !== 'string' || !isValidUrl(raw.referer)) {
+      return { error: 'Referer must be a public HTTP/HTTPS URL' };
+    }
+    options.referer = raw.referer;
+  }
+
+  if (raw.customHeaders !== undefined) {
+    if (typeof raw.customHeaders !== 'object' || raw.customHeaders === null || Array.isArray(raw.customHeaders)) {
+      return { error: 'Custom headers must be an object of header names to values' };
+    }
+
+    const entries = Object.entries(raw.customHeaders as Record<string, unknown>);
+    if (entries.length > MAX_CUSTOM_HEADERS) {
+      return { error: `At most ${MAX_CUSTOM_HEADERS} custom headers are allowed` };
+    }
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of entries) {
+      if (!/^[A-Za-z0-9-]{1,64}$/.test(name)) {
+        return { error: `Invalid header name: ${name}` };
+      }
+      if (FORBIDDEN_HEADERS.includes(name.toLowerCase())) {
+        return { error: `Header not allowed: ${name}` };
+      }
+      if (typeof value !== 'string' || value.length > 1024 || /[\r\n]/.test(value)) {
+        return { error: `Invalid value for header: ${name}` };
+      }
+      headers[name] = value;
+    }
+
+    if (Object.keys(headers).length > 0) {
+      options.customHeaders = headers;
+    }
+  }
+
+  if (raw.screenshotsResolutions !== undefined) {
+    const resolutions = raw.screenshotsResolutions;
+    if (!Array.isArray(resolutions) || resolutions.length === 0 ||
+        !resolutions.every(r => (SCREENSHOT_RESOLUTIONS as readonly unknown[]).includes(r))) {
+      return { error: `Screenshot sizes must be a non-empty list of: ${SCREENSHOT_RESOLUTIONS.join(', ')}` };
+    }
+    options.screenshotsResolutions = [...new Set(resolutions as ScreenshotResolution[])];
+  }
+
+  return { options };
+}
+
+/**
+ * Validates PDF report options from a request body
+ */
+export function validateReportOptions(input: unknown): { options: ReportOptions } | { error: string } {
+  if (input === undefined || input === null) {
+    return { options: {} };
+  }
+
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'Report options must be an object' };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const options: ReportOptions = {};
+
+  if (raw.requestAppendix !== undefined) {
+    if (typeof raw.requestAppendix !== 'boolean') {
+      return { error: 'requestAppendix must be a boolean' };
+    }
+    options.requestAppendix = raw.requestAppendix;
+  }
+
+  return { options };
+}
@@ -1,9 +1,29 @@
 import { WorkflowEntrypoint, WorkflowStep } from 'cloudflare:workers';
 import type { WorkflowEvent } from 'cloudflare:workers';
-import type { Env, RadarScanResponse, RadarScanResult, SessionState } from '../types';
+import type { Env, RadarScanResponse, RadarScanResult, ScanReport, ScreenshotResolution, SessionState } from '../types';
 import { generatePDFReport } from '../services/pdf-generator';
+import { resolveReportFonts } from '../services/fonts';
+import { getMessages } from '../i18n';
+import { buildScanReport } from '../services/report-summary';
+import { computeRiskScore, getRiskWeights } from '../services/risk-score';
+import { loadBranding } from '../services/branding';
+import { createRadarClient } from '../services/radar-client';
+import { recordWatchlistResult } from '../services/watchlist';
+import { diffScans, findPreviousSessionId, loadStoredScan } from '../services/scan-diff';
+import { buildWebhookPayload, isRetryableDelivery, sendWebhook } from '../services/webhook';
+import { artifactKey, putArtifact, screenshotKey, type ArtifactKind } from '../services/artifacts';
+import { getCacheKey, getCachedScan, putCachedScan, type CachedScan } from '../services/scan-cache';
 import { retryWithBackoff, isRetryableError } from '../utils/retry';
-import { getUserFriendlyError, formatErrorForLogging } from '../utils/error-messages';
+import { DEFAULT_SCAN_OPTIONS } from '../utils/validation';
+import {
+  ReportGenerationError,
+  ScanTimeoutError,
+  StorageError,
+  formatErrorForLogging,
+  toErrorEnvelope,
+  toRadarError,
+  wrapError
+} from '../utils/errors';
 
 interface ScanParams {
   sessionId: string;
@@ -20,6 +40,9 @@ export class ScanWorkflow extends WorkflowEntrypoint<Env, ScanParams> {
       this.env.SESSION_MANAGER.idFromName(sessionId)
     );
     
+    // Set once the session is loaded so the failure path can still notify the caller
+    let callbackUrl: string | undefined;
+    
     try {
       // Step 1: Get session data
       const sessionState = await step.do<SessionState>('fetch session data', async () => {
@@ -31,126 +54,68 @@ export class ScanWorkflow extends WorkflowEntrypoint<Env, ScanParams> {
       });
       
       console.log(`[Workflow] Session data fetched for URL: ${sessionState.url}`);
+      callbackUrl = sessionState.callbackUrl;
+      const progress = getMessages(sessionState.locale).progress;
       
-      // Update progress: Starting scan
-      await step.do('update progress: starting', async () => {
-        await sessionDO.fetch('https://do/update', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            progressPercent: 5,
-            progressMessage: 'Submitting URL to Cloudflare Radar...'
-          })
-        });
-      });
+      // Check the scan cache unless the caller asked for a fresh scan
+      const urlHash = await getCacheKey(sessionState.url, sessionState.scanOptions);
       
-      // Step 2: Submit to Radar API with retry logic
-      const radarScan = await step.do<RadarScanResponse>('submit to radar api', async () => {
-        return await retryWithBackoff(
-          async () => {
-            const response = await fetch(
-              `https://api.cloudflare.com/client/v4/accounts/${this.env.CLOUDFLARE_ACCOUNT_ID}/urlscanner/v2/scan`,
-              {
-                method: 'POST',
-                headers: {
-                  'Authorization': `Bearer ${this.env.CLOUDFLARE_API_TOKEN}`,
-                  'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({
-                  url: sessionState.url,
-                  visibility: 'Unlisted'
-                })
-              }
-            );
-            
-            if (!response.ok) {
-              const errorText = await response.text();
-              const error = new Error(`Radar API error (${response.status}): ${errorText}`) as Error & { status: number };
-              error.status = response.status;
-              throw error;
-            }
-            
-            const result = await response.json<RadarScanResponse>();
-            console.log('[Workflow] Radar API response:', JSON.stringify(result));
-            return result;
-          },
-          {
-            maxAttempts: 3,
-            initialDelayMs: 2000,
-            maxDelayMs: 10000,
-            retryableErrors: isRetryableError
-          }
-        );
-      });
-      
-      console.log(`[Workflow] Radar scan submitted: ${radarScan.uuid}`);
+      const cachedScan = sessionState.force
+        ? null
+        : await step.do<CachedScan | null>('check scan cache', async () => {
+            return await getCachedScan(this.env, urlHash);
+          });
       
-      // Update session with Radar UUID and progress
-      await step.do('update session with radar uuid', async () => {
-        await sessionDO.fetch('https://do/update', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            status: 'scanning',
-            radarUuid: radarScan.uuid,
-            progressPercent: 15,
-            progressMessage: 'Scan submitted. Waiting for results...'
-          })
-        });
-      });
+      let scanResult: RadarScanResult;
       
-      // Step 3: Poll for scan results with adaptive intervals
-      const scanResult = (await step.do('poll for scan results', async () => {
-        const maxAttempts = 40;
+      if (cachedScan) {
+        console.log(`[Workflow] Cache hit for ${sessionState.url}, radar uuid: ${cachedScan.radarUuid}`);
         
-        for (let attempt = 0; attempt < maxAttempts; attempt++) {
-          // Update progress during polling
-          const progressPercent = Math.min(15 + Math.floor((attempt / maxAttempts) * 50), 65);
+        await step.do('update session from cache', async () => {
           await sessionDO.fetch('https://do/update', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
-              progressPercent,
-              progressMessage: `Analyzing URL... (${attempt + 1}/${maxAttempts})`
+              status: 'scanning',
+              radarUuid: cachedScan.radarUuid,
+              cacheHit: true,
+              cachedAt: cachedScan.cachedAt,
+              progressPercent: 65,
+              progressMessage: progress.reusingCache
             })
           });
-          
-          console.log(`[Workflow] Polling attempt ${attempt + 1}/${maxAttempts}`);
-          
-          const response = await fetch(
-            `https://api.cloudflare.com/client/v4/accounts/${this.env.CLOUDFLARE_ACCOUNT_ID}/urlscanner/v2/result/${radarScan.uuid}`,
-            {
-              headers: {
-                'Authorization': `Bearer ${this.env.CLOUDFLARE_API_TOKEN}`
-              }
-            }
-          );
-          
-          if (response.status === 200) {
-            const result = await response.json<RadarScanResult>();
-            console.log(`[Workflow] Scan completed successfully`);
-            return result;
-          } else if (response.status === 404) {
-            // Still processing, wait and retry
-            if (attempt < maxAttempts - 1) {
-              // Use the appropriate sleep duration based on attempt
-              if (attempt < 5) {
-                await step.sleep('wait for scan', '5 seconds');
-              } else if (attempt < 15) {
-                await step.sleep('wait for scan', '10 seconds');
-              } else {
-                await step.sleep('wait for scan', '15 seconds');
-              }
-            }
-            continue;
-          } else {
-            const errorText = await response.text();
-            throw new Error(`Radar API error (${response.status}): ${errorText}`);
-          }
-        }
+        });
+        
+        scanResult = cachedScan.result;
+      } else {
+        scanResult = await this.runRadarScan(step, sessionDO, sessionState);
         
-        throw new Error('Scan timeout after 10 minutes');
-      })) as RadarScanResult;
+        await step.do('write scan cache', async () => {
+          await putCachedScan(this.env, urlHash, scanResult.task.uuid, scanResult);
+        });
+      }
+      
+      // Download page screenshots into R2 (best-effort, a missing screenshot never fails the scan)
+      const screenshots = await step.do<Partial<Record<ScreenshotResolution, string>>>('store screenshots', async () => {
+        return await this.storeScreenshots(sessionId, scanResult.task.uuid, sessionState);
+      });
+      
+      // Keep the raw result, HAR and DOM next to the report for forensics tooling
+      const artifacts = await step.do<Partial<Record<ArtifactKind, string>>>('store artifacts', async () => {
+        return await this.storeArtifacts(sessionId, scanResult, sessionState);
+      }).catch(error => {
+        throw wrapError(error, (detail, cause) => new StorageError(detail, cause));
+      });
+      
+      // Earlier scan of the same URL, for the "Changes since last scan" section
+      const previousSessionId = await step.do<string | null>('find previous scan', async () => {
+        try {
+          return await findPreviousSessionId(this.env, sessionState);
+        } catch (error) {
+          console.error('[Workflow] Failed to look up previous scan:', error);
+          return null;
+        }
+      });
       
       // Step 4: Update status to generating
       await step.do('update status to generating', async () => {
@@ -160,7 +125,7 @@ export class ScanWorkflow extends WorkflowEntrypoint<Env, ScanParams> {
           body: JSON.stringify({ 
             status: 'generating',
             progressPercent: 70,
-            progressMessage: 'Scan complete! Generating PDF report...'
+            progressMessage: progress.generating
           })
         });
       });
@@ -169,7 +134,38 @@ export class ScanWorkflow extends WorkflowEntrypoint<Env, ScanParams> {
       
       // Step 5: Generate PDF
       const pdfBuffer = (await step.do('generate pdf', async () => {
-        return await generatePDFReport(scanResult, sessionState.url);
+        const screenshotKey = Object.values(screenshots)[0];
+        const screenshot = screenshotKey
+          ? await this.env.radar_scan_reports.get(screenshotKey)
+          : null;
+        // Falls back to English when the locale's fonts are not uploaded
+        const language = await resolveReportFonts(this.env, sessionState.locale);
+        
+        const report = buildScanReport(scanResult, {
+          sessionId,
+          url: sessionState.url,
+          cacheHit: !!cachedScan,
+          cachedAt: cachedScan?.cachedAt,
+          scanOptions: sessionState.scanOptions,
+          riskWeights: getRiskWeights(this.env),
+          locale: language.locale
+        });
+        
+        const previousScan = previousSessionId
+          ? await loadStoredScan(this.env, previousSessionId)
+          : null;
+        
+        return await generatePDFReport(report, {
+          screenshot: screenshot ? new Uint8Array(await screenshot.arrayBuffer()) : undefined,
+          diff: previousScan
+            ? diffScans(previousScan, { sessionId, url: sessionState.url, result: scanResult })
+            : undefined,
+          requests: sessionState.reportOptions?.requestAppendix ? scanResult.data?.requests : undefined,
+          branding: await loadBranding(this.env, sessionState.brandingProfileId, { withLogo: true }),
+          ...language
+        });
+      }).catch(error => {
+        throw wrapError(error, (detail, cause) => new ReportGenerationError(detail, cause));
       })) as Uint8Array;
       
       console.log(`[Workflow] PDF generated, size: ${pdfBuffer.length} bytes`);
@@ -182,38 +178,19 @@ export class ScanWorkflow extends WorkflowEntrypoint<Env, ScanParams> {
           body: JSON.stringify({ 
             status: 'uploading',
             progressPercent: 85,
-            progressMessage: 'Uploading report to cloud storage...'
+            progressMessage: progress.uploading
           })
         });
       });
       
       // Step 7: Upload to R2 with retry logic
       const r2Key = await step.do<string>('upload to r2', async () => {
-        const key = `sessions/${sessionId}/report.pdf`;
-        
-        await retryWithBackoff(
-          async () => {
-            await this.env.radar_scan_reports.put(key, pdfBuffer, {
-              httpMetadata: {
-                contentType: 'application/pdf'
-              },
-              customMetadata: {
-                sessionId: sessionId,
-                url: sessionState.url,
-                createdAt: new Date().toISOString()
-              }
-            });
-          },
-          {
-            maxAttempts: 3,
-            initialDelayMs: 1000,
-            maxDelayMs: 5000,
-            retryableErrors: isRetryableError
-          }
-        );
+        const key = await putArtifact(this.env, sessionId, 'report', pdfBuffer, { url: sessionState.url });
         
         console.log(`[Workflow] PDF uploaded to R2: ${key}`);
         return key;
+      }).catch(error => {
+        throw wrapError(error, (detail, cause) => new StorageError(detail, cause));
       });
       
       // Step 8: Mark as completed (ready for download)
@@ -224,21 +201,45 @@ export class ScanWorkflow extends WorkflowEntrypoint<Env, ScanParams> {
           body: JSON.stringify({
             status: 'completed',
             r2Key: r2Key,
+            screenshots,
+            artifacts: { ...artifacts, report: r2Key },
+            malicious: scanResult.verdicts?.overall?.malicious || false,
+            categories: scanResult.verdicts?.overall?.categories || [],
+            risk: computeRiskScore(scanResult, getRiskWeights(this.env), sessionState.locale),
+            previousSessionId: previousSessionId || undefined,
             progressPercent: 100,
-            progressMessage: 'Scan complete! Your report is ready.'
+            progressMessage: progress.completed
           })
         });
       });
       
+      // Scheduled watchlist scans: compare with the previous run and alert on changes
+      if (sessionState.watchlistId) {
+        await step.do('check watchlist changes', async () => {
+          try {
+            const report = buildScanReport(scanResult, { sessionId, url: sessionState.url, locale: sessionState.locale });
+            await recordWatchlistResult(this.env, sessionState.watchlistId!, sessionId, report);
+          } catch (error) {
+            // The scan itself succeeded; a missed comparison is picked up on the next run
+            console.error('[Workflow] Failed to record watchlist result:', error);
+          }
+        });
+      }
+      
+      // Final step: push the result to the caller's webhook
+      if (callbackUrl) {
+        const report = buildScanReport(scanResult, { sessionId, url: sessionState.url });
+        await this.deliverWebhook(step, sessionDO, report);
+      }
+      
       console.log(`[Workflow] Scan workflow completed successfully for session: ${sessionId}`);
       
     } catch (error) {
       // Log technical error details
       console.error(formatErrorForLogging(error, 'Workflow'));
       
-      // Get user-friendly error message
-      const friendlyError = getUserFriendlyError(error);
-      const displayMessage = `${friendlyError.title}: ${friendlyError.message}${friendlyError.action ? ' ' + friendlyError.action : ''}`;
+      // Callers see the error's code and catalog wording, never the technical detail
+      const envelope = toErrorEnvelope(error);
       
       // Handle failure - mark as failed
       await step.do('mark failed', async () => {
@@ -247,13 +248,316 @@ export class ScanWorkflow extends WorkflowEntrypoint<Env, ScanParams> {
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             status: 'failed',
-            error: displayMessage
+            error: envelope
           })
         });
       });
       
+      if (callbackUrl) {
+        await this.deliverWebhook(step, sessionDO);
+      }
+      
       // Re-throw to mark workflow as failed
       throw error;
     }
   }
+
+  /**
+   * POST the signed webhook for the session's final state. Every attempt is
+   * appended to webhookDeliveries; retryable failures are retried durably by
+   * the step's retry policy.
+   */
+  private async deliverWebhook(
+    step: WorkflowStep,
+    sessionDO: DurableObjectStub,
+    report?: ScanReport
+  ): Promise<void> {
+    const updateSession = async (update: Partial<SessionState>) => {
+      await sessionDO.fetch('https://do/update', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update)
+      });
+    };
+    
+    try {
+      await step.do(
+        'deliver webhook',
+        {
+          retries: { limit: 5, delay: '30 seconds', backoff: 'exponential' },
+          timeout: '1 minute'
+        },
+        async () => {
+          const response = await sessionDO.fetch('https://do/state');
+          if (!response.ok) {
+            throw new Error('Failed to fetch session state');
+          }
+          const session = await response.json<SessionState>();
+          const deliveries = session.webhookDeliveries || [];
+          
+          const delivery = await sendWebhook(
+            this.env,
+            session.callbackUrl!,
+            await buildWebhookPayload(this.env, session, report),
+            deliveries.length + 1
+          );
+          
+          const retryable = !delivery.ok && isRetryableDelivery(delivery);
+          await updateSession({
+            webhookStatus: delivery.ok ? 'delivered' : (retryable ? 'pending' : 'failed'),
+            webhookDeliveries: [...deliveries, delivery]
+          });
+          
+          console.log(`[Workflow] Webhook attempt ${delivery.attempt}: ${delivery.ok ? 'delivered' : delivery.error}`);
+          
+          if (retryable) {
+            throw new Error(`Webhook delivery failed: ${delivery.error}`);
+          }
+        }
+      );
+    } catch (error) {
+      // Retries exhausted; the scan result itself is unaffected
+      console.error('[Workflow] Webhook delivery gave up:', error);
+      await step.do('mark webhook failed', async () => {
+        await updateSession({ webhookStatus: 'failed' });
+      });
+    }
+  }
+  
+  /**
+   * Fetch each requested screenshot resolution from Radar and store it in R2.
+   * The first resolution is stored as sessions/{id}/screenshot.png, the rest
+   * as sessions/{id}/screenshot-{resolution}.png.
+   */
+  private async storeScreenshots(
+    sessionId: string,
+    radarUuid: string,
+    sessionState: SessionState
+  ): Promise<Partial<Record<ScreenshotResolution, string>>> {
+    const radar = createRadarClient(this.env);
+    const resolutions = sessionState.scanOptions?.screenshotsResolutions || DEFAULT_SCAN_OPTIONS.screenshotsResolutions!;
+    const stored: Partial<Record<ScreenshotResolution, string>> = {};
+    
+    for (const [index, resolution] of resolutions.entries()) {
+      try {
+        const image = await retryWithBackoff(
+          () => radar.getScreenshot(radarUuid, resolution),
+          {
+            maxAttempts: 3,
+            initialDelayMs: 1000,
+            maxDelayMs: 5000,
+            retryableErrors: isRetryableError
+          }
+        );
+        
+        if (!image) {
+          console.log(`[Workflow] No ${resolution} screenshot available for ${radarUuid}`);
+          continue;
+        }
+        
+        const key = index === 0
+          ? artifactKey(sessionId, 'screenshot')
+          : screenshotKey(sessionId, resolution);
+        
+        await this.env.radar_scan_reports.put(key, image, {
+          httpMetadata: { contentType: 'image/png' },
+          customMetadata: { sessionId, resolution }
+        });
+        
+        stored[resolution] = key;
+        console.log(`[Workflow] Screenshot stored in R2: ${key}`);
+      } catch (error) {
+        console.error(`[Workflow] Failed to store ${resolution} screenshot:`, error);
+      }
+    }
+    
+    return stored;
+  }
+  
+  /**
+   * Store result.json, and the HAR and DOM snapshot when Radar has them.
+   * Returns the R2 keys that were written.
+   */
+  private async storeArtifacts(
+    sessionId: string,
+    scanResult: RadarScanResult,
+    sessionState: SessionState
+  ): Promise<Partial<Record<ArtifactKind, string>>> {
+    const radar = createRadarClient(this.env);
+    const radarUuid = scanResult.task.uuid;
+    const metadata = { url: sessionState.url, radarUuid };
+    const stored: Partial<Record<ArtifactKind, string>> = {};
+    
+    stored.result = await putArtifact(this.env, sessionId, 'result', JSON.stringify(scanResult), metadata);
+    
+    try {
+      const har = await radar.getHar(radarUuid);
+      if (har) {
+        stored.har = await putArtifact(this.env, sessionId, 'har', JSON.stringify(har), metadata);
+      }
+    } catch (error) {
+      console.error('[Workflow] Failed to store HAR:', error);
+    }
+    
+    try {
+      const dom = await radar.getDom(radarUuid);
+      if (dom) {
+        stored.dom = await putArtifact(this.env, sessionId, 'dom', dom, metadata);
+      }
+    } catch (error) {
+      console.error('[Workflow] Failed to store DOM snapshot:', error);
+    }
+    
+    console.log(`[Workflow] Artifacts stored in R2: ${Object.keys(stored).join(', ')}`);
+    return stored;
+  }
+  
+  /**
+   * Submit the URL to Radar and poll until the result is ready. A retried
+   * session resumes polling the Radar scan it already submitted, since a
+   * timed-out attempt usually means the result was merely late.
+   */
+  private async runRadarScan(
+    step: WorkflowStep,
+    sessionDO: DurableObjectStub,
+    sessionState: SessionState
+  ): Promise<RadarScanResult> {
+    const radar = createRadarClient(this.env);
+    const progress = getMessages(sessionState.locale).progress;
+    
+    let radarUuid: string;
+    
+    if (sessionState.radarUuid) {
+      radarUuid = sessionState.radarUuid;
+      console.log(`[Workflow] Attempt ${sessionState.attempt ?? 1}: resuming Radar scan ${radarUuid}`);
+      
+      await step.do('update progress: resuming', async () => {
+        await sessionDO.fetch('https://do/update', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            status: 'scanning',
+            progressPercent: 15,
+            progressMessage: progress.resuming
+          })
+        });
+      });
+    } else {
+      radarUuid = await this.submitRadarScan(step, sessionDO, sessionState).catch(error => {
+        throw toRadarError(error);
+      });
+    }
+    
+    // Step 3: Poll for scan results with adaptive intervals. A timeout is not
+    // retried here: a server-side retry resumes polling the same Radar scan.
+    const result = await step.do<RadarScanResult | null>('poll for scan results', async () => {
+      const maxAttempts = 40;
+      
+      for (let attempt = 0; attempt < maxAttempts; attempt++) {
+        // Update progress during polling
+        const progressPercent = Math.min(15 + Math.floor((attempt / maxAttempts) * 50), 65);
+        await sessionDO.fetch('https://do/update', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            progressPercent,
+            progressMessage: progress.analyzing(attempt + 1, maxAttempts)
+          })
+        });
+        
+        console.log(`[Workflow] Polling attempt ${attempt + 1}/${maxAttempts}`);
+        
+        const result = await radar.getResult(radarUuid);
+        
+        if (result) {
+          console.log(`[Workflow] Scan completed successfully`);
+          return result;
+        }
+        
+        // Still processing, wait and retry
+        if (attempt < maxAttempts - 1) {
+          // Use the appropriate sleep duration based on attempt
+          if (attempt < 5) {
+            await step.sleep('wait for scan', '5 seconds');
+          } else if (attempt < 15) {
+            await step.sleep('wait for scan', '10 seconds');
+          } else {
+            await step.sleep('wait for scan', '15 seconds');
+          }
+        }
+      }
+      
+      return null;
+    }).catch(error => {
+      throw toRadarError(error);
+    });
+    
+    if (!result) {
+      throw new ScanTimeoutError(`Radar scan ${radarUuid} still processing after 10 minutes`);
+    }
+    return result;
+  }
+
+  /**
+   * Submit the URL to Radar and record the scan UUID on the session
+   */
+  private async submitRadarScan(
+    step: WorkflowStep,
+    sessionDO: DurableObjectStub,
+    sessionState: SessionState
+  ): Promise<string> {
+    const radar = createRadarClient(this.env);
+    const progress = getMessages(sessionState.locale).progress;
+    
+    // Update progress: Starting scan
+    await step.do('update progress: starting', async () => {
+      await sessionDO.fetch('https://do/update', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          progressPercent: 5,
+          progressMessage: progress.submitting
+        })
+      });
+    });
+    
+    // Step 2: Submit to Radar API with retry logic
+    const radarScan = await step.do<RadarScanResponse>('submit to radar api', async () => {
+      return await retryWithBackoff(
+        async () => {
+          const result = await radar.submit({
+            ...DEFAULT_SCAN_OPTIONS,
+            ...sessionState.scanOptions,
+            url: sessionState.url
+          });
+          console.log('[Workflow] Radar API response:', JSON.stringify(result));
+          return result;
+        },
+        {
+          maxAttempts: 3,
+          initialDelayMs: 2000,
+          maxDelayMs: 10000,
+          retryableErrors: isRetryableError
+        }
+      );
+    });
+    
+    console.log(`[Workflow] Radar scan submitted: ${radarScan.uuid}`);
+    
+    // Update session with Radar UUID and progress
+    await step.do('update session with radar uuid', async () => {
+      await sessionDO.fetch('https://do/update', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          status: 'scanning',
+          radarUuid: radarScan.uuid,
+          progressPercent: 15,
+          progressMessage: progress.submitted
+        })
+      });
+    });
+    
+    return radarScan.uuid;
+  }
 }